@@ -0,0 +1,276 @@
+import {
+  ChatInputCommandInteraction,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  MessageFlags,
+  EmbedBuilder,
+} from "discord.js";
+import { GuildSettings } from "../db/models/GuildSettings";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { GuildPolicyUtils } from "../services/GuildPolicyUtils";
+import { InputValidator, ValidationError } from "../services/InputValidator";
+import { ILoggerService } from "../services/LoggerService";
+import { IRateLimitService } from "../services/RateLimitService";
+import { ServiceContainer } from "../services/ServiceContainer";
+
+export const name = "admin";
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription("Manage how members of this server use the bot.")
+  .setContexts([InteractionContextType.Guild])
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .addSubcommand((subcommand) =>
+    subcommand.setName("show").setDescription("Show the server policies.")
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("hosts")
+      .setDescription("Restrict the Jira hosts members may connect to.")
+      .addStringOption((option) =>
+        option
+          .setName("hosts")
+          .setDescription(
+            "Comma separated hosts, e.g. acme.atlassian.net, *.acme.com (empty allows any)."
+          )
+          .setMaxLength(1000)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("hours")
+      .setDescription("Set the default and maximum daily hours of members.")
+      .addIntegerOption((option) =>
+        option
+          .setName("default")
+          .setDescription("Daily hours for new configurations (0 resets).")
+          .setMinValue(0)
+          .setMaxValue(24)
+          .setRequired(false)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("max")
+          .setDescription("Most daily hours a member may log (0 removes).")
+          .setMinValue(0)
+          .setMaxValue(24)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("comments")
+      .setDescription("Require a comment on every worklog.")
+      .addBooleanOption((option) =>
+        option
+          .setName("required")
+          .setDescription("Whether worklogs need a comment.")
+          .setRequired(true)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("jql")
+      .setDescription("Force the JQL used to find the work of members.")
+      .addStringOption((option) =>
+        option
+          .setName("query")
+          .setDescription(
+            "JQL used instead of members' own, {0} is the day as yyyy-MM-dd (empty removes)."
+          )
+          .setMaxLength(1000)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("autolog")
+      .setDescription("Turn automatic daily logging on or off for the server.")
+      .addBooleanOption((option) =>
+        option
+          .setName("enabled")
+          .setDescription("Whether the scheduler logs time for members.")
+          .setRequired(true)
+      )
+  );
+
+/**
+ * Apply a subcommand's options to the guild policies. Throws a
+ * ValidationError for invalid options
+ */
+function applyPolicyChange(
+  settings: GuildSettings,
+  subcommand: string,
+  interaction: ChatInputCommandInteraction
+) {
+  const option = <T>(optionName: string) =>
+    interaction.options.get(optionName, false)?.value as T | undefined;
+
+  switch (subcommand) {
+    case "hosts": {
+      const hosts = GuildPolicyUtils.parseAllowedHosts(option<string>("hosts"))
+        .map((host) =>
+          host.startsWith("*.")
+            ? `*.${InputValidator.validateJiraHost(host.slice(2))}`
+            : InputValidator.validateJiraHost(host)
+        )
+        .join(",");
+      settings.allowedHosts = hosts || null;
+      break;
+    }
+    case "hours": {
+      const defaultHours = option<number>("default");
+      const maxHours = option<number>("max");
+      if (defaultHours !== undefined) {
+        settings.defaultDailyHours =
+          defaultHours === 0
+            ? null
+            : InputValidator.validateDailyHours(defaultHours);
+      }
+      if (maxHours !== undefined) {
+        settings.maxDailyHours =
+          maxHours === 0 ? null : InputValidator.validateDailyHours(maxHours);
+      }
+      if (
+        settings.defaultDailyHours &&
+        !GuildPolicyUtils.isWithinMaxDailyHours(
+          settings,
+          settings.defaultDailyHours
+        )
+      ) {
+        throw new ValidationError(
+          "Default daily hours cannot be more than the maximum"
+        );
+      }
+      break;
+    }
+    case "comments":
+      settings.requireWorklogComment = option<boolean>("required") ?? false;
+      break;
+    case "jql":
+      settings.forcedJql =
+        InputValidator.validateJQL(option<string>("query")) ?? null;
+      break;
+    case "autolog":
+      settings.autoLoggingDisabled = !(option<boolean>("enabled") ?? true);
+      break;
+  }
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+
+    // Check rate limit for admin command
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "admin");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    // Discord hides the command from other members, but permissions can be
+    // overridden per server so check again
+    if (
+      !interaction.guildId ||
+      !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)
+    ) {
+      const unauthorizedEmbed = new EmbedBuilder()
+        .setTitle("🚫 Access Denied")
+        .setDescription(
+          "You need the Manage Server permission to use this command."
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [unauthorizedEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+
+    loggerService.logInfo("Executing admin command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+      Subcommand: subcommand,
+    });
+
+    let settings: GuildSettings | null;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
+
+      if (subcommand === "show") {
+        settings = await GuildSettings.findForGuild(interaction.guildId);
+      } else {
+        [settings] = await GuildSettings.findOrCreate({
+          where: { guildId: interaction.guildId },
+          defaults: { guildId: interaction.guildId },
+        });
+        applyPolicyChange(settings, subcommand, interaction);
+        await settings.save();
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(InputValidator.sanitizeInput(error.message))
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const updated = subcommand !== "show";
+
+    const embed = new EmbedBuilder()
+      .setTitle(updated ? "🛡️ Server Policies Updated" : "🛡️ Server Policies")
+      .setDescription(
+        GuildPolicyUtils.describe(settings)
+          .map((line) => `• ${line}`)
+          .join("\n")
+      )
+      .setColor(updated ? 0x00ff00 : 0x0099ff)
+      .addFields([
+        {
+          name: "📋 Applies To",
+          value:
+            "`/setup`, `/time`, `/hours` and the daily schedule of members who set up in this server.",
+          inline: false,
+        },
+      ])
+      .setTimestamp()
+      .setFooter({
+        text: `${updated ? "Updated" : "Requested"} by ${
+          interaction.user.username
+        }`,
+        iconURL: interaction.user.displayAvatarURL(),
+      });
+
+    return interaction.reply({
+      embeds: [embed],
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
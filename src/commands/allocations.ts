@@ -0,0 +1,293 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import { Allocation, MAX_ALLOCATIONS } from "../db/models/Allocation";
+import { DEFAULT_PROFILE, JiraConfig } from "../db/models/JiraConfig";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { InputValidator, ValidationError } from "../services/InputValidator";
+import { ILoggerService } from "../services/LoggerService";
+import { IRateLimitService } from "../services/RateLimitService";
+import { ServiceContainer } from "../services/ServiceContainer";
+import { TimeUtils } from "../services/TimeUtils";
+
+export const name = "allocations";
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription("Set time aside for recurring work, e.g. a daily standup.")
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("add")
+      .setDescription("Reserve time for an issue, or change its allocation.")
+      .addStringOption((option) =>
+        option
+          .setName("issue")
+          .setDescription("Issue the time goes to, e.g. MEET-1.")
+          .setMaxLength(50)
+          .setRequired(true)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("minutes")
+          .setDescription("Minutes reserved each day, e.g. 15.")
+          .setMinValue(1)
+          .setMaxValue(1440)
+          .setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("days")
+          .setDescription(
+            "Weekdays it applies on, e.g. mon or mon,wed (default: every day)."
+          )
+          .setMaxLength(100)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("profile")
+          .setDescription("Jira profile to configure (default: default).")
+          .setMaxLength(32)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("remove")
+      .setDescription("Stop reserving time for an issue.")
+      .addStringOption((option) =>
+        option
+          .setName("issue")
+          .setDescription("Issue to remove the allocation of.")
+          .setMaxLength(50)
+          .setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("profile")
+          .setDescription("Jira profile to configure (default: default).")
+          .setMaxLength(32)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("list")
+      .setDescription("List the time you reserve each week.")
+      .addStringOption((option) =>
+        option
+          .setName("profile")
+          .setDescription("Jira profile to list (default: default).")
+          .setMaxLength(32)
+          .setRequired(false)
+      )
+  );
+
+function describeAllocation(allocation: Allocation): string {
+  return `• \`${allocation.issueKey}\` ${TimeUtils.formatTimeString(
+    allocation.timeInSeconds
+  )} ${
+    allocation.days
+      ? `on ${TimeUtils.formatWorkDays(allocation.days)}`
+      : "every work day"
+  }`;
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+
+    // Check rate limit for allocations command
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "allocations");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+
+    loggerService.logInfo("Executing allocations command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+      Subcommand: subcommand,
+    });
+
+    let title: string;
+    let description: string;
+    let config: JiraConfig | null;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      if (interaction.guildId) {
+        InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
+      }
+
+      const validatedProfile = profile
+        ? InputValidator.validateProfileName(profile)
+        : undefined;
+      config = await JiraConfig.findProfile(
+        interaction.user.id,
+        validatedProfile
+      );
+
+      if (!config) {
+        const errorEmbed = new EmbedBuilder()
+          .setTitle("⚠️ Configuration Not Found")
+          .setDescription(
+            validatedProfile
+              ? `No Jira profile named \`${validatedProfile}\` found for this user.`
+              : "No Jira configuration found for this user."
+          )
+          .addFields([
+            {
+              name: "🔧 Next Step",
+              value:
+                "Please run `/setup` first to configure your Jira connection.",
+              inline: false,
+            },
+          ])
+          .setColor(0xffaa00)
+          .setTimestamp();
+
+        return interaction.reply({
+          embeds: [errorEmbed],
+          flags: MessageFlags.Ephemeral,
+        });
+      }
+
+      const owner = {
+        userId: interaction.user.id,
+        profile: config.profile || DEFAULT_PROFILE,
+      };
+
+      switch (subcommand) {
+        case "add": {
+          const issueKey = InputValidator.validateIssueKey(
+            String(interaction.options.get("issue", true).value).toUpperCase()
+          );
+          const minutes = interaction.options.get("minutes", true)
+            .value as number;
+          InputValidator.validateNumber(minutes, "Minutes", {
+            required: true,
+            min: 1,
+            max: 1440,
+            integer: true,
+          });
+          const days = interaction.options.get("days", false)?.value as
+            | string
+            | undefined;
+
+          const values = {
+            ...owner,
+            issueKey,
+            timeInSeconds: minutes * 60,
+            days: days ? InputValidator.validateWorkDays(days) : null,
+          };
+          const existing = await Allocation.findOne({
+            where: { ...owner, issueKey },
+          });
+          let allocation: Allocation;
+          if (existing) {
+            allocation = await existing.update(values);
+          } else {
+            if ((await Allocation.count({ where: owner })) >= MAX_ALLOCATIONS) {
+              throw new ValidationError(
+                `You can have at most ${MAX_ALLOCATIONS} allocations per profile`
+              );
+            }
+            allocation = await Allocation.create(values);
+          }
+
+          title = existing ? "📌 Allocation Updated" : "📌 Allocation Added";
+          description = `${describeAllocation(
+            allocation
+          )}\n\nThis time is reserved out of your ${
+            config.dailyHours || 8
+          } daily hours before the rest is split across the issues you worked on.`;
+          break;
+        }
+        case "remove": {
+          const issueKey = InputValidator.validateIssueKey(
+            String(interaction.options.get("issue", true).value).toUpperCase()
+          );
+          const removed = await Allocation.destroy({
+            where: { ...owner, issueKey },
+          });
+          title = "📌 Allocation Removed";
+          description = removed
+            ? `Time is no longer reserved for \`${issueKey}\`.`
+            : `You have no allocation for \`${issueKey}\`.`;
+          break;
+        }
+        default: {
+          const allocations = await Allocation.findAll({
+            where: owner,
+            order: [["id", "ASC"]],
+          });
+          title = "📌 Your Allocations";
+          description = allocations.length
+            ? allocations.map(describeAllocation).join("\n")
+            : "You have no allocations. Use `/allocations add` to reserve time for recurring work.";
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(InputValidator.sanitizeInput(error.message))
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setDescription(description.substring(0, 4096))
+      .setColor(subcommand === "list" ? 0x0099ff : 0x00ff00)
+      .addFields([
+        {
+          name: "📁 Profile",
+          value: `\`${config.profile ?? DEFAULT_PROFILE}\``,
+          inline: true,
+        },
+      ])
+      .setTimestamp()
+      .setFooter({
+        text: `Requested by ${interaction.user.username}`,
+        iconURL: interaction.user.displayAvatarURL(),
+      });
+
+    return interaction.reply({
+      embeds: [embed],
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
@@ -0,0 +1,193 @@
+import {
+  ChatInputCommandInteraction,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  MessageFlags,
+  EmbedBuilder,
+} from "discord.js";
+import { JiraConfig } from "../db/models/JiraConfig";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { InputValidator } from "../services/InputValidator";
+import { ILoggerService } from "../services/LoggerService";
+import { IRateLimitService } from "../services/RateLimitService";
+import { ServiceContainer } from "../services/ServiceContainer";
+import { WORKLOG_COMMENT_PLACEHOLDERS } from "../services/WorklogCommentUtils";
+
+export const name = "comment";
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription("Configure the comment attached to your worklogs.")
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
+  .addStringOption((option) =>
+    option
+      .setName("template")
+      .setDescription(
+        "Comment template, e.g. {key}: {summary} ({status}) on {date}."
+      )
+      .setMaxLength(2000)
+      .setRequired(false)
+  )
+  .addBooleanOption((option) =>
+    option
+      .setName("clear")
+      .setDescription("Stop attaching a comment to your worklogs.")
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("profile")
+      .setDescription("Jira profile to configure (default: default).")
+      .setMaxLength(32)
+      .setRequired(false)
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+
+    // Check rate limit for comment command
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "comment");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    loggerService.logInfo("Executing comment command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+    });
+
+    const template = interaction.options.get("template", false)?.value as
+      | string
+      | undefined;
+    const clear = interaction.options.get("clear", false)?.value as
+      | boolean
+      | undefined;
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+
+    // Validate input
+    let validatedTemplate: string | undefined;
+    let validatedProfile: string | undefined;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      if (interaction.guildId) {
+        InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
+      }
+
+      if (template !== undefined) {
+        validatedTemplate = InputValidator.validateWorklogComment(template);
+      }
+      if (profile) {
+        validatedProfile = InputValidator.validateProfileName(profile);
+      }
+    } catch (error) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(
+          InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const config = await JiraConfig.findProfile(
+      interaction.user.id,
+      validatedProfile
+    );
+
+    if (!config) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("⚠️ Configuration Not Found")
+        .setDescription(
+          validatedProfile
+            ? `No Jira profile named \`${validatedProfile}\` found for this user.`
+            : "No Jira configuration found for this user."
+        )
+        .addFields([
+          {
+            name: "🔧 Next Step",
+            value:
+              "Please run `/setup` first to configure your Jira connection.",
+            inline: false,
+          },
+        ])
+        .setColor(0xffaa00)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const updated = clear === true || validatedTemplate !== undefined;
+
+    if (clear) {
+      config.worklogCommentTemplate = null;
+    } else if (validatedTemplate !== undefined) {
+      config.worklogCommentTemplate = validatedTemplate;
+    }
+    if (updated) {
+      await config.save();
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(updated ? "💬 Worklog Comment Updated" : "💬 Worklog Comment")
+      .setDescription(
+        config.worklogCommentTemplate
+          ? "This comment is attached to every worklog logged by `/time` and the scheduler."
+          : "Your worklogs are posted without a comment."
+      )
+      .setColor(updated ? 0x00ff00 : 0x0099ff)
+      .addFields([
+        {
+          name: "📝 Template",
+          value: config.worklogCommentTemplate
+            ? `\`\`\`${config.worklogCommentTemplate}\`\`\``
+            : "`Not set`",
+          inline: false,
+        },
+        {
+          name: "🔤 Placeholders",
+          value: WORKLOG_COMMENT_PLACEHOLDERS.map(
+            (placeholder) => `\`${placeholder}\``
+          ).join(", "),
+          inline: false,
+        },
+      ])
+      .setTimestamp()
+      .setFooter({
+        text: `Configured by ${interaction.user.username}`,
+        iconURL: interaction.user.displayAvatarURL(),
+      });
+
+    return interaction.reply({
+      embeds: [embed],
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
@@ -0,0 +1,271 @@
+import {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import { DEFAULT_PROFILE, JiraConfig } from "../db/models/JiraConfig";
+import {
+  WORKLOG_STATUSES,
+  WorklogEntry,
+  WorklogStatus,
+} from "../db/models/WorklogEntry";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { InputValidator, ValidationError } from "../services/InputValidator";
+import { ILoggerService } from "../services/LoggerService";
+import { IRateLimitService } from "../services/RateLimitService";
+import { ServiceContainer } from "../services/ServiceContainer";
+import {
+  DEFAULT_TIMEZONE,
+  DEFAULT_WORK_DAYS,
+  TimeUtils,
+} from "../services/TimeUtils";
+import { WorklogCommentUtils } from "../services/WorklogCommentUtils";
+
+export const name = "history";
+
+// Longest range shown at once, like /time and /report
+const maxRangeDays = 31;
+// Lines shown before the rest are counted
+const maxListedLines = 40;
+
+const statusIcons: Record<WorklogStatus, string> = {
+  posted: "✅",
+  retrying: "🔁",
+  failed: "❌",
+  deleted: "🗑️",
+};
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription("See every worklog the bot posted or failed to post.")
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
+  .addStringOption((option) =>
+    option
+      .setName("from")
+      .setDescription("First day, e.g. 2025-07-28 (default: a week ago).")
+      .setMaxLength(32)
+      .setAutocomplete(true)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("to")
+      .setDescription("Last day (default: today).")
+      .setMaxLength(32)
+      .setAutocomplete(true)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("status")
+      .setDescription("Only show worklogs with this status.")
+      .addChoices(
+        { name: "Posted", value: "posted" },
+        { name: "Retrying", value: "retrying" },
+        { name: "Failed", value: "failed" },
+        { name: "Deleted", value: "deleted" }
+      )
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("profile")
+      .setDescription("Only show this Jira profile (default: all).")
+      .setMaxLength(32)
+      .setRequired(false)
+  );
+
+function describeEntries(entries: WorklogEntry[]): string {
+  const lines: string[] = [];
+  let date: string | undefined;
+  for (const entry of entries) {
+    if (entry.date !== date) {
+      date = entry.date;
+      lines.push(`**${date}**`);
+    }
+    lines.push(
+      `${statusIcons[entry.status as WorklogStatus]} \`${
+        entry.issueKey
+      }\` ${TimeUtils.formatTimeString(entry.timeInSeconds)} · ${entry.source}${
+        entry.profile !== DEFAULT_PROFILE ? ` [${entry.profile}]` : ""
+      }`
+    );
+  }
+
+  const shown = lines.slice(0, maxListedLines);
+  if (lines.length > maxListedLines) {
+    shown.push(`…and ${lines.length - maxListedLines} more lines`);
+  }
+  return shown.join("\n");
+}
+
+/**
+ * Suggest recent days for the from and to dates
+ */
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  try {
+    const jiraConfig = await JiraConfig.findProfile(interaction.user.id);
+
+    await interaction.respond(
+      TimeUtils.suggestDates(
+        String(
+          interaction.options.data.find((option) => option.focused)?.value ?? ""
+        ),
+        TimeUtils.getDateInZone(
+          new Date(),
+          jiraConfig?.timezone || DEFAULT_TIMEZONE
+        ),
+        TimeUtils.parseWorkDays(jiraConfig?.workDays || DEFAULT_WORK_DAYS)
+      )
+    );
+  } catch {
+    await interaction.respond([]);
+  }
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+
+    // Check rate limit for history command
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "history");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const fromOption = interaction.options.get("from", false)?.value as
+      | string
+      | undefined;
+    const toOption = interaction.options.get("to", false)?.value as
+      | string
+      | undefined;
+    const status = interaction.options.get("status", false)?.value as
+      | WorklogStatus
+      | undefined;
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+
+    loggerService.logInfo("Executing history command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+    });
+
+    let from: Date;
+    let to: Date;
+    let validatedProfile: string | undefined;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      if (interaction.guildId) {
+        InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
+      }
+
+      validatedProfile = profile
+        ? InputValidator.validateProfileName(profile)
+        : undefined;
+      if (status && !WORKLOG_STATUSES.includes(status)) {
+        throw new ValidationError(
+          `Status must be one of: ${WORKLOG_STATUSES.join(", ")}`
+        );
+      }
+
+      // Dates in words are read in the user's timezone
+      const config = await JiraConfig.findProfile(
+        interaction.user.id,
+        validatedProfile
+      );
+      const today = TimeUtils.getDateInZone(
+        new Date(),
+        config?.timezone || DEFAULT_TIMEZONE
+      );
+
+      to = toOption
+        ? InputValidator.validateDate(toOption, "To", today)
+        : today;
+      if (fromOption) {
+        from = InputValidator.validateDate(fromOption, "From", today);
+      } else {
+        from = new Date(to);
+        from.setDate(to.getDate() - 6);
+      }
+      InputValidator.validateDateRange(from, to, maxRangeDays);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(InputValidator.sanitizeInput(error.message))
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const fromDate = WorklogCommentUtils.formatDate(from);
+    const toDate = WorklogCommentUtils.formatDate(to);
+    const entries = await WorklogEntry.findInRange(
+      interaction.user.id,
+      fromDate,
+      toDate,
+      {
+        ...(status ? { status } : {}),
+        ...(validatedProfile ? { profile: validatedProfile } : {}),
+      }
+    );
+
+    const postedSeconds = entries
+      .filter((entry) => entry.status === "posted")
+      .reduce((acc, entry) => acc + entry.timeInSeconds, 0);
+    const failed = entries.filter((entry) => entry.status === "failed").length;
+
+    const embed = new EmbedBuilder()
+      .setTitle(
+        `📜 Worklog History ${fromDate}${
+          fromDate !== toDate ? ` to ${toDate}` : ""
+        }`
+      )
+      .setDescription(
+        entries.length
+          ? describeEntries(entries)
+          : "The bot posted no worklogs in this range."
+      )
+      .setColor(failed ? 0xffaa00 : 0x0099ff)
+      .setTimestamp();
+
+    if (entries.length) {
+      embed.setFooter({
+        text: `${TimeUtils.formatTimeString(postedSeconds)} posted${
+          failed ? `, ${failed} failed` : ""
+        }`,
+      });
+    }
+
+    return interaction.reply({
+      embeds: [embed],
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
@@ -6,19 +6,28 @@ import {
   MessageFlags,
   EmbedBuilder,
 } from "discord.js";
-import { JiraConfig } from "../db/models/JiraConfig";
+import { GuildSettings } from "../db/models/GuildSettings";
+import { DEFAULT_PROFILE, JiraConfig } from "../db/models/JiraConfig";
+import { UserSettings } from "../db/models/UserSettings";
 import { ErrorHandler } from "../services/ErrorHandler";
+import { GuildPolicyUtils } from "../services/GuildPolicyUtils";
 import { InputValidator } from "../services/InputValidator";
 import { ILoggerService } from "../services/LoggerService";
 import { IRateLimitService } from "../services/RateLimitService";
 import { ServiceContainer } from "../services/ServiceContainer";
+import {
+  DEFAULT_DISTRIBUTION_STRATEGY,
+  DEFAULT_PARTIAL_DAY_MODE,
+  DistributionStrategy,
+  PartialDayMode,
+} from "../services/TimeUtils";
 
 export const name = "hours";
 
 export const data = new SlashCommandBuilder()
   .setName(name)
   .setDescription("Configure your daily hours for time logging.")
-  .setContexts([InteractionContextType.Guild])
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
   .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
   .addIntegerOption((option) =>
     option
@@ -26,9 +35,62 @@ export const data = new SlashCommandBuilder()
       .setDescription("The number of daily hours to distribute across tickets.")
       .setMinValue(1)
       .setMaxValue(24)
-      .setRequired(true)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("distribution")
+      .setDescription("How your daily hours are split across tickets.")
+      .setRequired(false)
+      .addChoices(
+        { name: "Fairly (random chunks)", value: "fairly" },
+        { name: "Evenly", value: "evenly" },
+        { name: "Weighted by Jira activity", value: "weighted" }
+      )
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName("cap")
+      .setDescription(
+        "Most hours logged per day across all your profiles (0 removes the cap)."
+      )
+      .setMinValue(0)
+      .setMaxValue(24)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("partial-days")
+      .setDescription("What to do with days you already logged some time on.")
+      .setRequired(false)
+      .addChoices(
+        { name: "Leave them as they are", value: "skip" },
+        { name: "Top up all issues", value: "top-up" },
+        { name: "Top up issues without time", value: "top-up-new" }
+      )
+  )
+  .addStringOption((option) =>
+    option
+      .setName("profile")
+      .setDescription("Jira profile to configure (default: default).")
+      .setMaxLength(32)
+      .setRequired(false)
   );
 
+const distributionDescriptions: Record<DistributionStrategy, string> = {
+  evenly: "Hours are split evenly across tickets.",
+  fairly: "Hours are split across tickets in random 5-30 minute chunks.",
+  weighted:
+    "Hours are weighted by your status transitions, comments and commits on each ticket that day.",
+};
+
+const partialDayDescriptions: Record<PartialDayMode, string> = {
+  skip: "Days with any time logged are left as they are.",
+  "top-up": "The rest of the day is split across all of the day's tickets.",
+  "top-up-new":
+    "The rest of the day is split across the tickets that have no time yet.",
+};
+
 export async function execute(interaction: ChatInputCommandInteraction) {
   try {
     const container = ServiceContainer.getInstance();
@@ -53,7 +115,19 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       UserId: interaction.user.id,
     });
 
-    const hours = interaction.options.get("hours", true).value as number;
+    const hours = interaction.options.get("hours", false)?.value as
+      | number
+      | undefined;
+    const distribution = interaction.options.get("distribution", false)
+      ?.value as string | undefined;
+    const cap = interaction.options.get("cap", false)?.value as
+      | number
+      | undefined;
+    const partialDays = interaction.options.get("partial-days", false)
+      ?.value as string | undefined;
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
 
     // Validate input
     try {
@@ -63,11 +137,13 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
       }
 
-      InputValidator.validateNumber(hours, "hours", {
-        min: 1,
-        max: 24,
-        integer: true,
-      });
+      if (hours !== undefined) {
+        InputValidator.validateNumber(hours, "hours", {
+          min: 1,
+          max: 24,
+          integer: true,
+        });
+      }
     } catch (error) {
       const errorEmbed = new EmbedBuilder()
         .setTitle("❌ Validation Error")
@@ -81,14 +157,54 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       });
     }
 
-    const config = await JiraConfig.findOne({
-      where: { guildId: interaction.guildId!, userId: interaction.user.id },
-    });
+    let validatedProfile: string | undefined;
+    let validatedCap: number | null | undefined;
+    let validatedPartialDays: PartialDayMode | undefined;
+
+    try {
+      if (profile) {
+        validatedProfile = InputValidator.validateProfileName(profile);
+      }
+
+      // A cap of 0 removes it
+      if (cap !== undefined) {
+        validatedCap =
+          cap === 0 ? null : InputValidator.validateDailyHoursCap(cap);
+      }
+      if (partialDays !== undefined) {
+        validatedPartialDays =
+          InputValidator.validatePartialDayMode(partialDays);
+      }
+    } catch (error) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(
+          InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const config = await JiraConfig.findProfile(
+      interaction.user.id,
+      validatedProfile
+    );
 
     if (!config) {
       const errorEmbed = new EmbedBuilder()
         .setTitle("⚠️ Configuration Not Found")
-        .setDescription("No Jira configuration found for this user.")
+        .setDescription(
+          validatedProfile
+            ? `No Jira profile named \`${validatedProfile}\` found for this user.`
+            : "No Jira configuration found for this user."
+        )
         .addFields([
           {
             name: "🔧 Next Step",
@@ -106,16 +222,97 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       });
     }
 
-    config.dailyHours = hours;
-    await config.save();
+    // Members set up in DMs follow the policies of their notification guild
+    const policy = await GuildSettings.findForGuild(
+      interaction.guildId ?? config.guildId
+    );
+    if (
+      hours !== undefined &&
+      !GuildPolicyUtils.isWithinMaxDailyHours(policy, hours)
+    ) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(
+          `This server allows at most ${policy?.maxDailyHours} daily hours.`
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    if (hours !== undefined) {
+      config.dailyHours = hours;
+    }
+    if (distribution !== undefined) {
+      config.distributionStrategy =
+        InputValidator.validateDistributionStrategy(distribution);
+    }
+    if (validatedPartialDays !== undefined) {
+      config.partialDayMode = validatedPartialDays;
+    }
+    if (
+      hours !== undefined ||
+      distribution !== undefined ||
+      validatedPartialDays !== undefined
+    ) {
+      await config.save();
+    }
+
+    const [settings] = await UserSettings.findOrCreate({
+      where: { userId: interaction.user.id },
+      defaults: { userId: interaction.user.id },
+    });
+    if (validatedCap !== undefined) {
+      settings.dailyHoursCap = validatedCap;
+      await settings.save();
+    }
+
+    const updated =
+      hours !== undefined ||
+      distribution !== undefined ||
+      cap !== undefined ||
+      partialDays !== undefined;
+    const profileName = config.profile ?? DEFAULT_PROFILE;
+
+    const strategy =
+      config.distributionStrategy || DEFAULT_DISTRIBUTION_STRATEGY;
+    const partialDayMode = config.partialDayMode || DEFAULT_PARTIAL_DAY_MODE;
 
     const embed = new EmbedBuilder()
-      .setTitle("⏰ Daily Hours Updated")
+      .setTitle(updated ? "⏰ Daily Hours Updated" : "⏰ Your Daily Hours")
       .setDescription(
-        `Your daily hours have been successfully updated to **${hours} hours**.`
+        updated
+          ? `Your daily hours have been successfully updated to **${config.dailyHours} hours**.`
+          : `You log **${config.dailyHours} hours** per day.`
       )
-      .setColor(0x00ff00)
+      .setColor(updated ? 0x00ff00 : 0x0099ff)
       .addFields([
+        {
+          name: "📁 Profile",
+          value: `\`${profileName}\``,
+          inline: true,
+        },
+        {
+          name: "🧢 Daily Cap",
+          value: settings.dailyHoursCap
+            ? `${settings.dailyHoursCap} hours across all profiles`
+            : "No cap",
+          inline: true,
+        },
+        {
+          name: "⚖️ Distribution",
+          value: `\`${strategy}\` - ${distributionDescriptions[strategy]}`,
+          inline: false,
+        },
+        {
+          name: "🧩 Partial Days",
+          value: `\`${partialDayMode}\` - ${partialDayDescriptions[partialDayMode]}`,
+          inline: false,
+        },
         {
           name: "📊 Usage",
           value:
@@ -1,11 +1,20 @@
+import * as admin from "./admin";
+import * as allocations from "./allocations";
+import * as comment from "./comment";
 import * as deploy from "./deploy";
 import * as health from "./health";
+import * as history from "./history";
 import * as hours from "./hours";
 import * as info from "./info";
+import * as login from "./login";
 import * as pause from "./pause";
 import * as ping from "./ping";
+import * as report from "./report";
+import * as schedule from "./schedule";
 import * as setup from "./setup";
 import * as time from "./time";
+import * as timeoff from "./timeoff";
+import * as worklogs from "./worklogs";
 
 export const allCommands = {
   ping,
@@ -15,6 +24,15 @@ export const allCommands = {
   pause,
   info,
   hours,
+  schedule,
+  comment,
+  login,
+  admin,
+  report,
+  timeoff,
+  worklogs,
+  history,
+  allocations,
   health,
 };
 
@@ -25,6 +43,15 @@ export const commands = {
   pause,
   info,
   hours,
+  schedule,
+  comment,
+  login,
+  admin,
+  report,
+  timeoff,
+  worklogs,
+  history,
+  allocations,
   health,
 };
 
@@ -1,31 +1,52 @@
 import {
-  CommandInteraction,
+  ChatInputCommandInteraction,
   InteractionContextType,
   SlashCommandBuilder,
   MessageFlags,
   EmbedBuilder,
 } from "discord.js";
-import { JiraConfig } from "../db/models/JiraConfig";
+import { DEFAULT_PROFILE, JiraConfig } from "../db/models/JiraConfig";
+import { UserSettings } from "../db/models/UserSettings";
 import { ErrorHandler } from "../services/ErrorHandler";
 import { InputValidator } from "../services/InputValidator";
+import { JiraConnectionUtils } from "../services/JiraConnectionUtils";
 import { ILoggerService } from "../services/LoggerService";
 import { IRateLimitService } from "../services/RateLimitService";
 import { ServiceContainer } from "../services/ServiceContainer";
+import {
+  DEFAULT_DISTRIBUTION_STRATEGY,
+  DEFAULT_PARTIAL_DAY_MODE,
+  DEFAULT_SCHEDULE_TIME,
+  DEFAULT_TIMEZONE,
+  DEFAULT_WORK_DAYS,
+  TimeUtils,
+} from "../services/TimeUtils";
 
 export const name = "info";
 
 export const data = new SlashCommandBuilder()
   .setName(name)
   .setDescription("Show your Jira configuration information.")
-  .setContexts([InteractionContextType.Guild]);
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .addStringOption((option) =>
+    option
+      .setName("profile")
+      .setDescription("Jira profile to show (default: default).")
+      .setMaxLength(32)
+      .setRequired(false)
+  );
 
-export async function execute(interaction: CommandInteraction) {
+export async function execute(interaction: ChatInputCommandInteraction) {
   try {
     const container = ServiceContainer.getInstance();
     const loggerService = container.get<ILoggerService>("ILoggerService");
     const rateLimitService =
       container.get<IRateLimitService>("IRateLimitService");
 
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+
     // Validate Discord IDs
     try {
       InputValidator.validateDiscordId(interaction.user.id, "User ID");
@@ -71,16 +92,71 @@ export async function execute(interaction: CommandInteraction) {
       UserId: interaction.user.id,
     });
 
-    const config = await JiraConfig.findOne({
-      where: { guildId: interaction.guildId!, userId: interaction.user.id },
-    });
+    let validatedProfile: string | undefined;
+    try {
+      if (profile) {
+        validatedProfile = InputValidator.validateProfileName(profile);
+      }
+    } catch (error) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Invalid Input")
+        .setDescription(
+          InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const config = await JiraConfig.findProfile(
+      interaction.user.id,
+      validatedProfile
+    );
 
     if (config) {
+      const profiles = await JiraConfig.findAll({
+        where: { userId: interaction.user.id },
+        order: [["createdAt", "ASC"]],
+      });
+      const settings = await UserSettings.findOne({
+        where: { userId: interaction.user.id },
+      });
+
       const embed = new EmbedBuilder()
         .setTitle("📋 Your Jira Configuration")
         .setDescription("Here are your current Jira integration settings:")
         .setColor(0x0099ff)
         .addFields([
+          {
+            name: "📁 Profile",
+            value: `\`${config.profile ?? DEFAULT_PROFILE}\``,
+            inline: true,
+          },
+          {
+            name: "🗂️ All Profiles",
+            value: profiles
+              .map(
+                (other) =>
+                  `\`${other.profile ?? DEFAULT_PROFILE}\` ${
+                    other.schedulePaused ? "🔴" : "🟢"
+                  }`
+              )
+              .join(", "),
+            inline: true,
+          },
+          {
+            name: "🧢 Daily Cap",
+            value: settings?.dailyHoursCap
+              ? `\`${settings.dailyHoursCap} hours across all profiles\``
+              : "`None`",
+            inline: true,
+          },
           {
             name: "🌐 Host",
             value: `\`${InputValidator.sanitizeInput(config.host)}\``,
@@ -93,7 +169,10 @@ export async function execute(interaction: CommandInteraction) {
           },
           {
             name: "🔑 API Token",
-            value: `\`${config.token.substring(0, 8)}...***\``,
+            value:
+              config.authScheme === "oauth"
+                ? "`Signed in with Atlassian`"
+                : `\`${config.token.substring(0, 8)}...***\``,
             inline: true,
           },
           {
@@ -101,11 +180,44 @@ export async function execute(interaction: CommandInteraction) {
             value: `\`${config.dailyHours || 8} hours\``,
             inline: true,
           },
+          {
+            name: "⚖️ Distribution",
+            value: `\`${
+              config.distributionStrategy || DEFAULT_DISTRIBUTION_STRATEGY
+            }\``,
+            inline: true,
+          },
+          {
+            name: "🧩 Partial Days",
+            value: `\`${config.partialDayMode || DEFAULT_PARTIAL_DAY_MODE}\``,
+            inline: true,
+          },
           {
             name: "⏸️ Schedule Status",
             value: config.schedulePaused ? "🔴 Paused" : "🟢 Active",
             inline: true,
           },
+          {
+            name: "📅 Schedule",
+            value: `\`${TimeUtils.formatWorkDays(
+              config.workDays || DEFAULT_WORK_DAYS
+            )} at ${config.scheduleTime || DEFAULT_SCHEDULE_TIME} (${
+              config.timezone || DEFAULT_TIMEZONE
+            })\``,
+            inline: false,
+          },
+          {
+            name: "🕘 Workday",
+            value: `\`${TimeUtils.formatWorkdayLayout(
+              TimeUtils.getWorkdayLayout(config)
+            )}\``,
+            inline: false,
+          },
+          {
+            name: "🏢 Deployment",
+            value: `\`${JiraConnectionUtils.describe(config)}\``,
+            inline: false,
+          },
           {
             name: "🔍 Time JQL Override",
             value: config.timeJqlOverride
@@ -127,7 +239,11 @@ export async function execute(interaction: CommandInteraction) {
     } else {
       const errorEmbed = new EmbedBuilder()
         .setTitle("⚠️ Configuration Not Found")
-        .setDescription("No Jira configuration found for this user.")
+        .setDescription(
+          validatedProfile
+            ? `No Jira profile named \`${validatedProfile}\` found for this user.`
+            : "No Jira configuration found for this user."
+        )
         .addFields([
           {
             name: "🔧 Next Step",
@@ -0,0 +1,175 @@
+import {
+  ChatInputCommandInteraction,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  MessageFlags,
+  EmbedBuilder,
+} from "discord.js";
+import { DEFAULT_PROFILE } from "../db/models";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { InputValidator } from "../services/InputValidator";
+import { ILoggerService } from "../services/LoggerService";
+import { IOAuthService, LOGIN_TIMEOUT_MS } from "../services/OAuthService";
+import { IRateLimitService } from "../services/RateLimitService";
+import { ServiceContainer } from "../services/ServiceContainer";
+
+export const name = "login";
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription(
+    "Connect your Jira Cloud account by signing in with Atlassian."
+  )
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
+  .addStringOption((option) =>
+    option
+      .setName("site")
+      .setDescription(
+        "Jira site to connect, e.g. your-team.atlassian.net (default: the first one)."
+      )
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("profile")
+      .setDescription(
+        "Name of the Jira profile to create or update (default: default)."
+      )
+      .setMaxLength(32)
+      .setRequired(false)
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+    const oauthService = container.get<IOAuthService>("IOAuthService");
+
+    // Check rate limit for login command
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "login");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    loggerService.logInfo("Executing login command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+    });
+
+    if (!oauthService.isEnabled()) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("⚠️ Login Unavailable")
+        .setDescription("Atlassian sign-in is not configured for this bot.")
+        .addFields([
+          {
+            name: "🔧 Next Step",
+            value: "Use `/setup` with an API token to connect Jira instead.",
+            inline: false,
+          },
+        ])
+        .setColor(0xffaa00)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const site = interaction.options.get("site", false)?.value as
+      | string
+      | undefined;
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+
+    // Validate input
+    let validatedSite: string | undefined;
+    let validatedProfile: string;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      if (interaction.guildId) {
+        InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
+      }
+
+      if (site) {
+        validatedSite = InputValidator.validateJiraHost(site);
+      }
+
+      validatedProfile = profile
+        ? InputValidator.validateProfileName(profile)
+        : DEFAULT_PROFILE;
+    } catch (error) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(
+          InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const authorizationUrl = oauthService.createAuthorizationUrl({
+      guildId: interaction.guildId,
+      userId: interaction.user.id,
+      site: validatedSite,
+      profile: validatedProfile,
+    });
+
+    const embed = new EmbedBuilder()
+      .setTitle("🔐 Sign in with Atlassian")
+      .setDescription(
+        `[Authorize the bot](${authorizationUrl}) to read and log work in Jira for you. Your API token is not needed.`
+      )
+      .setURL(authorizationUrl)
+      .addFields([
+        {
+          name: "⏳ Expires",
+          value: `The link works once, within ${
+            LOGIN_TIMEOUT_MS / 60000
+          } minutes.`,
+          inline: false,
+        },
+        {
+          name: "🌐 Site",
+          value: validatedSite
+            ? `\`${InputValidator.sanitizeInput(validatedSite)}\``
+            : "The first site you grant access to",
+          inline: false,
+        },
+        {
+          name: "📁 Profile",
+          value: `\`${validatedProfile}\``,
+          inline: false,
+        },
+      ])
+      .setColor(0x0099ff)
+      .setTimestamp();
+
+    return interaction.reply({
+      embeds: [embed],
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
@@ -1,11 +1,11 @@
 import {
-  CommandInteraction,
+  ChatInputCommandInteraction,
   InteractionContextType,
   SlashCommandBuilder,
   MessageFlags,
   EmbedBuilder,
 } from "discord.js";
-import { JiraConfig } from "../db/models";
+import { DEFAULT_PROFILE, JiraConfig } from "../db/models";
 import { ErrorHandler } from "../services/ErrorHandler";
 import { InputValidator } from "../services/InputValidator";
 import { ILoggerService } from "../services/LoggerService";
@@ -17,15 +17,26 @@ export const name = "pause";
 export const data = new SlashCommandBuilder()
   .setName(name)
   .setDescription("Pause the execution of scheduled jobs.")
-  .setContexts([InteractionContextType.Guild]);
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .addStringOption((option) =>
+    option
+      .setName("profile")
+      .setDescription("Jira profile to pause or resume (default: default).")
+      .setMaxLength(32)
+      .setRequired(false)
+  );
 
-export async function execute(interaction: CommandInteraction) {
+export async function execute(interaction: ChatInputCommandInteraction) {
   try {
     const container = ServiceContainer.getInstance();
     const loggerService = container.get<ILoggerService>("ILoggerService");
     const rateLimitService =
       container.get<IRateLimitService>("IRateLimitService");
 
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+
     // Validate Discord IDs
     try {
       InputValidator.validateDiscordId(interaction.user.id, "User ID");
@@ -71,9 +82,32 @@ export async function execute(interaction: CommandInteraction) {
       UserId: interaction.user.id,
     });
 
-    const config = await JiraConfig.findOne({
-      where: { guildId: interaction.guildId!, userId: interaction.user.id },
-    });
+    let validatedProfile: string | undefined;
+    try {
+      if (profile) {
+        validatedProfile = InputValidator.validateProfileName(profile);
+      }
+    } catch (error) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Invalid Input")
+        .setDescription(
+          InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const config = await JiraConfig.findProfile(
+      interaction.user.id,
+      validatedProfile
+    );
 
     if (config) {
       const newPausedState = !config.schedulePaused;
@@ -96,6 +130,11 @@ export async function execute(interaction: CommandInteraction) {
             value: isPaused ? "🔴 Paused" : "🟢 Active",
             inline: true,
           },
+          {
+            name: "📁 Profile",
+            value: `\`${config.profile ?? DEFAULT_PROFILE}\``,
+            inline: true,
+          },
           {
             name: "🔄 Toggle Again",
             value: `Use \`/pause\` to ${
@@ -119,7 +158,11 @@ export async function execute(interaction: CommandInteraction) {
     } else {
       const errorEmbed = new EmbedBuilder()
         .setTitle("⚠️ Configuration Not Found")
-        .setDescription("No Jira configuration found for this user.")
+        .setDescription(
+          validatedProfile
+            ? `No Jira profile named \`${validatedProfile}\` found for this user.`
+            : "No Jira configuration found for this user."
+        )
         .addFields([
           {
             name: "🔧 Next Step",
@@ -15,7 +15,7 @@ export const name = "ping";
 export const data = new SlashCommandBuilder()
   .setName(name)
   .setDescription("Replies with Pong!")
-  .setContexts([InteractionContextType.Guild]);
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM]);
 
 export async function execute(interaction: CommandInteraction) {
   try {
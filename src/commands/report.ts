@@ -0,0 +1,416 @@
+import {
+  ActionRowBuilder,
+  AttachmentBuilder,
+  AutocompleteInteraction,
+  ButtonBuilder,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  Guild,
+  GuildMember,
+  InteractionContextType,
+  MessageComponentInteraction,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import { DEFAULT_PROFILE, JiraConfig, UserSettings } from "../db/models";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { InputValidator } from "../services/InputValidator";
+import { JiraConnectionUtils } from "../services/JiraConnectionUtils";
+import { IJiraService } from "../services/JiraService";
+import { ILoggerService } from "../services/LoggerService";
+import { IRateLimitService } from "../services/RateLimitService";
+import {
+  MemberReport,
+  REPORT_MAX_DAYS,
+  ReportUtils,
+} from "../services/ReportUtils";
+import { ServiceContainer } from "../services/ServiceContainer";
+import {
+  DEFAULT_TIMEZONE,
+  DEFAULT_WORK_DAYS,
+  TimeUtils,
+} from "../services/TimeUtils";
+import { collectAll } from "../services/utils";
+import { WorklogCommentUtils } from "../services/WorklogCommentUtils";
+
+export const name = "report";
+
+// Embeds hold at most 25 fields, keep pages short enough to read
+const membersPerPage = 10;
+const pageTimeout = 300000;
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription("Show the time logged by the members of this server.")
+  .setContexts([InteractionContextType.Guild])
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .addStringOption((option) =>
+    option
+      .setName("from")
+      .setDescription(
+        "First day, e.g. 2025-07-28 or last monday (default: Monday last week)."
+      )
+      .setMaxLength(32)
+      .setAutocomplete(true)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("to")
+      .setDescription("Last day (default: a week after from).")
+      .setMaxLength(32)
+      .setAutocomplete(true)
+      .setRequired(false)
+  )
+  .addRoleOption((option) =>
+    option
+      .setName("role")
+      .setDescription("Only report members with this role.")
+      .setRequired(false)
+  );
+
+/**
+ * Collect the time a member logged over the dates across all of their
+ * profiles. Failures are kept on the report instead of failing it
+ */
+async function buildMemberReport(
+  jiraService: IJiraService,
+  member: GuildMember,
+  configs: JiraConfig[],
+  settings: UserSettings | undefined,
+  from: Date,
+  to: Date
+): Promise<MemberReport> {
+  const targetHours = configs.reduce(
+    (acc, config) => acc + (config.dailyHours || 8),
+    0
+  );
+  const report: MemberReport = {
+    userId: member.id,
+    name: member.displayName,
+    targetSeconds:
+      Math.min(targetHours, settings?.dailyHoursCap || targetHours) * 3600,
+    workDays: Array.from(
+      new Set(
+        configs.flatMap((config) =>
+          TimeUtils.parseWorkDays(config.workDays || DEFAULT_WORK_DAYS)
+        )
+      )
+    ),
+    pausedProfiles: configs
+      .filter((config) => config.schedulePaused)
+      .map((config) => config.profile ?? DEFAULT_PROFILE),
+    dailySeconds: {},
+  };
+
+  const jql = `worklogAuthor = currentUser() AND worklogDate >= "${WorklogCommentUtils.formatDate(
+    from
+  )}" AND worklogDate <= "${WorklogCommentUtils.formatDate(to)}"`;
+
+  try {
+    for (const config of configs) {
+      jiraService.configureConnection(config.host, config.username, config);
+
+      const issues = await collectAll(
+        jiraService.iterateIssuesWorked(
+          config.host,
+          config.username,
+          config.token,
+          jql
+        )
+      );
+
+      for (const issue of issues) {
+        const worklogs = await collectAll(
+          jiraService.iterateIssueWorklogs(
+            config.host,
+            config.username,
+            config.token,
+            issue.key,
+            from,
+            to,
+            config.timezone || DEFAULT_TIMEZONE
+          )
+        );
+
+        for (const worklog of worklogs) {
+          if (
+            !JiraConnectionUtils.isConfiguredUser(
+              worklog.author,
+              config.username
+            )
+          ) {
+            continue;
+          }
+
+          const day = WorklogCommentUtils.formatDate(
+            TimeUtils.getDateInZone(
+              new Date(worklog.started),
+              config.timezone || DEFAULT_TIMEZONE
+            )
+          );
+          report.dailySeconds[day] =
+            (report.dailySeconds[day] ?? 0) + worklog.timeSpentSeconds;
+        }
+      }
+    }
+  } catch (error) {
+    report.error = InputValidator.sanitizeInput(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  return report;
+}
+
+function buildReportPage(
+  title: string,
+  members: MemberReport[],
+  dates: Date[],
+  page: number
+) {
+  const pageCount = Math.ceil(members.length / membersPerPage);
+  const gapCount = members.filter(
+    (member) => member.error || ReportUtils.findGaps(member, dates).length
+  ).length;
+
+  return new EmbedBuilder()
+    .setTitle(title)
+    .setDescription(
+      `${members.length} member${
+        members.length === 1 ? "" : "s"
+      }, ${gapCount} with gaps. The attached CSV has every day.`
+    )
+    .addFields(
+      members
+        .slice(page * membersPerPage, (page + 1) * membersPerPage)
+        .map((member) => ({
+          name: member.name,
+          value: ReportUtils.summarize(member, dates).substring(0, 1024),
+          inline: false,
+        }))
+    )
+    .setColor(gapCount ? 0xffaa00 : 0x00ff00)
+    .setFooter({ text: `Page ${page + 1} of ${pageCount}` })
+    .setTimestamp();
+}
+
+function buildPageButtons(page: number, pageCount: number) {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId("report-previous")
+      .setLabel("Previous")
+      .setEmoji("◀️")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page === 0),
+    new ButtonBuilder()
+      .setCustomId("report-next")
+      .setLabel("Next")
+      .setEmoji("▶️")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page >= pageCount - 1)
+  );
+}
+
+/**
+ * Suggest recent weekdays for the date options
+ */
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  try {
+    await interaction.respond(
+      TimeUtils.suggestDates(
+        String(
+          interaction.options.data.find((option) => option.focused)?.value ?? ""
+        ),
+        TimeUtils.getDateInZone(new Date(), DEFAULT_TIMEZONE),
+        TimeUtils.parseWorkDays(DEFAULT_WORK_DAYS)
+      )
+    );
+  } catch {
+    await interaction.respond([]);
+  }
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+    const jiraService = container.get<IJiraService>("IJiraService");
+
+    // Check rate limit for report command (it queries Jira for every member)
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "report");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const fromOption = interaction.options.get("from", false)?.value as
+      | string
+      | undefined;
+    const toOption = interaction.options.get("to", false)?.value as
+      | string
+      | undefined;
+    const role = interaction.options.get("role", false)?.role;
+
+    loggerService.logInfo("Executing report command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+    });
+
+    let guild: Guild;
+    let from: Date;
+    let to: Date;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      if (!interaction.guild) {
+        throw new Error("Reports can only be run in a server the bot is in");
+      }
+      guild = interaction.guild;
+      InputValidator.validateDiscordId(guild.id, "Guild ID");
+
+      from = fromOption
+        ? InputValidator.validateDate(fromOption, "From")
+        : ReportUtils.getLastWeek(new Date()).from;
+      if (toOption) {
+        to = InputValidator.validateDate(toOption, "To");
+      } else {
+        to = new Date(from);
+        to.setDate(from.getDate() + 6);
+      }
+      InputValidator.validateDateRange(from, to, REPORT_MAX_DAYS);
+    } catch (error) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(
+          InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    // Everyone in the guild is reported, wherever they set the bot up.
+    // Listing the guild's members would need the privileged members intent
+    const configs = await JiraConfig.findAll({
+      order: [["createdAt", "ASC"]],
+    });
+    const configsByUser = new Map<string, JiraConfig[]>();
+    for (const config of configs) {
+      configsByUser.set(config.userId, [
+        ...(configsByUser.get(config.userId) ?? []),
+        config,
+      ]);
+    }
+
+    const settings = await UserSettings.findAll({
+      where: { userId: Array.from(configsByUser.keys()) },
+    });
+
+    const members: MemberReport[] = [];
+    for (const [userId, userConfigs] of configsByUser) {
+      let member: GuildMember;
+      try {
+        member = await guild.members.fetch(userId);
+      } catch {
+        // Not a member of this guild
+        continue;
+      }
+
+      if (role && !member.roles.cache.has(role.id)) {
+        continue;
+      }
+
+      members.push(
+        await buildMemberReport(
+          jiraService,
+          member,
+          userConfigs,
+          settings.find((setting) => setting.userId === userId),
+          from,
+          to
+        )
+      );
+    }
+
+    const range = `${WorklogCommentUtils.formatDate(
+      from
+    )} to ${WorklogCommentUtils.formatDate(to)}`;
+
+    if (members.length === 0) {
+      await interaction.editReply({
+        content: role
+          ? `No members with the ${role.name} role have a Jira configuration in this server.`
+          : "No members have a Jira configuration in this server.",
+      });
+      return;
+    }
+
+    members.sort((a, b) => a.name.localeCompare(b.name));
+
+    const dates = ReportUtils.listDates(from, to);
+    const title = `📊 Timesheet ${range}${role ? ` (${role.name})` : ""}`;
+    const pageCount = Math.ceil(members.length / membersPerPage);
+    const attachment = new AttachmentBuilder(
+      Buffer.from(ReportUtils.toCsv(members, dates)),
+      {
+        name: `timesheet-${WorklogCommentUtils.formatDate(
+          from
+        )}-${WorklogCommentUtils.formatDate(to)}.csv`,
+      }
+    );
+    let page = 0;
+
+    const message = await interaction.editReply({
+      embeds: [buildReportPage(title, members, dates, page)],
+      components: pageCount > 1 ? [buildPageButtons(page, pageCount)] : [],
+      files: [attachment],
+    });
+
+    if (pageCount <= 1) {
+      return;
+    }
+
+    const collector = message.createMessageComponentCollector({
+      filter: (i: MessageComponentInteraction) =>
+        i.user.id === interaction.user.id,
+      time: pageTimeout,
+    });
+
+    collector?.on("collect", async (i: MessageComponentInteraction) => {
+      page =
+        i.customId === "report-next"
+          ? Math.min(page + 1, pageCount - 1)
+          : Math.max(page - 1, 0);
+
+      await i.update({
+        embeds: [buildReportPage(title, members, dates, page)],
+        components: [buildPageButtons(page, pageCount)],
+      });
+    });
+
+    collector?.on("end", async () => {
+      await interaction.editReply({ components: [] });
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
@@ -0,0 +1,549 @@
+import {
+  ButtonInteraction,
+  ChatInputCommandInteraction,
+  InteractionContextType,
+  ModalSubmitInteraction,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  MessageFlags,
+  EmbedBuilder,
+} from "discord.js";
+import { JiraConfig } from "../db/models/JiraConfig";
+import { WorklogProposal } from "../db/models/WorklogProposal";
+import {
+  buildEditModal,
+  buildProposalMessage,
+  claimProposal,
+  failProposal,
+  getTotalSeconds,
+  parseProposalEdits,
+  recordProposedSeconds,
+  releaseProposal,
+  submitProposal,
+} from "../scheduler/proposals";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { InputValidator } from "../services/InputValidator";
+import { IJiraService } from "../services/JiraService";
+import { ILoggerService } from "../services/LoggerService";
+import { IRateLimitService } from "../services/RateLimitService";
+import { ServiceContainer } from "../services/ServiceContainer";
+import {
+  ConfirmFallback,
+  DEFAULT_CONFIRM_FALLBACK,
+  DEFAULT_CONFIRM_MINUTES,
+  DEFAULT_SCHEDULE_TIME,
+  DEFAULT_TIMEZONE,
+  DEFAULT_WORK_DAYS,
+  TimeUtils,
+} from "../services/TimeUtils";
+
+export const name = "schedule";
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription("Configure when your time is logged automatically.")
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
+  .addStringOption((option) =>
+    option
+      .setName("timezone")
+      .setDescription("Your IANA timezone (e.g. Europe/Lisbon).")
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("time")
+      .setDescription("Local time to log the previous day (HH:mm, 24-hour).")
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("days")
+      .setDescription("Your working weekdays (e.g. mon-fri or mon,wed,fri).")
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("start")
+      .setDescription("Local time your worklogs start each day (HH:mm).")
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("lunch")
+      .setDescription("Local time your lunch break starts (HH:mm).")
+      .setRequired(false)
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName("lunch-minutes")
+      .setDescription("Length of your lunch break in minutes (0 for none).")
+      .setRequired(false)
+      .setMinValue(0)
+      .setMaxValue(240)
+  )
+  .addBooleanOption((option) =>
+    option
+      .setName("confirm")
+      .setDescription("Ask for your approval before your time is logged.")
+      .setRequired(false)
+  )
+  .addIntegerOption((option) =>
+    option
+      .setName("confirm-minutes")
+      .setDescription("Minutes to wait for your approval (default: 120).")
+      .setRequired(false)
+      .setMinValue(15)
+      .setMaxValue(1440)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("unanswered")
+      .setDescription("What happens to time you don't approve in time.")
+      .setRequired(false)
+      .addChoices(
+        { name: "Submit it", value: "submit" },
+        { name: "Skip the day", value: "skip" }
+      )
+  )
+  .addStringOption((option) =>
+    option
+      .setName("profile")
+      .setDescription("Jira profile to schedule (default: default).")
+      .setMaxLength(32)
+      .setRequired(false)
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+
+    // Check rate limit for schedule command
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "schedule");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    loggerService.logInfo("Executing schedule command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+    });
+
+    const timezone = interaction.options.get("timezone", false)?.value as
+      | string
+      | undefined;
+    const time = interaction.options.get("time", false)?.value as
+      | string
+      | undefined;
+    const days = interaction.options.get("days", false)?.value as
+      | string
+      | undefined;
+    const start = interaction.options.get("start", false)?.value as
+      | string
+      | undefined;
+    const lunch = interaction.options.get("lunch", false)?.value as
+      | string
+      | undefined;
+    const lunchMinutes = interaction.options.get("lunch-minutes", false)
+      ?.value as number | undefined;
+    const confirm = interaction.options.get("confirm", false)?.value as
+      | boolean
+      | undefined;
+    const confirmMinutes = interaction.options.get("confirm-minutes", false)
+      ?.value as number | undefined;
+    const unanswered = interaction.options.get("unanswered", false)?.value as
+      | string
+      | undefined;
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+
+    // Validate input
+    let validatedTimezone: string | undefined;
+    let validatedTime: string | undefined;
+    let validatedDays: string | undefined;
+    let validatedStart: string | undefined;
+    let validatedLunch: string | undefined;
+    let validatedLunchMinutes: number | undefined;
+    let validatedConfirmMinutes: number | undefined;
+    let validatedUnanswered: ConfirmFallback | undefined;
+    let validatedProfile: string | undefined;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      if (interaction.guildId) {
+        InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
+      }
+
+      if (timezone !== undefined) {
+        validatedTimezone = InputValidator.validateTimezone(timezone);
+      }
+      if (time !== undefined) {
+        validatedTime = InputValidator.validateTimeOfDay(time, "Time");
+      }
+      if (days !== undefined) {
+        validatedDays = InputValidator.validateWorkDays(days);
+      }
+      if (start !== undefined) {
+        validatedStart = InputValidator.validateTimeOfDay(
+          start,
+          "Workday start"
+        );
+      }
+      if (lunch !== undefined) {
+        validatedLunch = InputValidator.validateTimeOfDay(lunch, "Lunch start");
+      }
+      if (lunchMinutes !== undefined) {
+        validatedLunchMinutes =
+          InputValidator.validateLunchMinutes(lunchMinutes);
+      }
+      if (confirmMinutes !== undefined) {
+        validatedConfirmMinutes =
+          InputValidator.validateConfirmMinutes(confirmMinutes);
+      }
+      if (unanswered !== undefined) {
+        validatedUnanswered =
+          InputValidator.validateConfirmFallback(unanswered);
+      }
+      if (profile) {
+        validatedProfile = InputValidator.validateProfileName(profile);
+      }
+    } catch (error) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(
+          InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const config = await JiraConfig.findProfile(
+      interaction.user.id,
+      validatedProfile
+    );
+
+    if (!config) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("⚠️ Configuration Not Found")
+        .setDescription(
+          validatedProfile
+            ? `No Jira profile named \`${validatedProfile}\` found for this user.`
+            : "No Jira configuration found for this user."
+        )
+        .addFields([
+          {
+            name: "🔧 Next Step",
+            value:
+              "Please run `/setup` first to configure your Jira connection.",
+            inline: false,
+          },
+        ])
+        .setColor(0xffaa00)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const updated =
+      validatedTimezone !== undefined ||
+      validatedTime !== undefined ||
+      validatedDays !== undefined ||
+      validatedStart !== undefined ||
+      validatedLunch !== undefined ||
+      validatedLunchMinutes !== undefined ||
+      confirm !== undefined ||
+      validatedConfirmMinutes !== undefined ||
+      validatedUnanswered !== undefined;
+
+    if (validatedTimezone !== undefined) {
+      config.timezone = validatedTimezone;
+    }
+    if (validatedTime !== undefined) {
+      config.scheduleTime = validatedTime;
+    }
+    if (validatedDays !== undefined) {
+      config.workDays = validatedDays;
+    }
+    if (validatedStart !== undefined) {
+      config.workdayStart = validatedStart;
+    }
+    if (validatedLunch !== undefined) {
+      config.lunchStart = validatedLunch;
+    }
+    if (validatedLunchMinutes !== undefined) {
+      config.lunchMinutes = validatedLunchMinutes;
+    }
+    if (confirm !== undefined) {
+      config.confirmWorklogs = confirm;
+    }
+    if (validatedConfirmMinutes !== undefined) {
+      config.confirmMinutes = validatedConfirmMinutes;
+    }
+    if (validatedUnanswered !== undefined) {
+      config.confirmFallback = validatedUnanswered;
+    }
+    if (updated) {
+      await config.save();
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(updated ? "📅 Schedule Updated" : "📅 Your Schedule")
+      .setDescription(
+        "Your time for each working day is logged automatically the next day at your local run time. Worklogs are laid out back-to-back from your workday start."
+      )
+      .setColor(updated ? 0x00ff00 : 0x0099ff)
+      .addFields([
+        {
+          name: "🌍 Timezone",
+          value: `\`${config.timezone || DEFAULT_TIMEZONE}\``,
+          inline: true,
+        },
+        {
+          name: "⏰ Run Time",
+          value: `\`${config.scheduleTime || DEFAULT_SCHEDULE_TIME}\``,
+          inline: true,
+        },
+        {
+          name: "🗓️ Working Days",
+          value: `\`${TimeUtils.formatWorkDays(
+            config.workDays || DEFAULT_WORK_DAYS
+          )}\``,
+          inline: true,
+        },
+        {
+          name: "🕘 Workday",
+          value: `\`${TimeUtils.formatWorkdayLayout(
+            TimeUtils.getWorkdayLayout(config)
+          )}\``,
+          inline: false,
+        },
+        {
+          name: "✅ Confirmation",
+          value: config.confirmWorklogs
+            ? `Ask first, ${
+                (config.confirmFallback || DEFAULT_CONFIRM_FALLBACK) === "skip"
+                  ? "skip"
+                  : "submit"
+              } unanswered time after ${TimeUtils.formatTimeString(
+                (config.confirmMinutes || DEFAULT_CONFIRM_MINUTES) * 60
+              )}`
+            : "Off, time is submitted right away",
+          inline: false,
+        },
+      ])
+      .setTimestamp()
+      .setFooter({
+        text: `Configured by ${interaction.user.username}`,
+        iconURL: interaction.user.displayAvatarURL(),
+      });
+
+    return interaction.reply({
+      embeds: [embed],
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
+
+async function replyProposalExpired(
+  interaction: ButtonInteraction | ModalSubmitInteraction
+) {
+  const expiredEmbed = new EmbedBuilder()
+    .setTitle("⌛ Worklogs Expired")
+    .setDescription(
+      "These worklogs were already answered or handled after the confirmation window."
+    )
+    .setColor(0xffaa00)
+    .setTimestamp();
+
+  await interaction.reply({
+    embeds: [expiredEmbed],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Find the proposal a button or the edit form belongs to, as long as it is
+ * still open and was made for the user answering it
+ */
+async function findOpenProposal(
+  interaction: ButtonInteraction | ModalSubmitInteraction
+) {
+  const proposalId = Number(interaction.customId.split(":")[2]);
+  const proposal = Number.isInteger(proposalId)
+    ? await WorklogProposal.findByPk(proposalId)
+    : null;
+  if (!proposal || proposal.userId !== interaction.user.id) {
+    return undefined;
+  }
+
+  const config = await JiraConfig.findProfile(
+    proposal.userId,
+    proposal.profile
+  );
+  return config ? { proposal, config } : undefined;
+}
+
+/**
+ * Approve, edit or skip the worklogs the scheduler proposed for a day
+ */
+export async function handleButton(interaction: ButtonInteraction) {
+  try {
+    const serviceContainer = ServiceContainer.getInstance();
+    const jiraService = serviceContainer.get<IJiraService>("IJiraService");
+    const logger = serviceContainer.get<ILoggerService>("ILoggerService");
+
+    const action = interaction.customId.split(":")[1];
+    const open = await findOpenProposal(interaction);
+    if (!open) {
+      await replyProposalExpired(interaction);
+      return;
+    }
+
+    const { proposal, config } = open;
+    if (action === "edit") {
+      await interaction.showModal(buildEditModal(proposal));
+      return;
+    }
+
+    if (
+      (action !== "approve" && action !== "skip") ||
+      !(await claimProposal(proposal))
+    ) {
+      await replyProposalExpired(interaction);
+      return;
+    }
+
+    logger.logInfo("Answering proposed worklogs", {
+      UserId: interaction.user.id,
+      Profile: proposal.profile,
+      Date: proposal.date,
+      Action: action,
+    });
+
+    if (action === "skip") {
+      await releaseProposal(proposal);
+      await interaction.update(
+        buildProposalMessage(proposal, config, "skipped")
+      );
+      return;
+    }
+
+    // Posting can take a while with many issues
+    await interaction.deferUpdate();
+    jiraService.configureConnection(config.host, config.username, config);
+    let message;
+    try {
+      message = buildProposalMessage(
+        proposal,
+        config,
+        "submitted",
+        await submitProposal(jiraService, proposal, config)
+      );
+    } catch (error) {
+      logger.logError(
+        error instanceof Error ? error : new Error(String(error)),
+        {
+          UserId: interaction.user.id,
+          Profile: proposal.profile,
+          Date: proposal.date,
+          Operation: "submitProposal",
+        }
+      );
+      message = buildProposalMessage(
+        proposal,
+        config,
+        "failed",
+        [],
+        await failProposal(proposal, error)
+      );
+    }
+    await interaction.editReply(message);
+  } catch (error) {
+    await ErrorHandler.handleCommandError(
+      interaction,
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
+
+/**
+ * Save the worklogs changed through the edit form and show them again for
+ * approval
+ */
+export async function handleModalSubmit(interaction: ModalSubmitInteraction) {
+  try {
+    const open = await findOpenProposal(interaction);
+    if (!open) {
+      await replyProposalExpired(interaction);
+      return;
+    }
+
+    const { proposal, config } = open;
+    const proposedSeconds = getTotalSeconds(proposal.entries);
+    try {
+      proposal.entries = parseProposalEdits(
+        interaction.fields.getTextInputValue("entries"),
+        proposal.entries
+      );
+    } catch (error) {
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(
+          InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      await interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await proposal.save();
+    await recordProposedSeconds(
+      proposal,
+      getTotalSeconds(proposal.entries) - proposedSeconds
+    );
+
+    if (interaction.isFromMessage()) {
+      await interaction.update(buildProposalMessage(proposal, config));
+    } else {
+      await interaction.reply({
+        ...buildProposalMessage(proposal, config),
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  } catch (error) {
+    await ErrorHandler.handleCommandError(
+      interaction,
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
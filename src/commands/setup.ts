@@ -1,18 +1,32 @@
 import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
   ChatInputCommandInteraction,
   InteractionContextType,
+  LabelBuilder,
+  ModalBuilder,
+  ModalSubmitInteraction,
   PermissionFlagsBits,
   SlashCommandBuilder,
   MessageFlags,
   EmbedBuilder,
+  TextInputBuilder,
+  TextInputStyle,
 } from "discord.js";
-import { JiraConfig } from "../db/models";
-import {
-  ApplicationError,
-  ErrorHandler,
-  ErrorType,
-} from "../services/ErrorHandler";
+import { DEFAULT_PROFILE, GuildSettings, JiraConfig } from "../db/models";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { GuildPolicyUtils } from "../services/GuildPolicyUtils";
 import { InputValidator } from "../services/InputValidator";
+import {
+  ApiVersion,
+  AuthScheme,
+  DEFAULT_AUTH_SCHEME,
+  DEFAULT_DEPLOYMENT_TYPE,
+  DeploymentType,
+  JiraConnectionUtils,
+} from "../services/JiraConnectionUtils";
 import { IJiraService } from "../services/JiraService";
 import { ILoggerService } from "../services/LoggerService";
 import { IRateLimitService } from "../services/RateLimitService";
@@ -20,54 +34,183 @@ import { ServiceContainer } from "../services/ServiceContainer";
 
 export const name = "setup";
 
+// How long the form can be submitted or retried after /setup
+export const SETUP_TIMEOUT_MS = 15 * 60 * 1000;
+
 export const data = new SlashCommandBuilder()
   .setName(name)
   .setDescription("Setup a Jira configuration for your user.")
-  .setContexts([InteractionContextType.Guild])
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
   .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
+  .addIntegerOption((option) =>
+    option
+      .setName("daily-hours")
+      .setDescription(
+        "Daily hours to distribute across tickets (default: 8 or the server's)."
+      )
+      .setMinValue(1)
+      .setMaxValue(24)
+      .setRequired(false)
+  )
   .addStringOption((option) =>
     option
-      .setName("host")
-      .setDescription("The host of your Jira instance.")
-      .setRequired(true)
+      .setName("deployment")
+      .setDescription("Where your Jira runs (default: Cloud).")
+      .setRequired(false)
+      .addChoices(
+        { name: "Cloud", value: "cloud" },
+        { name: "Data Center / Server", value: "datacenter" }
+      )
   )
   .addStringOption((option) =>
     option
-      .setName("username")
-      .setDescription("Your Jira username.")
-      .setRequired(true)
+      .setName("auth")
+      .setDescription("How to authenticate (default: Basic).")
+      .setRequired(false)
+      .addChoices(
+        { name: "Basic (username and API token)", value: "basic" },
+        { name: "Bearer (personal access token)", value: "bearer" }
+      )
   )
   .addStringOption((option) =>
     option
-      .setName("token")
-      .setDescription("Your Jira API token.")
-      .setRequired(true)
+      .setName("api-version")
+      .setDescription(
+        "REST API version (default: 3 on Cloud, 2 on Data Center)."
+      )
+      .setRequired(false)
+      .addChoices({ name: "2", value: "2" }, { name: "3", value: "3" })
   )
   .addStringOption((option) =>
     option
-      .setName("jql")
-      .setDescription("The JQL query to use for searching.")
+      .setName("context-path")
+      .setDescription("Path Jira is served under, e.g. /jira (Data Center).")
       .setRequired(false)
   )
-  .addIntegerOption((option) =>
+  .addStringOption((option) =>
     option
-      .setName("daily-hours")
-      .setDescription("Daily hours to distribute across tickets (default: 8).")
-      .setMinValue(1)
-      .setMaxValue(24)
+      .setName("profile")
+      .setDescription(
+        "Name of the Jira profile to create or update (default: default)."
+      )
+      .setMaxLength(32)
       .setRequired(false)
   );
 
+export interface SetupFormValues {
+  host: string;
+  username: string;
+  token: string;
+  jql: string;
+}
+
+interface PendingSetup {
+  userId: string;
+  profile: string;
+  // Unset uses the server default, which is only known once submitted
+  dailyHours?: number;
+  connectionSettings: {
+    deploymentType: DeploymentType;
+    apiVersion: ApiVersion | null;
+    contextPath: string | null;
+    authScheme: AuthScheme;
+  };
+  values?: SetupFormValues;
+  expiresAt: number;
+}
+
+// Options given to /setup, kept until the form is submitted successfully
+const pendingSetups = new Map<string, PendingSetup>();
+
+function getPendingSetup(
+  setupId: string,
+  userId: string
+): PendingSetup | undefined {
+  const pending = pendingSetups.get(setupId);
+  if (!pending || pending.userId !== userId) {
+    return undefined;
+  }
+
+  if (pending.expiresAt <= Date.now()) {
+    pendingSetups.delete(setupId);
+    return undefined;
+  }
+
+  return pending;
+}
+
+/**
+ * Build the credentials form. Values from a failed submission are filled
+ * back in so only the wrong field needs fixing
+ */
+export function buildSetupModal(
+  setupId: string,
+  values?: SetupFormValues
+): ModalBuilder {
+  const input = (
+    customId: keyof SetupFormValues,
+    style: TextInputStyle,
+    required: boolean,
+    placeholder: string
+  ) => {
+    const textInput = new TextInputBuilder()
+      .setCustomId(customId)
+      .setStyle(style)
+      .setRequired(required)
+      .setPlaceholder(placeholder);
+
+    if (values?.[customId]) {
+      textInput.setValue(values[customId]);
+    }
+
+    return textInput;
+  };
+
+  return new ModalBuilder()
+    .setCustomId(`${name}:modal:${setupId}`)
+    .setTitle("Jira Setup")
+    .addLabelComponents(
+      new LabelBuilder()
+        .setLabel("Host")
+        .setDescription("The host of your Jira instance.")
+        .setTextInputComponent(
+          input("host", TextInputStyle.Short, true, "your-team.atlassian.net")
+        ),
+      new LabelBuilder()
+        .setLabel("Username")
+        .setDescription("Your Jira username (your e-mail on Jira Cloud).")
+        .setTextInputComponent(
+          input("username", TextInputStyle.Short, true, "you@example.com")
+        ),
+      new LabelBuilder()
+        .setLabel("API token")
+        .setDescription(
+          "Your Jira API token or personal access token. Only you can see it."
+        )
+        .setTextInputComponent(
+          input("token", TextInputStyle.Short, true, "••••••••••••••••")
+        ),
+      new LabelBuilder()
+        .setLabel("JQL")
+        .setDescription("The JQL query to use for searching (optional).")
+        .setTextInputComponent(
+          input(
+            "jql",
+            TextInputStyle.Paragraph,
+            false,
+            "assignee = currentUser() AND status = 'In Progress'"
+          )
+        )
+    );
+}
+
 export async function execute(interaction: ChatInputCommandInteraction) {
   try {
     const serviceContainer = ServiceContainer.getInstance();
-    const jiraService = serviceContainer.get<IJiraService>("IJiraService");
     const logger = serviceContainer.get<ILoggerService>("ILoggerService");
     const rateLimitService =
       serviceContainer.get<IRateLimitService>("IRateLimitService");
 
-    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
-
     // Check rate limit for setup command
     try {
       rateLimitService.checkRateLimit(interaction.user.id, "setup");
@@ -80,31 +223,43 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         .setColor(0xffaa00)
         .setTimestamp();
 
-      await interaction.editReply({
+      await interaction.reply({
         embeds: [rateLimitEmbed],
+        flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
-    const host = interaction.options.get("host", true);
-    const username = interaction.options.get("username", true);
-    const token = interaction.options.get("token", true);
-    const jql = interaction.options.get("jql", false);
-    const dailyHours =
-      (interaction.options.get("daily-hours", false)?.value as number) ?? 8;
+    const dailyHours = interaction.options.get("daily-hours", false)?.value as
+      | number
+      | undefined;
+    const deployment = interaction.options.get("deployment", false)?.value as
+      | string
+      | undefined;
+    const auth = interaction.options.get("auth", false)?.value as
+      | string
+      | undefined;
+    const apiVersion = interaction.options.get("api-version", false)?.value as
+      | string
+      | undefined;
+    const contextPath = interaction.options.get("context-path", false)
+      ?.value as string | undefined;
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
 
     logger.info("Executing setup command", {
       guildId: interaction.guildId,
       userId: interaction.user.id,
-      host: host.value,
     });
 
-    // Validate inputs using InputValidator
-    let validatedHost: string;
-    let validatedUsername: string;
-    let validatedToken: string;
-    let validatedJql: string | undefined;
-    let validatedDailyHours: number;
+    // Validate the options now, the credentials are validated on submit
+    let validatedDailyHours: number | undefined;
+    let validatedDeployment: DeploymentType;
+    let validatedAuth: AuthScheme;
+    let validatedApiVersion: ApiVersion | undefined;
+    let validatedContextPath: string;
+    let validatedProfile: string;
 
     try {
       // Validate Discord IDs
@@ -113,13 +268,23 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
       }
 
-      validatedHost = InputValidator.validateJiraHost(host.value as string);
-      validatedUsername = InputValidator.validateEmail(
-        username.value as string
-      );
-      validatedToken = InputValidator.validateApiToken(token.value as string);
-      validatedJql = InputValidator.validateJQL(jql?.value as string);
-      validatedDailyHours = InputValidator.validateDailyHours(dailyHours);
+      validatedDeployment = deployment
+        ? InputValidator.validateDeploymentType(deployment)
+        : DEFAULT_DEPLOYMENT_TYPE;
+      validatedAuth = auth
+        ? InputValidator.validateAuthScheme(auth)
+        : DEFAULT_AUTH_SCHEME;
+      validatedApiVersion = apiVersion
+        ? InputValidator.validateApiVersion(apiVersion)
+        : undefined;
+      validatedContextPath = InputValidator.validateContextPath(contextPath);
+      validatedDailyHours =
+        dailyHours !== undefined
+          ? InputValidator.validateDailyHours(dailyHours)
+          : undefined;
+      validatedProfile = profile
+        ? InputValidator.validateProfileName(profile)
+        : DEFAULT_PROFILE;
     } catch (error) {
       if (error instanceof Error) {
         const validationEmbed = new EmbedBuilder()
@@ -128,51 +293,240 @@ export async function execute(interaction: ChatInputCommandInteraction) {
           .setColor(0xff0000)
           .setTimestamp();
 
-        await interaction.editReply({
+        await interaction.reply({
           embeds: [validationEmbed],
+          flags: MessageFlags.Ephemeral,
         });
         return;
       }
       throw error;
     }
 
+    const now = Date.now();
+    for (const [setupId, pending] of pendingSetups) {
+      if (pending.expiresAt <= now) {
+        pendingSetups.delete(setupId);
+      }
+    }
+
+    pendingSetups.set(interaction.id, {
+      userId: interaction.user.id,
+      profile: validatedProfile,
+      dailyHours: validatedDailyHours,
+      connectionSettings: {
+        deploymentType: validatedDeployment,
+        apiVersion: validatedApiVersion ?? null,
+        contextPath: validatedContextPath || null,
+        authScheme: validatedAuth,
+      },
+      expiresAt: now + SETUP_TIMEOUT_MS,
+    });
+
+    await interaction.showModal(buildSetupModal(interaction.id));
+  } catch (error) {
+    await ErrorHandler.handleCommandError(
+      interaction,
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
+
+/**
+ * Reply with a validation error, offering to reopen the form when changing
+ * what was typed can fix it
+ */
+async function replyValidationError(
+  interaction: ModalSubmitInteraction,
+  setupId: string,
+  message: string,
+  retry = true,
+  title = "❌ Validation Error"
+) {
+  const validationEmbed = new EmbedBuilder()
+    .setTitle(title)
+    .setDescription(InputValidator.sanitizeInput(message))
+    .setColor(0xff0000)
+    .setTimestamp();
+  const retryButton = new ButtonBuilder()
+    .setCustomId(`${name}:retry:${setupId}`)
+    .setLabel("Edit and retry")
+    .setEmoji("✏️")
+    .setStyle(ButtonStyle.Primary);
+
+  const reply = {
+    embeds: [validationEmbed],
+    components: retry
+      ? [new ActionRowBuilder<ButtonBuilder>().addComponents(retryButton)]
+      : [],
+  };
+
+  // The connection test runs after the reply was deferred
+  if (interaction.deferred) {
+    await interaction.editReply(reply);
+  } else {
+    await interaction.reply({ ...reply, flags: MessageFlags.Ephemeral });
+  }
+}
+
+async function replySetupExpired(
+  interaction: ModalSubmitInteraction | ButtonInteraction
+) {
+  const expiredEmbed = new EmbedBuilder()
+    .setTitle("⌛ Setup Expired")
+    .setDescription("This setup form has expired. Run `/setup` again.")
+    .setColor(0xffaa00)
+    .setTimestamp();
+
+  await interaction.reply({
+    embeds: [expiredEmbed],
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+/**
+ * Validate the submitted credentials, test the connection and save the
+ * configuration
+ */
+export async function handleModalSubmit(interaction: ModalSubmitInteraction) {
+  try {
+    const serviceContainer = ServiceContainer.getInstance();
+    const jiraService = serviceContainer.get<IJiraService>("IJiraService");
+    const logger = serviceContainer.get<ILoggerService>("ILoggerService");
+
+    const setupId = interaction.customId.split(":")[2];
+    const pending = getPendingSetup(setupId, interaction.user.id);
+    if (!pending) {
+      await replySetupExpired(interaction);
+      return;
+    }
+
+    const values: SetupFormValues = {
+      host: interaction.fields.getTextInputValue("host"),
+      username: interaction.fields.getTextInputValue("username"),
+      token: interaction.fields.getTextInputValue("token"),
+      jql: interaction.fields.getTextInputValue("jql"),
+    };
+    const { connectionSettings } = pending;
+
+    logger.info("Submitting setup form", {
+      guildId: interaction.guildId,
+      userId: interaction.user.id,
+      host: values.host,
+    });
+
+    // Validate inputs using InputValidator
+    let validatedHost: string;
+    let validatedUsername: string;
+    let validatedToken: string;
+    let validatedJql: string | undefined;
+
+    try {
+      validatedHost = InputValidator.validateJiraHost(values.host);
+      validatedUsername = InputValidator.validateJiraUsername(
+        values.username,
+        connectionSettings.deploymentType
+      );
+      validatedToken = InputValidator.validateApiToken(values.token);
+      validatedJql = InputValidator.validateJQL(values.jql);
+    } catch (error) {
+      if (error instanceof Error) {
+        // Keep what was typed so the retry form comes back filled in
+        pending.values = values;
+        await replyValidationError(interaction, setupId, error.message);
+        return;
+      }
+      throw error;
+    }
+
+    // Members set up in DMs follow the policies of their notification guild
+    const existingConfig = interaction.guildId
+      ? null
+      : await JiraConfig.findOne({
+          where: { userId: interaction.user.id, profile: pending.profile },
+        });
+    const policy = await GuildSettings.findForGuild(
+      interaction.guildId ?? existingConfig?.guildId
+    );
+    const dailyHours =
+      pending.dailyHours ?? GuildPolicyUtils.getDefaultDailyHours(policy);
+
+    if (!GuildPolicyUtils.isWithinMaxDailyHours(policy, dailyHours)) {
+      pendingSetups.delete(setupId);
+      await replyValidationError(
+        interaction,
+        setupId,
+        `This server allows at most ${policy?.maxDailyHours} daily hours. Run /setup again with fewer daily-hours.`,
+        false
+      );
+      return;
+    }
+
+    if (!GuildPolicyUtils.isHostAllowed(policy, validatedHost)) {
+      pending.values = values;
+      await replyValidationError(
+        interaction,
+        setupId,
+        `This server only allows these Jira hosts: ${GuildPolicyUtils.parseAllowedHosts(
+          policy?.allowedHosts
+        ).join(", ")}`
+      );
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
     // Test Jira connection
     try {
+      jiraService.configureConnection(
+        validatedHost,
+        validatedUsername,
+        connectionSettings
+      );
+
       await jiraService.getServerInfo(
         validatedHost,
         validatedUsername,
         validatedToken
       );
     } catch (error) {
-      if (error instanceof ApplicationError) {
-        throw error;
-      }
-      throw new ApplicationError(
-        "Failed to validate Jira connection",
-        ErrorType.JIRA_API_ERROR,
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn("Jira connection test failed", {
+        guildId: interaction.guildId,
+        userId: interaction.user.id,
+        host: validatedHost,
+        error: reason,
+      });
+
+      // Usually a mistyped host or token, so the retry form comes back
+      // filled in as well
+      pending.values = values;
+      await replyValidationError(
+        interaction,
+        setupId,
+        `Could not connect to Jira: ${reason}. Check the host, username and token, then try again.`,
         true,
-        undefined,
-        {
-          originalError: error instanceof Error ? error.message : String(error),
-        }
+        "❌ Connection Failed"
       );
+      return;
     }
 
     // Save configuration to database
     const [config, created] = await JiraConfig.findOrCreate({
       where: {
-        guildId: interaction.guildId!,
         userId: interaction.user.id,
+        profile: pending.profile,
       },
       defaults: {
-        guildId: interaction.guildId!,
+        guildId: interaction.guildId,
+        profile: pending.profile,
         host: validatedHost,
         username: validatedUsername,
         token: validatedToken,
         userId: interaction.user.id,
         timeJqlOverride: validatedJql,
         schedulePaused: false,
-        dailyHours: validatedDailyHours,
+        dailyHours,
+        ...connectionSettings,
       },
     });
 
@@ -181,13 +535,24 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       config.username = validatedUsername;
       config.token = validatedToken;
       config.timeJqlOverride = validatedJql;
-      config.dailyHours = validatedDailyHours;
+      config.dailyHours = dailyHours;
+      config.deploymentType = connectionSettings.deploymentType;
+      config.apiVersion = connectionSettings.apiVersion;
+      config.contextPath = connectionSettings.contextPath;
+      config.authScheme = connectionSettings.authScheme;
+      // Notifications follow the guild the user last ran /setup in
+      if (interaction.guildId) {
+        config.guildId = interaction.guildId;
+      }
       await config.save();
     }
 
+    pendingSetups.delete(setupId);
+
     logger.info("Jira configuration saved successfully", {
       guildId: interaction.guildId,
       userId: interaction.user.id,
+      profile: pending.profile,
       created,
     });
 
@@ -209,9 +574,19 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         },
         {
           name: "📊 Daily Hours",
-          value: `\`${validatedDailyHours} hours\``,
+          value: `\`${dailyHours} hours\``,
           inline: true,
         },
+        {
+          name: "📁 Profile",
+          value: `\`${pending.profile}\``,
+          inline: true,
+        },
+        {
+          name: "🏢 Deployment",
+          value: `\`${JiraConnectionUtils.describe(connectionSettings)}\``,
+          inline: false,
+        },
         ...(validatedJql
           ? [
               {
@@ -224,7 +599,7 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         {
           name: "🚀 Next Steps",
           value:
-            "• Use `/time` to track your work\n• Use `/hours` to update daily hours\n• Use `/pause` to control automatic logging\n• Use `/info` to view your configuration",
+            "• Use `/time` to track your work\n• Use `/hours` to update daily hours\n• Use `/schedule` to set your timezone and run time\n• Use `/pause` to control automatic logging\n• Use `/info` to view your configuration",
           inline: false,
         },
       ])
@@ -248,3 +623,27 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     );
   }
 }
+
+/**
+ * Reopen the form after a validation error, filled in with the last values
+ */
+export async function handleButton(interaction: ButtonInteraction) {
+  try {
+    const [, action, setupId] = interaction.customId.split(":");
+    const pending =
+      action === "retry"
+        ? getPendingSetup(setupId, interaction.user.id)
+        : undefined;
+    if (!pending) {
+      await replySetupExpired(interaction);
+      return;
+    }
+
+    await interaction.showModal(buildSetupModal(setupId, pending.values));
+  } catch (error) {
+    await ErrorHandler.handleCommandError(
+      interaction,
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import {
   ActionRowBuilder,
+  AutocompleteInteraction,
   ButtonBuilder,
   ButtonStyle,
   ChatInputCommandInteraction,
@@ -9,26 +10,55 @@ import {
   InteractionEditReplyOptions,
   MessageComponentInteraction,
   MessagePayload,
+  ModalBuilder,
+  ModalSubmitInteraction,
   PermissionFlagsBits,
   SlashCommandBuilder,
+  StringSelectMenuBuilder,
+  TextInputBuilder,
+  TextInputStyle,
   MessageFlags,
 } from "discord.js";
-import "../services/utils"; // Import to initialize String.prototype.format extension
-import { JiraConfig } from "../db/models";
-import { PageOfWorklogs, SearchResults } from "../jira/models";
+import {
+  Allocation,
+  DEFAULT_PROFILE,
+  GuildSettings,
+  JiraConfig,
+  TimeOff,
+  WorklogEntry,
+} from "../db/models";
+import { IssueBean, Worklog } from "../jira/models";
+import {
+  AlreadyLoggedError,
+  describeFailures,
+  postWorklogs,
+} from "../scheduler/posting";
 import { ErrorHandler } from "../services/ErrorHandler";
-import { InputValidator } from "../services/InputValidator";
-import { IJiraService } from "../services/JiraService";
+import { GuildPolicyUtils } from "../services/GuildPolicyUtils";
+import { InputValidator, ValidationError } from "../services/InputValidator";
+import { JiraConnectionUtils } from "../services/JiraConnectionUtils";
+import { getDefaultJql, IJiraService } from "../services/JiraService";
+import { ILoggerService } from "../services/LoggerService";
 import { IRateLimitService } from "../services/RateLimitService";
+import { ReportUtils } from "../services/ReportUtils";
 import { ServiceContainer } from "../services/ServiceContainer";
-import { TimeUtils } from "../services/TimeUtils";
+import {
+  AllocatedTime,
+  DEFAULT_DISTRIBUTION_STRATEGY,
+  DEFAULT_PARTIAL_DAY_MODE,
+  DEFAULT_TIMEZONE,
+  DEFAULT_WORK_DAYS,
+  TimeUtils,
+} from "../services/TimeUtils";
+import { collectAll, distributeTime } from "../services/utils"; // Also initializes the String.prototype.format extension
+import { WorklogCommentUtils } from "../services/WorklogCommentUtils";
 
 export const name = "time";
 
 export const data = new SlashCommandBuilder()
   .setName(name)
   .setDescription("Check your work and log time.")
-  .setContexts([InteractionContextType.Guild])
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
   .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
   .addIntegerOption((option) =>
     option
@@ -36,7 +66,15 @@ export const data = new SlashCommandBuilder()
       .setDescription("The number of days ago to check your work.")
       .setMinValue(1)
       .setMaxValue(50)
-      .setRequired(true)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("date")
+      .setDescription("The day to check, e.g. 2025-07-28, friday or yesterday.")
+      .setMaxLength(32)
+      .setAutocomplete(true)
+      .setRequired(false)
   )
   .addIntegerOption((option) =>
     option
@@ -45,6 +83,45 @@ export const data = new SlashCommandBuilder()
       .setMinValue(1)
       .setMaxValue(24)
       .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("comment")
+      .setDescription(
+        "Worklog comment, overrides your /comment template for this run."
+      )
+      .setMaxLength(2000)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("profile")
+      .setDescription("Jira profile to use (default: default).")
+      .setMaxLength(32)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("from")
+      .setDescription("First day of a range, e.g. 2025-07-28 or last monday.")
+      .setMaxLength(32)
+      .setAutocomplete(true)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("to")
+      .setDescription("Last day of a range (default: yesterday).")
+      .setMaxLength(32)
+      .setAutocomplete(true)
+      .setRequired(false)
+  )
+  .addStringOption((option) =>
+    option
+      .setName("preset")
+      .setDescription("Check a preset range of days.")
+      .addChoices({ name: "Last week", value: "last-week" })
+      .setRequired(false)
   );
 
 function replyOrFollowUp(
@@ -63,6 +140,813 @@ function replyOrFollowUp(
   return interaction.reply(options);
 }
 
+interface PreviewEntry {
+  key: string;
+  summary: string;
+  assignee: string;
+  status?: string;
+  timeInSeconds: number;
+  reason?: string;
+  // Posted instead of the comment template, e.g. the reason for time off
+  comment?: string;
+}
+
+interface DayIssue {
+  id: string;
+  key: string;
+  summary: string;
+  assignee: string;
+  status?: string;
+  worklogs: Worklog[];
+}
+
+interface RangeDay {
+  date: Date;
+  loggedSeconds: number;
+  // The user's time on each issue, which the entries top up
+  issueSeconds: Record<string, number>;
+  // When the user's last worklog of the day ended, the entries start after it
+  loggedUntil?: Date;
+  entries: PreviewEntry[];
+  error?: string;
+  // Reason for the day off when the day is time off
+  timeOff?: string;
+}
+
+// Editing through modals takes longer than a single click
+const previewTimeout = 300000;
+const modalTimeout = 120000;
+// Discord select menus are limited to 25 options
+const maxPreviewEntries = 25;
+// Same reach as days-ago, and at most a month at once
+const maxDaysAgo = 50;
+const maxRangeDays = 31;
+
+function buildPreviewFields(entries: PreviewEntry[]) {
+  return entries.map((entry) => ({
+    name: `${entry.key} (${entry.assignee})`,
+    value: `${entry.summary || "No summary"}\n- ${TimeUtils.formatTimeString(
+      entry.timeInSeconds
+    )}${entry.reason ? ` (${entry.reason})` : ""}`,
+    inline: false,
+  }));
+}
+
+function buildPreviewFooter(
+  entries: PreviewEntry[],
+  totalSeconds: number,
+  loggedSeconds: number
+) {
+  const splitTotal = entries.reduce(
+    (acc, entry) => acc + entry.timeInSeconds,
+    0
+  );
+  return `${
+    loggedSeconds
+      ? `You already logged ${TimeUtils.formatTimeString(loggedSeconds)}.`
+      : "You didn't log any worklogs."
+  } Split total: ${TimeUtils.formatTimeString(
+    splitTotal
+  )} of ${TimeUtils.formatTimeString(totalSeconds)}.`;
+}
+
+function sumSeconds(seconds: Record<string, number>): number {
+  return Object.values(seconds).reduce((acc, value) => acc + value, 0);
+}
+
+function buildPreviewComponents(entries: PreviewEntry[]) {
+  const rows: ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[] = [];
+
+  if (entries.length) {
+    rows.push(
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+        new StringSelectMenuBuilder()
+          .setCustomId("edit-issue")
+          .setPlaceholder("Adjust or drop an issue...")
+          .addOptions(
+            entries.slice(0, maxPreviewEntries).map((entry) => ({
+              label: entry.key,
+              description: `${TimeUtils.formatTimeString(
+                entry.timeInSeconds
+              )} - ${entry.summary}`.substring(0, 100),
+              value: entry.key,
+            }))
+          )
+      )
+    );
+  }
+
+  rows.push(
+    new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId("submit")
+        .setLabel("Submit")
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId("add-issue")
+        .setLabel("Add Issue")
+        .setStyle(ButtonStyle.Secondary)
+    )
+  );
+
+  return rows;
+}
+
+function buildEditIssueModal(customId: string, entry: PreviewEntry) {
+  return new ModalBuilder()
+    .setCustomId(customId)
+    .setTitle(`Edit ${entry.key}`.substring(0, 45))
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId("minutes")
+          .setLabel("Minutes (0 drops the issue)")
+          .setStyle(TextInputStyle.Short)
+          .setValue(String(Math.round(entry.timeInSeconds / 60)))
+          .setRequired(true)
+      )
+    );
+}
+
+function buildAddIssueModal(customId: string) {
+  return new ModalBuilder()
+    .setCustomId(customId)
+    .setTitle("Add Issue")
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId("issue-key")
+          .setLabel("Issue key")
+          .setPlaceholder("PROJ-123")
+          .setStyle(TextInputStyle.Short)
+          .setRequired(true)
+      ),
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId("minutes")
+          .setLabel("Minutes")
+          .setStyle(TextInputStyle.Short)
+          .setRequired(true)
+      )
+    );
+}
+
+function parseMinutes(value: string, min: number): number {
+  return InputValidator.validateNumber(Number(value.trim()), "Minutes", {
+    required: true,
+    min,
+    max: 24 * 60,
+    integer: true,
+  });
+}
+
+async function awaitPreviewModal(
+  interaction: MessageComponentInteraction,
+  customId: string
+): Promise<ModalSubmitInteraction | null> {
+  try {
+    return await interaction.awaitModalSubmit({
+      filter: (submitted) =>
+        submitted.customId === customId &&
+        submitted.user.id === interaction.user.id,
+      time: modalTimeout,
+    });
+  } catch {
+    // The modal was dismissed or timed out
+    return null;
+  }
+}
+
+async function replyValidationError(
+  submitted: ModalSubmitInteraction,
+  error: unknown
+) {
+  await submitted.reply({
+    content: `❌ ${InputValidator.sanitizeInput(
+      error instanceof Error ? error.message : String(error)
+    )}`,
+    flags: MessageFlags.Ephemeral,
+  });
+}
+
+function getDayJql(jqlOverride: string | undefined, date: Date) {
+  return (
+    jqlOverride?.format(WorklogCommentUtils.formatDate(date)) ??
+    getDefaultJql(date)
+  );
+}
+
+/**
+ * Days are checked up to yesterday, as far back as days-ago reaches
+ */
+function checkPastDate(date: Date, today: Date) {
+  const daysAgo = TimeUtils.getDaysBetween(date, today);
+  if (daysAgo < 1) {
+    throw new ValidationError("Dates must be before today");
+  }
+  if (daysAgo > maxDaysAgo) {
+    throw new ValidationError(
+      `Dates must be within the last ${maxDaysAgo} days`
+    );
+  }
+}
+
+/**
+ * Resolve the days to check from the from/to dates or a preset, relative to
+ * today's date in the user's timezone
+ */
+function getDateRange(
+  fromOption: string | undefined,
+  toOption: string | undefined,
+  preset: string | undefined,
+  today: Date
+): { from: Date; to: Date } {
+  let from: Date;
+  let to: Date;
+
+  if (preset) {
+    if (fromOption || toOption) {
+      throw new ValidationError("Use either a preset or from and to, not both");
+    }
+    if (preset !== "last-week") {
+      throw new ValidationError(`Unknown preset ${preset}`);
+    }
+    ({ from, to } = ReportUtils.getLastWeek(today));
+  } else {
+    if (!fromOption) {
+      throw new ValidationError("A date range needs a from date");
+    }
+    from = InputValidator.validateDate(fromOption, "From", today);
+    to = toOption
+      ? InputValidator.validateDate(toOption, "To", today)
+      : TimeUtils.parseDate("yesterday", today)!;
+  }
+
+  InputValidator.validateDateRange(from, to, maxRangeDays);
+  checkPastDate(from, today);
+  checkPastDate(to, today);
+
+  return { from, to };
+}
+
+/**
+ * Load the details and worklogs of the issues worked on a day
+ */
+async function fetchDayIssues(
+  jiraService: IJiraService,
+  jiraConfig: JiraConfig,
+  issuesWorked: IssueBean[],
+  date: Date
+): Promise<DayIssue[]> {
+  return Promise.all(
+    issuesWorked.map(async (issue) => {
+      return {
+        id: issue.id,
+        key: InputValidator.sanitizeInput(issue.key),
+        summary: InputValidator.sanitizeInput(issue.fields.summary),
+        assignee: InputValidator.sanitizeInput(
+          issue.fields.assignee.displayName
+        ),
+        status: issue.fields.status?.name,
+        worklogs: await collectAll(
+          jiraService.iterateIssueWorklogs(
+            jiraConfig.host,
+            jiraConfig.username,
+            jiraConfig.token,
+            issue.key,
+            date,
+            date,
+            jiraConfig.timezone || DEFAULT_TIMEZONE
+          )
+        ),
+      };
+    })
+  );
+}
+
+/**
+ * Load the profile's time off issue as the only issue of a day off
+ */
+async function fetchTimeOffIssue(
+  jiraService: IJiraService,
+  jiraConfig: JiraConfig,
+  timeOff: TimeOff,
+  date: Date
+): Promise<DayIssue> {
+  const key = jiraConfig.timeOffIssueKey as string;
+  return {
+    id: key,
+    key,
+    summary: timeOff.reason || "Time off",
+    assignee: "Time off",
+    worklogs: await collectAll(
+      jiraService.iterateIssueWorklogs(
+        jiraConfig.host,
+        jiraConfig.username,
+        jiraConfig.token,
+        key,
+        date,
+        date,
+        jiraConfig.timezone || DEFAULT_TIMEZONE
+      )
+    ),
+  };
+}
+
+/**
+ * Put all of a day off's hours on the time off issue, with the reason as
+ * the worklog comment
+ */
+function planTimeOffEntries(
+  issue: DayIssue,
+  totalSeconds: number
+): PreviewEntry[] {
+  return [
+    {
+      key: issue.key,
+      summary: issue.summary,
+      assignee: issue.assignee,
+      timeInSeconds: totalSeconds,
+      comment: issue.summary,
+    },
+  ];
+}
+
+/**
+ * Add the day's allocations to the split: to the share of issues that were
+ * also worked on, and ahead of it for the others
+ */
+function addAllocationEntries(
+  entries: PreviewEntry[],
+  reserved: AllocatedTime[]
+): PreviewEntry[] {
+  const planned = [...entries];
+  for (const allocation of [...reserved].reverse()) {
+    const entry = planned.find((item) => item.key === allocation.issueKey);
+    const allocated = `${TimeUtils.formatTimeString(
+      allocation.timeInSeconds
+    )} allocated`;
+
+    if (entry) {
+      entry.timeInSeconds += allocation.timeInSeconds;
+      entry.reason = [entry.reason, allocated].filter(Boolean).join(", ");
+    } else {
+      planned.unshift({
+        key: allocation.issueKey,
+        summary: "",
+        assignee: "Allocation",
+        timeInSeconds: allocation.timeInSeconds,
+        reason: allocated,
+      });
+    }
+  }
+
+  return planned;
+}
+
+/**
+ * Reserve the day's allocations, then split the rest of its hours across its
+ * issues with the user's strategy
+ */
+async function planDayEntries(
+  jiraService: IJiraService,
+  jiraConfig: JiraConfig,
+  issues: DayIssue[],
+  date: Date,
+  totalSeconds: number,
+  loggedSeconds: Record<string, number>
+): Promise<PreviewEntry[]> {
+  const { reserved, remainingSeconds } = TimeUtils.reserveAllocations(
+    await Allocation.findForDay(
+      jiraConfig.userId,
+      jiraConfig.profile || DEFAULT_PROFILE,
+      date
+    ),
+    loggedSeconds,
+    totalSeconds
+  );
+  const splitIssues = remainingSeconds >= 60 ? issues : [];
+
+  const strategy =
+    jiraConfig.distributionStrategy || DEFAULT_DISTRIBUTION_STRATEGY;
+  const activities =
+    strategy === "weighted" && splitIssues.length
+      ? await jiraService.getIssuesActivity(
+          jiraConfig.host,
+          jiraConfig.username,
+          jiraConfig.token,
+          splitIssues,
+          date,
+          jiraConfig.timezone || DEFAULT_TIMEZONE
+        )
+      : [];
+  const times = distributeTime(
+    remainingSeconds,
+    splitIssues.length,
+    strategy,
+    activities.map((activity) => TimeUtils.calculateActivityWeight(activity))
+  );
+
+  return addAllocationEntries(
+    splitIssues.map((issue, index) => ({
+      key: issue.key,
+      summary: issue.summary,
+      assignee: issue.assignee,
+      status: issue.status,
+      timeInSeconds: times[index],
+      reason: activities[index]
+        ? TimeUtils.formatActivitySummary(activities[index])
+        : undefined,
+    })),
+    reserved
+  );
+}
+
+/**
+ * Post a day's entries after the time the user already logged that day. The
+ * submission ID keeps the same /time command from posting them twice
+ */
+async function postDayEntries(
+  jiraService: IJiraService,
+  jiraConfig: JiraConfig,
+  entries: PreviewEntry[],
+  date: Date,
+  commentTemplate: string | undefined,
+  loggedSeconds: Record<string, number>,
+  loggedUntil: Date | undefined,
+  submissionId: string
+): Promise<WorklogEntry[]> {
+  const slots = TimeUtils.planWorklogSlots(
+    date,
+    entries.map((entry) => entry.timeInSeconds),
+    TimeUtils.getWorkdayLayout(jiraConfig),
+    loggedUntil
+  );
+  return postWorklogs(
+    jiraService,
+    jiraConfig,
+    entries.map((entry, index) => ({
+      issueKey: entry.key,
+      date: WorklogCommentUtils.formatDate(date),
+      started: slots[index],
+      timeInSeconds: entry.timeInSeconds,
+      comment:
+        entry.comment ??
+        (commentTemplate
+          ? WorklogCommentUtils.renderTemplate(commentTemplate, {
+              key: entry.key,
+              summary: entry.summary,
+              status: entry.status,
+              date,
+            })
+          : undefined),
+    })),
+    "manual",
+    submissionId,
+    loggedSeconds
+  );
+}
+
+function describeRangeDay(day: RangeDay) {
+  const label = day.date.toDateString().slice(0, 10);
+  if (day.error) {
+    return `❌ ${label}: ${day.error}`;
+  }
+  if (day.entries.length === 0) {
+    if (day.loggedSeconds) {
+      return `✅ ${label}: already logged ${ReportUtils.formatHours(
+        day.loggedSeconds
+      )}`;
+    }
+    return day.timeOff
+      ? `🌴 ${label}: time off (${day.timeOff})`
+      : `⚠️ ${label}: no issues found`;
+  }
+  return `${day.timeOff ? "🌴" : "📝"} ${label}: ${day.entries
+    .map(
+      (entry) =>
+        `${entry.key} ${TimeUtils.formatTimeString(entry.timeInSeconds)}`
+    )
+    .join(", ")}${
+    day.loggedSeconds
+      ? ` (on top of ${ReportUtils.formatHours(day.loggedSeconds)})`
+      : ""
+  }`;
+}
+
+/**
+ * Check every working day of a range and log all of the missing days in one go
+ */
+async function executeRange(
+  interaction: ChatInputCommandInteraction,
+  jiraService: IJiraService,
+  jiraConfig: JiraConfig,
+  range: { from: Date; to: Date },
+  today: Date,
+  jqlOverride: string | undefined,
+  totalSeconds: number,
+  commentTemplate: string | undefined
+) {
+  const { host, username, token } = jiraConfig;
+  const rangeLabel = `${range.from.toDateString()} to ${range.to.toDateString()}`;
+
+  await replyOrFollowUp(interaction, {
+    content: `Checking your work from ${rangeLabel}...`,
+    flags: MessageFlags.Ephemeral,
+  });
+
+  const workDays = TimeUtils.parseWorkDays(
+    jiraConfig.workDays || DEFAULT_WORK_DAYS
+  );
+  const timeOffDays = await TimeOff.findInRange(
+    interaction.user.id,
+    interaction.guildId ?? jiraConfig.guildId,
+    WorklogCommentUtils.formatDate(range.from),
+    WorklogCommentUtils.formatDate(range.to)
+  );
+  const days: RangeDay[] = [];
+  for (const date of ReportUtils.listDates(range.from, range.to)) {
+    if (!workDays.includes(((date.getDay() + 6) % 7) + 1)) {
+      continue;
+    }
+
+    const timeOff = timeOffDays.find(
+      (timeOffDay) => timeOffDay.date === WorklogCommentUtils.formatDate(date)
+    );
+    const day: RangeDay = {
+      date,
+      loggedSeconds: 0,
+      issueSeconds: {},
+      entries: [],
+      timeOff: timeOff ? timeOff.reason || "Time off" : undefined,
+    };
+    days.push(day);
+
+    // Days off are skipped unless there is an issue to log them to
+    if (timeOff && !jiraConfig.timeOffIssueKey) {
+      continue;
+    }
+
+    try {
+      const issues = timeOff
+        ? [await fetchTimeOffIssue(jiraService, jiraConfig, timeOff, date)]
+        : await fetchDayIssues(
+            jiraService,
+            jiraConfig,
+            await collectAll(
+              jiraService.iterateIssuesWorked(
+                host,
+                username,
+                token,
+                getDayJql(jqlOverride, date)
+              )
+            ),
+            date
+          );
+
+      const userWorklogs = await collectAll(
+        jiraService.iterateUserWorklogs(
+          host,
+          username,
+          token,
+          date,
+          date,
+          jiraConfig.timezone || DEFAULT_TIMEZONE
+        )
+      );
+      day.issueSeconds = JiraConnectionUtils.getLoggedSeconds(
+        issues,
+        username,
+        userWorklogs
+      );
+      day.loggedUntil = JiraConnectionUtils.getLoggedUntil(
+        issues,
+        username,
+        userWorklogs
+      );
+      day.loggedSeconds = sumSeconds(day.issueSeconds);
+
+      const topUp = TimeUtils.planTopUp(
+        issues,
+        issues.map((issue) => day.issueSeconds[issue.key]),
+        day.loggedSeconds,
+        totalSeconds,
+        jiraConfig.partialDayMode || DEFAULT_PARTIAL_DAY_MODE
+      );
+      if (topUp && topUp.issues.length) {
+        day.entries = timeOff
+          ? planTimeOffEntries(topUp.issues[0], topUp.remainingSeconds)
+          : await planDayEntries(
+              jiraService,
+              jiraConfig,
+              topUp.issues,
+              date,
+              topUp.remainingSeconds,
+              day.issueSeconds
+            );
+      }
+    } catch (error) {
+      day.error = `Failed to get your work: ${InputValidator.sanitizeInput(
+        error instanceof Error ? error.message : String(error)
+      )}`;
+    }
+  }
+
+  const pendingDays = days.filter((day) => !day.error && day.entries.length);
+
+  const embed = new EmbedBuilder();
+  embed.setTitle(
+    `Your work from ${rangeLabel}${
+      jiraConfig.profile && jiraConfig.profile !== DEFAULT_PROFILE
+        ? ` [${jiraConfig.profile}]`
+        : ""
+    }`
+  );
+  embed.setColor(pendingDays.length ? "#00ffff" : "#00ff00");
+  embed.setDescription(
+    (
+      days.map(describeRangeDay).join("\n") || "No working days in range."
+    ).substring(0, 4096)
+  );
+  const daysOff = days.filter(
+    (day) => day.timeOff && !day.loggedSeconds && !day.entries.length
+  ).length;
+  embed.setFooter({
+    text: `${pendingDays.length} days to log (${TimeUtils.formatTimeString(
+      totalSeconds
+    )} each), ${
+      days.filter((day) => day.loggedSeconds && !day.entries.length).length
+    } already logged, ${
+      days.filter(
+        (day) =>
+          !day.error &&
+          !day.timeOff &&
+          !day.loggedSeconds &&
+          !day.entries.length
+      ).length
+    } without issues${daysOff ? `, ${daysOff} off` : ""}.`,
+  });
+
+  const message = await interaction.editReply({
+    embeds: [embed],
+    components: pendingDays.length
+      ? [
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+              .setCustomId("submit-range")
+              .setLabel(
+                `Log ${pendingDays.length} day${
+                  pendingDays.length === 1 ? "" : "s"
+                }`
+              )
+              .setStyle(ButtonStyle.Success)
+          ),
+        ]
+      : [],
+  });
+
+  if (!pendingDays.length) {
+    return;
+  }
+
+  const collector = message.createMessageComponentCollector({
+    filter: (i: MessageComponentInteraction) =>
+      i.user.id === interaction.user.id,
+    time: previewTimeout,
+  });
+  let submittedWorklogs = false;
+
+  collector?.on("collect", async (i: MessageComponentInteraction) => {
+    try {
+      if (i.customId !== "submit-range" || submittedWorklogs) {
+        return;
+      }
+      submittedWorklogs = true;
+      // Logging a month of days can take longer than an interaction allows
+      await i.deferUpdate();
+
+      // One day failing doesn't stop the others from being logged
+      const results: string[] = [];
+      let loggedDays = 0;
+      for (const day of pendingDays) {
+        const label = day.date.toDateString().slice(0, 10);
+        try {
+          const posted = await postDayEntries(
+            jiraService,
+            jiraConfig,
+            day.entries,
+            day.date,
+            commentTemplate,
+            day.issueSeconds,
+            day.loggedUntil,
+            interaction.id
+          );
+          const failures = describeFailures(posted);
+          if (failures) {
+            results.push(
+              `⚠️ ${label}: logged ${
+                posted.filter((entry) => entry.status === "posted").length
+              } of ${posted.length} issues\n${failures}`
+            );
+            continue;
+          }
+
+          loggedDays++;
+          results.push(
+            `✅ ${label}: logged ${TimeUtils.formatTimeString(
+              day.entries.reduce((acc, entry) => acc + entry.timeInSeconds, 0)
+            )} on ${day.entries.length} issue${
+              day.entries.length === 1 ? "" : "s"
+            }`
+          );
+        } catch (error) {
+          results.push(
+            `❌ ${label}: ${InputValidator.sanitizeInput(
+              error instanceof Error ? error.message : String(error)
+            )}`
+          );
+        }
+      }
+
+      const resultEmbed = new EmbedBuilder();
+      resultEmbed.setTitle(
+        `Logged ${loggedDays} of ${pendingDays.length} days from ${rangeLabel}`
+      );
+      resultEmbed.setColor(
+        loggedDays === pendingDays.length ? "#00ff00" : "#ffaa00"
+      );
+      resultEmbed.setDescription(results.join("\n").substring(0, 4096));
+
+      await interaction.editReply({
+        content:
+          loggedDays === pendingDays.length
+            ? "Time logged successfully."
+            : "Some days could not be logged.",
+        embeds: [resultEmbed],
+        components: [],
+      });
+    } catch (error) {
+      // Rejections from the listener would go unhandled
+      await ErrorHandler.handleCommandError(
+        i,
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  });
+
+  collector?.on("end", async () => {
+    if (submittedWorklogs) {
+      return;
+    }
+
+    try {
+      await interaction.editReply({
+        embeds: [embed],
+        components: [],
+      });
+    } catch (error) {
+      // The reply may be gone by the time the preview expires
+      ServiceContainer.getInstance()
+        .get<ILoggerService>("ILoggerService")
+        .logError(error instanceof Error ? error : new Error(String(error)), {
+          UserId: interaction.user.id,
+          Operation: "expireTimePreview",
+        });
+    }
+  });
+}
+
+/**
+ * Suggest recent working days for the date options, in the user's timezone
+ */
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  try {
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+    const jiraConfig = await JiraConfig.findProfile(
+      interaction.user.id,
+      profile ? InputValidator.validateProfileName(profile) : undefined
+    );
+
+    await interaction.respond(
+      TimeUtils.suggestDates(
+        String(
+          interaction.options.data.find((option) => option.focused)?.value ?? ""
+        ),
+        TimeUtils.getDateInZone(
+          new Date(),
+          jiraConfig?.timezone || DEFAULT_TIMEZONE
+        ),
+        TimeUtils.parseWorkDays(jiraConfig?.workDays || DEFAULT_WORK_DAYS)
+      )
+    );
+  } catch {
+    // Without suggestions any date can still be typed
+    await interaction.respond([]);
+  }
+}
+
 export async function execute(interaction: ChatInputCommandInteraction) {
   try {
     await interaction.deferReply({ flags: MessageFlags.Ephemeral });
@@ -84,8 +968,28 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       return;
     }
 
-    const daysAgo = interaction.options.get("days-ago", true);
+    const daysAgo = interaction.options.get("days-ago", false)?.value as
+      | number
+      | undefined;
     const hours = interaction.options.get("hours", false)?.value as number;
+    const comment = interaction.options.get("comment", false)?.value as
+      | string
+      | undefined;
+    const profile = interaction.options.get("profile", false)?.value as
+      | string
+      | undefined;
+    const fromOption = interaction.options.get("from", false)?.value as
+      | string
+      | undefined;
+    const toOption = interaction.options.get("to", false)?.value as
+      | string
+      | undefined;
+    const preset = interaction.options.get("preset", false)?.value as
+      | string
+      | undefined;
+    const dateOption = interaction.options.get("date", false)?.value as
+      | string
+      | undefined;
 
     // Validate inputs
     try {
@@ -95,14 +999,30 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
       }
 
-      InputValidator.validateNumber(daysAgo.value as number, "days-ago", {
-        min: 1,
-        max: 50,
-        integer: true,
-      });
+      if (daysAgo !== undefined) {
+        InputValidator.validateNumber(daysAgo, "days-ago", {
+          min: 1,
+          max: maxDaysAgo,
+          integer: true,
+        });
+      }
     } catch (error) {
       await replyOrFollowUp(interaction, {
-        content: "Days ago must be between 1 and 50.",
+        content: `Days ago must be between 1 and ${maxDaysAgo}.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const isRange = Boolean(fromOption || toOption || preset);
+    const modeCount = [daysAgo !== undefined, dateOption, isRange].filter(
+      Boolean
+    ).length;
+    if (modeCount !== 1) {
+      await replyOrFollowUp(interaction, {
+        content: modeCount
+          ? "Use only one of days-ago, date, or a date range."
+          : "Choose the days to check with days-ago, date, from and to, or a preset.",
         flags: MessageFlags.Ephemeral,
       });
       return;
@@ -124,38 +1044,119 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       }
     }
 
-    const jiraConfig = await JiraConfig.findOne({
-      where: {
-        guildId: interaction.guildId!,
-        userId: interaction.user.id,
-      },
-    });
+    if (comment !== undefined) {
+      try {
+        InputValidator.validateWorklogComment(comment);
+      } catch (error) {
+        await replyOrFollowUp(interaction, {
+          content: "Worklog comment must be between 1 and 2000 characters.",
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+    }
+
+    let validatedProfile: string | undefined;
+    if (profile) {
+      try {
+        validatedProfile = InputValidator.validateProfileName(profile);
+      } catch (error) {
+        await replyOrFollowUp(interaction, {
+          content: InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          ),
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+    }
+
+    const jiraConfig = await JiraConfig.findProfile(
+      interaction.user.id,
+      validatedProfile
+    );
 
     if (!jiraConfig) {
       await replyOrFollowUp(interaction, {
-        content: "You need to setup your Jira configuration first.",
+        content: validatedProfile
+          ? `You don't have a Jira profile named ${validatedProfile}. Use /setup to create it.`
+          : "You need to setup your Jira configuration first.",
         flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
-    const finalHours = hours ?? (jiraConfig.dailyHours || 8);
-    const totalSeconds = finalHours * 3600;
+    // Dates are resolved in the user's timezone rather than the server's
+    const today = TimeUtils.getDateInZone(
+      new Date(),
+      jiraConfig.timezone || DEFAULT_TIMEZONE
+    );
+    let range: { from: Date; to: Date } | undefined;
+    let startDate!: Date;
+    try {
+      if (isRange) {
+        range = getDateRange(fromOption, toOption, preset, today);
+      } else if (dateOption) {
+        startDate = InputValidator.validateDate(dateOption, "Date", today);
+        checkPastDate(startDate, today);
+      } else {
+        startDate = new Date(
+          today.getFullYear(),
+          today.getMonth(),
+          today.getDate() - (daysAgo as number)
+        );
+      }
+    } catch (error) {
+      await replyOrFollowUp(interaction, {
+        content: InputValidator.sanitizeInput(
+          error instanceof Error ? error.message : String(error)
+        ),
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // Members set up in DMs follow the policies of their notification guild
+    const policy = await GuildSettings.findForGuild(
+      interaction.guildId ?? jiraConfig.guildId
+    );
 
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - (daysAgo.value as number));
-    if (startDate.getDay() === 0 || startDate.getDay() === 6) {
+    if (!GuildPolicyUtils.isHostAllowed(policy, jiraConfig.host)) {
       await replyOrFollowUp(interaction, {
-        content: "You can't check your work on weekends.",
+        content: `This server doesn't allow connecting to ${
+          jiraConfig.host
+        }. Use /setup to connect to one of: ${GuildPolicyUtils.parseAllowedHosts(
+          policy?.allowedHosts
+        ).join(", ")}.`,
         flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
-    await replyOrFollowUp(interaction, {
-      content: `Checking your work for ${startDate.toDateString()}...`,
-      flags: MessageFlags.Ephemeral,
-    });
+    if (hours && !GuildPolicyUtils.isWithinMaxDailyHours(policy, hours)) {
+      await replyOrFollowUp(interaction, {
+        content: `This server allows at most ${policy?.maxDailyHours} hours.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const finalHours =
+      hours ??
+      GuildPolicyUtils.limitDailyHours(policy, jiraConfig.dailyHours || 8);
+    // A comment given to the command wins over the saved template
+    const commentTemplate =
+      comment ?? jiraConfig.worklogCommentTemplate ?? undefined;
+
+    if (policy?.requireWorklogComment && !commentTemplate) {
+      await replyOrFollowUp(interaction, {
+        content:
+          "This server requires a worklog comment. Pass one with the comment option or save a template with /comment.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    const totalSeconds = finalHours * 3600;
 
     const serviceContainer = ServiceContainer.getInstance();
     const jiraService = serviceContainer.get<IJiraService>("IJiraService");
@@ -163,96 +1164,177 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     const host = jiraConfig.host;
     const username = jiraConfig.username;
     const token = jiraConfig.token;
-    const jqlOverride = jiraConfig.timeJqlOverride;
-
-    const response = await jiraService.getIssuesWorked(
-      host,
-      username,
-      token,
-      jqlOverride?.format(daysAgo.value as string) ??
-        `assignee WAS currentUser() ON -${daysAgo.value}d AND status WAS "In Progress" ON -${daysAgo.value}d`
+    const jqlOverride = GuildPolicyUtils.getJql(
+      policy,
+      jiraConfig.timeJqlOverride
     );
+    jiraService.configureConnection(host, username, jiraConfig);
 
-    if (!response.ok) {
+    if (range) {
+      await executeRange(
+        interaction,
+        jiraService,
+        jiraConfig,
+        range,
+        today,
+        jqlOverride,
+        totalSeconds,
+        commentTemplate
+      );
+      return;
+    }
+    const daysAgoValue = TimeUtils.getDaysBetween(startDate, today);
+    const workDays = TimeUtils.parseWorkDays(
+      jiraConfig.workDays || DEFAULT_WORK_DAYS
+    );
+    if (!workDays.includes(((startDate.getDay() + 6) % 7) + 1)) {
       await replyOrFollowUp(interaction, {
-        content: `Failed to get your work: ${InputValidator.sanitizeInput(
-          response.statusText
-        )}`,
+        content: `${startDate.toDateString()} is not a work day. Change your work days with /schedule days.`,
         flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
-    const data = (await response.json()) as SearchResults;
-
-    if (data.total === 0) {
+    // Days off are logged to the time off issue, or not at all
+    const timeOff = await TimeOff.findForDay(
+      interaction.user.id,
+      interaction.guildId ?? jiraConfig.guildId,
+      WorklogCommentUtils.formatDate(startDate)
+    );
+    if (timeOff && !jiraConfig.timeOffIssueKey) {
       await replyOrFollowUp(interaction, {
-        content: `You didn't work on any issues for ${startDate.toDateString()}.`,
+        content: `${startDate.toDateString()} is time off (${
+          timeOff.reason || "Time off"
+        }). Set an issue for time off with /timeoff issue, or remove the day with /timeoff remove.`,
         flags: MessageFlags.Ephemeral,
       });
       return;
     }
 
-    const issues = await Promise.all(
-      data.issues.map(async (issue) => {
-        return {
-          id: issue.id,
-          key: InputValidator.sanitizeInput(issue.key),
-          summary: InputValidator.sanitizeInput(issue.fields.summary),
-          assignee: InputValidator.sanitizeInput(
-            issue.fields.assignee.displayName
-          ),
-          worklogs: (await (
-            await jiraService.getIssueWorklog(
-              host,
-              username,
-              token,
-              issue.key,
-              startDate
-            )
-          ).json()) as PageOfWorklogs,
-        };
-      })
-    );
+    await replyOrFollowUp(interaction, {
+      content: `Checking your work for ${startDate.toDateString()}...`,
+      flags: MessageFlags.Ephemeral,
+    });
+
+    let issues: DayIssue[];
+    if (timeOff) {
+      issues = [
+        await fetchTimeOffIssue(jiraService, jiraConfig, timeOff, startDate),
+      ];
+    } else {
+      let issuesWorked: IssueBean[];
+      try {
+        issuesWorked = await collectAll(
+          jiraService.iterateIssuesWorked(
+            host,
+            username,
+            token,
+            getDayJql(jqlOverride, startDate)
+          )
+        );
+      } catch (error) {
+        await replyOrFollowUp(interaction, {
+          content: `Failed to get your work: ${InputValidator.sanitizeInput(
+            error instanceof Error ? error.message : String(error)
+          )}`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      if (issuesWorked.length === 0) {
+        await replyOrFollowUp(interaction, {
+          content: `You didn't work on any issues for ${startDate.toDateString()}.`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      issues = await fetchDayIssues(
+        jiraService,
+        jiraConfig,
+        issuesWorked,
+        startDate
+      );
+    }
 
-    const worklogs = issues.flatMap((issue) =>
-      issue.worklogs.worklogs.filter(
-        (worklog) => worklog.author.emailAddress === jiraConfig.username
+    // Time the user logged on issues outside the JQL, e.g. meetings
+    const otherWorklogs = (
+      await collectAll(
+        jiraService.iterateUserWorklogs(
+          host,
+          username,
+          token,
+          startDate,
+          startDate,
+          jiraConfig.timezone || DEFAULT_TIMEZONE
+        )
       )
+    ).filter(
+      (worklog) => !issues.some((issue) => issue.key === worklog.issueKey)
     );
+    const worklogs = [
+      ...issues.flatMap((issue) =>
+        issue.worklogs.filter((worklog) =>
+          JiraConnectionUtils.isConfiguredUser(worklog.author, username)
+        )
+      ),
+      ...otherWorklogs,
+    ];
+    const issueSeconds = JiraConnectionUtils.getLoggedSeconds(
+      issues,
+      username,
+      otherWorklogs
+    );
+    const loggedSeconds = sumSeconds(issueSeconds);
+    // Days the user already logged are only previewed when they get topped up
+    const topUp = TimeUtils.planTopUp(
+      issues,
+      issues.map((issue) => issueSeconds[issue.key]),
+      loggedSeconds,
+      totalSeconds,
+      jiraConfig.partialDayMode || DEFAULT_PARTIAL_DAY_MODE
+    );
+    const targetSeconds = topUp?.remainingSeconds ?? 0;
 
     const embed = new EmbedBuilder();
     embed.setTitle(
-      `You worked on ${data.total} issues ${
-        daysAgo.value
-      } days ago (${startDate.toDateString()})`
+      `${
+        timeOff
+          ? `🌴 You were off ${daysAgoValue} days ago`
+          : `You worked on ${issues.length} issues ${daysAgoValue} days ago`
+      } (${startDate.toDateString()})${
+        jiraConfig.profile && jiraConfig.profile !== DEFAULT_PROFILE
+          ? ` [${jiraConfig.profile}]`
+          : ""
+      }`
     );
-    embed.setColor(worklogs.length ? "#00ffff" : "#00ff00");
-    let issuesWithTimes: {
-      issue: {
-        id: string;
-        key: string;
-        summary: string;
-        assignee: string;
-        worklogs: PageOfWorklogs;
-      };
-      times: string;
-      timeInSeconds: number;
-    }[] = [];
+    embed.setColor(topUp ? "#00ff00" : "#00ffff");
+    let previewEntries: PreviewEntry[] = [];
 
-    if (worklogs.length) {
+    if (!topUp) {
       embed.addFields(
         issues.map((issue) => ({
           name: `${issue.key} (${issue.assignee})`,
-          value: `${issue.summary}\n${issue.worklogs.worklogs
-            .filter(
-              (worklog) => worklog.author.emailAddress === jiraConfig.username
+          value: `${issue.summary}\n${issue.worklogs
+            .filter((worklog) =>
+              JiraConnectionUtils.isConfiguredUser(worklog.author, username)
             )
             .map((worklog) => `- ${worklog.timeSpent}`)
             .join("\n")}`,
           inline: false,
         }))
       );
+      if (otherWorklogs.length) {
+        embed.addFields({
+          name: "Other issues",
+          value: otherWorklogs
+            .map((worklog) => `- ${worklog.issueKey}: ${worklog.timeSpent}`)
+            .join("\n")
+            .substring(0, 1024),
+          inline: false,
+        });
+      }
       embed.setFooter({
         text: `You logged ${
           worklogs.length
@@ -261,77 +1343,219 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         )}.`,
       });
     } else {
-      const timeDistribution = TimeUtils.distributeTimeFairly(
-        totalSeconds,
-        issues.length
-      );
-      const times = timeDistribution.fairDistribution || [];
-      issuesWithTimes = issues.map((issue, index) => ({
-        issue,
-        timeInSeconds: times[index],
-        times: TimeUtils.formatTimeString(times[index]),
-      }));
+      previewEntries = timeOff
+        ? planTimeOffEntries(topUp.issues[0], targetSeconds)
+        : await planDayEntries(
+            jiraService,
+            jiraConfig,
+            topUp.issues,
+            startDate,
+            targetSeconds,
+            issueSeconds
+          );
 
-      embed.addFields(
-        issuesWithTimes.map((issue) => ({
-          name: `${issue.issue.key} (${issue.issue.assignee})`,
-          value: `${issue.issue.summary}\n- ${issue.times}`,
-          inline: false,
-        }))
-      );
+      embed.addFields(buildPreviewFields(previewEntries));
       embed.setFooter({
-        text: `You didn't log any worklogs for a total of ${hours} hours.`,
+        text: buildPreviewFooter(previewEntries, targetSeconds, loggedSeconds),
       });
     }
 
-    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
-      new ButtonBuilder()
-        .setCustomId("submit")
-        .setLabel("Submit")
-        .setStyle(ButtonStyle.Success)
-    );
-
     const message = await interaction.editReply({
       embeds: [embed],
-      components: worklogs.length ? [] : [row],
+      components: topUp ? buildPreviewComponents(previewEntries) : [],
     });
 
+    // Re-render the preview after an edit made through a modal
+    const refreshPreview = async (submitted: ModalSubmitInteraction) => {
+      embed.setFields(buildPreviewFields(previewEntries));
+      embed.setFooter({
+        text: buildPreviewFooter(previewEntries, targetSeconds, loggedSeconds),
+      });
+
+      if (submitted.isFromMessage()) {
+        await submitted.update({
+          embeds: [embed],
+          components: buildPreviewComponents(previewEntries),
+        });
+      }
+    };
+
     const filter = (i: MessageComponentInteraction) =>
       i.user.id === interaction.user.id;
     const collector = message.createMessageComponentCollector({
       filter,
-      time: 15000,
+      time: previewTimeout,
     });
+    let submittedWorklogs = false;
 
     collector?.on("collect", async (i: MessageComponentInteraction) => {
-      if (i.customId === "submit") {
-        await Promise.all(
-          issuesWithTimes.map(async (issue) => {
-            return await jiraService.postWorklog(
-              host,
-              username,
-              token,
-              issue.issue.key,
-              issue.timeInSeconds,
-              startDate
+      try {
+        if (i.customId === "edit-issue" && i.isStringSelectMenu()) {
+          const entry = previewEntries.find((item) => item.key === i.values[0]);
+          if (!entry) {
+            return;
+          }
+
+          const modalId = `edit-issue-modal:${i.id}`;
+          await i.showModal(buildEditIssueModal(modalId, entry));
+
+          const submitted = await awaitPreviewModal(i, modalId);
+          if (!submitted) {
+            return;
+          }
+
+          try {
+            const minutes = parseMinutes(
+              submitted.fields.getTextInputValue("minutes"),
+              0
             );
-          })
-        );
+            if (minutes === 0) {
+              previewEntries = previewEntries.filter((item) => item !== entry);
+            } else {
+              entry.timeInSeconds = minutes * 60;
+              entry.reason = undefined;
+            }
+          } catch (error) {
+            await replyValidationError(submitted, error);
+            return;
+          }
 
-        await i.update({
-          content: "Time logged successfully.",
-          embeds: [embed],
-          components: [],
-        });
+          await refreshPreview(submitted);
+        } else if (i.customId === "add-issue") {
+          const modalId = `add-issue-modal:${i.id}`;
+          await i.showModal(buildAddIssueModal(modalId));
+
+          const submitted = await awaitPreviewModal(i, modalId);
+          if (!submitted) {
+            return;
+          }
+
+          try {
+            const key = InputValidator.validateIssueKey(
+              submitted.fields.getTextInputValue("issue-key").toUpperCase()
+            );
+            const minutes = parseMinutes(
+              submitted.fields.getTextInputValue("minutes"),
+              1
+            );
+
+            const existing = previewEntries.find((item) => item.key === key);
+            if (existing) {
+              existing.timeInSeconds = minutes * 60;
+              existing.reason = undefined;
+            } else if (previewEntries.length >= maxPreviewEntries) {
+              throw new ValidationError(
+                `You can log at most ${maxPreviewEntries} issues at once`
+              );
+            } else {
+              previewEntries.push({
+                key,
+                summary: "",
+                assignee: "Added manually",
+                timeInSeconds: minutes * 60,
+              });
+            }
+          } catch (error) {
+            await replyValidationError(submitted, error);
+            return;
+          }
+
+          await refreshPreview(submitted);
+        } else if (i.customId === "submit") {
+          const splitTotal = previewEntries.reduce(
+            (acc, entry) => acc + entry.timeInSeconds,
+            0
+          );
+
+          // The edited split still has to account for exactly the day's hours
+          if (previewEntries.length === 0 || splitTotal !== targetSeconds) {
+            await i.reply({
+              content: `❌ Your split adds up to ${TimeUtils.formatTimeString(
+                splitTotal
+              )} but ${TimeUtils.formatTimeString(
+                targetSeconds
+              )} should be logged. Adjust the issues before submitting.`,
+              flags: MessageFlags.Ephemeral,
+            });
+            return;
+          }
+
+          submittedWorklogs = true;
+          // Posting the issues can take longer than an interaction allows
+          await i.deferUpdate();
+
+          let posted: WorklogEntry[];
+          try {
+            posted = await postDayEntries(
+              jiraService,
+              jiraConfig,
+              previewEntries,
+              startDate,
+              commentTemplate,
+              issueSeconds,
+              JiraConnectionUtils.getLoggedUntil(
+                issues,
+                username,
+                otherWorklogs
+              ),
+              interaction.id
+            );
+          } catch (error) {
+            if (!(error instanceof AlreadyLoggedError)) {
+              await ErrorHandler.handleCommandError(
+                i,
+                error instanceof Error ? error : new Error(String(error))
+              );
+              return;
+            }
+
+            // E.g. the scheduler logged the day while the preview was open
+            await interaction.editReply({
+              content: `⚠️ ${error.message}, nothing was logged.`,
+              embeds: [embed],
+              components: [],
+            });
+            return;
+          }
+          const failures = describeFailures(posted);
+
+          await interaction.editReply({
+            content: failures
+              ? `Logged ${
+                  posted.filter((entry) => entry.status === "posted").length
+                } of ${posted.length} worklogs.\n${failures}`.substring(0, 2000)
+              : "Time logged successfully.",
+            embeds: [embed],
+            components: [],
+          });
+        }
+      } catch (error) {
+        // Rejections from the listener would go unhandled
+        await ErrorHandler.handleCommandError(
+          i,
+          error instanceof Error ? error : new Error(String(error))
+        );
       }
     });
 
-    collector?.on("end", async (collected) => {
-      if (collected.size === 0) {
+    collector?.on("end", async () => {
+      if (submittedWorklogs) {
+        return;
+      }
+
+      try {
         await interaction.editReply({
           embeds: [embed],
           components: [],
         });
+      } catch (error) {
+        // The reply may be gone by the time the preview expires
+        serviceContainer
+          .get<ILoggerService>("ILoggerService")
+          .logError(error instanceof Error ? error : new Error(String(error)), {
+            UserId: interaction.user.id,
+            Operation: "expireTimePreview",
+          });
       }
     });
   } catch (error) {
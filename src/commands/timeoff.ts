@@ -0,0 +1,434 @@
+import {
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import { JiraConfig } from "../db/models/JiraConfig";
+import { TimeOff } from "../db/models/TimeOff";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { IHttpService } from "../services/HttpService";
+import { InputValidator, ValidationError } from "../services/InputValidator";
+import { ILoggerService } from "../services/LoggerService";
+import { IRateLimitService } from "../services/RateLimitService";
+import { ReportUtils } from "../services/ReportUtils";
+import { ServiceContainer } from "../services/ServiceContainer";
+import {
+  TIMEOFF_MAX_DAYS,
+  TIMEOFF_REASON_MAX_LENGTH,
+  TimeOffDay,
+  TimeOffUtils,
+} from "../services/TimeOffUtils";
+import { DEFAULT_TIMEZONE, TimeUtils } from "../services/TimeUtils";
+import { WorklogCommentUtils } from "../services/WorklogCommentUtils";
+
+export const name = "timeoff";
+
+// Calendars are small text files, anything larger is not one
+const maxCalendarBytes = 1024 * 1024;
+// Lines shown by list before the rest are counted
+const maxListedLines = 25;
+
+// Personal time off belongs to a user, holidays to a guild
+type TimeOffOwner = Pick<TimeOff, "userId" | "guildId">;
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription("Manage the days off that auto-logging skips.")
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("add")
+      .setDescription("Add days off, e.g. a vacation.")
+      .addStringOption((option) =>
+        option
+          .setName("from")
+          .setDescription("First day off, e.g. 2025-12-24 or friday.")
+          .setMaxLength(32)
+          .setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("to")
+          .setDescription("Last day off (default: the first day).")
+          .setMaxLength(32)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("reason")
+          .setDescription("Why you are off, e.g. Vacation.")
+          .setMaxLength(TIMEOFF_REASON_MAX_LENGTH)
+          .setRequired(false)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName("server")
+          .setDescription(
+            "Add a holiday for everyone in this server (needs Manage Server)."
+          )
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("remove")
+      .setDescription("Remove days off.")
+      .addStringOption((option) =>
+        option
+          .setName("from")
+          .setDescription("First day to remove.")
+          .setMaxLength(32)
+          .setRequired(true)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("to")
+          .setDescription("Last day to remove (default: the first day).")
+          .setMaxLength(32)
+          .setRequired(false)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName("server")
+          .setDescription(
+            "Remove holidays of this server (needs Manage Server)."
+          )
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("list")
+      .setDescription("List upcoming days off.")
+      .addBooleanOption((option) =>
+        option
+          .setName("server")
+          .setDescription("Only list the holidays of this server.")
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("import")
+      .setDescription("Import days off from a calendar (.ics) file.")
+      .addAttachmentOption((option) =>
+        option
+          .setName("file")
+          .setDescription("Calendar file, e.g. exported public holidays.")
+          .setRequired(true)
+      )
+      .addBooleanOption((option) =>
+        option
+          .setName("server")
+          .setDescription(
+            "Import holidays for everyone in this server (needs Manage Server)."
+          )
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("issue")
+      .setDescription("Log time off to an issue instead of skipping it.")
+      .addStringOption((option) =>
+        option
+          .setName("key")
+          .setDescription("Issue for time off, e.g. HR-12 (empty skips days).")
+          .setMaxLength(50)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("profile")
+          .setDescription("Jira profile to configure (default: default).")
+          .setMaxLength(32)
+          .setRequired(false)
+      )
+  );
+
+/**
+ * Read the days of a range option pair, e.g. from:2025-12-24 to:2025-12-26
+ */
+function getOptionDays(
+  interaction: ChatInputCommandInteraction,
+  today: Date
+): string[] {
+  const fromOption = interaction.options.get("from", false)?.value as string;
+  const toOption = interaction.options.get("to", false)?.value as
+    | string
+    | undefined;
+
+  const from = InputValidator.validateDate(fromOption, "From", today);
+  const to = toOption
+    ? InputValidator.validateDate(toOption, "To", today)
+    : from;
+  InputValidator.validateDateRange(from, to, TIMEOFF_MAX_DAYS);
+
+  return ReportUtils.listDates(from, to).map((date) =>
+    WorklogCommentUtils.formatDate(date)
+  );
+}
+
+/**
+ * Download and read a calendar attachment
+ */
+async function readCalendar(
+  interaction: ChatInputCommandInteraction
+): Promise<TimeOffDay[]> {
+  const attachment = interaction.options.get("file", true).attachment;
+  if (!attachment || !attachment.name.toLowerCase().endsWith(".ics")) {
+    throw new ValidationError("The file must be a calendar (.ics) file");
+  }
+  if (attachment.size > maxCalendarBytes) {
+    throw new ValidationError("The calendar file must be at most 1 MB");
+  }
+
+  const httpService =
+    ServiceContainer.getInstance().get<IHttpService>("IHttpService");
+  const response = await httpService.fetch(attachment.url);
+  if (!response.ok) {
+    throw new Error(`Could not download the calendar: ${response.statusText}`);
+  }
+
+  const days = TimeOffUtils.parseIcs(await response.text());
+  if (days.length === 0) {
+    throw new ValidationError("The calendar has no events");
+  }
+  if (days.length > TIMEOFF_MAX_DAYS) {
+    throw new ValidationError(
+      `Calendars may add at most ${TIMEOFF_MAX_DAYS} days`
+    );
+  }
+
+  return days;
+}
+
+/**
+ * Replace the time off of the owner on the days
+ */
+async function saveDays(owner: TimeOffOwner, days: TimeOffDay[]) {
+  await TimeOff.destroy({
+    where: { ...owner, date: days.map((day) => day.date) },
+  });
+  await TimeOff.bulkCreate(
+    days.map((day) => ({ ...owner, date: day.date, reason: day.reason })),
+    { validate: true }
+  );
+}
+
+function describeDays(days: TimeOffDay[]): string {
+  const lines = TimeOffUtils.describe(days);
+  const shown = lines.slice(0, maxListedLines).map((line) => `• ${line}`);
+  if (lines.length > maxListedLines) {
+    shown.push(`…and ${lines.length - maxListedLines} more`);
+  }
+  return shown.join("\n");
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+
+    // Check rate limit for timeoff command
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "timeoff");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    const server = interaction.options.get("server", false)?.value === true;
+
+    loggerService.logInfo("Executing timeoff command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+      Subcommand: subcommand,
+      Server: server,
+    });
+
+    // Server holidays apply to every member, only managers may change them
+    if (
+      server &&
+      subcommand !== "list" &&
+      (!interaction.guildId ||
+        !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild))
+    ) {
+      const unauthorizedEmbed = new EmbedBuilder()
+        .setTitle("🚫 Access Denied")
+        .setDescription(
+          "You need the Manage Server permission in a server to change its holidays."
+        )
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [unauthorizedEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    let title: string;
+    let description: string;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      if (interaction.guildId) {
+        InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
+      } else if (server) {
+        throw new ValidationError(
+          "Server holidays can only be listed in a server"
+        );
+      }
+
+      const profile = interaction.options.get("profile", false)?.value as
+        | string
+        | undefined;
+      const config = await JiraConfig.findProfile(
+        interaction.user.id,
+        profile ? InputValidator.validateProfileName(profile) : undefined
+      );
+
+      // Dates in words are read in the user's timezone
+      const today = TimeUtils.getDateInZone(
+        new Date(),
+        config?.timezone || DEFAULT_TIMEZONE
+      );
+      const owner: TimeOffOwner = server
+        ? { guildId: interaction.guildId, userId: null }
+        : { userId: interaction.user.id };
+      const whose = server ? "this server's holidays" : "your time off";
+
+      switch (subcommand) {
+        case "add":
+        case "import": {
+          const days =
+            subcommand === "add"
+              ? getOptionDays(interaction, today).map((date) => ({
+                  date,
+                  reason:
+                    InputValidator.validateString(
+                      interaction.options.get("reason", false)?.value,
+                      "Reason",
+                      { maxLength: TIMEOFF_REASON_MAX_LENGTH }
+                    ) || null,
+                }))
+              : await readCalendar(interaction);
+
+          await saveDays(owner, days);
+          title = server ? "🌴 Holidays Added" : "🌴 Time Off Added";
+          description = `Added ${days.length} day${
+            days.length === 1 ? "" : "s"
+          } to ${whose}:\n${describeDays(days)}`;
+          break;
+        }
+        case "remove": {
+          const dates = getOptionDays(interaction, today);
+          const removed = await TimeOff.destroy({
+            where: { ...owner, date: dates },
+          });
+          title = server ? "🌴 Holidays Removed" : "🌴 Time Off Removed";
+          description = `Removed ${removed} day${
+            removed === 1 ? "" : "s"
+          } from ${whose}.`;
+          break;
+        }
+        case "list": {
+          const until = new Date(today);
+          until.setDate(today.getDate() + TIMEOFF_MAX_DAYS - 1);
+          const days = await TimeOff.findInRange(
+            server ? null : interaction.user.id,
+            interaction.guildId ?? config?.guildId,
+            WorklogCommentUtils.formatDate(today),
+            WorklogCommentUtils.formatDate(until)
+          );
+          title = server ? "🌴 Server Holidays" : "🌴 Time Off";
+          description = days.length
+            ? describeDays(days)
+            : server
+            ? "This server has no upcoming holidays."
+            : "You have no upcoming days off.";
+          break;
+        }
+        default: {
+          if (!config) {
+            const errorEmbed = new EmbedBuilder()
+              .setTitle("⚠️ Configuration Not Found")
+              .setDescription("No Jira configuration found for this user.")
+              .addFields([
+                {
+                  name: "🔧 Next Step",
+                  value:
+                    "Please run `/setup` first to configure your Jira connection.",
+                  inline: false,
+                },
+              ])
+              .setColor(0xffaa00)
+              .setTimestamp();
+
+            return interaction.reply({
+              embeds: [errorEmbed],
+              flags: MessageFlags.Ephemeral,
+            });
+          }
+
+          const key = interaction.options.get("key", false)?.value as
+            | string
+            | undefined;
+          config.timeOffIssueKey = key
+            ? InputValidator.validateIssueKey(key.toUpperCase())
+            : null;
+          await config.save();
+          title = "🌴 Time Off Issue Updated";
+          description = config.timeOffIssueKey
+            ? `Your daily hours are logged to \`${config.timeOffIssueKey}\` on days off.`
+            : "Days off are skipped without logging time.";
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(InputValidator.sanitizeInput(error.message))
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setDescription(description.substring(0, 4096))
+      .setColor(subcommand === "list" ? 0x0099ff : 0x00ff00)
+      .setTimestamp()
+      .setFooter({
+        text: `Requested by ${interaction.user.username}`,
+        iconURL: interaction.user.displayAvatarURL(),
+      });
+
+    return interaction.reply({
+      embeds: [embed],
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
@@ -0,0 +1,618 @@
+import {
+  ActionRowBuilder,
+  AutocompleteInteraction,
+  ButtonBuilder,
+  ButtonInteraction,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from "discord.js";
+import { DEFAULT_PROFILE, JiraConfig } from "../db/models/JiraConfig";
+import { WorklogEntry } from "../db/models/WorklogEntry";
+import { retryWorklog } from "../scheduler/posting";
+import { ErrorHandler } from "../services/ErrorHandler";
+import { InputValidator, ValidationError } from "../services/InputValidator";
+import { IJiraService } from "../services/JiraService";
+import { ILoggerService } from "../services/LoggerService";
+import { IRateLimitService } from "../services/RateLimitService";
+import { ServiceContainer } from "../services/ServiceContainer";
+import {
+  DEFAULT_TIMEZONE,
+  DEFAULT_WORK_DAYS,
+  TimeUtils,
+} from "../services/TimeUtils";
+import { WorklogCommentUtils } from "../services/WorklogCommentUtils";
+
+export const name = "worklogs";
+
+// Worklogs offered when picking one to edit or delete
+const maxSuggestedWorklogs = 100;
+
+export const data = new SlashCommandBuilder()
+  .setName(name)
+  .setDescription("Review, edit or delete the worklogs the bot posted.")
+  .setContexts([InteractionContextType.Guild, InteractionContextType.BotDM])
+  .setDefaultMemberPermissions(PermissionFlagsBits.SendMessages)
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("list")
+      .setDescription("List the worklogs the bot posted for a day.")
+      .addStringOption((option) =>
+        option
+          .setName("date")
+          .setDescription(
+            "The day to list, e.g. 2025-07-28 (default: yesterday)."
+          )
+          .setMaxLength(32)
+          .setAutocomplete(true)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("profile")
+          .setDescription("Jira profile to list (default: default).")
+          .setMaxLength(32)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("edit")
+      .setDescription("Change the time or comment of a worklog.")
+      .addStringOption((option) =>
+        option
+          .setName("worklog")
+          .setDescription("The worklog to edit.")
+          .setAutocomplete(true)
+          .setRequired(true)
+      )
+      .addIntegerOption((option) =>
+        option
+          .setName("minutes")
+          .setDescription("The new time in minutes.")
+          .setMinValue(1)
+          .setMaxValue(1440)
+          .setRequired(false)
+      )
+      .addStringOption((option) =>
+        option
+          .setName("comment")
+          .setDescription("The new worklog comment.")
+          .setMaxLength(2000)
+          .setRequired(false)
+      )
+  )
+  .addSubcommand((subcommand) =>
+    subcommand
+      .setName("delete")
+      .setDescription("Delete a worklog from Jira.")
+      .addStringOption((option) =>
+        option
+          .setName("worklog")
+          .setDescription("The worklog to delete.")
+          .setAutocomplete(true)
+          .setRequired(true)
+      )
+  );
+
+function describeEntry(entry: WorklogEntry): string {
+  return `${entry.date} ${entry.issueKey} ${TimeUtils.formatTimeString(
+    entry.timeInSeconds
+  )}${entry.profile !== DEFAULT_PROFILE ? ` [${entry.profile}]` : ""}`;
+}
+
+/**
+ * The "Revert" button of a day's summary, undoing what was posted for it
+ */
+export function buildRevertRow(
+  profile: string | undefined,
+  date: string
+): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(`${name}:revert:${profile || DEFAULT_PROFILE}:${date}`)
+      .setLabel("Revert")
+      .setStyle(ButtonStyle.Danger)
+  );
+}
+
+/**
+ * The message about a worklog that could not be posted after its retries,
+ * with a "Retry" button until it is posted
+ */
+export function buildFailedWorklogMessage(entry: WorklogEntry) {
+  const posted = entry.status === "posted";
+  const embed = new EmbedBuilder()
+    .setTitle(
+      posted
+        ? `✅ Worklog posted on ${entry.issueKey}`
+        : `❌ Could not post a worklog on ${entry.issueKey}`
+    )
+    .setDescription(
+      `${describeEntry(entry)}${
+        posted
+          ? ""
+          : `\n${entry.error || "Jira did not accept it"} after ${
+              entry.attempts
+            } attempts.`
+      }`
+    )
+    .setColor(posted ? "#00ff00" : "#ff0000");
+
+  return {
+    embeds: [embed],
+    components: posted
+      ? []
+      : [
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+              .setCustomId(`${name}:retry:${entry.id}`)
+              .setLabel("Retry")
+              .setStyle(ButtonStyle.Primary)
+          ),
+        ],
+  };
+}
+
+/**
+ * Find the profile a worklog was posted with and connect to its Jira
+ */
+async function connectProfile(
+  jiraService: IJiraService,
+  userId: string,
+  profile: string
+): Promise<JiraConfig> {
+  const config = await JiraConfig.findProfile(userId, profile);
+  if (!config || config.profile !== profile) {
+    throw new ValidationError(
+      `The \`${profile}\` profile these worklogs were posted with no longer exists`
+    );
+  }
+
+  jiraService.configureConnection(config.host, config.username, config);
+  return config;
+}
+
+/**
+ * Delete a posted worklog from Jira and mark it deleted in the ledger.
+ * Worklogs already deleted in Jira are marked too
+ */
+async function deleteEntry(
+  jiraService: IJiraService,
+  config: JiraConfig,
+  entry: WorklogEntry
+): Promise<void> {
+  const response = await jiraService.deleteWorklog(
+    config.host,
+    config.username,
+    config.token,
+    entry.issueKey,
+    entry.worklogId as string
+  );
+  if (!response.ok && response.status !== 404) {
+    throw ErrorHandler.wrapJiraError(
+      response,
+      `deleting the worklog on ${entry.issueKey}`
+    );
+  }
+
+  entry.status = "deleted";
+  await entry.save();
+}
+
+async function findEntry(
+  interaction: ChatInputCommandInteraction
+): Promise<WorklogEntry> {
+  const value = interaction.options.get("worklog", true).value;
+  const entry = Number.isInteger(Number(value))
+    ? await WorklogEntry.findOne({
+        where: {
+          id: Number(value),
+          userId: interaction.user.id,
+          status: "posted",
+        },
+      })
+    : null;
+  if (!entry) {
+    throw new ValidationError(
+      "Pick one of the suggested worklogs posted by the bot"
+    );
+  }
+
+  return entry;
+}
+
+/**
+ * Suggest recent days for the date, and the bot's recent worklogs to edit
+ * or delete
+ */
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  try {
+    const focused = interaction.options.data.find((option) => option.focused);
+    const typed = String(focused?.value ?? "").toLowerCase();
+
+    if (focused?.name === "date") {
+      const profile = interaction.options.get("profile", false)?.value as
+        | string
+        | undefined;
+      const jiraConfig = await JiraConfig.findProfile(
+        interaction.user.id,
+        profile ? InputValidator.validateProfileName(profile) : undefined
+      );
+
+      await interaction.respond(
+        TimeUtils.suggestDates(
+          typed,
+          TimeUtils.getDateInZone(
+            new Date(),
+            jiraConfig?.timezone || DEFAULT_TIMEZONE
+          ),
+          TimeUtils.parseWorkDays(jiraConfig?.workDays || DEFAULT_WORK_DAYS)
+        )
+      );
+      return;
+    }
+
+    const entries = await WorklogEntry.findAll({
+      where: { userId: interaction.user.id, status: "posted" },
+      order: [["started", "DESC"]],
+      limit: maxSuggestedWorklogs,
+    });
+
+    await interaction.respond(
+      entries
+        .map((entry) => ({
+          name: describeEntry(entry),
+          value: String(entry.id),
+        }))
+        .filter((choice) => choice.name.toLowerCase().includes(typed))
+        .slice(0, 25)
+    );
+  } catch {
+    await interaction.respond([]);
+  }
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const rateLimitService =
+      container.get<IRateLimitService>("IRateLimitService");
+    const jiraService = container.get<IJiraService>("IJiraService");
+
+    // Check rate limit for worklogs command
+    try {
+      rateLimitService.checkRateLimit(interaction.user.id, "worklogs");
+    } catch (error) {
+      return interaction.reply({
+        content: `⏱️ **Rate Limited**: ${
+          error instanceof Error ? error.message : "Please try again later."
+        }`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+
+    loggerService.logInfo("Executing worklogs command", {
+      GuildId: interaction.guildId,
+      UserId: interaction.user.id,
+      Subcommand: subcommand,
+    });
+
+    let title: string;
+    let description: string;
+
+    try {
+      // Validate Discord IDs
+      InputValidator.validateDiscordId(interaction.user.id, "User ID");
+      if (interaction.guildId) {
+        InputValidator.validateDiscordId(interaction.guildId, "Guild ID");
+      }
+
+      switch (subcommand) {
+        case "list": {
+          const profile = interaction.options.get("profile", false)?.value as
+            | string
+            | undefined;
+          const dateOption = interaction.options.get("date", false)?.value as
+            | string
+            | undefined;
+          const validatedProfile = profile
+            ? InputValidator.validateProfileName(profile)
+            : DEFAULT_PROFILE;
+          const config = await JiraConfig.findProfile(
+            interaction.user.id,
+            validatedProfile
+          );
+
+          // Dates in words are read in the user's timezone
+          const today = TimeUtils.getDateInZone(
+            new Date(),
+            config?.timezone || DEFAULT_TIMEZONE
+          );
+          const date = WorklogCommentUtils.formatDate(
+            InputValidator.validateDate(
+              dateOption || "yesterday",
+              "Date",
+              today
+            )
+          );
+
+          const entries = await WorklogEntry.findForDay(
+            interaction.user.id,
+            validatedProfile,
+            date
+          );
+          title = `🧾 Worklogs for ${date}`;
+          description = entries.length
+            ? entries
+                .map(
+                  (entry) =>
+                    `• \`${entry.issueKey}\` ${TimeUtils.formatTimeString(
+                      entry.timeInSeconds
+                    )}${entry.comment ? `: ${entry.comment}` : ""}`
+                )
+                .join("\n")
+            : "The bot posted no worklogs for this day.";
+          break;
+        }
+        case "edit": {
+          const minutes = interaction.options.get("minutes", false)?.value as
+            | number
+            | undefined;
+          const comment = interaction.options.get("comment", false)?.value as
+            | string
+            | undefined;
+          if (minutes === undefined && !comment?.trim()) {
+            throw new ValidationError(
+              "Give the new minutes, a comment or both"
+            );
+          }
+
+          const timeInSeconds =
+            minutes === undefined
+              ? undefined
+              : InputValidator.validateNumber(minutes, "Minutes", {
+                  required: true,
+                  min: 1,
+                  max: 1440,
+                  integer: true,
+                }) * 60;
+          const validatedComment = comment?.trim()
+            ? InputValidator.validateWorklogComment(comment)
+            : undefined;
+
+          const entry = await findEntry(interaction);
+          const config = await connectProfile(
+            jiraService,
+            interaction.user.id,
+            entry.profile
+          );
+          const response = await jiraService.updateWorklog(
+            config.host,
+            config.username,
+            config.token,
+            entry.issueKey,
+            entry.worklogId as string,
+            timeInSeconds ?? entry.timeInSeconds,
+            validatedComment
+          );
+          if (!response.ok) {
+            throw ErrorHandler.wrapJiraError(
+              response,
+              `updating the worklog on ${entry.issueKey}`
+            );
+          }
+
+          entry.timeInSeconds = timeInSeconds ?? entry.timeInSeconds;
+          entry.comment = validatedComment ?? entry.comment;
+          await entry.save();
+          title = "✏️ Worklog Updated";
+          description = `${describeEntry(entry)}${
+            entry.comment ? `\n${entry.comment}` : ""
+          }`;
+          break;
+        }
+        default: {
+          const entry = await findEntry(interaction);
+          const config = await connectProfile(
+            jiraService,
+            interaction.user.id,
+            entry.profile
+          );
+          await deleteEntry(jiraService, config, entry);
+          title = "🗑️ Worklog Deleted";
+          description = `Deleted ${describeEntry(entry)} from Jira.`;
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+
+      const errorEmbed = new EmbedBuilder()
+        .setTitle("❌ Validation Error")
+        .setDescription(InputValidator.sanitizeInput(error.message))
+        .setColor(0xff0000)
+        .setTimestamp();
+
+      return interaction.reply({
+        embeds: [errorEmbed],
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setDescription(description.substring(0, 4096))
+      .setColor(subcommand === "list" ? 0x0099ff : 0x00ff00)
+      .setTimestamp();
+
+    return interaction.reply({
+      embeds: [embed],
+      flags: MessageFlags.Ephemeral,
+    });
+  } catch (error) {
+    await ErrorHandler.handleCommandError(interaction, error as Error);
+  }
+}
+
+/**
+ * Undo a day's auto-log from the "Revert" button of its summary, including
+ * worklogs still waiting to be retried
+ */
+async function revertDay(
+  interaction: ButtonInteraction,
+  jiraService: IJiraService,
+  loggerService: ILoggerService,
+  profile: string,
+  date: string
+) {
+  // Deleting several worklogs can take a while
+  await interaction.deferUpdate();
+
+  await WorklogEntry.update(
+    { status: "deleted", nextAttemptAt: null },
+    {
+      where: {
+        userId: interaction.user.id,
+        profile,
+        date,
+        source: "scheduled",
+        status: "retrying",
+      },
+    }
+  );
+  // Time logged through /time that day is left alone
+  const entries = await WorklogEntry.findForDay(
+    interaction.user.id,
+    profile,
+    date,
+    { source: "scheduled" }
+  );
+  let failed = 0;
+  if (entries.length) {
+    const config = await connectProfile(
+      jiraService,
+      interaction.user.id,
+      profile
+    );
+    for (const entry of entries) {
+      try {
+        await deleteEntry(jiraService, config, entry);
+      } catch (error) {
+        failed++;
+        loggerService.logError(
+          error instanceof Error ? error : new Error(String(error)),
+          {
+            UserId: interaction.user.id,
+            IssueKey: entry.issueKey,
+            Operation: "revertWorklog",
+          }
+        );
+      }
+    }
+  }
+
+  loggerService.logInfo("Reverted worklogs", {
+    UserId: interaction.user.id,
+    Profile: profile,
+    Date: date,
+    Deleted: entries.length - failed,
+    Failed: failed,
+  });
+
+  const embed = EmbedBuilder.from(interaction.message.embeds[0])
+    .setColor(failed ? "#ffaa00" : "#808080")
+    .setFooter({
+      text: failed
+        ? `Could not delete ${failed} of ${entries.length} worklogs. Try again or use /worklogs.`
+        : `Your time was reverted, ${entries.length} worklog${
+            entries.length === 1 ? " was" : "s were"
+          } deleted.`,
+    });
+
+  await interaction.editReply({
+    embeds: [embed],
+    // Keep the button while something is left to revert
+    components: failed ? [buildRevertRow(profile, date)] : [],
+  });
+}
+
+/**
+ * Post a worklog that failed for good once more from its "Retry" button
+ */
+async function retryFailedEntry(
+  interaction: ButtonInteraction,
+  jiraService: IJiraService,
+  loggerService: ILoggerService,
+  id: string
+) {
+  const entry = await WorklogEntry.findOne({
+    where: { id: Number(id), userId: interaction.user.id, status: "failed" },
+  });
+  if (!entry) {
+    const expiredEmbed = new EmbedBuilder()
+      .setTitle("⌛ Worklog Already Handled")
+      .setDescription(
+        "This worklog was already posted or removed. Check `/history` for its status."
+      )
+      .setColor(0xffaa00)
+      .setTimestamp();
+
+    await interaction.update({ embeds: [expiredEmbed], components: [] });
+    return;
+  }
+
+  await interaction.deferUpdate();
+  const config = await connectProfile(
+    jiraService,
+    interaction.user.id,
+    entry.profile
+  );
+  await retryWorklog(jiraService, config, entry);
+
+  loggerService.logInfo("Retried failed worklog", {
+    UserId: interaction.user.id,
+    IssueKey: entry.issueKey,
+    Status: entry.status,
+  });
+
+  await interaction.editReply(buildFailedWorklogMessage(entry));
+}
+
+/**
+ * Handle the "Revert" button of a day's summary and the "Retry" button of a
+ * worklog that could not be posted
+ */
+export async function handleButton(interaction: ButtonInteraction) {
+  try {
+    const container = ServiceContainer.getInstance();
+    const loggerService = container.get<ILoggerService>("ILoggerService");
+    const jiraService = container.get<IJiraService>("IJiraService");
+
+    const [, action, ...args] = interaction.customId.split(":");
+    if (action === "revert") {
+      await revertDay(
+        interaction,
+        jiraService,
+        loggerService,
+        args[0],
+        args[1]
+      );
+    } else if (action === "retry") {
+      await retryFailedEntry(interaction, jiraService, loggerService, args[0]);
+    }
+  } catch (error) {
+    await ErrorHandler.handleCommandError(
+      interaction,
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+}
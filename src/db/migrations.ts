@@ -0,0 +1,74 @@
+import { QueryTypes, Sequelize } from "sequelize";
+import { DEFAULT_PROFILE, JiraConfig } from "./models/JiraConfig";
+import { UserSettings } from "./models/UserSettings";
+
+interface StoredRow {
+  id: number;
+  userId: string;
+  profile?: string | null;
+  updatedAt: Date | string;
+}
+
+/**
+ * Delete every row but the most recently updated one for each key
+ */
+async function keepLatestRows(
+  sequelize: Sequelize,
+  tableName: string,
+  // eslint-disable-next-line no-unused-vars
+  keyOf: (row: StoredRow) => string
+): Promise<number> {
+  const queryInterface = sequelize.getQueryInterface();
+  if (!(await queryInterface.tableExists(tableName))) {
+    return 0;
+  }
+
+  const rows = await sequelize.query<StoredRow>(
+    `SELECT * FROM ${queryInterface.quoteIdentifier(tableName)}`,
+    { type: QueryTypes.SELECT }
+  );
+  rows.sort(
+    (a, b) =>
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime() ||
+      b.id - a.id
+  );
+
+  const kept = new Set<string>();
+  const duplicates: number[] = [];
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (kept.has(key)) {
+      duplicates.push(row.id);
+    } else {
+      kept.add(key);
+    }
+  }
+
+  if (duplicates.length) {
+    await queryInterface.bulkDelete(tableName, { id: duplicates });
+  }
+
+  return duplicates.length;
+}
+
+/**
+ * Configurations used to be stored once per guild. Keep the most recently
+ * updated copy of each user's profiles and settings so they can be keyed by
+ * user alone. Runs before the models are synced and does nothing once merged
+ */
+export async function mergeGuildDuplicates(
+  sequelize: Sequelize
+): Promise<number> {
+  const configs = await keepLatestRows(
+    sequelize,
+    JiraConfig.tableName,
+    (row) => `${row.userId}:${row.profile ?? DEFAULT_PROFILE}`
+  );
+  const settings = await keepLatestRows(
+    sequelize,
+    UserSettings.tableName,
+    (row) => row.userId
+  );
+
+  return configs + settings;
+}
@@ -0,0 +1,121 @@
+import {
+  CreationOptional,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  Sequelize,
+} from "sequelize";
+import { InputValidator } from "../../services/InputValidator";
+import { TimeUtils } from "../../services/TimeUtils";
+
+// Allocations a profile may have, so a day always leaves time for its work
+export const MAX_ALLOCATIONS = 10;
+
+/**
+ * Time a user sets aside for an issue every week, e.g. a daily standup or a
+ * support rotation. It is reserved out of the profile's daily hours before the
+ * rest is split across the issues worked on
+ */
+export class Allocation extends Model<
+  InferAttributes<Allocation>,
+  InferCreationAttributes<Allocation>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: string;
+  declare profile: string;
+  declare issueKey: string;
+  declare timeInSeconds: number;
+  // ISO weekdays like the profile's work days ("1,3"), null for every day
+  declare days?: string | null;
+
+  /**
+   * The allocations of a profile that fall on a day, in the order they were
+   * added
+   */
+  static async findForDay(
+    userId: string,
+    profile: string,
+    date: Date
+  ): Promise<Allocation[]> {
+    const weekday = ((date.getDay() + 6) % 7) + 1;
+    const allocations = await Allocation.findAll({
+      where: { userId, profile },
+      order: [["id", "ASC"]],
+    });
+
+    return allocations.filter(
+      (allocation) =>
+        !allocation.days ||
+        TimeUtils.parseWorkDays(allocation.days).includes(weekday)
+    );
+  }
+
+  static initModel(sequelize: Sequelize): typeof Allocation {
+    Allocation.init(
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        userId: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        profile: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        issueKey: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        timeInSeconds: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+        },
+        days: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        indexes: [
+          {
+            unique: true,
+            fields: ["userId", "profile", "issueKey"],
+          },
+        ],
+        hooks: {
+          beforeValidate: (instance: Allocation) => {
+            // Validate Discord IDs
+            if (instance.userId) {
+              InputValidator.validateDiscordId(instance.userId, "User ID");
+            }
+
+            if (instance.profile) {
+              instance.profile = InputValidator.validateProfileName(
+                instance.profile
+              );
+            }
+
+            InputValidator.validateIssueKey(instance.issueKey);
+            InputValidator.validateNumber(
+              instance.timeInSeconds,
+              "Time in seconds",
+              { required: true, min: 60, max: 86400, integer: true }
+            );
+
+            if (instance.days) {
+              instance.days = InputValidator.validateWorkDays(instance.days);
+            }
+          },
+        },
+      }
+    );
+
+    return Allocation;
+  }
+}
@@ -0,0 +1,129 @@
+import { DataTypes, InferAttributes, Model, Sequelize } from "sequelize";
+import { GuildPolicyUtils } from "../../services/GuildPolicyUtils";
+import { InputValidator, ValidationError } from "../../services/InputValidator";
+
+/**
+ * Policies a server's admins set for how its members use the bot
+ */
+export class GuildSettings extends Model<InferAttributes<GuildSettings>> {
+  declare guildId: string;
+  // Comma separated Jira hosts members may connect to, null allows any
+  declare allowedHosts?: string | null;
+  declare defaultDailyHours?: number | null;
+  declare maxDailyHours?: number | null;
+  declare requireWorklogComment?: boolean;
+  // JQL used for every member instead of their own query
+  declare forcedJql?: string | null;
+  declare autoLoggingDisabled?: boolean;
+
+  /**
+   * Find the policies of a guild, or null when it has none or there is no
+   * guild (e.g. a configuration set up in DMs)
+   */
+  static async findForGuild(
+    guildId?: string | null
+  ): Promise<GuildSettings | null> {
+    if (!guildId) {
+      return null;
+    }
+
+    return GuildSettings.findOne({ where: { guildId } });
+  }
+
+  static initModel(sequelize: Sequelize): typeof GuildSettings {
+    GuildSettings.init(
+      {
+        guildId: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        allowedHosts: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        defaultDailyHours: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+        },
+        maxDailyHours: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+        },
+        requireWorklogComment: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        forcedJql: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        autoLoggingDisabled: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+      },
+      {
+        sequelize,
+        indexes: [
+          {
+            unique: true,
+            fields: ["guildId"],
+          },
+        ],
+        hooks: {
+          beforeValidate: (instance: GuildSettings) => {
+            // Validate Discord IDs
+            if (instance.guildId) {
+              InputValidator.validateDiscordId(instance.guildId, "Guild ID");
+            }
+
+            // Validate and normalize the host allowlist
+            if (instance.allowedHosts) {
+              instance.allowedHosts =
+                GuildPolicyUtils.parseAllowedHosts(instance.allowedHosts)
+                  .map((host) =>
+                    host.startsWith("*.")
+                      ? `*.${InputValidator.validateJiraHost(host.slice(2))}`
+                      : InputValidator.validateJiraHost(host)
+                  )
+                  .join(",") || null;
+            }
+
+            // Validate daily hours if set
+            if (instance.defaultDailyHours) {
+              instance.defaultDailyHours = InputValidator.validateDailyHours(
+                instance.defaultDailyHours
+              );
+            }
+
+            if (instance.maxDailyHours) {
+              instance.maxDailyHours = InputValidator.validateDailyHours(
+                instance.maxDailyHours
+              );
+            }
+
+            if (
+              instance.defaultDailyHours &&
+              instance.maxDailyHours &&
+              instance.defaultDailyHours > instance.maxDailyHours
+            ) {
+              throw new ValidationError(
+                "Default daily hours cannot be more than the maximum"
+              );
+            }
+
+            // Validate JQL query
+            if (instance.forcedJql) {
+              instance.forcedJql =
+                InputValidator.validateJQL(instance.forcedJql) ?? null;
+            }
+          },
+        },
+      }
+    );
+
+    return GuildSettings;
+  }
+}
@@ -1,23 +1,97 @@
 import { DataTypes, InferAttributes, Model, Sequelize } from "sequelize";
 import { InputValidator } from "../../services/InputValidator";
+import {
+  ApiVersion,
+  AuthScheme,
+  DEFAULT_AUTH_SCHEME,
+  DEFAULT_DEPLOYMENT_TYPE,
+  DeploymentType,
+} from "../../services/JiraConnectionUtils";
 import { ServiceContainer } from "../../services/ServiceContainer";
+import {
+  ConfirmFallback,
+  DEFAULT_CONFIRM_FALLBACK,
+  DEFAULT_CONFIRM_MINUTES,
+  DEFAULT_DISTRIBUTION_STRATEGY,
+  DEFAULT_LUNCH_MINUTES,
+  DEFAULT_LUNCH_START,
+  DEFAULT_PARTIAL_DAY_MODE,
+  DEFAULT_SCHEDULE_TIME,
+  DEFAULT_TIMEZONE,
+  DEFAULT_WORK_DAYS,
+  DEFAULT_WORKDAY_START,
+  DistributionStrategy,
+  PartialDayMode,
+} from "../../services/TimeUtils";
+
+// Profile used when a command does not name one
+export const DEFAULT_PROFILE = "default";
 
 export class JiraConfig extends Model<InferAttributes<JiraConfig>> {
-  declare guildId: string;
+  // Guild the scheduler reaches the user through, null when set up in DMs
+  declare guildId?: string | null;
+  declare profile?: string;
   declare host: string;
   declare username: string;
   declare token: string;
   declare userId: string;
+  declare deploymentType?: DeploymentType;
+  declare apiVersion?: ApiVersion | null;
+  declare contextPath?: string | null;
+  declare authScheme?: AuthScheme;
+  declare cloudId?: string | null;
   declare timeJqlOverride?: string;
   declare schedulePaused: boolean;
   declare dailyHours?: number;
+  declare timezone?: string;
+  declare scheduleTime?: string;
+  declare workDays?: string;
+  declare workdayStart?: string;
+  declare lunchStart?: string;
+  declare lunchMinutes?: number;
+  declare distributionStrategy?: DistributionStrategy;
+  // Whether days that already have some time are topped up to dailyHours
+  declare partialDayMode?: PartialDayMode;
+  declare worklogCommentTemplate?: string | null;
+  // Issue time off is logged against, null skips time off days instead
+  declare timeOffIssueKey?: string | null;
+  // Ask the user before the scheduler posts worklogs, and what to do when
+  // they don't answer within confirmMinutes
+  declare confirmWorklogs?: boolean;
+  declare confirmMinutes?: number;
+  declare confirmFallback?: ConfirmFallback;
+
+  /**
+   * Find one of a user's Jira profiles. Without a name, the "default" profile
+   * is used, or the oldest one when there is no profile by that name
+   */
+  static async findProfile(
+    userId: string,
+    profile?: string
+  ): Promise<JiraConfig | null> {
+    const configs = await JiraConfig.findAll({
+      where: { userId, ...(profile ? { profile } : {}) },
+      order: [["createdAt", "ASC"]],
+    });
+
+    return (
+      configs.find((config) => config.profile === DEFAULT_PROFILE) ??
+      configs[0] ??
+      null
+    );
+  }
 
   static initModel(sequelize: Sequelize): typeof JiraConfig {
     JiraConfig.init(
       {
         guildId: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        profile: {
           type: DataTypes.STRING,
           allowNull: false,
+          defaultValue: DEFAULT_PROFILE,
         },
         host: {
           type: DataTypes.STRING,
@@ -28,13 +102,36 @@ export class JiraConfig extends Model<InferAttributes<JiraConfig>> {
           allowNull: false,
         },
         token: {
-          type: DataTypes.STRING,
+          // OAuth refresh tokens outgrow a VARCHAR(255) once encrypted
+          type: DataTypes.TEXT,
           allowNull: false,
         },
         userId: {
           type: DataTypes.STRING,
           allowNull: false,
         },
+        deploymentType: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_DEPLOYMENT_TYPE,
+        },
+        apiVersion: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        contextPath: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        authScheme: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_AUTH_SCHEME,
+        },
+        cloudId: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
         timeJqlOverride: {
           type: DataTypes.STRING,
           allowNull: true,
@@ -49,26 +146,137 @@ export class JiraConfig extends Model<InferAttributes<JiraConfig>> {
           allowNull: false,
           defaultValue: 8,
         },
+        timezone: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_TIMEZONE,
+        },
+        scheduleTime: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_SCHEDULE_TIME,
+        },
+        workDays: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_WORK_DAYS,
+        },
+        workdayStart: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_WORKDAY_START,
+        },
+        lunchStart: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_LUNCH_START,
+        },
+        lunchMinutes: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: DEFAULT_LUNCH_MINUTES,
+        },
+        distributionStrategy: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_DISTRIBUTION_STRATEGY,
+        },
+        partialDayMode: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_PARTIAL_DAY_MODE,
+        },
+        worklogCommentTemplate: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        timeOffIssueKey: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        confirmWorklogs: {
+          type: DataTypes.BOOLEAN,
+          allowNull: false,
+          defaultValue: false,
+        },
+        confirmMinutes: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: DEFAULT_CONFIRM_MINUTES,
+        },
+        confirmFallback: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: DEFAULT_CONFIRM_FALLBACK,
+        },
       },
       {
         sequelize,
+        indexes: [
+          {
+            unique: true,
+            fields: ["userId", "profile"],
+          },
+        ],
         hooks: {
           beforeValidate: (instance: JiraConfig) => {
+            // Validate profile name
+            if (instance.profile) {
+              instance.profile = InputValidator.validateProfileName(
+                instance.profile
+              );
+            }
+
             // Validate host
             if (instance.host) {
               instance.host = InputValidator.validateJiraHost(instance.host);
             }
 
-            // Validate username (email)
+            // Validate connection settings
+            if (instance.deploymentType) {
+              instance.deploymentType = InputValidator.validateDeploymentType(
+                instance.deploymentType
+              );
+            }
+
+            if (instance.apiVersion) {
+              instance.apiVersion = InputValidator.validateApiVersion(
+                instance.apiVersion
+              );
+            }
+
+            if (instance.contextPath) {
+              instance.contextPath =
+                InputValidator.validateContextPath(instance.contextPath) ||
+                null;
+            }
+
+            if (instance.authScheme) {
+              instance.authScheme = InputValidator.validateAuthScheme(
+                instance.authScheme
+              );
+            }
+
+            if (instance.cloudId) {
+              instance.cloudId = InputValidator.validateCloudId(
+                instance.cloudId
+              );
+            }
+
+            // Validate username (an email on Cloud)
             if (instance.username) {
-              instance.username = InputValidator.validateEmail(
-                instance.username
+              instance.username = InputValidator.validateJiraUsername(
+                instance.username,
+                instance.deploymentType
               );
             }
 
-            // Validate API token
+            // Validate API token (a refresh token for /login users)
             if (instance.token) {
-              instance.token = InputValidator.validateApiToken(instance.token);
+              instance.token = InputValidator.validateJiraToken(
+                instance.token,
+                instance.authScheme
+              );
             }
 
             // Validate Discord IDs
@@ -93,6 +301,89 @@ export class JiraConfig extends Model<InferAttributes<JiraConfig>> {
                 instance.dailyHours
               );
             }
+
+            // Validate schedule settings
+            if (instance.timezone) {
+              instance.timezone = InputValidator.validateTimezone(
+                instance.timezone
+              );
+            }
+
+            if (instance.scheduleTime) {
+              instance.scheduleTime = InputValidator.validateTimeOfDay(
+                instance.scheduleTime,
+                "Schedule time"
+              );
+            }
+
+            if (instance.workDays) {
+              instance.workDays = InputValidator.validateWorkDays(
+                instance.workDays
+              );
+            }
+
+            // Validate workday layout
+            if (instance.workdayStart) {
+              instance.workdayStart = InputValidator.validateTimeOfDay(
+                instance.workdayStart,
+                "Workday start"
+              );
+            }
+
+            if (instance.lunchStart) {
+              instance.lunchStart = InputValidator.validateTimeOfDay(
+                instance.lunchStart,
+                "Lunch start"
+              );
+            }
+
+            if (instance.lunchMinutes !== undefined) {
+              instance.lunchMinutes = InputValidator.validateLunchMinutes(
+                instance.lunchMinutes
+              );
+            }
+
+            // Validate distribution strategy
+            if (instance.distributionStrategy) {
+              instance.distributionStrategy =
+                InputValidator.validateDistributionStrategy(
+                  instance.distributionStrategy
+                );
+            }
+
+            if (instance.partialDayMode) {
+              instance.partialDayMode = InputValidator.validatePartialDayMode(
+                instance.partialDayMode
+              );
+            }
+
+            // Validate worklog comment template if provided
+            if (instance.worklogCommentTemplate) {
+              instance.worklogCommentTemplate =
+                InputValidator.validateWorklogComment(
+                  instance.worklogCommentTemplate
+                );
+            }
+
+            // Validate the time off issue key if provided
+            if (instance.timeOffIssueKey) {
+              instance.timeOffIssueKey = InputValidator.validateIssueKey(
+                instance.timeOffIssueKey
+              );
+            }
+
+            // Validate the confirmation settings
+            if (instance.confirmMinutes !== undefined) {
+              instance.confirmMinutes = InputValidator.validateConfirmMinutes(
+                instance.confirmMinutes
+              );
+            }
+
+            if (instance.confirmFallback) {
+              instance.confirmFallback = InputValidator.validateConfirmFallback(
+                instance.confirmFallback
+              );
+            }
           },
           beforeCreate: (instance: JiraConfig) => {
             // Encrypt the token before storing in database
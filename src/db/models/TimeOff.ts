@@ -0,0 +1,146 @@
+import {
+  DataTypes,
+  InferAttributes,
+  Model,
+  Op,
+  Sequelize,
+  WhereOptions,
+} from "sequelize";
+import { InputValidator, ValidationError } from "../../services/InputValidator";
+import { TIMEOFF_REASON_MAX_LENGTH } from "../../services/TimeOffUtils";
+
+/**
+ * A day off work, either a user's own (vacation, sick leave) or a public
+ * holiday for everyone in a guild. Auto-logging skips these days
+ */
+export class TimeOff extends Model<InferAttributes<TimeOff>> {
+  // Set for personal time off
+  declare userId?: string | null;
+  // Set for a guild's holidays
+  declare guildId?: string | null;
+  declare date: string; // YYYY-MM-DD
+  declare reason?: string | null;
+
+  /**
+   * Find the time off of a user on a date, personal time off first, then the
+   * holidays of the guild they log time in
+   */
+  static async findForDay(
+    userId: string,
+    guildId: string | null | undefined,
+    date: string
+  ): Promise<TimeOff | null> {
+    const days = await TimeOff.findInRange(userId, guildId, date, date);
+    return days[0] ?? null;
+  }
+
+  /**
+   * Find the time off of a user between two dates (YYYY-MM-DD, both included)
+   * with one entry per date, personal time off winning over guild holidays
+   */
+  static async findInRange(
+    userId: string | null,
+    guildId: string | null | undefined,
+    from: string,
+    to: string
+  ): Promise<TimeOff[]> {
+    const owners: WhereOptions<TimeOff>[] = [];
+    if (userId) {
+      owners.push({ userId });
+    }
+    if (guildId) {
+      owners.push({ guildId, userId: null });
+    }
+    if (owners.length === 0) {
+      return [];
+    }
+
+    const days = await TimeOff.findAll({
+      where: {
+        [Op.or]: owners,
+        date: { [Op.between]: [from, to] },
+      },
+      order: [["date", "ASC"]],
+    });
+
+    return days.filter(
+      (day, index) =>
+        !days.some(
+          (other, otherIndex) =>
+            otherIndex !== index &&
+            other.date === day.date &&
+            other.userId &&
+            !day.userId
+        )
+    );
+  }
+
+  static initModel(sequelize: Sequelize): typeof TimeOff {
+    TimeOff.init(
+      {
+        userId: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        guildId: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        date: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        reason: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        indexes: [
+          {
+            unique: true,
+            fields: ["userId", "date"],
+          },
+          {
+            unique: true,
+            fields: ["guildId", "date"],
+          },
+        ],
+        hooks: {
+          beforeValidate: (instance: TimeOff) => {
+            // Time off belongs to either a user or a guild
+            if (!instance.userId === !instance.guildId) {
+              throw new ValidationError(
+                "Time off must belong to either a user or a server"
+              );
+            }
+
+            // Validate Discord IDs
+            if (instance.userId) {
+              InputValidator.validateDiscordId(instance.userId, "User ID");
+            }
+            if (instance.guildId) {
+              InputValidator.validateDiscordId(instance.guildId, "Guild ID");
+            }
+
+            // Dates are stored as YYYY-MM-DD so they compare as strings
+            InputValidator.validateString(instance.date, "Date", {
+              required: true,
+              pattern: /^\d{4}-\d{2}-\d{2}$/,
+            });
+
+            if (instance.reason) {
+              instance.reason =
+                InputValidator.validateString(instance.reason, "Reason", {
+                  maxLength: TIMEOFF_REASON_MAX_LENGTH,
+                }) || null;
+            }
+          },
+        },
+      }
+    );
+
+    return TimeOff;
+  }
+}
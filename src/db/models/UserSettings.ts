@@ -0,0 +1,67 @@
+import { DataTypes, InferAttributes, Model, Sequelize } from "sequelize";
+import { InputValidator } from "../../services/InputValidator";
+
+/**
+ * Settings that apply to all of a user's Jira profiles
+ */
+export class UserSettings extends Model<InferAttributes<UserSettings>> {
+  declare userId: string;
+  declare dailyHoursCap?: number | null;
+  // Seconds the scheduler logged or proposed across profiles on cappedDate
+  // (YYYY-MM-DD)
+  declare cappedDate?: string | null;
+  declare cappedSeconds?: number;
+
+  static initModel(sequelize: Sequelize): typeof UserSettings {
+    UserSettings.init(
+      {
+        userId: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        dailyHoursCap: {
+          type: DataTypes.INTEGER,
+          allowNull: true,
+        },
+        cappedDate: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        cappedSeconds: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 0,
+        },
+      },
+      {
+        sequelize,
+        indexes: [
+          {
+            unique: true,
+            fields: ["userId"],
+          },
+        ],
+        hooks: {
+          beforeValidate: (instance: UserSettings) => {
+            // Validate Discord IDs
+            if (instance.userId) {
+              InputValidator.validateDiscordId(instance.userId, "User ID");
+            }
+
+            // Validate the daily cap if set
+            if (
+              instance.dailyHoursCap !== undefined &&
+              instance.dailyHoursCap !== null
+            ) {
+              instance.dailyHoursCap = InputValidator.validateDailyHoursCap(
+                instance.dailyHoursCap
+              );
+            }
+          },
+        },
+      }
+    );
+
+    return UserSettings;
+  }
+}
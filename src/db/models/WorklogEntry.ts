@@ -0,0 +1,219 @@
+import {
+  CreationOptional,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  Op,
+  Sequelize,
+  WhereOptions,
+} from "sequelize";
+import { InputValidator, ValidationError } from "../../services/InputValidator";
+
+// Worklogs posted from /time are manual, the daily scheduler's are scheduled
+export type WorklogSource = "manual" | "scheduled";
+// Retrying worklogs wait in the ledger until the scheduler posts them again
+export type WorklogStatus = "posted" | "retrying" | "failed" | "deleted";
+
+export const WORKLOG_SOURCES: WorklogSource[] = ["manual", "scheduled"];
+export const WORKLOG_STATUSES: WorklogStatus[] = [
+  "posted",
+  "retrying",
+  "failed",
+  "deleted",
+];
+
+export interface PostedWorklog {
+  issueKey: string;
+  // The day the worklog counts for in the user's timezone, YYYY-MM-DD
+  date: string;
+  started: Date;
+  timeInSeconds: number;
+  comment?: string | null;
+}
+
+/**
+ * The ledger of every worklog the bot tried to post to Jira. Posted ones can
+ * be edited or deleted from Discord later, failed ones are queued for retries
+ * and deleted ones stay for the record
+ */
+export class WorklogEntry extends Model<
+  InferAttributes<WorklogEntry>,
+  InferCreationAttributes<WorklogEntry>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: string;
+  declare profile: string;
+  declare issueKey: string;
+  // Set by Jira once posted
+  declare worklogId: string | null;
+  declare date: string; // YYYY-MM-DD
+  declare started: Date;
+  declare timeInSeconds: number;
+  declare comment?: string | null;
+  declare source: WorklogSource;
+  // The submission that posted it, e.g. a /time preview or a proposal, so
+  // submitting the same one again doesn't post it twice
+  declare submissionId?: string | null;
+  declare status: CreationOptional<WorklogStatus>;
+  // Times posting was tried, when to try again and why the last try failed
+  declare attempts: CreationOptional<number>;
+  declare nextAttemptAt?: Date | null;
+  declare error?: string | null;
+
+  /**
+   * The worklogs still posted for a profile on a day, in posting order
+   */
+  static async findForDay(
+    userId: string,
+    profile: string,
+    date: string,
+    where: WhereOptions<WorklogEntry> = {}
+  ): Promise<WorklogEntry[]> {
+    return WorklogEntry.findAll({
+      where: { ...where, userId, profile, date, status: "posted" },
+      order: [["started", "ASC"]],
+    });
+  }
+
+  /**
+   * A user's ledger between two dates (YYYY-MM-DD, both included), in
+   * posting order
+   */
+  static async findInRange(
+    userId: string,
+    from: string,
+    to: string,
+    where: WhereOptions<WorklogEntry> = {}
+  ): Promise<WorklogEntry[]> {
+    return WorklogEntry.findAll({
+      where: { ...where, userId, date: { [Op.between]: [from, to] } },
+      order: [
+        ["date", "ASC"],
+        ["started", "ASC"],
+      ],
+    });
+  }
+
+  static initModel(sequelize: Sequelize): typeof WorklogEntry {
+    WorklogEntry.init(
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        userId: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        profile: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        issueKey: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        worklogId: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        date: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        started: {
+          type: DataTypes.DATE,
+          allowNull: false,
+        },
+        timeInSeconds: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+        },
+        comment: {
+          type: DataTypes.TEXT,
+          allowNull: true,
+        },
+        source: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        submissionId: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        status: {
+          type: DataTypes.STRING,
+          allowNull: false,
+          defaultValue: "posted",
+        },
+        attempts: {
+          type: DataTypes.INTEGER,
+          allowNull: false,
+          defaultValue: 1,
+        },
+        nextAttemptAt: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        error: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        indexes: [
+          {
+            fields: ["userId", "date"],
+          },
+          {
+            fields: ["status", "nextAttemptAt"],
+          },
+        ],
+        hooks: {
+          beforeValidate: (instance: WorklogEntry) => {
+            // Validate Discord IDs
+            if (instance.userId) {
+              InputValidator.validateDiscordId(instance.userId, "User ID");
+            }
+
+            if (instance.profile) {
+              instance.profile = InputValidator.validateProfileName(
+                instance.profile
+              );
+            }
+
+            InputValidator.validateIssueKey(instance.issueKey);
+            InputValidator.validateString(instance.date, "Date", {
+              required: true,
+              pattern: /^\d{4}-\d{2}-\d{2}$/,
+            });
+            InputValidator.validateNumber(
+              instance.timeInSeconds,
+              "Time in seconds",
+              { required: true, min: 60, max: 86400, integer: true }
+            );
+
+            if (!WORKLOG_SOURCES.includes(instance.source)) {
+              throw new ValidationError(
+                `Worklog source must be one of: ${WORKLOG_SOURCES.join(", ")}`
+              );
+            }
+            if (
+              instance.status &&
+              !WORKLOG_STATUSES.includes(instance.status)
+            ) {
+              throw new ValidationError(
+                `Worklog status must be one of: ${WORKLOG_STATUSES.join(", ")}`
+              );
+            }
+          },
+        },
+      }
+    );
+
+    return WorklogEntry;
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  CreationOptional,
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  Sequelize,
+} from "sequelize";
+import { InputValidator, ValidationError } from "../../services/InputValidator";
+
+export interface ProposedWorklog {
+  key: string;
+  summary: string;
+  assignee: string;
+  status?: string;
+  timeInSeconds: number;
+  // Why the issue got its share, e.g. its Jira activity
+  reason?: string;
+}
+
+/**
+ * Worklogs the scheduler proposed for a day and waits for the user to
+ * approve, edit or skip. Deleted once answered or handled after expiresAt
+ */
+export class WorklogProposal extends Model<
+  InferAttributes<WorklogProposal>,
+  InferCreationAttributes<WorklogProposal>
+> {
+  declare id: CreationOptional<number>;
+  declare userId: string;
+  declare profile: string;
+  declare date: string; // YYYY-MM-DD
+  declare entries: ProposedWorklog[];
+  // The user's time on each of the day's issues when it was proposed, which
+  // the proposal tops up
+  declare loggedSeconds: CreationOptional<Record<string, number>>;
+  // When the user's last worklog of the day ended, which the proposal starts
+  // after
+  declare loggedUntil?: Date | null;
+  declare expiresAt: Date;
+  // Direct message the proposal was sent in
+  declare channelId?: string | null;
+  declare messageId?: string | null;
+
+  static initModel(sequelize: Sequelize): typeof WorklogProposal {
+    WorklogProposal.init(
+      {
+        id: {
+          type: DataTypes.INTEGER,
+          autoIncrement: true,
+          primaryKey: true,
+        },
+        userId: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        profile: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        date: {
+          type: DataTypes.STRING,
+          allowNull: false,
+        },
+        entries: {
+          type: DataTypes.JSON,
+          allowNull: false,
+        },
+        loggedSeconds: {
+          type: DataTypes.JSON,
+          allowNull: false,
+          defaultValue: {},
+        },
+        loggedUntil: {
+          type: DataTypes.DATE,
+          allowNull: true,
+        },
+        expiresAt: {
+          type: DataTypes.DATE,
+          allowNull: false,
+        },
+        channelId: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+        messageId: {
+          type: DataTypes.STRING,
+          allowNull: true,
+        },
+      },
+      {
+        sequelize,
+        indexes: [
+          {
+            fields: ["expiresAt"],
+          },
+        ],
+        hooks: {
+          beforeValidate: (instance: WorklogProposal) => {
+            // Validate Discord IDs
+            if (instance.userId) {
+              InputValidator.validateDiscordId(instance.userId, "User ID");
+            }
+
+            if (instance.profile) {
+              instance.profile = InputValidator.validateProfileName(
+                instance.profile
+              );
+            }
+
+            InputValidator.validateString(instance.date, "Date", {
+              required: true,
+              pattern: /^\d{4}-\d{2}-\d{2}$/,
+            });
+
+            if (!Array.isArray(instance.entries)) {
+              throw new ValidationError("Proposed worklogs must be a list");
+            }
+            for (const entry of instance.entries) {
+              InputValidator.validateIssueKey(entry.key);
+              InputValidator.validateNumber(
+                entry.timeInSeconds,
+                "Time in seconds",
+                { required: true, min: 60, max: 86400, integer: true }
+              );
+            }
+          },
+        },
+      }
+    );
+
+    return WorklogProposal;
+  }
+}
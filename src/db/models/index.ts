@@ -1,14 +1,70 @@
-import { JiraConfig } from "./JiraConfig";
+import { Allocation, MAX_ALLOCATIONS } from "./Allocation";
+import { GuildSettings } from "./GuildSettings";
+import { DEFAULT_PROFILE, JiraConfig } from "./JiraConfig";
+import { TimeOff } from "./TimeOff";
+import { UserSettings } from "./UserSettings";
+import {
+  PostedWorklog,
+  WORKLOG_SOURCES,
+  WORKLOG_STATUSES,
+  WorklogEntry,
+  WorklogSource,
+  WorklogStatus,
+} from "./WorklogEntry";
+import { ProposedWorklog, WorklogProposal } from "./WorklogProposal";
 import db from "..";
+import { ILoggerService } from "../../services/LoggerService";
+import { ServiceContainer } from "../../services/ServiceContainer";
+import { mergeGuildDuplicates } from "../migrations";
 
-export { JiraConfig };
+export {
+  Allocation,
+  DEFAULT_PROFILE,
+  GuildSettings,
+  JiraConfig,
+  MAX_ALLOCATIONS,
+  PostedWorklog,
+  ProposedWorklog,
+  TimeOff,
+  UserSettings,
+  WORKLOG_SOURCES,
+  WORKLOG_STATUSES,
+  WorklogEntry,
+  WorklogProposal,
+  WorklogSource,
+  WorklogStatus,
+};
 
 export async function initModels() {
   JiraConfig.initModel(db);
+  UserSettings.initModel(db);
+  GuildSettings.initModel(db);
+  TimeOff.initModel(db);
+  WorklogProposal.initModel(db);
+  WorklogEntry.initModel(db);
+  Allocation.initModel(db);
+
+  // Duplicates would break the per-user unique indexes created by sync
+  const merged = await mergeGuildDuplicates(db);
+  if (merged > 0) {
+    ServiceContainer.getInstance()
+      .get<ILoggerService>("ILoggerService")
+      .logInfo("Merged duplicate configurations from other guilds", {
+        Removed: merged,
+      });
+  }
 
   await db.sync({
     alter: true,
   });
 
-  return { JiraConfig };
+  return {
+    Allocation,
+    GuildSettings,
+    JiraConfig,
+    TimeOff,
+    UserSettings,
+    WorklogEntry,
+    WorklogProposal,
+  };
 }
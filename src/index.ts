@@ -2,6 +2,7 @@ import { Client, Events, GatewayIntentBits, MessageFlags } from "discord.js";
 import { allCommands } from "./commands";
 import { initModels } from "./db/models";
 import { deployCommands, deployGuildCommands } from "./deploy-commands";
+import { initOAuthCallbackServer } from "./oauth";
 import { initScheduledJobs } from "./scheduler";
 import { IConfigService } from "./services/ConfigService";
 import { ErrorHandler } from "./services/ErrorHandler";
@@ -34,6 +35,7 @@ client.once(Events.ClientReady, async () => {
   });
   await initModels();
   initScheduledJobs();
+  initOAuthCallbackServer();
 });
 
 client.on(Events.GuildCreate, async (guild) => {
@@ -47,6 +49,34 @@ client.on(Events.GuildCreate, async (guild) => {
 });
 
 client.on(Events.InteractionCreate, async (interaction) => {
+  // Modals and buttons are routed to the command that owns their custom ID
+  // prefix, e.g. "setup:modal:...". Others belong to message collectors
+  if (interaction.isModalSubmit() || interaction.isButton()) {
+    const [commandName] = interaction.customId.split(":");
+    const command = allCommands[commandName as keyof typeof allCommands];
+
+    if (
+      interaction.isModalSubmit() &&
+      command &&
+      "handleModalSubmit" in command
+    ) {
+      await command.handleModalSubmit(interaction);
+    } else if (interaction.isButton() && command && "handleButton" in command) {
+      await command.handleButton(interaction);
+    }
+    return;
+  }
+
+  if (interaction.isAutocomplete()) {
+    const command =
+      allCommands[interaction.commandName as keyof typeof allCommands];
+
+    if (command && "autocomplete" in command) {
+      await command.autocomplete(interaction);
+    }
+    return;
+  }
+
   if (!interaction.isChatInputCommand()) {
     return;
   }
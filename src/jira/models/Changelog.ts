@@ -0,0 +1,14 @@
+import { User } from "./User";
+
+export class ChangelogItem {
+  declare field: string;
+  declare fromString: string | null;
+  declare toString: string | null;
+}
+
+export class Changelog {
+  declare id: string;
+  declare author: User;
+  declare created: string;
+  declare items: ChangelogItem[];
+}
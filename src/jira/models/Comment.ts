@@ -0,0 +1,7 @@
+import { User } from "./User";
+
+export class Comment {
+  declare id: string;
+  declare author: User;
+  declare created: string;
+}
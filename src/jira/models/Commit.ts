@@ -0,0 +1,8 @@
+export class Commit {
+  declare id: string;
+  declare authorTimestamp: string;
+  declare author: {
+    name: string;
+    email?: string;
+  };
+}
@@ -0,0 +1,6 @@
+export class IssueActivity {
+  declare issueKey: string;
+  declare transitions: number;
+  declare comments: number;
+  declare commits: number;
+}
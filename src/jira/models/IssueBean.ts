@@ -6,5 +6,8 @@ export class IssueBean {
   declare fields: {
     summary: string;
     assignee: User;
+    status?: {
+      name: string;
+    };
   };
 }
@@ -0,0 +1,9 @@
+import { Changelog } from "./Changelog";
+
+export class PageOfChangelogs {
+  declare startAt?: number;
+  declare maxResults?: number;
+  declare isLast?: boolean;
+  declare total: number;
+  declare values: Changelog[];
+}
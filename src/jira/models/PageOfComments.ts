@@ -0,0 +1,6 @@
+import { Comment } from "./Comment";
+
+export class PageOfComments {
+  declare total: number;
+  declare comments: Comment[];
+}
@@ -1,6 +1,8 @@
 import { Worklog } from "./Worklog";
 
 export class PageOfWorklogs {
+  declare startAt?: number;
+  declare maxResults?: number;
   declare total: number;
   declare worklogs: Worklog[];
 }
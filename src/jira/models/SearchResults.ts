@@ -1,6 +1,12 @@
 import { IssueBean } from "./IssueBean";
 
+// Legacy search responses carry offsets and a total, the enhanced search
+// (/search/jql) only a token for the next page
 export class SearchResults {
-  declare total: number;
+  declare startAt?: number;
+  declare maxResults?: number;
+  declare total?: number;
+  declare nextPageToken?: string;
+  declare isLast?: boolean;
   declare issues: IssueBean[];
 }
@@ -1,4 +1,6 @@
 export class User {
+  declare accountId: string;
   declare displayName: string;
   declare emailAddress: string;
+  declare name?: string; // Data Center username
 }
@@ -0,0 +1,5 @@
+import { Worklog } from "./Worklog";
+
+export class UserWorklog extends Worklog {
+  declare issueKey: string;
+}
@@ -1,7 +1,10 @@
 import { User } from "./User";
 
 export class Worklog {
+  declare id: string;
   declare timeSpentSeconds: number;
   declare timeSpent: string;
+  // e.g. 2025-07-28T09:00:00.000+0100, in the author's timezone
+  declare started: string;
   declare author: User;
 }
@@ -1,7 +1,28 @@
+import { Changelog, ChangelogItem } from "./Changelog";
+import { Comment } from "./Comment";
+import { Commit } from "./Commit";
+import { IssueActivity } from "./IssueActivity";
 import { IssueBean } from "./IssueBean";
+import { PageOfChangelogs } from "./PageOfChangelogs";
+import { PageOfComments } from "./PageOfComments";
 import { PageOfWorklogs } from "./PageOfWorklogs";
 import { SearchResults } from "./SearchResults";
 import { User } from "./User";
+import { UserWorklog } from "./UserWorklog";
 import { Worklog } from "./Worklog";
 
-export { SearchResults, IssueBean, User, PageOfWorklogs, Worklog };
+export {
+  SearchResults,
+  IssueBean,
+  User,
+  PageOfWorklogs,
+  Worklog,
+  UserWorklog,
+  Changelog,
+  ChangelogItem,
+  PageOfChangelogs,
+  Comment,
+  PageOfComments,
+  Commit,
+  IssueActivity,
+};
@@ -0,0 +1,271 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { DEFAULT_PROFILE, JiraConfig } from "../db/models";
+import { IConfigService } from "../services/ConfigService";
+import { ApplicationError, ErrorType } from "../services/ErrorHandler";
+import { InputValidator } from "../services/InputValidator";
+import { JiraConnectionSettings } from "../services/JiraConnectionUtils";
+import { IJiraService } from "../services/JiraService";
+import { ILoggerService } from "../services/LoggerService";
+import {
+  AccessibleResource,
+  IOAuthService,
+  OAuthAccount,
+  OAuthTokens,
+} from "../services/OAuthService";
+import { ServiceContainer } from "../services/ServiceContainer";
+
+export interface LoginResult {
+  host: string;
+  username: string;
+  profile: string;
+}
+
+/**
+ * Pick the Jira site a login is for: the one named in /login, otherwise the
+ * first site the grant can reach
+ */
+export function selectSite(
+  resources: AccessibleResource[],
+  site?: string
+): AccessibleResource | undefined {
+  if (!site) {
+    return resources[0];
+  }
+
+  return resources.find(
+    (resource) => InputValidator.validateJiraHost(resource.url) === site
+  );
+}
+
+/**
+ * Finish a /login: trade the code for tokens, find the user's site and
+ * account, and store the refresh token in their configuration
+ */
+export async function completeLogin(
+  code: string,
+  state: string
+): Promise<LoginResult> {
+  const container = ServiceContainer.getInstance();
+  const oauthService = container.get<IOAuthService>("IOAuthService");
+  const jiraService = container.get<IJiraService>("IJiraService");
+
+  const login = oauthService.consumeState(state);
+  if (!login) {
+    throw new ApplicationError(
+      "This login link has expired or was already used. Run /login again.",
+      ErrorType.AUTHENTICATION_ERROR,
+      true,
+      400
+    );
+  }
+
+  const tokens = await oauthService.exchangeCode(code);
+  const resources = await oauthService.getAccessibleResources(
+    tokens.accessToken
+  );
+  const resource = selectSite(resources, login.site);
+  if (!resource) {
+    throw new ApplicationError(
+      login.site
+        ? `The authorization does not include ${login.site}. Run /login again and pick that site.`
+        : "The authorization does not include any Jira site.",
+      ErrorType.AUTHORIZATION_ERROR,
+      true,
+      403
+    );
+  }
+
+  const profile = await oauthService.getProfile(tokens.accessToken);
+  if (!profile.email) {
+    throw new ApplicationError(
+      "Your Atlassian account did not share an e-mail address.",
+      ErrorType.AUTHORIZATION_ERROR,
+      true,
+      403
+    );
+  }
+
+  const host = InputValidator.validateJiraHost(resource.url);
+  const username = InputValidator.validateEmail(profile.email);
+  const settings: JiraConnectionSettings = {
+    deploymentType: "cloud",
+    apiVersion: null,
+    contextPath: null,
+    authScheme: "oauth",
+    cloudId: resource.id,
+  };
+
+  const jiraProfile = login.profile ?? DEFAULT_PROFILE;
+  const [config, created] = await JiraConfig.findOrCreate({
+    where: {
+      userId: login.userId,
+      profile: jiraProfile,
+    },
+    defaults: {
+      guildId: login.guildId,
+      userId: login.userId,
+      profile: jiraProfile,
+      host,
+      username,
+      token: tokens.refreshToken,
+      schedulePaused: false,
+      ...settings,
+    },
+  });
+
+  if (!created) {
+    config.host = host;
+    config.username = username;
+    config.token = tokens.refreshToken;
+    config.deploymentType = settings.deploymentType;
+    config.apiVersion = settings.apiVersion;
+    config.contextPath = settings.contextPath;
+    config.authScheme = settings.authScheme;
+    config.cloudId = settings.cloudId;
+    if (login.guildId) {
+      config.guildId = login.guildId;
+    }
+    await config.save();
+  }
+
+  jiraService.configureConnection(host, username, settings);
+
+  return { host, username, profile: jiraProfile };
+}
+
+/**
+ * Atlassian rotates refresh tokens on every refresh, so the new one replaces
+ * the stored one for every configuration of that account
+ */
+export async function storeRefreshedTokens(
+  account: OAuthAccount,
+  tokens: OAuthTokens
+): Promise<void> {
+  const logger =
+    ServiceContainer.getInstance().get<ILoggerService>("ILoggerService");
+
+  try {
+    const configs = await JiraConfig.findAll({
+      where: {
+        host: account.host,
+        username: account.username,
+        authScheme: "oauth",
+      },
+    });
+
+    for (const config of configs) {
+      config.token = tokens.refreshToken;
+      await config.save();
+    }
+  } catch (error) {
+    logger.logError(error as Error, {
+      operation: "storeRefreshedTokens",
+      host: account.host,
+    });
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function sendPage(
+  res: ServerResponse,
+  status: number,
+  title: string,
+  message: string
+): void {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(
+    `<!DOCTYPE html><html><head><title>${escapeHtml(
+      title
+    )}</title></head><body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(
+      message
+    )}</p></body></html>`
+  );
+}
+
+async function handleCallback(
+  req: IncomingMessage,
+  res: ServerResponse,
+  callbackPath: string
+): Promise<void> {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  if (req.method !== "GET" || url.pathname !== callbackPath) {
+    sendPage(res, 404, "Not found", "There is nothing here.");
+    return;
+  }
+
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state");
+  if (url.searchParams.get("error") || !code || !state) {
+    sendPage(
+      res,
+      400,
+      "Login cancelled",
+      "Jira was not connected. Run /login in Discord to try again."
+    );
+    return;
+  }
+
+  try {
+    const { host, username } = await completeLogin(code, state);
+    sendPage(
+      res,
+      200,
+      "Jira connected",
+      `Connected to ${host} as ${username}. You can close this tab and return to Discord.`
+    );
+  } catch (error) {
+    const logger =
+      ServiceContainer.getInstance().get<ILoggerService>("ILoggerService");
+    logger.logError(error as Error, { operation: "completeLogin" });
+
+    const isOperational =
+      error instanceof ApplicationError && error.isOperational;
+    sendPage(
+      res,
+      isOperational && error.statusCode ? error.statusCode : 500,
+      "Login failed",
+      isOperational
+        ? error.message
+        : "Something went wrong while connecting Jira. Please try again."
+    );
+  }
+}
+
+/**
+ * Start the HTTP endpoint Atlassian redirects to after consent. Nothing is
+ * started unless OAuth is configured
+ */
+export function initOAuthCallbackServer(): Server | undefined {
+  const container = ServiceContainer.getInstance();
+  const oauthService = container.get<IOAuthService>("IOAuthService");
+  const configService = container.get<IConfigService>("IConfigService");
+  const logger = container.get<ILoggerService>("ILoggerService");
+
+  if (!oauthService.isEnabled()) {
+    logger.info("Atlassian OAuth is not configured, /login is disabled");
+    return undefined;
+  }
+
+  oauthService.onTokensRefreshed(storeRefreshedTokens);
+
+  const callbackPath = new URL(oauthService.getRedirectUri()).pathname;
+  const server = createServer((req, res) => {
+    void handleCallback(req, res, callbackPath);
+  });
+
+  server.listen(configService.getOAuthCallbackPort(), () => {
+    logger.info("OAuth callback server listening", {
+      port: configService.getOAuthCallbackPort(),
+      path: callbackPath,
+    });
+  });
+
+  return server;
+}
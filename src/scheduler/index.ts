@@ -1,48 +1,488 @@
-import { EmbedBuilder } from "discord.js";
+import { EmbedBuilder, GuildMember, User } from "discord.js";
 import * as schedule from "node-schedule";
+import { Op } from "sequelize";
+import {
+  AlreadyLoggedError,
+  describeFailure,
+  postWorklogs,
+  retryWorklog,
+  summarizePosting,
+} from "./posting";
+import {
+  buildProposalMessage,
+  claimProposal,
+  failProposal,
+  ProposalOutcome,
+  recordCappedSeconds,
+  releaseProposal,
+  submitProposal,
+} from "./proposals";
 import { client } from "..";
-import { JiraConfig } from "../db/models";
-import { PageOfWorklogs, SearchResults } from "../jira/models";
+import {
+  buildFailedWorklogMessage,
+  buildRevertRow,
+} from "../commands/worklogs";
+import {
+  Allocation,
+  DEFAULT_PROFILE,
+  GuildSettings,
+  JiraConfig,
+  TimeOff,
+  UserSettings,
+  WorklogEntry,
+  WorklogProposal,
+} from "../db/models";
+import { IssueBean, Worklog } from "../jira/models";
 import { ErrorHandler } from "../services/ErrorHandler";
+import { GuildPolicyUtils } from "../services/GuildPolicyUtils";
 import { InputValidator } from "../services/InputValidator";
-import { IJiraService } from "../services/JiraService";
+import { JiraConnectionUtils } from "../services/JiraConnectionUtils";
+import { getDefaultJql, IJiraService } from "../services/JiraService";
 import { ILoggerService } from "../services/LoggerService";
 import { ServiceContainer } from "../services/ServiceContainer";
-import { convertSeconds, distributeTime } from "../services/utils";
+import {
+  AllocatedTime,
+  DEFAULT_CONFIRM_FALLBACK,
+  DEFAULT_CONFIRM_MINUTES,
+  DEFAULT_DISTRIBUTION_STRATEGY,
+  DEFAULT_PARTIAL_DAY_MODE,
+  DEFAULT_SCHEDULE_TIME,
+  DEFAULT_TIMEZONE,
+  DEFAULT_WORK_DAYS,
+  TimeUtils,
+} from "../services/TimeUtils";
+import { collectAll, convertSeconds, distributeTime } from "../services/utils";
+import { WorklogCommentUtils } from "../services/WorklogCommentUtils";
 
 export const tz = "Etc/UTC";
-export const dailyRule = "0 6 * * 2-6";
-// export const dailyRule = "* * * * *"; // For testing every minute
-export const daysAgo = "1";
+// The job ticks every 15 minutes and picks the users whose local run time
+// falls inside the current window
+export const dailyRule = "*/15 * * * *";
+export const scheduleWindowMinutes = 15;
+
+// An issue of the day with the share of the daily hours it gets
+interface PlannedIssue {
+  issue: {
+    id: string;
+    key: string;
+    summary: string;
+    assignee: string;
+    status?: string;
+    worklogs: Worklog[];
+  };
+  times: string;
+  timeInSeconds: number;
+  reason?: string;
+}
+
+/**
+ * Check whether a user's daily run is due at the given instant: their local
+ * run time falls inside the current window and the day being logged
+ * ("yesterday" in their timezone) is one of their working days
+ */
+export function isScheduleDue(config: JiraConfig, now: Date): boolean {
+  const local = TimeUtils.getZonedDateParts(
+    now,
+    config.timezone || DEFAULT_TIMEZONE
+  );
+  const scheduleMinutes = TimeUtils.parseTimeOfDay(
+    config.scheduleTime || DEFAULT_SCHEDULE_TIME
+  );
+  const localMinutes = local.hour * 60 + local.minute;
+
+  if (
+    isNaN(scheduleMinutes) ||
+    localMinutes < scheduleMinutes ||
+    localMinutes >= scheduleMinutes + scheduleWindowMinutes
+  ) {
+    return false;
+  }
+
+  const previousWeekday = ((local.weekday + 5) % 7) + 1;
+  return TimeUtils.parseWorkDays(config.workDays || DEFAULT_WORK_DAYS).includes(
+    previousWeekday
+  );
+}
+
+/**
+ * Add the day's allocations to the split: to the share of issues that were
+ * also worked on, and ahead of it for the others
+ */
+function addAllocations(
+  issuesWithTimes: PlannedIssue[],
+  reserved: AllocatedTime[]
+): PlannedIssue[] {
+  const planned = [...issuesWithTimes];
+  for (const allocation of [...reserved].reverse()) {
+    const index = planned.findIndex(
+      (issue) => issue.issue.key === allocation.issueKey
+    );
+    const timeInSeconds =
+      allocation.timeInSeconds +
+      (index === -1 ? 0 : planned[index].timeInSeconds);
+    const allocated = `${TimeUtils.formatTimeString(
+      allocation.timeInSeconds
+    )} allocated`;
+
+    if (index === -1) {
+      planned.unshift({
+        issue: {
+          id: allocation.issueKey,
+          key: allocation.issueKey,
+          summary: "",
+          assignee: "Allocation",
+          worklogs: [],
+        },
+        times: convertSeconds(timeInSeconds),
+        timeInSeconds,
+        reason: allocated,
+      });
+    } else {
+      planned[index] = {
+        ...planned[index],
+        times: convertSeconds(timeInSeconds),
+        timeInSeconds,
+        reason: [planned[index].reason, allocated].filter(Boolean).join(", "),
+      };
+    }
+  }
+
+  return planned;
+}
+
+/**
+ * Seconds a profile may still log on a date (YYYY-MM-DD) under the user's
+ * daily cap, in whole minutes, or undefined when the user has no cap
+ */
+export function getRemainingCapSeconds(
+  settings: UserSettings | null | undefined,
+  date: string
+): number | undefined {
+  if (!settings?.dailyHoursCap) {
+    return undefined;
+  }
+
+  const capped = settings.cappedDate === date ? settings.cappedSeconds ?? 0 : 0;
+  const remaining = Math.max(settings.dailyHoursCap * 3600 - capped, 0);
+  return Math.floor(remaining / 60) * 60;
+}
+
+/**
+ * The user to message about a run: through the guild they set up from while
+ * the bot still shares it with them, otherwise directly
+ */
+async function fetchNotificationUser(
+  config: JiraConfig
+): Promise<GuildMember | User> {
+  const guild = config.guildId
+    ? client.guilds.cache.get(config.guildId)
+    : undefined;
+
+  if (guild) {
+    try {
+      return await guild.members.fetch(config.userId);
+    } catch {
+      // The user left the guild, fall back to a direct message
+    }
+  }
+
+  return client.users.fetch(config.userId);
+}
+
+/**
+ * Log a day off against the profile's time off issue with the daily hours,
+ * unless the user already logged time that day, on any issue, and doesn't top
+ * days up. Returns the seconds logged
+ */
+async function logTimeOff(
+  jiraService: IJiraService,
+  config: JiraConfig,
+  policy: GuildSettings | null,
+  startDate: Date,
+  timeOff: TimeOff
+): Promise<number> {
+  const issueKey = config.timeOffIssueKey as string;
+  const date = WorklogCommentUtils.formatDate(startDate);
+  const settings = await UserSettings.findOne({
+    where: { userId: config.userId },
+  });
+
+  const issues = [
+    {
+      key: issueKey,
+      worklogs: await collectAll(
+        jiraService.iterateIssueWorklogs(
+          config.host,
+          config.username,
+          config.token,
+          issueKey,
+          startDate,
+          startDate,
+          config.timezone || DEFAULT_TIMEZONE
+        )
+      ),
+    },
+  ];
+  const userWorklogs = await collectAll(
+    jiraService.iterateUserWorklogs(
+      config.host,
+      config.username,
+      config.token,
+      startDate,
+      startDate,
+      config.timezone || DEFAULT_TIMEZONE
+    )
+  );
+  const loggedSeconds = JiraConnectionUtils.getLoggedSeconds(
+    issues,
+    config.username,
+    userWorklogs
+  );
+  const totalLoggedSeconds = Object.values(loggedSeconds).reduce(
+    (acc, seconds) => acc + seconds,
+    0
+  );
+
+  const topUp = TimeUtils.planTopUp(
+    [issueKey],
+    [loggedSeconds[issueKey]],
+    totalLoggedSeconds,
+    GuildPolicyUtils.limitDailyHours(
+      policy,
+      InputValidator.validateDailyHours(config.dailyHours)
+    ) * 3600,
+    config.partialDayMode || DEFAULT_PARTIAL_DAY_MODE
+  );
+  if (!topUp) {
+    return 0;
+  }
+
+  const remainingCapSeconds = getRemainingCapSeconds(settings, date);
+  const timeInSeconds =
+    remainingCapSeconds === undefined
+      ? topUp.remainingSeconds
+      : Math.min(topUp.remainingSeconds, remainingCapSeconds);
+  if (timeInSeconds < 60) {
+    return 0;
+  }
+
+  const [slot] = TimeUtils.planWorklogSlots(
+    startDate,
+    [timeInSeconds],
+    TimeUtils.getWorkdayLayout(config),
+    JiraConnectionUtils.getLoggedUntil(issues, config.username, userWorklogs)
+  );
+  await postWorklogs(
+    jiraService,
+    config,
+    [
+      {
+        issueKey,
+        date,
+        started: slot,
+        timeInSeconds,
+        comment: timeOff.reason || "Time off",
+      },
+    ],
+    "scheduled",
+    `scheduled:${date}`,
+    loggedSeconds
+  );
+  await recordCappedSeconds(settings, date, timeInSeconds);
+
+  return timeInSeconds;
+}
+
+/**
+ * Answer the proposals nobody approved or skipped within their confirmation
+ * window with the user's fallback, and close their direct messages
+ */
+async function processExpiredProposals(
+  jiraService: IJiraService,
+  loggerService: ILoggerService,
+  now: Date
+): Promise<void> {
+  const proposals = await WorklogProposal.findAll({
+    where: { expiresAt: { [Op.lte]: now } },
+  });
+
+  for (const proposal of proposals) {
+    try {
+      const config = await JiraConfig.findProfile(
+        proposal.userId,
+        proposal.profile
+      );
+      if (!(await claimProposal(proposal)) || !config) {
+        continue;
+      }
+
+      let outcome: ProposalOutcome =
+        (config.confirmFallback || DEFAULT_CONFIRM_FALLBACK) === "skip"
+          ? "skipped"
+          : "submitted";
+      let message;
+      if (outcome === "skipped") {
+        await releaseProposal(proposal);
+        message = buildProposalMessage(proposal, config, outcome);
+      } else {
+        jiraService.configureConnection(config.host, config.username, config);
+        try {
+          message = buildProposalMessage(
+            proposal,
+            config,
+            outcome,
+            await submitProposal(jiraService, proposal, config)
+          );
+        } catch (error) {
+          ErrorHandler.handleSchedulerError(
+            error instanceof Error ? error : new Error(String(error)),
+            loggerService,
+            {
+              userId: proposal.userId,
+              operation: "submitProposal",
+            }
+          );
+          outcome = "failed";
+          message = buildProposalMessage(
+            proposal,
+            config,
+            outcome,
+            [],
+            await failProposal(proposal, error)
+          );
+        }
+      }
+
+      loggerService.logInfo(`Unanswered worklogs ${outcome}`, {
+        UserId: proposal.userId,
+        Profile: proposal.profile,
+        Date: proposal.date,
+      });
+
+      if (proposal.channelId && proposal.messageId) {
+        const channel = await client.channels.fetch(proposal.channelId);
+        if (channel?.isTextBased()) {
+          await channel.messages.edit(proposal.messageId, message);
+        }
+      }
+    } catch (error) {
+      ErrorHandler.handleSchedulerError(
+        error instanceof Error ? error : new Error(String(error)),
+        loggerService,
+        {
+          userId: proposal.userId,
+          operation: "processExpiredProposals",
+        }
+      );
+    }
+  }
+}
+
+/**
+ * Post the worklogs waiting for another attempt, and let the user know about
+ * those that failed for good
+ */
+async function processWorklogRetries(
+  jiraService: IJiraService,
+  loggerService: ILoggerService,
+  now: Date
+): Promise<void> {
+  const entries = await WorklogEntry.findAll({
+    where: { status: "retrying", nextAttemptAt: { [Op.lte]: now } },
+    order: [["nextAttemptAt", "ASC"]],
+  });
+
+  for (const entry of entries) {
+    try {
+      const config = await JiraConfig.findProfile(entry.userId, entry.profile);
+      if (!config || config.profile !== entry.profile) {
+        entry.status = "failed";
+        entry.nextAttemptAt = null;
+        entry.error = "The profile it was posted with no longer exists";
+        await entry.save();
+        continue;
+      }
+
+      jiraService.configureConnection(config.host, config.username, config);
+      await retryWorklog(jiraService, config, entry);
+
+      loggerService.logInfo(`Retried worklog for user ${entry.userId}`, {
+        Profile: entry.profile,
+        IssueKey: entry.issueKey,
+        Attempts: entry.attempts,
+        Status: entry.status,
+      });
+
+      if (entry.status === "failed") {
+        const user = await fetchNotificationUser(config);
+        await user.send(buildFailedWorklogMessage(entry));
+      }
+    } catch (error) {
+      ErrorHandler.handleSchedulerError(
+        error instanceof Error ? error : new Error(String(error)),
+        loggerService,
+        {
+          userId: entry.userId,
+          operation: "processWorklogRetries",
+        }
+      );
+    }
+  }
+}
 
 export function initScheduledJobs() {
   schedule.scheduleJob("daily-job", { rule: dailyRule, tz }, async () => {
     const container = ServiceContainer.getInstance();
     const loggerService = container.get<ILoggerService>("ILoggerService");
     const jiraService = container.get<IJiraService>("IJiraService");
-    loggerService.logInfo("Running daily job...");
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - (daysAgo as unknown as number));
-    const configs = await JiraConfig.findAll({
-      where: {
-        schedulePaused: false,
-      },
+    const now = new Date();
+
+    await processExpiredProposals(jiraService, loggerService, now);
+    await processWorklogRetries(jiraService, loggerService, now);
+
+    const configs = (
+      await JiraConfig.findAll({
+        where: {
+          schedulePaused: false,
+        },
+        // Profiles created first get to use the daily cap first
+        order: [["createdAt", "ASC"]],
+      })
+    ).filter((config) => isScheduleDue(config, now));
+
+    if (configs.length === 0) {
+      return;
+    }
+
+    loggerService.logInfo("Running daily job...", {
+      Users: configs.length,
     });
 
     for (const config of configs) {
       try {
+        // "Yesterday" is computed in the user's own timezone
+        const timezone = config.timezone || DEFAULT_TIMEZONE;
+        const startDate = TimeUtils.getPreviousDateInZone(now, timezone);
+
         // Validate configuration data before processing
         try {
           InputValidator.validateJiraHost(config.host);
-          InputValidator.validateEmail(config.username);
-          InputValidator.validateApiToken(config.token);
+          InputValidator.validateJiraUsername(
+            config.username,
+            config.deploymentType
+          );
+          InputValidator.validateJiraToken(config.token, config.authScheme);
           InputValidator.validateDiscordId(config.userId, "User ID");
-          InputValidator.validateDiscordId(config.guildId, "Guild ID");
+          if (config.guildId) {
+            InputValidator.validateDiscordId(config.guildId, "Guild ID");
+          }
 
           // Validate daily hours if set
           if (config.dailyHours) {
             InputValidator.validateDailyHours(config.dailyHours);
           }
+
+          jiraService.configureConnection(config.host, config.username, config);
         } catch (validationError) {
           loggerService.error("Scheduler: Invalid configuration data", {
             userId: config.userId,
@@ -55,13 +495,83 @@ export function initScheduledJobs() {
           continue;
         }
 
+        // Configurations set up in DMs have no guild and so no policies
+        const policy = await GuildSettings.findForGuild(config.guildId);
+        const skipReason = policy?.autoLoggingDisabled
+          ? "Auto-logging is disabled by the guild"
+          : !GuildPolicyUtils.isHostAllowed(policy, config.host)
+          ? "Jira host is not allowed by the guild"
+          : policy?.requireWorklogComment && !config.worklogCommentTemplate
+          ? "Guild requires a worklog comment template"
+          : undefined;
+
+        if (skipReason) {
+          loggerService.logInfo(`Skipping config for user ${config.userId}`, {
+            GuildId: config.guildId,
+            Profile: config.profile,
+            Reason: skipReason,
+          });
+          continue;
+        }
+
+        // Holidays and personal time off are not worked, at most they are
+        // logged against the profile's time off issue
+        const cappedDate = WorklogCommentUtils.formatDate(startDate);
+        const timeOff = await TimeOff.findForDay(
+          config.userId,
+          config.guildId,
+          cappedDate
+        );
+
+        if (timeOff) {
+          const loggedSeconds = config.timeOffIssueKey
+            ? await logTimeOff(jiraService, config, policy, startDate, timeOff)
+            : 0;
+
+          loggerService.logInfo(`Time off for user ${config.userId}`, {
+            GuildId: config.guildId,
+            Profile: config.profile,
+            Reason: timeOff.reason,
+            Logged: loggedSeconds,
+          });
+
+          if (loggedSeconds > 0) {
+            const user = await fetchNotificationUser(config);
+            const embed = new EmbedBuilder()
+              .setTitle(
+                `🌴 You were off yesterday${
+                  config.profile && config.profile !== DEFAULT_PROFILE
+                    ? ` [${config.profile}]`
+                    : ""
+                }`
+              )
+              .setColor("#00ff00")
+              .addFields({
+                name: config.timeOffIssueKey as string,
+                value: `${timeOff.reason || "Time off"}\n- ${convertSeconds(
+                  loggedSeconds
+                )}`,
+                inline: false,
+              })
+              .setFooter({ text: "Your time was submitted." });
+
+            await user?.send({
+              embeds: [embed],
+              components: [buildRevertRow(config.profile, cappedDate)],
+            });
+          }
+          continue;
+        }
+
         loggerService.logInfo(`Processing config for user ${config.userId}`, {
           GuildId: config.guildId,
+          Profile: config.profile,
         });
 
         const jqlQuery =
-          config.timeJqlOverride?.format(daysAgo) ??
-          `assignee WAS currentUser() ON -${daysAgo}d AND status WAS "In Progress" ON -${daysAgo}d`;
+          GuildPolicyUtils.getJql(policy, config.timeJqlOverride)?.format(
+            cappedDate
+          ) ?? getDefaultJql(startDate);
 
         // Validate JQL query
         const validatedJql = InputValidator.validateJQL(jqlQuery);
@@ -74,19 +584,19 @@ export function initScheduledJobs() {
           continue;
         }
 
-        const response = await jiraService.getIssuesWorked(
-          config.host,
-          config.username,
-          config.token,
-          validatedJql
-        );
-
-        if (!response.ok) {
+        let issuesWorked: IssueBean[];
+        try {
+          issuesWorked = await collectAll(
+            jiraService.iterateIssuesWorked(
+              config.host,
+              config.username,
+              config.token,
+              validatedJql
+            )
+          );
+        } catch (error) {
           ErrorHandler.handleSchedulerError(
-            ErrorHandler.wrapJiraError(
-              response,
-              `getting work for user ${config.userId}`
-            ),
+            error instanceof Error ? error : new Error(String(error)),
             loggerService,
             {
               userId: config.userId,
@@ -97,74 +607,143 @@ export function initScheduledJobs() {
           continue;
         }
 
-        const data = (await response.json()) as SearchResults;
-
-        if (data.total === 0) {
+        if (issuesWorked.length === 0) {
           loggerService.logInfo(`No work found for ${config.userId}`);
           continue;
         }
 
         const issues = await Promise.all(
-          data.issues.map(async (issue) => {
+          issuesWorked.map(async (issue) => {
             return {
               id: issue.id,
               key: issue.key,
               summary: issue.fields.summary,
               assignee: issue.fields.assignee.displayName,
-              worklogs: (await (
-                await jiraService.getIssueWorklog(
+              status: issue.fields.status?.name,
+              worklogs: await collectAll(
+                jiraService.iterateIssueWorklogs(
                   config.host,
                   config.username,
                   config.token,
                   issue.key,
-                  startDate
+                  startDate,
+                  startDate,
+                  timezone
                 )
-              ).json()) as PageOfWorklogs,
+              ),
             };
           })
         );
 
-        const worklogs = issues.flatMap((issue) =>
-          issue.worklogs.worklogs.filter(
-            (worklog) => worklog.author.emailAddress === config.username
+        // Time on issues outside the JQL, e.g. meetings, counts as well
+        const userWorklogs = await collectAll(
+          jiraService.iterateUserWorklogs(
+            config.host,
+            config.username,
+            config.token,
+            startDate,
+            startDate,
+            timezone
           )
         );
+        const loggedSeconds = JiraConnectionUtils.getLoggedSeconds(
+          issues,
+          config.username,
+          userWorklogs
+        );
+        const loggedUntil = JiraConnectionUtils.getLoggedUntil(
+          issues,
+          config.username,
+          userWorklogs
+        );
+        const totalLoggedSeconds = Object.values(loggedSeconds).reduce(
+          (acc, seconds) => acc + seconds,
+          0
+        );
 
-        if (worklogs.length !== 0) {
-          loggerService.logInfo(
-            `Worklogs found for ${config.userId} with ${worklogs.length} entries`,
-            {
-              GuildId: config.guildId,
-            }
-          );
+        // The cap is shared by all of the user's profiles
+        const settings = await UserSettings.findOne({
+          where: { userId: config.userId },
+        });
+
+        // Validate daily hours and time distribution
+        const validatedDailyHours = GuildPolicyUtils.limitDailyHours(
+          policy,
+          InputValidator.validateDailyHours(config.dailyHours)
+        );
+
+        // Days with time logged are left alone unless the user tops them up
+        const topUp = TimeUtils.planTopUp(
+          issues,
+          issues.map((issue) => loggedSeconds[issue.key]),
+          totalLoggedSeconds,
+          validatedDailyHours * 3600,
+          config.partialDayMode || DEFAULT_PARTIAL_DAY_MODE
+        );
+        if (!topUp) {
+          loggerService.logInfo(`Worklogs found for ${config.userId}`, {
+            GuildId: config.guildId,
+            Profile: config.profile,
+            Logged: totalLoggedSeconds,
+          });
           continue;
         }
 
-        let issuesWithTimes: {
-          issue: {
-            id: string;
-            key: string;
-            summary: string;
-            assignee: string;
-            worklogs: PageOfWorklogs;
-          };
-          times: string;
-          timeInSeconds: number;
-        }[] = [];
+        let issuesWithTimes: PlannedIssue[] = [];
 
-        // Validate daily hours and time distribution
-        const validatedDailyHours = InputValidator.validateDailyHours(
-          config.dailyHours
+        const remainingCapSeconds = getRemainingCapSeconds(
+          settings,
+          cappedDate
+        );
+        const validatedTotalSeconds =
+          remainingCapSeconds === undefined
+            ? topUp.remainingSeconds
+            : Math.min(topUp.remainingSeconds, remainingCapSeconds);
+
+        if (validatedTotalSeconds < 60) {
+          loggerService.logInfo(`Daily cap reached for ${config.userId}`, {
+            GuildId: config.guildId,
+            Profile: config.profile,
+          });
+          continue;
+        }
+
+        // Recurring allocations come out of the day before it is split
+        const { reserved, remainingSeconds } = TimeUtils.reserveAllocations(
+          await Allocation.findForDay(
+            config.userId,
+            config.profile || DEFAULT_PROFILE,
+            startDate
+          ),
+          loggedSeconds,
+          validatedTotalSeconds
         );
-        const validatedTotalSeconds = validatedDailyHours * 3600;
+        const splitIssues = remainingSeconds >= 60 ? topUp.issues : [];
+
+        const strategy =
+          config.distributionStrategy || DEFAULT_DISTRIBUTION_STRATEGY;
+        const activities =
+          strategy === "weighted" && splitIssues.length
+            ? await jiraService.getIssuesActivity(
+                config.host,
+                config.username,
+                config.token,
+                splitIssues,
+                startDate,
+                timezone
+              )
+            : [];
 
         const timeDistribution = distributeTime(
-          validatedTotalSeconds,
-          issues.length,
-          "fairly"
+          remainingSeconds,
+          splitIssues.length,
+          strategy,
+          activities.map((activity) =>
+            TimeUtils.calculateActivityWeight(activity)
+          )
         );
 
-        issuesWithTimes = issues
+        issuesWithTimes = splitIssues
           .map((issue, index) => {
             const timeInSeconds = timeDistribution[index];
 
@@ -194,56 +773,147 @@ export function initScheduledJobs() {
               issue,
               timeInSeconds,
               times: convertSeconds(timeInSeconds),
+              reason: activities[index]
+                ? TimeUtils.formatActivitySummary(activities[index])
+                : undefined,
             };
           })
-          .filter(Boolean) as {
-          issue: {
-            id: string;
-            key: string;
-            summary: string;
-            assignee: string;
-            worklogs: PageOfWorklogs;
-          };
-          times: string;
-          timeInSeconds: number;
-        }[];
-
-        await Promise.all(
-          issuesWithTimes.map(async (issue) => {
-            return await jiraService.postWorklog(
-              config.host,
-              config.username,
-              config.token,
-              issue.issue.key,
-              issue.timeInSeconds,
-              startDate
-            );
-          })
+          .filter(Boolean) as PlannedIssue[];
+        issuesWithTimes = addAllocations(issuesWithTimes, reserved);
+
+        // Proposed time holds its share of the cap until it is skipped
+        await recordCappedSeconds(
+          settings,
+          cappedDate,
+          issuesWithTimes.reduce((acc, issue) => acc + issue.timeInSeconds, 0)
+        );
+
+        // With confirmation on, nothing is posted until the user approves
+        if (config.confirmWorklogs) {
+          const proposal = await WorklogProposal.create({
+            userId: config.userId,
+            profile: config.profile || DEFAULT_PROFILE,
+            date: cappedDate,
+            entries: issuesWithTimes.map((issue) => ({
+              key: issue.issue.key,
+              summary: issue.issue.summary,
+              assignee: issue.issue.assignee,
+              status: issue.issue.status,
+              timeInSeconds: issue.timeInSeconds,
+              reason: issue.reason,
+            })),
+            loggedSeconds,
+            loggedUntil,
+            expiresAt: new Date(
+              now.getTime() +
+                (config.confirmMinutes || DEFAULT_CONFIRM_MINUTES) * 60 * 1000
+            ),
+          });
+
+          const user = await fetchNotificationUser(config);
+          const message = await user.send(
+            buildProposalMessage(proposal, config)
+          );
+          proposal.channelId = message.channelId;
+          proposal.messageId = message.id;
+          await proposal.save();
+
+          loggerService.logInfo(`Worklogs proposed to ${config.userId}`, {
+            GuildId: config.guildId,
+            Profile: config.profile,
+            Issues: issuesWithTimes.length,
+          });
+          continue;
+        }
+
+        // Worklogs are laid out back-to-back from the user's workday start,
+        // or after the time they already logged
+        const slots = TimeUtils.planWorklogSlots(
+          startDate,
+          issuesWithTimes.map((issue) => issue.timeInSeconds),
+          TimeUtils.getWorkdayLayout(config),
+          loggedUntil
+        );
+
+        const posted = await postWorklogs(
+          jiraService,
+          config,
+          issuesWithTimes.map((issue, index) => ({
+            issueKey: issue.issue.key,
+            date: cappedDate,
+            started: slots[index],
+            timeInSeconds: issue.timeInSeconds,
+            comment: config.worklogCommentTemplate
+              ? WorklogCommentUtils.renderTemplate(
+                  config.worklogCommentTemplate,
+                  {
+                    key: issue.issue.key,
+                    summary: issue.issue.summary,
+                    status: issue.issue.status,
+                    date: startDate,
+                  }
+                )
+              : undefined,
+          })),
+          "scheduled",
+          // Each profile's day is logged by a single run
+          `scheduled:${cappedDate}`,
+          loggedSeconds
         );
 
-        const user = await client.guilds.cache
-          .get(config.guildId)
-          ?.members.fetch(config.userId);
+        const user = await fetchNotificationUser(config);
 
         const embed = new EmbedBuilder();
-        embed.setTitle(`You worked on ${data.total} issues yesterday`);
-        embed.setColor("#00ff00");
+        embed.setTitle(
+          `You worked on ${issues.length} issues yesterday${
+            config.profile && config.profile !== DEFAULT_PROFILE
+              ? ` [${config.profile}]`
+              : ""
+          }`
+        );
+        embed.setColor(
+          posted.every((entry) => entry.status === "posted")
+            ? "#00ff00"
+            : "#ffaa00"
+        );
 
         embed.addFields(
-          issuesWithTimes.map((issue) => ({
-            name: `${issue.issue.key} (${issue.issue.assignee})`,
-            value: `${issue.issue.summary}\n- ${issue.times}`,
-            inline: false,
-          }))
+          issuesWithTimes.map((issue, index) => {
+            const failure = describeFailure(posted[index]);
+            return {
+              name: `${issue.issue.key} (${issue.issue.assignee})`,
+              value: `${issue.issue.summary}\n- ${issue.times}${
+                issue.reason ? ` (${issue.reason})` : ""
+              }${failure ? `\n${failure}` : ""}`,
+              inline: false,
+            };
+          })
         );
         embed.setFooter({
-          text: "Your time was submitted.",
+          text: `${summarizePosting(posted)}${
+            totalLoggedSeconds
+              ? ` Topped up the ${TimeUtils.formatTimeString(
+                  totalLoggedSeconds
+                )} already logged.`
+              : ""
+          }`,
         });
 
         await user?.send({
           embeds: [embed],
+          components: [buildRevertRow(config.profile, cappedDate)],
         });
       } catch (error) {
+        // The user logged the day themselves while it was being processed
+        if (error instanceof AlreadyLoggedError) {
+          loggerService.logInfo(`Worklogs found for ${config.userId}`, {
+            GuildId: config.guildId,
+            Profile: config.profile,
+            Reason: error.message,
+          });
+          continue;
+        }
+
         ErrorHandler.handleSchedulerError(
           error instanceof Error ? error : new Error(String(error)),
           loggerService,
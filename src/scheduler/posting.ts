@@ -0,0 +1,329 @@
+import { Response as NodeFetchResponse } from "node-fetch";
+import {
+  DEFAULT_PROFILE,
+  JiraConfig,
+  PostedWorklog,
+  WorklogEntry,
+  WorklogSource,
+} from "../db/models";
+import { Worklog } from "../jira/models";
+import {
+  ApplicationError,
+  ErrorHandler,
+  ErrorType,
+} from "../services/ErrorHandler";
+import { JiraConnectionUtils } from "../services/JiraConnectionUtils";
+import { IJiraService } from "../services/JiraService";
+import { RetryOptions, RetryUtil } from "../services/RetryUtil";
+import { DEFAULT_TIMEZONE, TimeUtils } from "../services/TimeUtils";
+import { collectAll } from "../services/utils";
+
+// Failed worklogs are posted again by the scheduler, which runs every 15
+// minutes: after 15 minutes, then 30 minutes, 1 hour and 2 hours
+export const WORKLOG_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 15 * 60 * 1000,
+  maxDelayMs: 4 * 60 * 60 * 1000,
+  exponentialBase: 2,
+  jitter: false,
+};
+
+type PostOutcome = { worklogId: string | null } | { error: Error };
+
+/**
+ * Thrown when time for a day reached Jira while it was being submitted, e.g.
+ * by the scheduler while the user was reviewing the same day in /time
+ */
+export class AlreadyLoggedError extends ApplicationError {
+  constructor(issueKey: string, date: string) {
+    super(
+      `Time was already logged on ${issueKey} for ${date}`,
+      ErrorType.VALIDATION_ERROR,
+      true,
+      409
+    );
+    this.name = "AlreadyLoggedError";
+  }
+}
+
+// The submission each user is waiting on, so that two flows can't both find
+// a day empty and then both log it
+const userLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a task once the user's previous submissions are done
+ */
+async function withUserLock<T>(
+  userId: string,
+  task: () => Promise<T>
+): Promise<T> {
+  const previous = userLocks.get(userId) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(task);
+  userLocks.set(userId, current);
+
+  try {
+    return await current;
+  } finally {
+    if (userLocks.get(userId) === current) {
+      userLocks.delete(userId);
+    }
+  }
+}
+
+/**
+ * The worklogs of a submission that are already in the ledger, posted or
+ * waiting for another attempt
+ */
+async function findSubmitted(
+  config: JiraConfig,
+  worklogs: PostedWorklog[],
+  submissionId: string
+): Promise<WorklogEntry[]> {
+  return WorklogEntry.findAll({
+    where: {
+      userId: config.userId,
+      profile: config.profile || DEFAULT_PROFILE,
+      issueKey: [...new Set(worklogs.map((worklog) => worklog.issueKey))],
+      date: [...new Set(worklogs.map((worklog) => worklog.date))],
+      submissionId,
+      status: ["posted", "retrying"],
+    },
+  });
+}
+
+/**
+ * Fail when any of the worklogs' issues has more of the user's time for its
+ * day in Jira than when the day was planned. Checked again right before
+ * posting since the day may have been logged since it was first looked at
+ */
+async function checkNotLogged(
+  jiraService: IJiraService,
+  config: JiraConfig,
+  worklogs: PostedWorklog[],
+  loggedSeconds: Record<string, number>
+): Promise<void> {
+  const logged = await Promise.all(
+    worklogs.map(async (worklog) => {
+      const date = TimeUtils.parseDate(worklog.date, new Date()) as Date;
+      const existing = await collectAll(
+        jiraService.iterateIssueWorklogs(
+          config.host,
+          config.username,
+          config.token,
+          worklog.issueKey,
+          date,
+          date,
+          config.timezone || DEFAULT_TIMEZONE
+        )
+      );
+
+      return existing
+        .filter((item) =>
+          JiraConnectionUtils.isConfiguredUser(item.author, config.username)
+        )
+        .reduce((acc, item) => acc + item.timeSpentSeconds, 0);
+    })
+  );
+
+  const index = logged.findIndex(
+    (seconds, index) => seconds > (loggedSeconds[worklogs[index].issueKey] ?? 0)
+  );
+  if (index !== -1) {
+    throw new AlreadyLoggedError(
+      worklogs[index].issueKey,
+      worklogs[index].date
+    );
+  }
+}
+
+async function attemptPost(
+  jiraService: IJiraService,
+  config: JiraConfig,
+  worklog: PostedWorklog
+): Promise<PostOutcome> {
+  let response: NodeFetchResponse;
+  try {
+    response = await jiraService.postWorklog(
+      config.host,
+      config.username,
+      config.token,
+      worklog.issueKey,
+      worklog.timeInSeconds,
+      worklog.started,
+      false,
+      worklog.comment || undefined
+    );
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+
+  if (!response.ok) {
+    return { error: ErrorHandler.wrapJiraError(response) };
+  }
+
+  try {
+    const { id } = ((await response.json()) as Worklog | null) ?? {};
+    return { worklogId: id ? String(id) : null };
+  } catch {
+    // Posted all the same, it just can't be edited from Discord
+    return { worklogId: null };
+  }
+}
+
+/**
+ * The ledger fields for the outcome of an attempt. Failures that may pass
+ * later are queued for another attempt until the attempts run out
+ */
+function describeOutcome(
+  outcome: PostOutcome,
+  attempts: number,
+  now: Date
+): Pick<WorklogEntry, "status" | "worklogId" | "nextAttemptAt" | "error"> {
+  if (!("error" in outcome)) {
+    return {
+      status: "posted",
+      worklogId: outcome.worklogId,
+      nextAttemptAt: null,
+      error: null,
+    };
+  }
+
+  const retrying =
+    attempts < WORKLOG_RETRY_OPTIONS.maxAttempts &&
+    ErrorHandler.shouldRetry(outcome.error);
+
+  return {
+    status: retrying ? "retrying" : "failed",
+    worklogId: null,
+    nextAttemptAt: retrying
+      ? new Date(
+          now.getTime() +
+            RetryUtil.calculateDelay(attempts, WORKLOG_RETRY_OPTIONS)
+        )
+      : null,
+    error: outcome.error.message.substring(0, 255),
+  };
+}
+
+/**
+ * Post each worklog to Jira on its own, so one failing doesn't fail the
+ * others, and record each outcome in the ledger.
+ *
+ * Submitting is idempotent per submission, e.g. a /time preview or a
+ * proposal: worklogs it already put in the ledger are returned as they are
+ * instead of being posted again, and the others are only posted while the
+ * issue has no more of the user's time for the day than the seconds by issue
+ * key it had when the day was planned (none unless it is topped up). Throws an
+ * AlreadyLoggedError, before posting anything, otherwise
+ */
+export async function postWorklogs(
+  jiraService: IJiraService,
+  config: JiraConfig,
+  worklogs: PostedWorklog[],
+  source: WorklogSource,
+  submissionId: string,
+  loggedSeconds: Record<string, number> = {}
+): Promise<WorklogEntry[]> {
+  return withUserLock(config.userId, async () => {
+    const submitted = await findSubmitted(config, worklogs, submissionId);
+    const findEntry = (worklog: PostedWorklog) =>
+      submitted.find(
+        (entry) =>
+          entry.issueKey === worklog.issueKey && entry.date === worklog.date
+      );
+
+    await checkNotLogged(
+      jiraService,
+      config,
+      worklogs.filter((worklog) => !findEntry(worklog)),
+      loggedSeconds
+    );
+
+    return Promise.all(
+      worklogs.map(
+        async (worklog) =>
+          findEntry(worklog) ??
+          WorklogEntry.create({
+            userId: config.userId,
+            profile: config.profile || DEFAULT_PROFILE,
+            ...worklog,
+            comment: worklog.comment || null,
+            source,
+            submissionId,
+            attempts: 1,
+            ...describeOutcome(
+              await attemptPost(jiraService, config, worklog),
+              1,
+              new Date()
+            ),
+          })
+      )
+    );
+  });
+}
+
+/**
+ * Try posting a worklog that failed again
+ */
+export async function retryWorklog(
+  jiraService: IJiraService,
+  config: JiraConfig,
+  entry: WorklogEntry
+): Promise<WorklogEntry> {
+  return withUserLock(entry.userId, async () => {
+    const outcome = await attemptPost(jiraService, config, entry);
+
+    entry.attempts += 1;
+    Object.assign(entry, describeOutcome(outcome, entry.attempts, new Date()));
+    await entry.save();
+
+    return entry;
+  });
+}
+
+/**
+ * Why a worklog was not posted, and whether it will be retried. Empty for
+ * posted worklogs
+ */
+export function describeFailure(entry: WorklogEntry): string {
+  if (entry.status === "posted") {
+    return "";
+  }
+
+  return `❌ ${entry.error || "Not posted"}${
+    entry.status === "retrying" ? ", retrying automatically" : ""
+  }`;
+}
+
+/**
+ * One line per worklog that was not posted
+ */
+export function describeFailures(entries: WorklogEntry[]): string {
+  return entries
+    .filter((entry) => entry.status !== "posted")
+    .map(
+      (entry) =>
+        `\`${entry.issueKey}\` ${TimeUtils.formatTimeString(
+          entry.timeInSeconds
+        )}: ${describeFailure(entry)}`
+    )
+    .join("\n");
+}
+
+/**
+ * Sum up how posting a day went, e.g. for the footer of its summary
+ */
+export function summarizePosting(entries: WorklogEntry[]): string {
+  const posted = entries.filter((entry) => entry.status === "posted").length;
+  if (posted === entries.length) {
+    return "Your time was submitted.";
+  }
+
+  return `Logged ${posted} of ${entries.length} worklogs.${
+    entries.some((entry) => entry.status === "retrying")
+      ? " Failed worklogs are retried automatically."
+      : ""
+  }`;
+}
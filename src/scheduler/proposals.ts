@@ -0,0 +1,355 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  EmbedBuilder,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+} from "discord.js";
+import { describeFailure, postWorklogs, summarizePosting } from "./posting";
+import { buildRevertRow } from "../commands/worklogs";
+import {
+  DEFAULT_PROFILE,
+  JiraConfig,
+  ProposedWorklog,
+  UserSettings,
+  WorklogEntry,
+  WorklogProposal,
+} from "../db/models";
+import { InputValidator, ValidationError } from "../services/InputValidator";
+import { IJiraService } from "../services/JiraService";
+import { DEFAULT_CONFIRM_FALLBACK, TimeUtils } from "../services/TimeUtils";
+import { convertSeconds } from "../services/utils";
+import { WorklogCommentUtils } from "../services/WorklogCommentUtils";
+
+// Buttons and the edit form are handled by the /schedule command
+const commandName = "schedule";
+export const maxProposalEntries = 25;
+
+export type ProposalOutcome = "submitted" | "skipped" | "failed";
+
+/**
+ * Count time the scheduler logged or proposed on a date towards the user's
+ * daily cap. Negative seconds give time back, e.g. for a skipped proposal
+ */
+export async function recordCappedSeconds(
+  settings: UserSettings | null | undefined,
+  date: string,
+  seconds: number
+): Promise<void> {
+  if (!settings?.dailyHoursCap || !seconds) {
+    return;
+  }
+
+  const capped = settings.cappedDate === date ? settings.cappedSeconds ?? 0 : 0;
+  if (seconds < 0 && !capped) {
+    return;
+  }
+
+  settings.cappedSeconds = Math.max(capped + seconds, 0);
+  settings.cappedDate = date;
+  await settings.save();
+}
+
+/**
+ * Count a change in a proposal's time towards its user's daily cap
+ */
+export async function recordProposedSeconds(
+  proposal: WorklogProposal,
+  seconds: number
+): Promise<void> {
+  await recordCappedSeconds(
+    await UserSettings.findOne({ where: { userId: proposal.userId } }),
+    proposal.date,
+    seconds
+  );
+}
+
+export function getTotalSeconds(entries: ProposedWorklog[]): number {
+  return entries.reduce((acc, entry) => acc + entry.timeInSeconds, 0);
+}
+
+/**
+ * Give a proposal's time back to the daily cap once it is skipped or could
+ * not be submitted
+ */
+export async function releaseProposal(
+  proposal: WorklogProposal
+): Promise<void> {
+  await recordProposedSeconds(proposal, -getTotalSeconds(proposal.entries));
+}
+
+/**
+ * The direct message asking to approve a day's worklogs. Once answered, or
+ * handled after the confirmation window, the buttons are removed, leaving
+ * only "Revert" for submitted time along with what could not be posted, or
+ * why nothing was when submitting failed
+ */
+export function buildProposalMessage(
+  proposal: WorklogProposal,
+  config: JiraConfig,
+  outcome?: ProposalOutcome,
+  posted: WorklogEntry[] = [],
+  reason?: string
+) {
+  const failures = posted.filter((entry) => entry.status !== "posted");
+  const loggedSeconds = Object.values(proposal.loggedSeconds ?? {}).reduce(
+    (acc, seconds) => acc + seconds,
+    0
+  );
+
+  const fallback = config.confirmFallback || DEFAULT_CONFIRM_FALLBACK;
+  const expiresAt = Math.floor(proposal.expiresAt.getTime() / 1000);
+
+  const embed = new EmbedBuilder()
+    .setTitle(
+      `You worked on ${proposal.entries.length} issues on ${proposal.date}${
+        config.profile && config.profile !== DEFAULT_PROFILE
+          ? ` [${config.profile}]`
+          : ""
+      }`
+    )
+    .setColor(
+      outcome === "submitted"
+        ? failures.length
+          ? "#ffaa00"
+          : "#00ff00"
+        : outcome === "skipped"
+        ? "#ffaa00"
+        : outcome === "failed"
+        ? "#ff0000"
+        : "#0099ff"
+    )
+    .addFields(
+      proposal.entries.map((entry) => {
+        const failure = failures.find((item) => item.issueKey === entry.key);
+        return {
+          name: `${entry.key} (${entry.assignee})`,
+          value: `${
+            entry.summary ? `${entry.summary}\n` : ""
+          }- ${convertSeconds(entry.timeInSeconds)}${
+            entry.reason ? ` (${entry.reason})` : ""
+          }${failure ? `\n${describeFailure(failure)}` : ""}`,
+          inline: false,
+        };
+      })
+    )
+    .setFooter({
+      text:
+        outcome === "submitted"
+          ? summarizePosting(posted)
+          : outcome === "skipped"
+          ? "Your time was not logged."
+          : outcome === "failed"
+          ? `Nothing was logged: ${reason || "Submitting failed"}`.substring(
+              0,
+              2048
+            )
+          : `Total: ${convertSeconds(getTotalSeconds(proposal.entries))}${
+              loggedSeconds
+                ? ` on top of ${convertSeconds(loggedSeconds)} already logged`
+                : ""
+            }`,
+    });
+
+  if (!outcome) {
+    embed.setDescription(
+      `Nothing is logged until you approve. Without an answer, this time is ${
+        fallback === "skip" ? "skipped" : "submitted"
+      } <t:${expiresAt}:R>.`
+    );
+  }
+
+  return {
+    embeds: [embed],
+    components: outcome
+      ? outcome === "submitted"
+        ? [buildRevertRow(config.profile, proposal.date)]
+        : []
+      : [
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+              .setCustomId(`${commandName}:approve:${proposal.id}`)
+              .setLabel("Approve")
+              .setStyle(ButtonStyle.Success),
+            new ButtonBuilder()
+              .setCustomId(`${commandName}:edit:${proposal.id}`)
+              .setLabel("Edit")
+              .setStyle(ButtonStyle.Secondary),
+            new ButtonBuilder()
+              .setCustomId(`${commandName}:skip:${proposal.id}`)
+              .setLabel("Skip")
+              .setStyle(ButtonStyle.Danger)
+          ),
+        ],
+  };
+}
+
+/**
+ * The form to change a proposal, one "KEY minutes" line per issue
+ */
+export function buildEditModal(proposal: WorklogProposal): ModalBuilder {
+  return new ModalBuilder()
+    .setCustomId(`${commandName}:edit-modal:${proposal.id}`)
+    .setTitle(`Edit worklogs for ${proposal.date}`)
+    .addComponents(
+      new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId("entries")
+          .setLabel("One issue per line: KEY minutes (0 drops it)")
+          .setStyle(TextInputStyle.Paragraph)
+          .setValue(
+            proposal.entries
+              .map(
+                (entry) =>
+                  `${entry.key} ${Math.round(entry.timeInSeconds / 60)}`
+              )
+              .join("\n")
+          )
+          .setRequired(true)
+      )
+    );
+}
+
+/**
+ * Read the edit form back into worklogs. Issues keep their details, changed
+ * times lose their reason and new issues are added manually
+ */
+export function parseProposalEdits(
+  text: string,
+  entries: ProposedWorklog[]
+): ProposedWorklog[] {
+  const edited: ProposedWorklog[] = [];
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const parts = line.trim().split(/\s+/);
+    if (parts.length !== 2) {
+      throw new ValidationError(
+        "Each line must be an issue key and minutes, e.g. PROJ-123 90"
+      );
+    }
+
+    const key = InputValidator.validateIssueKey(parts[0].toUpperCase());
+    const minutes = InputValidator.validateNumber(Number(parts[1]), "Minutes", {
+      required: true,
+      min: 0,
+      max: 24 * 60,
+      integer: true,
+    });
+    if (edited.some((entry) => entry.key === key)) {
+      throw new ValidationError(`${key} is listed more than once`);
+    }
+    if (minutes === 0) {
+      continue;
+    }
+
+    const existing = entries.find((entry) => entry.key === key);
+    edited.push(
+      existing
+        ? {
+            ...existing,
+            timeInSeconds: minutes * 60,
+            reason:
+              existing.timeInSeconds === minutes * 60
+                ? existing.reason
+                : undefined,
+          }
+        : {
+            key,
+            summary: "",
+            assignee: "Added manually",
+            timeInSeconds: minutes * 60,
+          }
+    );
+  }
+
+  if (edited.length === 0) {
+    throw new ValidationError(
+      "Keep at least one issue, or skip the day instead"
+    );
+  }
+  if (edited.length > maxProposalEntries) {
+    throw new ValidationError(
+      `You can log at most ${maxProposalEntries} issues at once`
+    );
+  }
+  if (getTotalSeconds(edited) > 24 * 3600) {
+    throw new ValidationError("Worklogs cannot add up to more than 24h");
+  }
+
+  return edited;
+}
+
+/**
+ * Take a proposal so it is answered only once, whether by the user or after
+ * its confirmation window. Returns false when it was already answered
+ */
+export async function claimProposal(
+  proposal: WorklogProposal
+): Promise<boolean> {
+  return (await WorklogProposal.destroy({ where: { id: proposal.id } })) > 0;
+}
+
+/**
+ * Close a claimed proposal that could not be submitted, e.g. because the day
+ * was logged meanwhile: its time goes back to the daily cap. Returns why
+ * nothing was logged, for its message
+ */
+export async function failProposal(
+  proposal: WorklogProposal,
+  error: unknown
+): Promise<string> {
+  await releaseProposal(proposal);
+
+  return InputValidator.sanitizeInput(
+    error instanceof Error ? error.message : String(error)
+  );
+}
+
+/**
+ * Post a claimed proposal's worklogs back-to-back from the user's workday
+ * start, or after the time they had logged. Their time already counts towards
+ * the daily cap since it was proposed
+ */
+export async function submitProposal(
+  jiraService: IJiraService,
+  proposal: WorklogProposal,
+  config: JiraConfig
+): Promise<WorklogEntry[]> {
+  const date = TimeUtils.parseDate(proposal.date, new Date()) as Date;
+  const slots = TimeUtils.planWorklogSlots(
+    date,
+    proposal.entries.map((entry) => entry.timeInSeconds),
+    TimeUtils.getWorkdayLayout(config),
+    proposal.loggedUntil ?? undefined
+  );
+
+  const posted = await postWorklogs(
+    jiraService,
+    config,
+    proposal.entries.map((entry, index) => ({
+      issueKey: entry.key,
+      date: proposal.date,
+      started: slots[index],
+      timeInSeconds: entry.timeInSeconds,
+      comment: config.worklogCommentTemplate
+        ? WorklogCommentUtils.renderTemplate(config.worklogCommentTemplate, {
+            key: entry.key,
+            summary: entry.summary,
+            status: entry.status,
+            date,
+          })
+        : undefined,
+    })),
+    "scheduled",
+    `proposal:${proposal.id}`,
+    proposal.loggedSeconds ?? {}
+  );
+
+  return posted;
+}
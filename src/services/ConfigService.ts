@@ -16,6 +16,12 @@ export interface IConfigService {
   getDatabaseUrl(): string;
   getPgConnectionString(): string | undefined;
   getEncryptionSecretKey(): string | undefined;
+  getAtlassianClientId(): string | undefined;
+  getAtlassianClientSecret(): string | undefined;
+  getOAuthRedirectUri(): string | undefined;
+  getOAuthCallbackPort(): number;
+  getAtlassianAuthUrl(): string;
+  getAtlassianApiUrl(): string;
   isDiscordLoggingEnabled(): boolean;
   isPgLoggingEnabled(): boolean;
   isProduction(): boolean;
@@ -93,6 +99,32 @@ export class ConfigService implements IConfigService {
     return this.get("ENCRYPTION_SECRET_KEY");
   }
 
+  getAtlassianClientId(): string | undefined {
+    return this.get("ATLASSIAN_CLIENT_ID");
+  }
+
+  getAtlassianClientSecret(): string | undefined {
+    return this.get("ATLASSIAN_CLIENT_SECRET");
+  }
+
+  getOAuthRedirectUri(): string | undefined {
+    return this.get("OAUTH_REDIRECT_URI");
+  }
+
+  getOAuthCallbackPort(): number {
+    const value = parseInt(this.get("OAUTH_CALLBACK_PORT") || "", 10);
+    return isNaN(value) ? 3000 : value;
+  }
+
+  // The Atlassian endpoints can be pointed at a stub server for testing
+  getAtlassianAuthUrl(): string {
+    return this.get("ATLASSIAN_AUTH_URL") || "https://auth.atlassian.com";
+  }
+
+  getAtlassianApiUrl(): string {
+    return this.get("ATLASSIAN_API_URL") || "https://api.atlassian.com";
+  }
+
   isDiscordLoggingEnabled(): boolean {
     const value = this.get("DISCORD_LOGGING");
     return value ? value === "true" : false;
@@ -1,4 +1,9 @@
-import { CommandInteraction, MessageFlags } from "discord.js";
+import {
+  CommandInteraction,
+  MessageComponentInteraction,
+  MessageFlags,
+  ModalSubmitInteraction,
+} from "discord.js";
 import { Response as NodeFetchResponse } from "node-fetch";
 import { ILoggerService } from "./LoggerService";
 
@@ -45,7 +50,10 @@ export class ErrorHandler {
    * Handle command execution errors with appropriate user feedback
    */
   static async handleCommandError(
-    interaction: CommandInteraction,
+    interaction:
+      | CommandInteraction
+      | ModalSubmitInteraction
+      | MessageComponentInteraction,
     error: Error | ApplicationError,
     logger?: ILoggerService
   ): Promise<void> {
@@ -55,7 +63,10 @@ export class ErrorHandler {
     if (logger) {
       logger.error("Command execution failed", {
         errorId,
-        commandName: interaction.commandName,
+        commandName:
+          "commandName" in interaction
+            ? interaction.commandName
+            : interaction.customId,
         guildId: interaction.guildId,
         userId: interaction.user.id,
         errorType:
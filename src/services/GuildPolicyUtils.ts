@@ -0,0 +1,109 @@
+// Business logic for guild admin policies - pure functions for easy testing
+
+export interface GuildPolicy {
+  allowedHosts?: string | null;
+  defaultDailyHours?: number | null;
+  maxDailyHours?: number | null;
+  requireWorklogComment?: boolean;
+  forcedJql?: string | null;
+  autoLoggingDisabled?: boolean;
+}
+
+export class GuildPolicyUtils {
+  /**
+   * Split a comma or space separated host allowlist into lowercase hosts
+   */
+  static parseAllowedHosts(allowedHosts?: string | null): string[] {
+    return (allowedHosts ?? "")
+      .split(/[\s,]+/)
+      .map((host) => host.replace(/^https?:\/\//i, "").toLowerCase())
+      .filter(Boolean);
+  }
+
+  /**
+   * Check a Jira host against the allowlist. "*.example.com" allows every
+   * subdomain of example.com, and any host is allowed without a list
+   */
+  static isHostAllowed(
+    policy: GuildPolicy | null | undefined,
+    host: string
+  ): boolean {
+    const allowedHosts = GuildPolicyUtils.parseAllowedHosts(
+      policy?.allowedHosts
+    );
+    if (allowedHosts.length === 0) {
+      return true;
+    }
+
+    const cleanHost = host.replace(/^https?:\/\//i, "").toLowerCase();
+    return allowedHosts.some((allowed) =>
+      allowed.startsWith("*.")
+        ? cleanHost.endsWith(allowed.slice(1))
+        : cleanHost === allowed
+    );
+  }
+
+  /**
+   * Daily hours for members who do not choose their own, never more than
+   * the guild maximum
+   */
+  static getDefaultDailyHours(policy: GuildPolicy | null | undefined): number {
+    return GuildPolicyUtils.limitDailyHours(
+      policy,
+      policy?.defaultDailyHours || 8
+    );
+  }
+
+  /**
+   * Check daily hours against the guild maximum, if any
+   */
+  static isWithinMaxDailyHours(
+    policy: GuildPolicy | null | undefined,
+    hours: number
+  ): boolean {
+    return !policy?.maxDailyHours || hours <= policy.maxDailyHours;
+  }
+
+  /**
+   * Daily hours lowered to the guild maximum, for configurations saved
+   * before the maximum was set
+   */
+  static limitDailyHours(
+    policy: GuildPolicy | null | undefined,
+    hours: number
+  ): number {
+    return policy?.maxDailyHours
+      ? Math.min(hours, policy.maxDailyHours)
+      : hours;
+  }
+
+  /**
+   * The JQL to search with: the guild's forced query wins over the member's
+   */
+  static getJql(
+    policy: GuildPolicy | null | undefined,
+    jql?: string | null
+  ): string | undefined {
+    return policy?.forcedJql || jql || undefined;
+  }
+
+  /**
+   * Describe the policies of a guild, one line each
+   */
+  static describe(policy: GuildPolicy | null | undefined): string[] {
+    const allowedHosts = GuildPolicyUtils.parseAllowedHosts(
+      policy?.allowedHosts
+    );
+
+    return [
+      `Allowed hosts: ${allowedHosts.length ? allowedHosts.join(", ") : "any"}`,
+      `Default daily hours: ${GuildPolicyUtils.getDefaultDailyHours(policy)}`,
+      `Maximum daily hours: ${policy?.maxDailyHours || "none"}`,
+      `Worklog comments: ${
+        policy?.requireWorklogComment ? "required" : "optional"
+      }`,
+      `JQL: ${policy?.forcedJql ? `\`${policy.forcedJql}\`` : "members' own"}`,
+      `Auto-logging: ${policy?.autoLoggingDisabled ? "disabled" : "enabled"}`,
+    ];
+  }
+}
@@ -1,4 +1,22 @@
 import { ApplicationError, ErrorType } from "./ErrorHandler";
+import {
+  API_VERSIONS,
+  ApiVersion,
+  AUTH_SCHEMES,
+  AuthScheme,
+  DEPLOYMENT_TYPES,
+  DeploymentType,
+} from "./JiraConnectionUtils";
+import {
+  CONFIRM_FALLBACKS,
+  ConfirmFallback,
+  DEFAULT_TIMEZONE,
+  DISTRIBUTION_STRATEGIES,
+  DistributionStrategy,
+  PARTIAL_DAY_MODES,
+  PartialDayMode,
+  TimeUtils,
+} from "./TimeUtils";
 
 export class ValidationError extends ApplicationError {
   constructor(message: string, field?: string) {
@@ -129,9 +147,9 @@ export class InputValidator {
     // Remove protocol if provided
     const cleanHost = validatedHost.replace(/^https?:\/\//, "");
 
-    // Basic domain validation
+    // Basic domain validation, with an optional port for self-hosted Jira
     const domainPattern =
-      /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+      /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*(:\d{1,5})?$/;
 
     if (!domainPattern.test(cleanHost)) {
       throw new ValidationError("Jira host must be a valid domain name");
@@ -170,6 +188,104 @@ export class InputValidator {
     return validatedEmail.toLowerCase();
   }
 
+  /**
+   * Validate a Jira username. Cloud signs in with an e-mail address, while
+   * Data Center usernames can be anything without whitespace or a colon
+   * (which would break Basic auth)
+   */
+  static validateJiraUsername(
+    username: string,
+    deploymentType: DeploymentType = "cloud"
+  ): string {
+    if (deploymentType === "cloud" || username?.includes("@")) {
+      return this.validateEmail(username);
+    }
+
+    const validatedUsername = this.validateString(username, "Username", {
+      required: true,
+      minLength: 1,
+      maxLength: 255,
+    });
+
+    if (!/^[^\s:]+$/.test(validatedUsername)) {
+      throw new ValidationError(
+        "Username must not contain whitespace or colons"
+      );
+    }
+
+    return validatedUsername;
+  }
+
+  /**
+   * Validate the context path Jira is served under (e.g. "/jira") and
+   * normalize it to a leading slash without a trailing one
+   */
+  static validateContextPath(contextPath?: string | null): string {
+    const trimmed = (contextPath ?? "").trim().replace(/^\/+|\/+$/g, "");
+    if (!trimmed) {
+      return "";
+    }
+
+    const validatedPath = this.validateString(trimmed, "Context path", {
+      required: true,
+      minLength: 1,
+      maxLength: 100,
+    });
+
+    if (!/^[A-Za-z0-9._~-]+(\/[A-Za-z0-9._~-]+)*$/.test(validatedPath)) {
+      throw new ValidationError(
+        "Context path must be a URL path such as /jira"
+      );
+    }
+
+    return `/${validatedPath}`;
+  }
+
+  /**
+   * Validate Jira deployment type
+   */
+  static validateDeploymentType(deploymentType: string): DeploymentType {
+    return this.validateChoice(
+      deploymentType,
+      "Deployment type",
+      DEPLOYMENT_TYPES
+    );
+  }
+
+  /**
+   * Validate Jira REST API version
+   */
+  static validateApiVersion(apiVersion: string): ApiVersion {
+    return this.validateChoice(apiVersion, "API version", API_VERSIONS);
+  }
+
+  /**
+   * Validate Jira auth scheme
+   */
+  static validateAuthScheme(authScheme: string): AuthScheme {
+    return this.validateChoice(authScheme, "Auth scheme", AUTH_SCHEMES);
+  }
+
+  private static validateChoice<T extends string>(
+    value: string,
+    fieldName: string,
+    choices: T[]
+  ): T {
+    const validatedValue = this.validateString(value, fieldName, {
+      required: true,
+      minLength: 1,
+      maxLength: 20,
+    }).toLowerCase() as T;
+
+    if (!choices.includes(validatedValue)) {
+      throw new ValidationError(
+        `${fieldName} must be one of: ${choices.join(", ")}`
+      );
+    }
+
+    return validatedValue;
+  }
+
   /**
    * Validate API token
    */
@@ -192,6 +308,79 @@ export class InputValidator {
     return validatedToken;
   }
 
+  /**
+   * Validate the stored credential: an API token or PAT, or the refresh token
+   * of a /login grant, which can be much longer
+   */
+  static validateJiraToken(
+    token: string,
+    authScheme: AuthScheme = "basic"
+  ): string {
+    if (authScheme !== "oauth") {
+      return this.validateApiToken(token);
+    }
+
+    const validatedToken = this.validateString(token, "Refresh token", {
+      required: true,
+      minLength: 10,
+      maxLength: 4096,
+    });
+
+    if (/\s/.test(validatedToken)) {
+      throw new ValidationError("Refresh token contains invalid characters");
+    }
+
+    return validatedToken;
+  }
+
+  /**
+   * Validate an Atlassian site (cloud) ID
+   */
+  static validateCloudId(cloudId: string): string {
+    const validatedCloudId = this.validateString(cloudId, "Cloud ID", {
+      required: true,
+      minLength: 1,
+      maxLength: 100,
+    });
+
+    if (!/^[A-Za-z0-9-]+$/.test(validatedCloudId)) {
+      throw new ValidationError("Cloud ID format is invalid");
+    }
+
+    return validatedCloudId;
+  }
+
+  /**
+   * Validate a Jira profile name (e.g. "acme"). Names are case-insensitive
+   */
+  static validateProfileName(profile: string): string {
+    const validatedProfile = this.validateString(profile, "Profile name", {
+      required: true,
+      minLength: 1,
+      maxLength: 32,
+    }).toLowerCase();
+
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(validatedProfile)) {
+      throw new ValidationError(
+        "Profile name may only contain letters, numbers, - and _"
+      );
+    }
+
+    return validatedProfile;
+  }
+
+  /**
+   * Validate the most hours logged per day across all of a user's profiles
+   */
+  static validateDailyHoursCap(hours: unknown): number {
+    return this.validateNumber(hours, "Daily hours cap", {
+      required: true,
+      min: 1,
+      max: 24,
+      integer: true,
+    });
+  }
+
   /**
    * Validate JQL query
    */
@@ -233,6 +422,227 @@ export class InputValidator {
     ); // Default value
   }
 
+  /**
+   * Validate IANA timezone name (e.g. "Europe/Lisbon")
+   */
+  static validateTimezone(timezone: string): string {
+    const validatedTimezone = this.validateString(timezone, "Timezone", {
+      required: true,
+      minLength: 1,
+      maxLength: 64,
+    });
+
+    if (!TimeUtils.isValidTimeZone(validatedTimezone)) {
+      throw new ValidationError(
+        "Timezone must be a valid IANA timezone (e.g., Europe/Lisbon)"
+      );
+    }
+
+    return validatedTimezone;
+  }
+
+  /**
+   * Validate a time of day in 24-hour "HH:mm" format
+   */
+  static validateTimeOfDay(time: string, fieldName = "Time"): string {
+    const validatedTime = this.validateString(time, fieldName, {
+      required: true,
+      minLength: 3,
+      maxLength: 5,
+    });
+
+    const minutes = TimeUtils.parseTimeOfDay(validatedTime);
+    if (isNaN(minutes)) {
+      throw new ValidationError(
+        `${fieldName} must be in 24-hour HH:mm format (e.g., 06:30)`
+      );
+    }
+
+    const hours = Math.floor(minutes / 60);
+    return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(
+      2,
+      "0"
+    )}`;
+  }
+
+  /**
+   * Validate a date written as "YYYY-MM-DD" or in words ("yesterday",
+   * "friday", "3 days ago") and return it as local midnight. Words are
+   * resolved against today's date, e.g. from TimeUtils.getDateInZone
+   */
+  static validateDate(
+    date: string,
+    fieldName = "Date",
+    today: Date = TimeUtils.getDateInZone(new Date(), DEFAULT_TIMEZONE)
+  ): Date {
+    const validatedDate = this.validateString(date, fieldName, {
+      required: true,
+      minLength: 1,
+      maxLength: 32,
+    });
+
+    const parsed = TimeUtils.parseDate(validatedDate, today);
+    if (!parsed) {
+      throw new ValidationError(
+        `${fieldName} must be a date such as 2025-07-28, yesterday, friday or 3 days ago`
+      );
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Validate that a date range runs forwards and spans at most maxDays days,
+   * both ends included
+   */
+  static validateDateRange(from: Date, to: Date, maxDays: number): void {
+    if (to < from) {
+      throw new ValidationError(
+        "The end date must not be before the start date"
+      );
+    }
+
+    const days =
+      Math.round(
+        (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) -
+          Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) /
+          86400000
+      ) + 1;
+    if (days > maxDays) {
+      throw new ValidationError(
+        `The date range must span at most ${maxDays} days`
+      );
+    }
+  }
+
+  /**
+   * Validate the length of the lunch break in minutes (0 turns it off)
+   */
+  static validateLunchMinutes(minutes: unknown): number {
+    return this.validateNumber(minutes, "Lunch break", {
+      required: false,
+      min: 0,
+      max: 240,
+      integer: true,
+    });
+  }
+
+  /**
+   * Validate working weekdays (e.g. "mon-fri", "sun-thu" or "mon,wed,fri") and
+   * normalize them to a sorted list of ISO weekday numbers ("1,3,5")
+   */
+  static validateWorkDays(workDays: string): string {
+    const validatedWorkDays = this.validateString(workDays, "Work days", {
+      required: true,
+      minLength: 1,
+      maxLength: 100,
+    });
+
+    const days = new Set<number>();
+    for (const part of validatedWorkDays.split(",")) {
+      const range = part.split("-");
+      const startDay = TimeUtils.parseWeekday(range[0]);
+      const endDay =
+        range.length === 2 ? TimeUtils.parseWeekday(range[1]) : startDay;
+
+      if (range.length > 2 || isNaN(startDay) || isNaN(endDay)) {
+        throw new ValidationError(
+          "Work days must be weekday names or ranges (e.g., mon-fri)"
+        );
+      }
+
+      // Ranges may wrap around the end of the week (e.g. sun-thu)
+      for (let day = startDay; ; day = (day % 7) + 1) {
+        days.add(day);
+        if (day === endDay) {
+          break;
+        }
+      }
+    }
+
+    return Array.from(days)
+      .sort((a, b) => a - b)
+      .join(",");
+  }
+
+  /**
+   * Validate Jira issue key (e.g. PROJ-123)
+   */
+  static validateIssueKey(issueKey: string): string {
+    return this.validateString(issueKey, "Issue key", {
+      required: true,
+      minLength: 3,
+      maxLength: 50,
+      pattern: /^[A-Z]+-\d+$/,
+    });
+  }
+
+  /**
+   * Validate a worklog comment or comment template
+   */
+  static validateWorklogComment(comment: string): string {
+    return this.validateString(comment, "Worklog comment", {
+      required: true,
+      minLength: 1,
+      maxLength: 2000,
+    });
+  }
+
+  /**
+   * Validate time distribution strategy
+   */
+  static validateDistributionStrategy(strategy: string): DistributionStrategy {
+    const validatedStrategy = this.validateString(
+      strategy,
+      "Distribution strategy",
+      {
+        required: true,
+        minLength: 1,
+        maxLength: 20,
+      }
+    ).toLowerCase() as DistributionStrategy;
+
+    if (!DISTRIBUTION_STRATEGIES.includes(validatedStrategy)) {
+      throw new ValidationError(
+        `Distribution strategy must be one of: ${DISTRIBUTION_STRATEGIES.join(
+          ", "
+        )}`
+      );
+    }
+
+    return validatedStrategy;
+  }
+
+  /**
+   * Validate how many minutes the scheduler waits for worklogs to be confirmed
+   */
+  static validateConfirmMinutes(minutes: unknown): number {
+    return this.validateNumber(minutes, "Confirmation window", {
+      required: true,
+      min: 15,
+      max: 1440,
+      integer: true,
+    });
+  }
+
+  /**
+   * Validate what happens to worklogs left unconfirmed
+   */
+  static validateConfirmFallback(fallback: string): ConfirmFallback {
+    return this.validateChoice(
+      fallback,
+      "Unconfirmed worklogs",
+      CONFIRM_FALLBACKS
+    );
+  }
+
+  /**
+   * Validate what happens to days that already have some time logged
+   */
+  static validatePartialDayMode(mode: string): PartialDayMode {
+    return this.validateChoice(mode, "Partial days", PARTIAL_DAY_MODES);
+  }
+
   /**
    * Sanitize user input to prevent injection attacks
    */
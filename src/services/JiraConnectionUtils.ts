@@ -0,0 +1,160 @@
+// Connection settings that tell Jira Cloud and Jira Data Center apart
+
+export type DeploymentType = "cloud" | "datacenter";
+export type ApiVersion = "2" | "3";
+export type AuthScheme = "basic" | "bearer" | "oauth";
+
+export interface JiraConnectionSettings {
+  deploymentType?: DeploymentType;
+  apiVersion?: ApiVersion | null;
+  contextPath?: string | null;
+  authScheme?: AuthScheme;
+  // Atlassian site ID, set by /login for requests through the OAuth gateway
+  cloudId?: string | null;
+}
+
+export interface JiraConnection {
+  deploymentType: DeploymentType;
+  apiVersion: ApiVersion;
+  contextPath: string;
+  authScheme: AuthScheme;
+  cloudId: string;
+}
+
+export const DEFAULT_DEPLOYMENT_TYPE: DeploymentType = "cloud";
+export const DEFAULT_AUTH_SCHEME: AuthScheme = "basic";
+export const DEPLOYMENT_TYPES: DeploymentType[] = ["cloud", "datacenter"];
+export const API_VERSIONS: ApiVersion[] = ["2", "3"];
+export const AUTH_SCHEMES: AuthScheme[] = ["basic", "bearer", "oauth"];
+
+const DEPLOYMENT_NAMES: Record<DeploymentType, string> = {
+  cloud: "Cloud",
+  datacenter: "Data Center",
+};
+
+const AUTH_SCHEME_NAMES: Record<AuthScheme, string> = {
+  basic: "Basic",
+  bearer: "Bearer PAT",
+  oauth: "OAuth",
+};
+
+export class JiraConnectionUtils {
+  /**
+   * Fill in the defaults for unset settings. Data Center only serves REST API
+   * v2, so that is its default; Cloud defaults to v3
+   */
+  static resolve(settings: JiraConnectionSettings = {}): JiraConnection {
+    const deploymentType = settings.deploymentType || DEFAULT_DEPLOYMENT_TYPE;
+
+    return {
+      deploymentType,
+      apiVersion:
+        settings.apiVersion || (deploymentType === "cloud" ? "3" : "2"),
+      contextPath: settings.contextPath || "",
+      authScheme: settings.authScheme || DEFAULT_AUTH_SCHEME,
+      cloudId: settings.cloudId || "",
+    };
+  }
+
+  /**
+   * Describe a connection (e.g. "Data Center, API v2, Bearer PAT, /jira")
+   */
+  static describe(settings: JiraConnectionSettings = {}): string {
+    const connection = JiraConnectionUtils.resolve(settings);
+
+    return [
+      DEPLOYMENT_NAMES[connection.deploymentType],
+      `API v${connection.apiVersion}`,
+      AUTH_SCHEME_NAMES[connection.authScheme],
+      connection.contextPath,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  /**
+   * Check whether a Jira user is the configured user. Cloud identifies users
+   * by e-mail, while Data Center usernames may not be e-mail addresses
+   */
+  static isConfiguredUser(
+    user: { emailAddress?: string; name?: string } | undefined,
+    username: string
+  ): boolean {
+    const expected = username.toLowerCase();
+    return (
+      user?.emailAddress?.toLowerCase() === expected ||
+      user?.name?.toLowerCase() === expected
+    );
+  }
+
+  /**
+   * The configured user's time on each issue, by issue key. The user's own
+   * worklogs on other issues, e.g. meetings outside their JQL, are added
+   * under their own keys
+   */
+  static getLoggedSeconds(
+    issues: {
+      key: string;
+      worklogs: {
+        author?: { emailAddress?: string; name?: string };
+        timeSpentSeconds: number;
+      }[];
+    }[],
+    username: string,
+    userWorklogs: { issueKey: string; timeSpentSeconds: number }[] = []
+  ): Record<string, number> {
+    const logged: Record<string, number> = Object.fromEntries(
+      issues.map((issue) => [
+        issue.key,
+        issue.worklogs
+          .filter((worklog) =>
+            JiraConnectionUtils.isConfiguredUser(worklog.author, username)
+          )
+          .reduce((acc, worklog) => acc + worklog.timeSpentSeconds, 0),
+      ])
+    );
+
+    const issueKeys = new Set(issues.map((issue) => issue.key));
+    for (const worklog of userWorklogs) {
+      if (!issueKeys.has(worklog.issueKey)) {
+        logged[worklog.issueKey] =
+          (logged[worklog.issueKey] ?? 0) + worklog.timeSpentSeconds;
+      }
+    }
+
+    return logged;
+  }
+
+  /**
+   * When the configured user's last worklog of the day ends, on the issues or
+   * on others, so time topping the day up can be logged after it. Undefined
+   * when the user logged nothing
+   */
+  static getLoggedUntil(
+    issues: {
+      worklogs: {
+        author?: { emailAddress?: string; name?: string };
+        started: string;
+        timeSpentSeconds: number;
+      }[];
+    }[],
+    username: string,
+    userWorklogs: { started: string; timeSpentSeconds: number }[] = []
+  ): Date | undefined {
+    const ends = [
+      ...issues.flatMap((issue) =>
+        issue.worklogs.filter((worklog) =>
+          JiraConnectionUtils.isConfiguredUser(worklog.author, username)
+        )
+      ),
+      ...userWorklogs,
+    ]
+      .map(
+        (worklog) =>
+          new Date(worklog.started).getTime() + worklog.timeSpentSeconds * 1000
+      )
+      .filter((end) => !isNaN(end));
+
+    return ends.length ? new Date(Math.max(...ends)) : undefined;
+  }
+}
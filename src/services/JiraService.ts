@@ -2,12 +2,63 @@ import { Response as NodeFetchResponse } from "node-fetch";
 import { ApplicationError, ErrorHandler, ErrorType } from "./ErrorHandler";
 import { IHttpService } from "./HttpService";
 import { InputValidator } from "./InputValidator";
+import {
+  AuthScheme,
+  DEFAULT_AUTH_SCHEME,
+  JiraConnection,
+  JiraConnectionSettings,
+  JiraConnectionUtils,
+} from "./JiraConnectionUtils";
 import { ILoggerService } from "./LoggerService";
+import { OAuthTokens } from "./OAuthService";
 import { RetryUtil } from "./RetryUtil";
 import { ServiceContainer } from "./ServiceContainer";
+import { DEFAULT_TIMEZONE, TimeUtils } from "./TimeUtils";
+import { WorklogCommentUtils } from "./WorklogCommentUtils";
+import {
+  Changelog,
+  Commit,
+  IssueActivity,
+  IssueBean,
+  PageOfChangelogs,
+  PageOfComments,
+  PageOfWorklogs,
+  SearchResults,
+  User,
+  UserWorklog,
+  Worklog,
+} from "../jira/models";
+
+// Jira Cloud pages the enhanced search (/search/jql) by token, while Data
+// Center only has the legacy offset-based /search
+export type SearchApi = "enhanced" | "legacy";
+
+/**
+ * Issues the user had in progress on a day, searched when no JQL is
+ * configured. Jira would resolve a relative day in its own timezone
+ */
+export function getDefaultJql(date: Date): string {
+  const day = WorklogCommentUtils.formatDate(date);
+  return `assignee WAS currentUser() ON "${day}" AND status WAS "In Progress" ON "${day}"`;
+}
+
+export interface SearchPage {
+  startAt?: number;
+  nextPageToken?: string;
+}
 
 /* eslint-disable no-unused-vars */
 export interface IJiraService {
+  configureConnection(
+    url: string,
+    username: string,
+    settings: JiraConnectionSettings
+  ): void;
+
+  getSearchApi(url: string): SearchApi;
+
+  setSearchApi(url: string, searchApi: SearchApi): void;
+
   getServerInfo(
     url: string,
     username: string,
@@ -31,32 +82,98 @@ export interface IJiraService {
     url: string,
     username: string,
     token: string,
-    jql?: string
+    jql?: string,
+    page?: SearchPage
   ): Promise<NodeFetchResponse>;
 
+  iterateIssuesWorked(
+    url: string,
+    username: string,
+    token: string,
+    jql?: string
+  ): AsyncGenerator<IssueBean>;
+
   getIssueWorklog(
     url: string,
     username: string,
     token: string,
     issueKey: string,
-    date: Date
+    date: Date,
+    startAt?: number,
+    endDate?: Date,
+    timezone?: string
   ): Promise<NodeFetchResponse>;
 
+  iterateIssueWorklogs(
+    url: string,
+    username: string,
+    token: string,
+    issueKey: string,
+    date: Date,
+    endDate?: Date,
+    timezone?: string
+  ): AsyncGenerator<Worklog>;
+
+  iterateUserWorklogs(
+    url: string,
+    username: string,
+    token: string,
+    date: Date,
+    endDate?: Date,
+    timezone?: string
+  ): AsyncGenerator<UserWorklog>;
+
   postWorklog(
     url: string,
     username: string,
     token: string,
     issueKey: string,
     timeSpentSeconds: number,
-    date: Date,
-    notifyUsers?: boolean
+    started: Date,
+    notifyUsers?: boolean,
+    comment?: string
   ): Promise<NodeFetchResponse>;
+
+  updateWorklog(
+    url: string,
+    username: string,
+    token: string,
+    issueKey: string,
+    worklogId: string,
+    timeSpentSeconds: number,
+    comment?: string
+  ): Promise<NodeFetchResponse>;
+
+  deleteWorklog(
+    url: string,
+    username: string,
+    token: string,
+    issueKey: string,
+    worklogId: string
+  ): Promise<NodeFetchResponse>;
+
+  getIssuesActivity(
+    url: string,
+    username: string,
+    token: string,
+    issues: { id: string; key: string }[],
+    date: Date,
+    timezone?: string
+  ): Promise<IssueActivity[]>;
 }
 /* eslint-enable no-unused-vars */
 
 export class JiraService implements IJiraService {
-  private readonly version = "3";
-  private readonly restUrl = `/rest/api/${this.version}`;
+  private readonly devStatusUrl = "/rest/dev-status/latest";
+  private readonly pageSize = 100;
+  private readonly searchApis = new Map<string, SearchApi>();
+  // Deployment settings are shared by everyone on a host, the auth scheme is
+  // chosen per user
+  private readonly connections = new Map<string, JiraConnection>();
+  private readonly authSchemes = new Map<string, AuthScheme>();
+  private readonly oauthTokens = new Map<string, OAuthTokens>();
+  private readonly oauthRefreshes = new Map<string, Promise<OAuthTokens>>();
+  private readonly tokenExpirySkewMs = 60000;
   private static instance: IJiraService;
   private logger: ILoggerService;
 
@@ -75,18 +192,258 @@ export class JiraService implements IJiraService {
     return JiraService.instance;
   }
 
-  private getHeaders(username: string, token: string): Record<string, string> {
-    return {
-      Authorization: `Basic ${Buffer.from(`${username}:${token}`).toString(
+  /**
+   * Remember how to reach a host and how a user authenticates with it. Hosts
+   * that were never configured are treated as Jira Cloud with Basic auth
+   */
+  configureConnection(
+    url: string,
+    username: string,
+    settings: JiraConnectionSettings
+  ): void {
+    const validatedUrl = InputValidator.validateJiraHost(url);
+    const connection = JiraConnectionUtils.resolve({
+      deploymentType: settings.deploymentType
+        ? InputValidator.validateDeploymentType(settings.deploymentType)
+        : undefined,
+      apiVersion: settings.apiVersion
+        ? InputValidator.validateApiVersion(settings.apiVersion)
+        : undefined,
+      contextPath: settings.contextPath
+        ? InputValidator.validateContextPath(settings.contextPath)
+        : undefined,
+      authScheme: settings.authScheme
+        ? InputValidator.validateAuthScheme(settings.authScheme)
+        : undefined,
+      cloudId: settings.cloudId
+        ? InputValidator.validateCloudId(settings.cloudId)
+        : undefined,
+    });
+
+    this.connections.set(validatedUrl, connection);
+    this.authSchemes.set(
+      this.getUserKey(validatedUrl, username),
+      connection.authScheme
+    );
+  }
+
+  private getConnection(validatedUrl: string): JiraConnection {
+    return this.connections.get(validatedUrl) ?? JiraConnectionUtils.resolve();
+  }
+
+  private getUserKey(validatedUrl: string, username: string): string {
+    return `${validatedUrl}|${username.toLowerCase()}`;
+  }
+
+  /**
+   * Cloud signs in with an e-mail address, Data Center with a username
+   */
+  private validateUsername(validatedUrl: string, username: string): string {
+    return InputValidator.validateJiraUsername(
+      username,
+      this.getConnection(validatedUrl).deploymentType
+    );
+  }
+
+  private validateToken(
+    validatedUrl: string,
+    username: string,
+    token: string
+  ): string {
+    return InputValidator.validateJiraToken(
+      token,
+      this.getAuthScheme(validatedUrl, username)
+    );
+  }
+
+  // Worklog IDs are numeric in both Cloud and Data Center
+  private validateWorklogId(worklogId: string): string {
+    return InputValidator.validateString(worklogId, "Worklog ID", {
+      required: true,
+      maxLength: 20,
+      pattern: /^\d+$/,
+    });
+  }
+
+  /**
+   * REST API v3 only accepts worklog comments in Atlassian Document Format,
+   * while v2 (Data Center) takes plain text
+   */
+  private formatWorklogComment(validatedUrl: string, comment: string): unknown {
+    const validatedComment = InputValidator.validateWorklogComment(comment);
+    return this.getConnection(validatedUrl).apiVersion === "2"
+      ? validatedComment
+      : WorklogCommentUtils.toAdf(validatedComment);
+  }
+
+  private getAuthScheme(validatedUrl: string, username: string): AuthScheme {
+    return (
+      this.authSchemes.get(this.getUserKey(validatedUrl, username)) ??
+      DEFAULT_AUTH_SCHEME
+    );
+  }
+
+  /**
+   * Stored tokens are used as they are, except for /login users: theirs is a
+   * refresh token traded for short-lived access tokens as needed
+   */
+  private async getHeaders(
+    validatedUrl: string,
+    username: string,
+    token: string
+  ): Promise<Record<string, string>> {
+    const authScheme = this.getAuthScheme(validatedUrl, username);
+    let authorization: string;
+    if (authScheme === "oauth") {
+      authorization = `Bearer ${await this.getAccessToken(
+        validatedUrl,
+        username,
+        token
+      )}`;
+    } else if (authScheme === "bearer") {
+      authorization = `Bearer ${token}`;
+    } else {
+      authorization = `Basic ${Buffer.from(`${username}:${token}`).toString(
         "base64"
-      )}`,
+      )}`;
+    }
+
+    return {
+      Authorization: authorization,
       Accept: "application/json",
       "Content-Type": "application/json",
     };
   }
 
-  private buildUrl(baseUrl: string, endpoint: string): string {
-    return `https://${baseUrl}${this.restUrl}${endpoint}`;
+  private async getAccessToken(
+    validatedUrl: string,
+    username: string,
+    refreshToken: string
+  ): Promise<string> {
+    const userKey = this.getUserKey(validatedUrl, username);
+    const cached = this.oauthTokens.get(userKey);
+    if (cached && cached.expiresAt - this.tokenExpirySkewMs > Date.now()) {
+      return cached.accessToken;
+    }
+
+    // Refresh tokens rotate, so concurrent requests share one refresh and the
+    // newest refresh token seen wins over the stored one
+    let refresh = this.oauthRefreshes.get(userKey);
+    if (!refresh) {
+      refresh = ServiceContainer.getOAuthService()
+        .refreshAccessToken(cached?.refreshToken ?? refreshToken, {
+          host: validatedUrl,
+          username,
+        })
+        .finally(() => this.oauthRefreshes.delete(userKey));
+      this.oauthRefreshes.set(userKey, refresh);
+    }
+
+    const tokens = await refresh;
+    this.oauthTokens.set(userKey, tokens);
+    return tokens.accessToken;
+  }
+
+  /**
+   * /login users reach their site through the Atlassian API gateway
+   */
+  private getBaseUrl(validatedUrl: string, username: string): string {
+    const { contextPath, cloudId } = this.getConnection(validatedUrl);
+    if (this.getAuthScheme(validatedUrl, username) === "oauth" && cloudId) {
+      return `${ServiceContainer.getOAuthService().getApiUrl()}/ex/jira/${cloudId}`;
+    }
+    return `https://${validatedUrl}${contextPath}`;
+  }
+
+  private buildUrl(
+    baseUrl: string,
+    username: string,
+    endpoint: string
+  ): string {
+    const { apiVersion } = this.getConnection(baseUrl);
+    return `${this.getBaseUrl(
+      baseUrl,
+      username
+    )}/rest/api/${apiVersion}${endpoint}`;
+  }
+
+  private buildDevStatusUrl(
+    baseUrl: string,
+    username: string,
+    endpoint: string
+  ): string {
+    return `${this.getBaseUrl(baseUrl, username)}${
+      this.devStatusUrl
+    }${endpoint}`;
+  }
+
+  /**
+   * The instants from midnight of date to midnight after endDate in the
+   * user's timezone, which their worklogs are laid out in
+   */
+  private getDayRange(
+    date: Date,
+    endDate: Date = date,
+    timezone = DEFAULT_TIMEZONE
+  ): { start: number; end: number } {
+    const dayAfter = new Date(
+      endDate.getFullYear(),
+      endDate.getMonth(),
+      endDate.getDate() + 1
+    );
+
+    return {
+      start: TimeUtils.getZonedTime(date, 0, timezone).getTime(),
+      end: TimeUtils.getZonedTime(dayAfter, 0, timezone).getTime(),
+    };
+  }
+
+  /**
+   * Atlassian Cloud sites use the enhanced search unless told otherwise; Data
+   * Center and any other host use the legacy one
+   */
+  getSearchApi(url: string): SearchApi {
+    const validatedUrl = InputValidator.validateJiraHost(url);
+    const connection = this.connections.get(validatedUrl);
+    const isCloud = connection
+      ? connection.deploymentType === "cloud"
+      : /\.atlassian\.net$/i.test(validatedUrl);
+
+    return (
+      this.searchApis.get(validatedUrl) ?? (isCloud ? "enhanced" : "legacy")
+    );
+  }
+
+  setSearchApi(url: string, searchApi: SearchApi): void {
+    this.searchApis.set(InputValidator.validateJiraHost(url), searchApi);
+  }
+
+  /**
+   * Run a search against the API the host supports. A host without the
+   * enhanced endpoint answers 404 or 405, in which case it is remembered as
+   * legacy and the search is retried there
+   */
+  private async withSearchApi(
+    validatedUrl: string,
+    // eslint-disable-next-line no-unused-vars
+    search: (searchApi: SearchApi) => Promise<NodeFetchResponse>
+  ): Promise<NodeFetchResponse> {
+    const searchApi = this.getSearchApi(validatedUrl);
+    const response = await search(searchApi);
+
+    if (
+      searchApi === "enhanced" &&
+      (response.status === 404 || response.status === 405)
+    ) {
+      this.logger.warn("Enhanced search unavailable, using legacy search", {
+        url: validatedUrl,
+        status: response.status,
+      });
+      this.searchApis.set(validatedUrl, "legacy");
+      return await search("legacy");
+    }
+
+    return response;
   }
 
   async getServerInfo(
@@ -96,16 +453,27 @@ export class JiraService implements IJiraService {
   ): Promise<Record<string, unknown>> {
     // Validate inputs
     const validatedUrl = InputValidator.validateJiraHost(url);
-    const validatedUsername = InputValidator.validateEmail(username);
-    const validatedToken = InputValidator.validateApiToken(token);
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
+    );
 
     try {
       const response = await RetryUtil.withHttpRetry(
-        () =>
-          this.httpService.fetch(this.buildUrl(validatedUrl, "/serverInfo"), {
-            method: "GET",
-            headers: this.getHeaders(validatedUsername, validatedToken),
-          }) as Promise<NodeFetchResponse>,
+        async () =>
+          this.httpService.fetch(
+            this.buildUrl(validatedUrl, validatedUsername, "/serverInfo"),
+            {
+              method: "GET",
+              headers: await this.getHeaders(
+                validatedUrl,
+                validatedUsername,
+                validatedToken
+              ),
+            }
+          ) as Promise<NodeFetchResponse>,
         { maxAttempts: 2 }, // Less retries for auth/validation calls
         this.logger,
         "getServerInfo"
@@ -146,14 +514,22 @@ export class JiraService implements IJiraService {
   ): Promise<Record<string, unknown>> {
     // Validate inputs
     const validatedUrl = InputValidator.validateJiraHost(url);
-    const validatedUsername = InputValidator.validateEmail(username);
-    const validatedToken = InputValidator.validateApiToken(token);
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
+    );
 
     const response = await this.httpService.fetch(
-      this.buildUrl(validatedUrl, "/myself"),
+      this.buildUrl(validatedUrl, validatedUsername, "/myself"),
       {
         method: "GET",
-        headers: this.getHeaders(validatedUsername, validatedToken),
+        headers: await this.getHeaders(
+          validatedUrl,
+          validatedUsername,
+          validatedToken
+        ),
       }
     );
 
@@ -172,8 +548,12 @@ export class JiraService implements IJiraService {
   ): Promise<Record<string, unknown>> {
     // Validate inputs
     const validatedUrl = InputValidator.validateJiraHost(url);
-    const validatedUsername = InputValidator.validateEmail(username);
-    const validatedToken = InputValidator.validateApiToken(token);
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
+    );
     const validatedJql = InputValidator.validateJQL(jql);
 
     if (!validatedJql) {
@@ -184,15 +564,24 @@ export class JiraService implements IJiraService {
       );
     }
 
-    const response = await this.httpService.fetch(
-      this.buildUrl(
-        validatedUrl,
-        `/search?jql=${encodeURIComponent(validatedJql)}`
-      ),
-      {
-        method: "GET",
-        headers: this.getHeaders(validatedUsername, validatedToken),
-      }
+    const response = await this.withSearchApi(validatedUrl, async (searchApi) =>
+      this.httpService.fetch(
+        this.buildUrl(
+          validatedUrl,
+          validatedUsername,
+          `${
+            searchApi === "enhanced" ? "/search/jql" : "/search"
+          }?jql=${encodeURIComponent(validatedJql)}`
+        ),
+        {
+          method: "GET",
+          headers: await this.getHeaders(
+            validatedUrl,
+            validatedUsername,
+            validatedToken
+          ),
+        }
+      )
     );
 
     if (!response.ok) {
@@ -206,109 +595,255 @@ export class JiraService implements IJiraService {
     url: string,
     username: string,
     token: string,
-    // eslint-disable-next-line quotes
-    jql = 'assignee WAS currentUser() ON -1d AND status WAS "In Progress" ON -1d'
+    jql = getDefaultJql(
+      TimeUtils.getPreviousDateInZone(new Date(), DEFAULT_TIMEZONE)
+    ),
+    page: SearchPage = {}
   ): Promise<NodeFetchResponse> {
     // Validate inputs
     const validatedUrl = InputValidator.validateJiraHost(url);
-    const validatedUsername = InputValidator.validateEmail(username);
-    const validatedToken = InputValidator.validateApiToken(token);
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
+    );
     const validatedJql = InputValidator.validateJQL(jql) || jql; // Use default if validation returns undefined
 
     const bodyData = {
-      fields: ["key", "summary", "assignee"],
+      fields: ["key", "summary", "assignee", "status"],
       fieldsByKeys: false,
       jql: validatedJql,
-      maxResults: 50,
-      startAt: 0,
-      validateQuery: "strict",
+      maxResults: this.pageSize,
     };
 
-    return await this.httpService.fetch(
-      this.buildUrl(validatedUrl, "/search"),
-      {
-        method: "POST",
-        headers: this.getHeaders(validatedUsername, validatedToken),
-        body: JSON.stringify(bodyData),
-      }
+    return await this.withSearchApi(validatedUrl, async (searchApi) =>
+      this.httpService.fetch(
+        this.buildUrl(
+          validatedUrl,
+          validatedUsername,
+          searchApi === "enhanced" ? "/search/jql" : "/search"
+        ),
+        {
+          method: "POST",
+          headers: await this.getHeaders(
+            validatedUrl,
+            validatedUsername,
+            validatedToken
+          ),
+          body: JSON.stringify(
+            searchApi === "enhanced"
+              ? { ...bodyData, nextPageToken: page.nextPageToken }
+              : {
+                  ...bodyData,
+                  startAt: page.startAt ?? 0,
+                  validateQuery: "strict",
+                }
+          ),
+        }
+      )
     );
   }
 
+  /**
+   * Page through every issue matched by the search, following the page token
+   * of the enhanced search or the offsets of the legacy one
+   */
+  async *iterateIssuesWorked(
+    url: string,
+    username: string,
+    token: string,
+    jql?: string
+  ): AsyncGenerator<IssueBean> {
+    let page: SearchPage = {};
+    let fetched = 0;
+
+    for (;;) {
+      const response = await this.getIssuesWorked(
+        url,
+        username,
+        token,
+        jql,
+        page
+      );
+
+      if (!response.ok) {
+        throw ErrorHandler.wrapJiraError(response, "searching issues worked");
+      }
+
+      const results = (await response.json()) as SearchResults;
+      const issues = results.issues ?? [];
+      for (const issue of issues) {
+        yield issue;
+      }
+      fetched += issues.length;
+
+      if (results.nextPageToken !== undefined) {
+        if (results.isLast || issues.length === 0) {
+          return;
+        }
+        page = { nextPageToken: results.nextPageToken };
+        continue;
+      }
+
+      // Without a token only the legacy total tells whether more pages exist
+      if (
+        issues.length === 0 ||
+        results.total === undefined ||
+        fetched >= results.total
+      ) {
+        return;
+      }
+      page = { startAt: fetched };
+    }
+  }
+
   async getIssueWorklog(
     url: string,
     username: string,
     token: string,
     issueKey: string,
-    date: Date
+    date: Date,
+    startAt = 0,
+    endDate: Date = date,
+    timezone = DEFAULT_TIMEZONE
   ): Promise<NodeFetchResponse> {
     // Validate inputs
     const validatedUrl = InputValidator.validateJiraHost(url);
-    const validatedUsername = InputValidator.validateEmail(username);
-    const validatedToken = InputValidator.validateApiToken(token);
-    const validatedIssueKey = InputValidator.validateString(
-      issueKey,
-      "Issue key",
-      {
-        required: true,
-        minLength: 3,
-        maxLength: 50,
-        pattern: /^[A-Z]+-\d+$/,
-      }
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
     );
+    const validatedIssueKey = InputValidator.validateIssueKey(issueKey);
 
-    const startedAfter = new Date(date);
-    startedAfter.setHours(0, 0, 0, 0);
-
-    const startedBefore = new Date(startedAfter);
-    startedBefore.setDate(date.getDate() + 1);
-    startedBefore.setHours(0, 0, 0, 0);
-
-    const startedAfterTime = Date.UTC(
-      startedAfter.getFullYear(),
-      startedAfter.getMonth(),
-      startedAfter.getDate()
-    );
-    const startedBeforeTime = Date.UTC(
-      startedBefore.getFullYear(),
-      startedBefore.getMonth(),
-      startedBefore.getDate()
-    );
+    const { start: startedAfterTime, end: startedBeforeTime } =
+      this.getDayRange(date, endDate, timezone);
 
     return await this.httpService.fetch(
       this.buildUrl(
         validatedUrl,
-        `/issue/${validatedIssueKey}/worklog?startedAfter=${startedAfterTime}&startedBefore=${startedBeforeTime}`
+        validatedUsername,
+        `/issue/${validatedIssueKey}/worklog?startedAfter=${startedAfterTime}&startedBefore=${startedBeforeTime}&startAt=${startAt}&maxResults=${this.pageSize}`
       ),
       {
         method: "GET",
-        headers: this.getHeaders(validatedUsername, validatedToken),
+        headers: await this.getHeaders(
+          validatedUrl,
+          validatedUsername,
+          validatedToken
+        ),
       }
     );
   }
 
+  /**
+   * Page through every worklog on an issue for a day, or from date to endDate.
+   * Jira caps each page, so stopping at the first one misses worklogs on busy
+   * issues
+   */
+  async *iterateIssueWorklogs(
+    url: string,
+    username: string,
+    token: string,
+    issueKey: string,
+    date: Date,
+    endDate: Date = date,
+    timezone = DEFAULT_TIMEZONE
+  ): AsyncGenerator<Worklog> {
+    let startAt = 0;
+
+    for (;;) {
+      const response = await this.getIssueWorklog(
+        url,
+        username,
+        token,
+        issueKey,
+        date,
+        startAt,
+        endDate,
+        timezone
+      );
+
+      if (!response.ok) {
+        throw ErrorHandler.wrapJiraError(
+          response,
+          `getting worklogs for ${issueKey}`
+        );
+      }
+
+      const page = (await response.json()) as PageOfWorklogs;
+      const worklogs = page.worklogs ?? [];
+      for (const worklog of worklogs) {
+        yield worklog;
+      }
+
+      startAt += worklogs.length;
+      if (worklogs.length === 0 || startAt >= page.total) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Page through the user's own worklogs for a day, or from date to endDate,
+   * on any issue. Unlike the issues worked search this finds time logged on
+   * tickets outside the user's JQL, such as meetings or support
+   */
+  async *iterateUserWorklogs(
+    url: string,
+    username: string,
+    token: string,
+    date: Date,
+    endDate: Date = date,
+    timezone = DEFAULT_TIMEZONE
+  ): AsyncGenerator<UserWorklog> {
+    const jql = `worklogAuthor = currentUser() AND worklogDate >= "${WorklogCommentUtils.formatDate(
+      date
+    )}" AND worklogDate <= "${WorklogCommentUtils.formatDate(endDate)}"`;
+
+    for await (const issue of this.iterateIssuesWorked(
+      url,
+      username,
+      token,
+      jql
+    )) {
+      for await (const worklog of this.iterateIssueWorklogs(
+        url,
+        username,
+        token,
+        issue.key,
+        date,
+        endDate,
+        timezone
+      )) {
+        if (JiraConnectionUtils.isConfiguredUser(worklog.author, username)) {
+          yield { ...worklog, issueKey: issue.key };
+        }
+      }
+    }
+  }
+
   async postWorklog(
     url: string,
     username: string,
     token: string,
     issueKey: string,
     timeSpentSeconds: number,
-    date: Date,
-    notifyUsers = false
+    started: Date,
+    notifyUsers = false,
+    comment?: string
   ): Promise<NodeFetchResponse> {
     // Validate inputs
     const validatedUrl = InputValidator.validateJiraHost(url);
-    const validatedUsername = InputValidator.validateEmail(username);
-    const validatedToken = InputValidator.validateApiToken(token);
-    const validatedIssueKey = InputValidator.validateString(
-      issueKey,
-      "Issue key",
-      {
-        required: true,
-        minLength: 3,
-        maxLength: 50,
-        pattern: /^[A-Z]+-\d+$/,
-      }
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
     );
+    const validatedIssueKey = InputValidator.validateIssueKey(issueKey);
     const validatedTimeSpent = InputValidator.validateNumber(
       timeSpentSeconds,
       "Time spent",
@@ -320,24 +855,369 @@ export class JiraService implements IJiraService {
       }
     );
 
-    const started = new Date(date);
-    started.setHours(9, 0, 0, 0);
-
-    const bodyData = {
+    // Callers lay the day out with TimeUtils.planWorklogSlots, so the start
+    // instant is posted as-is
+    const bodyData: Record<string, unknown> = {
       started: started.toISOString().replace("Z", "+0000"),
       timeSpentSeconds: validatedTimeSpent,
     };
 
+    if (comment?.trim()) {
+      bodyData.comment = this.formatWorklogComment(validatedUrl, comment);
+    }
+
     return await this.httpService.fetch(
       this.buildUrl(
         validatedUrl,
+        validatedUsername,
         `/issue/${validatedIssueKey}/worklog?notifyUsers=${notifyUsers}`
       ),
       {
         method: "POST",
-        headers: this.getHeaders(validatedUsername, validatedToken),
+        headers: await this.getHeaders(
+          validatedUrl,
+          validatedUsername,
+          validatedToken
+        ),
+        body: JSON.stringify(bodyData),
+      }
+    );
+  }
+
+  /**
+   * Change the time and optionally the comment of an existing worklog. Its
+   * start is left as it was
+   */
+  async updateWorklog(
+    url: string,
+    username: string,
+    token: string,
+    issueKey: string,
+    worklogId: string,
+    timeSpentSeconds: number,
+    comment?: string
+  ): Promise<NodeFetchResponse> {
+    // Validate inputs
+    const validatedUrl = InputValidator.validateJiraHost(url);
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
+    );
+    const validatedIssueKey = InputValidator.validateIssueKey(issueKey);
+    const validatedWorklogId = this.validateWorklogId(worklogId);
+    const bodyData: Record<string, unknown> = {
+      timeSpentSeconds: InputValidator.validateNumber(
+        timeSpentSeconds,
+        "Time spent",
+        {
+          required: true,
+          min: 60, // Minimum 1 minute
+          max: 86400, // Maximum 24 hours
+          integer: true,
+        }
+      ),
+    };
+
+    if (comment?.trim()) {
+      bodyData.comment = this.formatWorklogComment(validatedUrl, comment);
+    }
+
+    return await this.httpService.fetch(
+      this.buildUrl(
+        validatedUrl,
+        validatedUsername,
+        `/issue/${validatedIssueKey}/worklog/${validatedWorklogId}?notifyUsers=false`
+      ),
+      {
+        method: "PUT",
+        headers: await this.getHeaders(
+          validatedUrl,
+          validatedUsername,
+          validatedToken
+        ),
         body: JSON.stringify(bodyData),
       }
     );
   }
+
+  async deleteWorklog(
+    url: string,
+    username: string,
+    token: string,
+    issueKey: string,
+    worklogId: string
+  ): Promise<NodeFetchResponse> {
+    // Validate inputs
+    const validatedUrl = InputValidator.validateJiraHost(url);
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
+    );
+    const validatedIssueKey = InputValidator.validateIssueKey(issueKey);
+    const validatedWorklogId = this.validateWorklogId(worklogId);
+
+    return await this.httpService.fetch(
+      this.buildUrl(
+        validatedUrl,
+        validatedUsername,
+        `/issue/${validatedIssueKey}/worklog/${validatedWorklogId}?notifyUsers=false`
+      ),
+      {
+        method: "DELETE",
+        headers: await this.getHeaders(
+          validatedUrl,
+          validatedUsername,
+          validatedToken
+        ),
+      }
+    );
+  }
+
+  async getIssuesActivity(
+    url: string,
+    username: string,
+    token: string,
+    issues: { id: string; key: string }[],
+    date: Date,
+    timezone = DEFAULT_TIMEZONE
+  ): Promise<IssueActivity[]> {
+    // Validate inputs
+    const validatedUrl = InputValidator.validateJiraHost(url);
+    const validatedUsername = this.validateUsername(validatedUrl, username);
+    const validatedToken = this.validateToken(
+      validatedUrl,
+      validatedUsername,
+      token
+    );
+
+    // Jira Cloud usually hides e-mail addresses, so authors are matched on
+    // the account ID when we can find out who we are
+    let currentUser: User | undefined;
+    try {
+      currentUser = (await this.getCurrentUser(
+        validatedUrl,
+        validatedUsername,
+        validatedToken
+      )) as unknown as User;
+    } catch (error) {
+      this.logger.warn("Could not identify the current Jira user", {
+        url: validatedUrl,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const { start, end } = this.getDayRange(date, date, timezone);
+    const isOnDay = (timestamp: string) => {
+      const time = new Date(timestamp).getTime();
+      return time >= start && time < end;
+    };
+    const isCurrentUser = (author?: User) =>
+      !!author &&
+      ((!!currentUser?.accountId &&
+        author.accountId === currentUser.accountId) ||
+        JiraConnectionUtils.isConfiguredUser(author, validatedUsername));
+
+    return Promise.all(
+      issues.map(async (issue) => {
+        const [changelogs, comments, commits] = await Promise.all([
+          this.getIssueChangelogs(
+            validatedUrl,
+            validatedUsername,
+            validatedToken,
+            issue.key
+          ),
+          this.fetchActivity<PageOfComments>(
+            validatedUrl,
+            this.buildUrl(
+              validatedUrl,
+              validatedUsername,
+              `/issue/${issue.key}/comment?orderBy=-created&maxResults=100`
+            ),
+            validatedUsername,
+            validatedToken
+          ),
+          this.getIssueCommits(
+            validatedUrl,
+            validatedUsername,
+            validatedToken,
+            issue.id
+          ),
+        ]);
+
+        const activity = new IssueActivity();
+        activity.issueKey = issue.key;
+        activity.transitions = changelogs
+          .filter(
+            (changelog) =>
+              isCurrentUser(changelog.author) && isOnDay(changelog.created)
+          )
+          .reduce(
+            (acc, changelog) =>
+              acc +
+              changelog.items.filter((item) => item.field === "status").length,
+            0
+          );
+        activity.comments = (comments?.comments ?? []).filter(
+          (comment) => isCurrentUser(comment.author) && isOnDay(comment.created)
+        ).length;
+        activity.commits = commits.filter(
+          (commit) =>
+            isOnDay(commit.authorTimestamp) &&
+            (commit.author?.email === validatedUsername ||
+              (!!currentUser?.displayName &&
+                commit.author?.name === currentUser.displayName))
+        ).length;
+
+        return activity;
+      })
+    );
+  }
+
+  /**
+   * Every change made to an issue, oldest first. REST API v3 pages through
+   * the changelog endpoint, which v2 lacks; v2 expands it on the issue
+   * instead
+   */
+  private async getIssueChangelogs(
+    url: string,
+    username: string,
+    token: string,
+    issueKey: string
+  ): Promise<Changelog[]> {
+    if (this.getConnection(url).apiVersion === "2") {
+      const issue = await this.fetchActivity<{
+        changelog?: { histories?: Changelog[] };
+      }>(
+        url,
+        this.buildUrl(
+          url,
+          username,
+          `/issue/${issueKey}?fields=none&expand=changelog`
+        ),
+        username,
+        token
+      );
+      return issue?.changelog?.histories ?? [];
+    }
+
+    const changelogs: Changelog[] = [];
+    for (;;) {
+      const page = await this.fetchActivity<PageOfChangelogs>(
+        url,
+        this.buildUrl(
+          url,
+          username,
+          `/issue/${issueKey}/changelog?startAt=${changelogs.length}&maxResults=${this.pageSize}`
+        ),
+        username,
+        token
+      );
+      const values = page?.values ?? [];
+      changelogs.push(...values);
+
+      // Pages say whether they are the last one, or else how many there are
+      if (
+        !page ||
+        values.length === 0 ||
+        (page.isLast ?? changelogs.length >= (page.total ?? 0))
+      ) {
+        return changelogs;
+      }
+    }
+  }
+
+  /**
+   * Commits linked through the development panel, across every connected
+   * source code tool
+   */
+  private async getIssueCommits(
+    url: string,
+    username: string,
+    token: string,
+    issueId: string
+  ): Promise<Commit[]> {
+    const summary = await this.fetchActivity<{
+      summary?: {
+        repository?: { byInstanceType?: Record<string, unknown> };
+      };
+    }>(
+      url,
+      this.buildDevStatusUrl(
+        url,
+        username,
+        `/issue/summary?issueId=${issueId}`
+      ),
+      username,
+      token
+    );
+
+    const instanceTypes = Object.keys(
+      summary?.summary?.repository?.byInstanceType ?? {}
+    );
+
+    const details = await Promise.all(
+      instanceTypes.map((instanceType) =>
+        this.fetchActivity<{
+          detail?: { repositories?: { commits?: Commit[] }[] }[];
+        }>(
+          url,
+          this.buildDevStatusUrl(
+            url,
+            username,
+            `/issue/detail?issueId=${issueId}&applicationType=${encodeURIComponent(
+              instanceType
+            )}&dataType=repository`
+          ),
+          username,
+          token
+        )
+      )
+    );
+
+    return details.flatMap((detail) =>
+      (detail?.detail ?? []).flatMap((entry) =>
+        (entry.repositories ?? []).flatMap(
+          (repository) => repository.commits ?? []
+        )
+      )
+    );
+  }
+
+  /**
+   * Activity signals are best effort: a failed lookup counts as no activity
+   * instead of failing the whole distribution
+   */
+  private async fetchActivity<T>(
+    url: string,
+    requestUrl: string,
+    username: string,
+    token: string
+  ): Promise<T | undefined> {
+    try {
+      const response = await this.httpService.fetch(requestUrl, {
+        method: "GET",
+        headers: await this.getHeaders(url, username, token),
+      });
+
+      if (!response.ok) {
+        this.logger.warn("Jira activity request failed", {
+          url: requestUrl,
+          status: response.status,
+        });
+        return undefined;
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      this.logger.warn("Jira activity request failed", {
+        url: requestUrl,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
 }
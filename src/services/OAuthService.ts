@@ -0,0 +1,312 @@
+import { IConfigService } from "./ConfigService";
+import { IEncryptionService } from "./EncryptionService";
+import { ApplicationError, ErrorHandler, ErrorType } from "./ErrorHandler";
+import { IHttpService } from "./HttpService";
+
+// offline_access is what makes Atlassian issue a refresh token
+export const OAUTH_SCOPES = [
+  "read:jira-work",
+  "write:jira-work",
+  "read:jira-user",
+  "read:me",
+  "offline_access",
+];
+export const LOGIN_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface OAuthLogin {
+  // Guild /login was run in, null in DMs
+  guildId: string | null;
+  userId: string;
+  site?: string;
+  // Jira profile the login creates or updates (default: default)
+  profile?: string;
+}
+
+export interface OAuthAccount {
+  host: string;
+  username: string;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+export interface AccessibleResource {
+  id: string;
+  url: string;
+  name: string;
+  scopes?: string[];
+}
+
+export interface AtlassianProfile {
+  account_id: string;
+  email?: string;
+  name?: string;
+}
+
+/* eslint-disable no-unused-vars */
+export type TokensRefreshedListener = (
+  account: OAuthAccount,
+  tokens: OAuthTokens
+) => void | Promise<void>;
+
+export interface IOAuthService {
+  isEnabled(): boolean;
+  getRedirectUri(): string;
+  getApiUrl(): string;
+  createAuthorizationUrl(login: OAuthLogin): string;
+  consumeState(state: string): OAuthLogin | undefined;
+  exchangeCode(code: string): Promise<OAuthTokens>;
+  refreshAccessToken(
+    refreshToken: string,
+    account?: OAuthAccount
+  ): Promise<OAuthTokens>;
+  onTokensRefreshed(listener: TokensRefreshedListener): void;
+  getAccessibleResources(accessToken: string): Promise<AccessibleResource[]>;
+  getProfile(accessToken: string): Promise<AtlassianProfile>;
+}
+/* eslint-enable no-unused-vars */
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+}
+
+/**
+ * Atlassian OAuth 2.0 (3LO): authorization links, code exchange and access
+ * token refreshes
+ */
+export class OAuthService implements IOAuthService {
+  private readonly pendingLogins = new Map<
+    string,
+    OAuthLogin & { expiresAt: number }
+  >();
+  private readonly listeners: TokensRefreshedListener[] = [];
+  private readonly configService: IConfigService;
+  private readonly httpService: IHttpService;
+  private readonly encryptionService: IEncryptionService;
+
+  constructor(
+    configService: IConfigService,
+    httpService: IHttpService,
+    encryptionService: IEncryptionService
+  ) {
+    this.configService = configService;
+    this.httpService = httpService;
+    this.encryptionService = encryptionService;
+  }
+
+  isEnabled(): boolean {
+    return Boolean(
+      this.configService.getAtlassianClientId() &&
+        this.configService.getAtlassianClientSecret() &&
+        this.configService.getOAuthRedirectUri()
+    );
+  }
+
+  getRedirectUri(): string {
+    const redirectUri = this.configService.getOAuthRedirectUri();
+    if (!redirectUri) {
+      throw this.notConfiguredError();
+    }
+    return redirectUri;
+  }
+
+  getApiUrl(): string {
+    return this.configService.getAtlassianApiUrl();
+  }
+
+  /**
+   * Build the consent link for a user. The state ties the callback back to
+   * the Discord user and expires after a few minutes
+   */
+  createAuthorizationUrl(login: OAuthLogin): string {
+    const clientId = this.configService.getAtlassianClientId();
+    if (!this.isEnabled() || !clientId) {
+      throw this.notConfiguredError();
+    }
+
+    const now = Date.now();
+    for (const [state, pending] of this.pendingLogins) {
+      if (pending.expiresAt <= now) {
+        this.pendingLogins.delete(state);
+      }
+    }
+
+    const state = this.encryptionService.generateSecureToken(24);
+    this.pendingLogins.set(state, {
+      ...login,
+      expiresAt: now + LOGIN_TIMEOUT_MS,
+    });
+
+    const params = new URLSearchParams({
+      audience: "api.atlassian.com",
+      client_id: clientId,
+      scope: OAUTH_SCOPES.join(" "),
+      redirect_uri: this.getRedirectUri(),
+      state,
+      response_type: "code",
+      prompt: "consent",
+    });
+
+    return `${this.configService.getAtlassianAuthUrl()}/authorize?${params}`;
+  }
+
+  /**
+   * Look up and forget the login a callback belongs to. States can only be
+   * used once
+   */
+  consumeState(state: string): OAuthLogin | undefined {
+    const pending = this.pendingLogins.get(state);
+    if (!pending) {
+      return undefined;
+    }
+
+    this.pendingLogins.delete(state);
+    if (pending.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    const { guildId, userId, site, profile } = pending;
+    return { guildId, userId, site, profile };
+  }
+
+  async exchangeCode(code: string): Promise<OAuthTokens> {
+    return this.requestTokens(
+      {
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: this.getRedirectUri(),
+      },
+      "exchanging the authorization code"
+    );
+  }
+
+  /**
+   * Trade a refresh token for a new access token. Atlassian rotates refresh
+   * tokens, so listeners are told about the new one to store it
+   */
+  async refreshAccessToken(
+    refreshToken: string,
+    account?: OAuthAccount
+  ): Promise<OAuthTokens> {
+    const tokens = await this.requestTokens(
+      { grant_type: "refresh_token", refresh_token: refreshToken },
+      "refreshing the access token",
+      refreshToken
+    );
+
+    if (account) {
+      for (const listener of this.listeners) {
+        await listener(account, tokens);
+      }
+    }
+
+    return tokens;
+  }
+
+  onTokensRefreshed(listener: TokensRefreshedListener): void {
+    this.listeners.push(listener);
+  }
+
+  async getAccessibleResources(
+    accessToken: string
+  ): Promise<AccessibleResource[]> {
+    return this.getJson<AccessibleResource[]>(
+      "/oauth/token/accessible-resources",
+      accessToken,
+      "getting accessible sites"
+    );
+  }
+
+  async getProfile(accessToken: string): Promise<AtlassianProfile> {
+    return this.getJson<AtlassianProfile>(
+      "/me",
+      accessToken,
+      "getting the Atlassian profile"
+    );
+  }
+
+  private async requestTokens(
+    grant: Record<string, string>,
+    context: string,
+    previousRefreshToken?: string
+  ): Promise<OAuthTokens> {
+    const clientId = this.configService.getAtlassianClientId();
+    const clientSecret = this.configService.getAtlassianClientSecret();
+    if (!clientId || !clientSecret) {
+      throw this.notConfiguredError();
+    }
+
+    const response = await this.httpService.fetch(
+      `${this.configService.getAtlassianAuthUrl()}/oauth/token`,
+      {
+        method: "POST",
+        headers: {
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...grant,
+          client_id: clientId,
+          client_secret: clientSecret,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw ErrorHandler.wrapJiraError(response, context);
+    }
+
+    const data = (await response.json()) as TokenResponse;
+    const refreshToken = data.refresh_token ?? previousRefreshToken;
+    if (!data.access_token || !refreshToken) {
+      throw new ApplicationError(
+        `Atlassian did not return the expected tokens (${context})`,
+        ErrorType.AUTHENTICATION_ERROR,
+        true,
+        response.status
+      );
+    }
+
+    return {
+      accessToken: data.access_token,
+      refreshToken,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    };
+  }
+
+  private async getJson<T>(
+    path: string,
+    accessToken: string,
+    context: string
+  ): Promise<T> {
+    const response = await this.httpService.fetch(
+      `${this.getApiUrl()}${path}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: "application/json",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw ErrorHandler.wrapJiraError(response, context);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private notConfiguredError(): ApplicationError {
+    return new ApplicationError(
+      "Atlassian OAuth is not configured",
+      ErrorType.UNKNOWN_ERROR,
+      true
+    );
+  }
+}
@@ -43,9 +43,18 @@ export class RateLimitService implements IRateLimitService {
     this.setRule("setup", { maxAttempts: 5, windowMs: 300000 }); // 5 attempts per 5 minutes
     this.setRule("time", { maxAttempts: 10, windowMs: 60000 }); // 10 attempts per minute
     this.setRule("hours", { maxAttempts: 5, windowMs: 60000 }); // 5 attempts per minute
+    this.setRule("schedule", { maxAttempts: 5, windowMs: 60000 }); // 5 attempts per minute
+    this.setRule("comment", { maxAttempts: 5, windowMs: 60000 }); // 5 attempts per minute
     this.setRule("pause", { maxAttempts: 3, windowMs: 60000 }); // 3 attempts per minute
     this.setRule("info", { maxAttempts: 20, windowMs: 60000 }); // 20 attempts per minute
     this.setRule("health", { maxAttempts: 3, windowMs: 300000 }); // 3 attempts per 5 minutes
+    this.setRule("login", { maxAttempts: 3, windowMs: 60000 }); // 3 attempts per minute
+    this.setRule("admin", { maxAttempts: 10, windowMs: 60000 }); // 10 attempts per minute
+    this.setRule("report", { maxAttempts: 3, windowMs: 300000 }); // 3 attempts per 5 minutes
+    this.setRule("timeoff", { maxAttempts: 10, windowMs: 60000 }); // 10 attempts per minute
+    this.setRule("worklogs", { maxAttempts: 10, windowMs: 60000 }); // 10 attempts per minute
+    this.setRule("history", { maxAttempts: 10, windowMs: 60000 }); // 10 attempts per minute
+    this.setRule("allocations", { maxAttempts: 10, windowMs: 60000 }); // 10 attempts per minute
 
     // Clean up expired entries periodically
     setInterval(() => this.cleanup(), 300000); // Every 5 minutes
@@ -0,0 +1,188 @@
+// Business logic for team timesheet reports - pure functions for easy testing
+import { WorklogCommentUtils } from "./WorklogCommentUtils";
+
+// Longest range a report may cover, both ends included
+export const REPORT_MAX_DAYS = 31;
+
+export interface MemberReport {
+  userId: string;
+  name: string;
+  // Seconds expected on each working day
+  targetSeconds: number;
+  // ISO weekday numbers the member works on
+  workDays: number[];
+  pausedProfiles: string[];
+  // Seconds logged per day (YYYY-MM-DD)
+  dailySeconds: Record<string, number>;
+  error?: string;
+}
+
+export class ReportUtils {
+  /**
+   * Monday to Sunday of the week before the given date
+   */
+  static getLastWeek(now: Date): { from: Date; to: Date } {
+    const from = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    // getDay() is 0 on Sunday, ISO weeks start on Monday
+    from.setDate(from.getDate() - ((from.getDay() + 6) % 7) - 7);
+
+    const to = new Date(from);
+    to.setDate(from.getDate() + 6);
+
+    return { from, to };
+  }
+
+  /**
+   * Every day from one date to another, both included
+   */
+  static listDates(from: Date, to: Date): Date[] {
+    const dates: Date[] = [];
+    for (
+      const date = new Date(
+        from.getFullYear(),
+        from.getMonth(),
+        from.getDate()
+      );
+      date <= to;
+      date.setDate(date.getDate() + 1)
+    ) {
+      dates.push(new Date(date));
+    }
+    return dates;
+  }
+
+  /**
+   * Working days on which the member logged less than their target
+   */
+  static findGaps(member: MemberReport, dates: Date[]): Date[] {
+    return dates.filter(
+      (date) =>
+        member.workDays.includes(((date.getDay() + 6) % 7) + 1) &&
+        (member.dailySeconds[WorklogCommentUtils.formatDate(date)] ?? 0) <
+          member.targetSeconds
+    );
+  }
+
+  /**
+   * Total seconds the member logged over the dates
+   */
+  static getTotalSeconds(member: MemberReport, dates: Date[]): number {
+    return dates.reduce(
+      (acc, date) =>
+        acc + (member.dailySeconds[WorklogCommentUtils.formatDate(date)] ?? 0),
+      0
+    );
+  }
+
+  /**
+   * Summarize a member for a report embed field: the total against the
+   * target, the time logged on each day and any gaps or paused schedules
+   */
+  static summarize(member: MemberReport, dates: Date[]): string {
+    if (member.error) {
+      return `❌ Could not fetch worklogs: ${member.error}`;
+    }
+
+    const gaps = ReportUtils.findGaps(member, dates);
+    const workingDays = dates.filter((date) =>
+      member.workDays.includes(((date.getDay() + 6) % 7) + 1)
+    );
+    const days = dates
+      .filter(
+        (date) =>
+          workingDays.includes(date) ||
+          member.dailySeconds[WorklogCommentUtils.formatDate(date)]
+      )
+      .map(
+        (date) =>
+          `${date.toDateString().slice(0, 10)}: ${ReportUtils.formatHours(
+            member.dailySeconds[WorklogCommentUtils.formatDate(date)] ?? 0
+          )}${gaps.includes(date) ? " ⚠️" : ""}`
+      );
+
+    return [
+      `Total: ${ReportUtils.formatHours(
+        ReportUtils.getTotalSeconds(member, dates)
+      )} of ${ReportUtils.formatHours(
+        member.targetSeconds * workingDays.length
+      )}`,
+      days.join(" · ") || "No working days",
+      gaps.length
+        ? `⚠️ ${gaps.length} day${gaps.length === 1 ? "" : "s"} under target`
+        : "✅ No gaps",
+      ...(member.pausedProfiles.length
+        ? [`⏸️ Paused: ${member.pausedProfiles.join(", ")}`]
+        : []),
+    ].join("\n");
+  }
+
+  /**
+   * One row per member and day, for spreadsheets
+   */
+  static toCsv(members: MemberReport[], dates: Date[]): string {
+    const rows = [
+      [
+        "User ID",
+        "Name",
+        "Date",
+        "Hours Logged",
+        "Target Hours",
+        "Gap",
+        "Paused Profiles",
+        "Error",
+      ],
+    ];
+
+    for (const member of members) {
+      const gaps = ReportUtils.findGaps(member, dates);
+      for (const date of dates) {
+        const isWorkingDay = member.workDays.includes(
+          ((date.getDay() + 6) % 7) + 1
+        );
+        rows.push([
+          member.userId,
+          member.name,
+          WorklogCommentUtils.formatDate(date),
+          ReportUtils.toHours(
+            member.dailySeconds[WorklogCommentUtils.formatDate(date)] ?? 0
+          ),
+          ReportUtils.toHours(isWorkingDay ? member.targetSeconds : 0),
+          !member.error && gaps.includes(date) ? "yes" : "no",
+          member.pausedProfiles.join(" "),
+          member.error ?? "",
+        ]);
+      }
+    }
+
+    return rows
+      .map((row) => row.map((value) => ReportUtils.escapeCsv(value)).join(","))
+      .join("\n");
+  }
+
+  /**
+   * Format seconds as hours and minutes. Unlike worklogs, totals over a
+   * week are not split into days
+   */
+  static formatHours(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+
+  private static toHours(seconds: number): string {
+    return String(Math.round((seconds / 3600) * 100) / 100);
+  }
+
+  /**
+   * Quote values with separators and keep names from being read as
+   * spreadsheet formulas
+   */
+  private static escapeCsv(value: string): string {
+    const safeValue = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    if (!/[",\n\r]/.test(safeValue)) {
+      return safeValue;
+    }
+    // "$&" is the matched quote, so every quote is doubled
+    return `"${safeValue.replace(/"/g, "$&$&")}"`;
+  }
+}
@@ -111,9 +111,10 @@ export class RetryUtil {
   }
 
   /**
-   * Calculate delay with exponential backoff and optional jitter
+   * Calculate delay with exponential backoff and optional jitter, also used
+   * to schedule retries that outlive a single call
    */
-  private static calculateDelay(attempt: number, config: RetryOptions): number {
+  static calculateDelay(attempt: number, config: RetryOptions): number {
     const exponentialDelay =
       config.baseDelayMs * Math.pow(config.exponentialBase, attempt - 1);
     let delay = Math.min(exponentialDelay, config.maxDelayMs);
@@ -5,6 +5,7 @@ import { HttpService, IHttpService } from "./HttpService";
 import { InputValidator } from "./InputValidator";
 import { IJiraService, JiraService } from "./JiraService";
 import { ILoggerService, LoggerService } from "./LoggerService";
+import { IOAuthService, OAuthService } from "./OAuthService";
 import { IRateLimitService, RateLimitService } from "./RateLimitService";
 
 /**
@@ -98,6 +99,14 @@ export class ServiceContainer {
       encryptionService
     );
 
+    // Register OAuth service (depends on Config, HTTP and Encryption services)
+    const oauthService = new OAuthService(
+      configService,
+      httpService,
+      encryptionService
+    );
+    container.register<IOAuthService>("IOAuthService", oauthService);
+
     const healthCheckService = new HealthCheckService(loggerService);
     container.register<IHealthCheckService>(
       "IHealthCheckService",
@@ -142,6 +151,11 @@ export class ServiceContainer {
     return container.get<IHealthCheckService>("IHealthCheckService");
   }
 
+  static getOAuthService(): IOAuthService {
+    const container = ServiceContainer.getInstance();
+    return container.get<IOAuthService>("IOAuthService");
+  }
+
   static getConfigService(): IConfigService {
     const container = ServiceContainer.getInstance();
     return container.get<IConfigService>("IConfigService");
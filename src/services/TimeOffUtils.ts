@@ -0,0 +1,151 @@
+// Business logic for time off calendars - pure functions for easy testing
+import { ReportUtils } from "./ReportUtils";
+import { WorklogCommentUtils } from "./WorklogCommentUtils";
+
+// Most days a single /timeoff add or calendar import may cover
+export const TIMEOFF_MAX_DAYS = 366;
+export const TIMEOFF_REASON_MAX_LENGTH = 100;
+
+export interface TimeOffDay {
+  date: string; // YYYY-MM-DD
+  reason?: string | null;
+}
+
+export class TimeOffUtils {
+  /**
+   * Read the days covered by the events of an iCalendar (.ics) file. All-day
+   * events end the day before their DTEND, timed events cover every day they
+   * touch. Recurrence rules are not expanded, only the first occurrence of a
+   * recurring event is used
+   */
+  static parseIcs(text: string): TimeOffDay[] {
+    // Long lines are folded onto lines starting with a space or tab
+    const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+    const days: TimeOffDay[] = [];
+    let event: Record<string, string> | null = null;
+
+    for (const line of lines) {
+      if (line === "BEGIN:VEVENT") {
+        event = {};
+      } else if (line === "END:VEVENT" && event) {
+        days.push(...TimeOffUtils.getEventDays(event));
+        event = null;
+      } else if (event) {
+        const separator = line.indexOf(":");
+        if (separator > 0) {
+          // Parameters such as ;VALUE=DATE or ;TZID=... are not needed
+          const name = line.slice(0, separator).split(";")[0].toUpperCase();
+          event[name] = line.slice(separator + 1);
+        }
+      }
+    }
+
+    return TimeOffUtils.mergeDays(days);
+  }
+
+  /**
+   * Keep one entry per date, the first reason given for it winning
+   */
+  static mergeDays(days: TimeOffDay[]): TimeOffDay[] {
+    const merged = new Map<string, TimeOffDay>();
+    for (const day of days) {
+      if (!merged.has(day.date)) {
+        merged.set(day.date, day);
+      }
+    }
+    return Array.from(merged.values()).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    );
+  }
+
+  /**
+   * Describe time off days for a list, joining consecutive days with the
+   * same reason (e.g. "2025-12-24 to 2025-12-26: Holidays")
+   */
+  static describe(days: TimeOffDay[]): string[] {
+    const lines: string[] = [];
+    let first: TimeOffDay | undefined;
+    let last: TimeOffDay | undefined;
+
+    const flush = () => {
+      if (first && last) {
+        lines.push(
+          `${first.date}${first === last ? "" : ` to ${last.date}`}: ${
+            first.reason || "Time off"
+          }`
+        );
+      }
+    };
+
+    for (const day of days) {
+      const next = last ? TimeOffUtils.parseDay(last.date) : undefined;
+      next?.setDate(next.getDate() + 1);
+
+      if (
+        !last ||
+        !next ||
+        WorklogCommentUtils.formatDate(next) !== day.date ||
+        (last.reason ?? null) !== (day.reason ?? null)
+      ) {
+        flush();
+        first = day;
+      }
+      last = day;
+    }
+    flush();
+
+    return lines;
+  }
+
+  private static getEventDays(event: Record<string, string>): TimeOffDay[] {
+    const start = TimeOffUtils.parseIcsDate(event.DTSTART);
+    if (!start) {
+      return [];
+    }
+
+    const allDay = /^\d{8}$/.test(event.DTSTART.trim());
+    let end = TimeOffUtils.parseIcsDate(event.DTEND) ?? start;
+    // All-day events and timed events ending at midnight end the day before
+    if (end > start && (allDay || /T000000Z?$/.test(event.DTEND.trim()))) {
+      end = new Date(end.getFullYear(), end.getMonth(), end.getDate() - 1);
+    }
+
+    const reason = event.SUMMARY
+      ? TimeOffUtils.unescapeText(event.SUMMARY).substring(
+          0,
+          TIMEOFF_REASON_MAX_LENGTH
+        )
+      : null;
+
+    return ReportUtils.listDates(start, end)
+      .slice(0, TIMEOFF_MAX_DAYS)
+      .map((date) => ({
+        date: WorklogCommentUtils.formatDate(date),
+        reason,
+      }));
+  }
+
+  /**
+   * The calendar date of an iCalendar DATE or DATE-TIME value as local
+   * midnight. Times are dropped, time off is kept by calendar day
+   */
+  private static parseIcsDate(value?: string): Date | null {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(value?.trim() ?? "");
+    if (!match) {
+      return null;
+    }
+    return TimeOffUtils.parseDay(`${match[1]}-${match[2]}-${match[3]}`);
+  }
+
+  private static parseDay(date: string): Date {
+    const [year, month, day] = date.split("-").map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  private static unescapeText(text: string): string {
+    return text
+      .replace(/\\n/gi, " ")
+      .replace(/\\([,;\\])/g, "$1")
+      .trim();
+  }
+}
@@ -1,11 +1,29 @@
 // Business logic for utility functions - pure functions for easy testing
+import { WorklogCommentUtils } from "./WorklogCommentUtils";
 
 export interface TimeDistribution {
   evenDistribution?: number[];
   fairDistribution?: number[];
+  weightedDistribution?: number[];
   totalSeconds: number;
 }
 
+export interface ActivitySignals {
+  transitions: number;
+  comments: number;
+  commits: number;
+}
+
+export type DistributionStrategy = "evenly" | "fairly" | "weighted";
+
+// What the scheduler does with worklogs left unconfirmed
+export type ConfirmFallback = "submit" | "skip";
+
+// What happens to a day that already has some of the user's time: it is left
+// as it is, or the rest of the daily hours are spread on all of its issues or
+// only on those without time yet
+export type PartialDayMode = "skip" | "top-up" | "top-up-new";
+
 export interface TimeFormat {
   days: number;
   hours: number;
@@ -13,6 +31,63 @@ export interface TimeFormat {
   seconds: number;
 }
 
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // ISO weekday: 1 = Monday ... 7 = Sunday
+}
+
+export interface WorkdayLayout {
+  timezone: string;
+  start: string; // "HH:mm" in the user's timezone
+  lunchStart?: string;
+  lunchMinutes?: number;
+}
+
+// Time set aside for an issue before a day is split
+export interface AllocatedTime {
+  issueKey: string;
+  timeInSeconds: number;
+}
+
+export const DEFAULT_TIMEZONE = "Etc/UTC";
+export const DEFAULT_SCHEDULE_TIME = "06:00";
+export const DEFAULT_WORK_DAYS = "1,2,3,4,5";
+export const DEFAULT_WORKDAY_START = "09:00";
+export const DEFAULT_LUNCH_START = "12:00";
+export const DEFAULT_LUNCH_MINUTES = 0;
+export const DEFAULT_DISTRIBUTION_STRATEGY: DistributionStrategy = "fairly";
+export const DISTRIBUTION_STRATEGIES: DistributionStrategy[] = [
+  "evenly",
+  "fairly",
+  "weighted",
+];
+export const DEFAULT_CONFIRM_MINUTES = 120;
+export const DEFAULT_CONFIRM_FALLBACK: ConfirmFallback = "submit";
+export const CONFIRM_FALLBACKS: ConfirmFallback[] = ["submit", "skip"];
+export const DEFAULT_PARTIAL_DAY_MODE: PartialDayMode = "skip";
+export const PARTIAL_DAY_MODES: PartialDayMode[] = [
+  "skip",
+  "top-up",
+  "top-up-new",
+];
+
+// Every issue starts from the base weight so one that was worked on without
+// leaving a trace in Jira still gets a share of the day
+export const ACTIVITY_WEIGHTS = {
+  base: 1,
+  transition: 2,
+  comment: 1,
+  commit: 3,
+};
+
+const WEEKDAY_NAMES = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+// How far back date suggestions look for working days
+const RECENT_DAYS = 31;
+
 export class TimeUtils {
   static parseTimeToSeconds(totalSeconds: number): TimeFormat {
     const days = Math.floor(totalSeconds / (24 * 3600));
@@ -114,4 +189,472 @@ export class TimeUtils {
       totalSeconds,
     };
   }
+
+  /**
+   * Split time proportionally to each issue's weight, in whole minutes.
+   * Every issue gets at least one minute when there is enough time to go round
+   */
+  static distributeTimeWeighted(
+    totalSeconds: number,
+    weights: number[]
+  ): TimeDistribution {
+    const numIssues = weights.length;
+    const totalWeight = weights.reduce(
+      (acc, weight) => acc + Math.max(weight, 0),
+      0
+    );
+
+    if (numIssues === 0 || totalWeight === 0) {
+      return {
+        weightedDistribution: numIssues
+          ? TimeUtils.distributeTimeEvenly(totalSeconds, numIssues)
+              .evenDistribution
+          : [],
+        totalSeconds,
+      };
+    }
+
+    const totalMinutes = Math.floor(totalSeconds / 60);
+    const exactShares = weights.map(
+      (weight) => (Math.max(weight, 0) / totalWeight) * totalMinutes
+    );
+    const minutes = exactShares.map((share) => Math.floor(share));
+
+    // Hand out the minutes lost to rounding by largest remainder
+    const leftover = totalMinutes - minutes.reduce((acc, val) => acc + val, 0);
+    const byRemainder = exactShares
+      .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+      .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+    for (let i = 0; i < leftover; i++) {
+      minutes[byRemainder[i].index]++;
+    }
+
+    // Issues that rounded down to nothing borrow a minute from the largest share
+    if (totalMinutes >= numIssues) {
+      for (let i = 0; i < numIssues; i++) {
+        if (minutes[i] === 0) {
+          minutes[minutes.indexOf(Math.max(...minutes))]--;
+          minutes[i] = 1;
+        }
+      }
+    }
+
+    const distribution = minutes.map((value) => value * 60);
+
+    // Seconds that don't make up a whole minute go to the heaviest issue
+    const heaviest = weights.indexOf(Math.max(...weights));
+    distribution[heaviest] += totalSeconds % 60;
+
+    return {
+      weightedDistribution: distribution,
+      totalSeconds,
+    };
+  }
+
+  static calculateActivityWeight(activity: ActivitySignals): number {
+    return (
+      ACTIVITY_WEIGHTS.base +
+      activity.transitions * ACTIVITY_WEIGHTS.transition +
+      activity.comments * ACTIVITY_WEIGHTS.comment +
+      activity.commits * ACTIVITY_WEIGHTS.commit
+    );
+  }
+
+  /**
+   * Describe the activity behind an issue's weight (e.g. "2 transitions, 1 comment")
+   */
+  static formatActivitySummary(activity: ActivitySignals): string {
+    const parts = [
+      [activity.transitions, "transition"],
+      [activity.comments, "comment"],
+      [activity.commits, "commit"],
+    ]
+      .filter(([count]) => (count as number) > 0)
+      .map(([count, label]) => `${count} ${label}${count === 1 ? "" : "s"}`);
+
+    return parts.length ? parts.join(", ") : "no activity";
+  }
+
+  static isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the calendar and clock components of an instant as seen in a timezone
+   */
+  static getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+      hourCycle: "h23",
+    });
+
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(date)) {
+      parts[part.type] = part.value;
+    }
+
+    return {
+      year: Number(parts.year),
+      month: Number(parts.month),
+      day: Number(parts.day),
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+      weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase()) + 1,
+    };
+  }
+
+  /**
+   * Get the calendar date that was "yesterday" in a timezone, as a Date at
+   * local midnight so it can be handed to the Jira worklog calls
+   */
+  static getPreviousDateInZone(date: Date, timeZone: string): Date {
+    const { year, month, day } = TimeUtils.getZonedDateParts(date, timeZone);
+    return new Date(year, month - 1, day - 1);
+  }
+
+  /**
+   * Get the calendar date of an instant in a timezone, as a Date at local
+   * midnight like getPreviousDateInZone
+   */
+  static getDateInZone(date: Date, timeZone: string): Date {
+    const { year, month, day } = TimeUtils.getZonedDateParts(date, timeZone);
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * Count the calendar days from one date to another, unaffected by DST
+   */
+  static getDaysBetween(from: Date, to: Date): number {
+    return Math.round(
+      (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) -
+        Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) /
+        (24 * 3600 * 1000)
+    );
+  }
+
+  /**
+   * Parse a date the way people write it, relative to today's date:
+   * "2025-07-28", "today", "yesterday", weekday names ("friday", "last fri")
+   * for the most recent one before today, and offsets ("3", "3 days ago",
+   * "-2w", "2 weeks ago"). Returns null when the input isn't understood
+   */
+  static parseDate(input: string, today: Date): Date | null {
+    const normalized = input.trim().toLowerCase().replace(/\s+/g, " ");
+    const daysBefore = (days: number) =>
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() - days);
+
+    const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(normalized);
+    if (iso) {
+      const [year, month, day] = iso.slice(1).map(Number);
+      const date = new Date(year, month - 1, day);
+      // Reject dates that roll over, e.g. 2025-02-30
+      return date.getFullYear() === year &&
+        date.getMonth() === month - 1 &&
+        date.getDate() === day
+        ? date
+        : null;
+    }
+
+    if (normalized === "today") {
+      return daysBefore(0);
+    }
+    if (normalized === "yesterday") {
+      return daysBefore(1);
+    }
+
+    const offset = /^-?(\d{1,3}) ?(d|days?|w|weeks?)?( ago)?$/.exec(normalized);
+    if (offset) {
+      return daysBefore(
+        Number(offset[1]) * (offset[2]?.startsWith("w") ? 7 : 1)
+      );
+    }
+
+    const weekday = /^(last )?([a-z]{3,9})$/.exec(normalized);
+    const isoWeekday = weekday ? TimeUtils.parseWeekday(weekday[2]) : NaN;
+    if (!isNaN(isoWeekday)) {
+      const todayWeekday = ((today.getDay() + 6) % 7) + 1;
+      return daysBefore(((todayWeekday - isoWeekday + 6) % 7) + 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * Suggest dates for a date option: the date the input parses to, followed
+   * by the most recent working days before today that match what was typed
+   */
+  static suggestDates(
+    input: string,
+    today: Date,
+    workDays: number[],
+    limit = 10
+  ): { name: string; value: string }[] {
+    const describe = (date: Date) => {
+      const daysAgo = TimeUtils.getDaysBetween(date, today);
+      let relative = `${daysAgo} days ago`;
+      if (daysAgo === 0) {
+        relative = "today";
+      } else if (daysAgo === 1) {
+        relative = "yesterday";
+      } else if (daysAgo < 0) {
+        relative = `in ${-daysAgo} days`;
+      }
+      return {
+        name: `${date.toDateString()} (${relative})`,
+        value: WorklogCommentUtils.formatDate(date),
+      };
+    };
+
+    const parsed = input.trim() ? TimeUtils.parseDate(input, today) : null;
+    const suggestions = parsed ? [describe(parsed)] : [];
+    const search = parsed ? "" : input.trim().toLowerCase();
+
+    for (
+      let daysAgo = 1;
+      daysAgo <= RECENT_DAYS && suggestions.length < limit;
+      daysAgo++
+    ) {
+      const date = new Date(
+        today.getFullYear(),
+        today.getMonth(),
+        today.getDate() - daysAgo
+      );
+      if (!workDays.includes(((date.getDay() + 6) % 7) + 1)) {
+        continue;
+      }
+
+      const suggestion = describe(date);
+      if (
+        suggestion.value !== suggestions[0]?.value &&
+        `${suggestion.name} ${suggestion.value}`.toLowerCase().includes(search)
+      ) {
+        suggestions.push(suggestion);
+      }
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Parse a "HH:mm" time of day into minutes since midnight
+   */
+  static parseTimeOfDay(time: string): number {
+    const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time.trim());
+    if (!match) {
+      return NaN;
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+  }
+
+  /**
+   * Parse a stored work days list ("1,2,3,4,5") into ISO weekday numbers
+   */
+  static parseWorkDays(workDays: string): number[] {
+    return workDays
+      .split(",")
+      .map((day) => Number(day.trim()))
+      .filter((day) => Number.isInteger(day) && day >= 1 && day <= 7);
+  }
+
+  /**
+   * Format ISO weekday numbers as short names (e.g. "Mon, Tue")
+   */
+  static formatWorkDays(workDays: string): string {
+    return TimeUtils.parseWorkDays(workDays)
+      .map((day) => {
+        const name = WEEKDAY_NAMES[day - 1];
+        return name.charAt(0).toUpperCase() + name.slice(1);
+      })
+      .join(", ");
+  }
+
+  /**
+   * Resolve a weekday name or abbreviation to its ISO weekday number
+   */
+  static parseWeekday(value: string): number {
+    const normalized = value.trim().toLowerCase();
+    if (/^[1-7]$/.test(normalized)) {
+      return Number(normalized);
+    }
+    const index = WEEKDAY_NAMES.findIndex(
+      (name) => normalized.length >= 3 && name === normalized.substring(0, 3)
+    );
+    return index === -1 ? NaN : index + 1;
+  }
+
+  /**
+   * Get the instant a wall-clock time falls on for a calendar date in a
+   * timezone. The date's local year, month and day are used as the calendar
+   * date, the same way the Jira worklog calls read it
+   */
+  static getZonedTime(date: Date, minutes: number, timeZone: string): Date {
+    const target = Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      0,
+      minutes
+    );
+
+    // Start from the UTC reading and correct by the zone offset; the second
+    // pass settles days where the offset changes (DST)
+    let instant = target;
+    for (let pass = 0; pass < 2; pass++) {
+      const parts = TimeUtils.getZonedDateParts(new Date(instant), timeZone);
+      const seen = Date.UTC(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute
+      );
+      instant += target - seen;
+    }
+
+    return new Date(instant);
+  }
+
+  /**
+   * Build the workday layout from a user's stored settings, filling in the
+   * defaults for anything that was never configured
+   */
+  static getWorkdayLayout(settings: {
+    timezone?: string;
+    workdayStart?: string;
+    lunchStart?: string;
+    lunchMinutes?: number;
+  }): WorkdayLayout {
+    return {
+      timezone: settings.timezone || DEFAULT_TIMEZONE,
+      start: settings.workdayStart || DEFAULT_WORKDAY_START,
+      lunchStart: settings.lunchStart || DEFAULT_LUNCH_START,
+      lunchMinutes: settings.lunchMinutes ?? DEFAULT_LUNCH_MINUTES,
+    };
+  }
+
+  /**
+   * Describe a workday layout (e.g. "09:00, lunch at 12:00 for 60 min")
+   */
+  static formatWorkdayLayout(layout: WorkdayLayout): string {
+    return layout.lunchMinutes
+      ? `${layout.start}, lunch at ${layout.lunchStart} for ${layout.lunchMinutes} min`
+      : `${layout.start}, no lunch break`;
+  }
+
+  /**
+   * What is left to log of a day, given the seconds the user already logged
+   * on each of its issues and on the whole day, which includes issues outside
+   * the day's: the seconds still missing and the issues to spread them on.
+   * Null when nothing is left to log
+   */
+  static planTopUp<T>(
+    issues: T[],
+    issueSeconds: number[],
+    loggedSeconds: number,
+    totalSeconds: number,
+    mode: PartialDayMode
+  ): { remainingSeconds: number; issues: T[] } | null {
+    if (loggedSeconds === 0) {
+      return { remainingSeconds: totalSeconds, issues };
+    }
+
+    const remainingSeconds = totalSeconds - loggedSeconds;
+    const remainingIssues =
+      mode === "top-up-new"
+        ? issues.filter((_, index) => !issueSeconds[index])
+        : issues;
+    if (
+      mode === "skip" ||
+      remainingSeconds < 60 ||
+      remainingIssues.length === 0
+    ) {
+      return null;
+    }
+
+    return { remainingSeconds, issues: remainingIssues };
+  }
+
+  /**
+   * Reserve a day's allocations out of the seconds to log, in order, until
+   * they run out. Issues the user already logged time on that day are left
+   * out, their time being part of what was logged
+   */
+  static reserveAllocations(
+    allocations: AllocatedTime[],
+    loggedSeconds: Record<string, number>,
+    totalSeconds: number
+  ): { reserved: AllocatedTime[]; remainingSeconds: number } {
+    const reserved: AllocatedTime[] = [];
+    let remainingSeconds = totalSeconds;
+
+    for (const allocation of allocations) {
+      const timeInSeconds = Math.min(
+        allocation.timeInSeconds,
+        remainingSeconds
+      );
+      if (loggedSeconds[allocation.issueKey] || timeInSeconds < 60) {
+        continue;
+      }
+
+      reserved.push({ issueKey: allocation.issueKey, timeInSeconds });
+      remainingSeconds -= timeInSeconds;
+    }
+
+    return { reserved, remainingSeconds };
+  }
+
+  /**
+   * Lay a day's worklogs out back-to-back from the start of the workday so they
+   * never overlap, or from the end of the worklogs already logged that day
+   * when it is later. The lunch break is taken at the first gap between
+   * worklogs at or after the lunch start, so a worklog is never split in two
+   */
+  static planWorklogSlots(
+    date: Date,
+    durations: number[],
+    layout: WorkdayLayout,
+    loggedUntil?: Date
+  ): Date[] {
+    const start = TimeUtils.getZonedTime(
+      date,
+      TimeUtils.parseTimeOfDay(layout.start),
+      layout.timezone
+    );
+    const lunchSeconds = (layout.lunchMinutes ?? 0) * 60;
+    const lunchOffset =
+      layout.lunchStart && lunchSeconds > 0
+        ? (TimeUtils.parseTimeOfDay(layout.lunchStart) -
+            TimeUtils.parseTimeOfDay(layout.start)) *
+          60
+        : NaN;
+
+    let offset = loggedUntil
+      ? Math.max((loggedUntil.getTime() - start.getTime()) / 1000, 0)
+      : 0;
+    // Worklogs already running past the lunch start leave no gap for it
+    let lunchTaken =
+      isNaN(lunchOffset) || lunchOffset <= 0 || offset > lunchOffset;
+
+    return durations.map((duration) => {
+      if (!lunchTaken && offset >= lunchOffset) {
+        offset += lunchSeconds;
+        lunchTaken = true;
+      }
+
+      const started = new Date(start.getTime() + offset * 1000);
+      offset += duration;
+      return started;
+    });
+  }
 }
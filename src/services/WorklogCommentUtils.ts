@@ -0,0 +1,70 @@
+// Business logic for worklog comments - pure functions for easy testing
+
+export interface WorklogCommentValues {
+  key: string;
+  summary: string;
+  status?: string;
+  date: Date;
+}
+
+export interface AdfNode {
+  type: string;
+  version?: number;
+  text?: string;
+  content?: AdfNode[];
+}
+
+export const WORKLOG_COMMENT_PLACEHOLDERS = [
+  "{key}",
+  "{summary}",
+  "{status}",
+  "{date}",
+];
+
+export class WorklogCommentUtils {
+  /**
+   * Fill the {key}, {summary}, {status} and {date} placeholders of a comment
+   * template. Unknown placeholders are left untouched
+   */
+  static renderTemplate(
+    template: string,
+    values: WorklogCommentValues
+  ): string {
+    const replacements: Record<string, string> = {
+      key: values.key,
+      summary: values.summary,
+      status: values.status ?? "",
+      date: WorklogCommentUtils.formatDate(values.date),
+    };
+
+    return template
+      .replace(/\{(\w+)\}/g, (match: string, name: string) =>
+        name in replacements ? replacements[name] : match
+      )
+      .trim();
+  }
+
+  /**
+   * Convert plain text to an Atlassian Document Format document, one
+   * paragraph per line
+   */
+  static toAdf(text: string): AdfNode {
+    return {
+      type: "doc",
+      version: 1,
+      content: text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .map((line) => ({
+          type: "paragraph",
+          content: line ? [{ type: "text", text: line }] : [],
+        })),
+    };
+  }
+
+  static formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
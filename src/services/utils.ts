@@ -1,5 +1,5 @@
 // Utility functions using TimeUtils business logic
-import { TimeUtils } from "./TimeUtils";
+import { DistributionStrategy, TimeUtils } from "./TimeUtils";
 
 export function convertSeconds(totalSeconds: number): string {
   return TimeUtils.formatTimeString(totalSeconds);
@@ -24,8 +24,16 @@ export interface TimeDistribution {
 export function distributeTime(
   totalSeconds: number,
   numIssues: number,
-  method: "evenly" | "fairly" = "evenly"
+  method: DistributionStrategy = "evenly",
+  weights?: number[]
 ): number[] {
+  if (method === "weighted") {
+    const result = TimeUtils.distributeTimeWeighted(
+      totalSeconds,
+      weights ?? new Array(numIssues).fill(1)
+    );
+    return result.weightedDistribution || [];
+  }
   if (method === "fairly") {
     const result = TimeUtils.distributeTimeFairly(totalSeconds, numIssues);
     return result.fairDistribution || [];
@@ -34,6 +42,15 @@ export function distributeTime(
   return result.evenDistribution || [];
 }
 
+// Drain an async iterator (e.g. the paged Jira calls) into an array
+export async function collectAll<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    result.push(item);
+  }
+  return result;
+}
+
 // String formatting utility (preserving legacy String.prototype.format)
 export function formatString(template: string, ...args: string[]): string {
   return template.replace(/{(\d+)}/g, (match: string, number: number) => {
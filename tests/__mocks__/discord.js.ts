@@ -93,6 +93,8 @@ const mockSlashCommandBuilder = {
   addIntegerOption: jest.fn().mockReturnThis(),
   addUserOption: jest.fn().mockReturnThis(),
   addBooleanOption: jest.fn().mockReturnThis(),
+  addSubcommand: jest.fn().mockReturnThis(),
+  addRoleOption: jest.fn().mockReturnThis(),
   setRequired: jest.fn().mockReturnThis(),
   setChoices: jest.fn().mockReturnThis(),
   setContexts: jest.fn().mockReturnThis(),
@@ -0,0 +1,226 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+} from "discord.js";
+import { execute, data, name } from "../../src/commands/admin";
+import { GuildSettings } from "../../src/db/models/GuildSettings";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/services/ServiceContainer");
+jest.mock("../../src/db/models/GuildSettings");
+
+// Unmock SlashCommandBuilder for this test so we get actual command data
+jest.unmock("discord.js");
+
+describe("Admin Command", () => {
+  let mockInteraction: any;
+  let mockServices: any;
+  let mockSettings: any;
+
+  const runSubcommand = async (
+    subcommand: string,
+    values: Record<string, string | number | boolean> = {}
+  ) => {
+    mockInteraction.options.getSubcommand.mockReturnValue(subcommand);
+    mockInteraction.options.get.mockImplementation((option: string) =>
+      values[option] !== undefined ? { value: values[option] } : null
+    );
+
+    await execute(mockInteraction);
+
+    return mockInteraction.reply.mock.calls[0][0];
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const containerSetup = createMockServiceContainer();
+    mockServices = containerSetup.mockServices;
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(
+      containerSetup.mockContainer
+    );
+
+    mockInteraction = createMockInteraction({
+      memberPermissions: {
+        has: jest.fn().mockReturnValue(true),
+      },
+      options: {
+        get: jest.fn(),
+        getSubcommand: jest.fn(),
+      },
+    });
+
+    mockSettings = {
+      allowedHosts: null,
+      defaultDailyHours: null,
+      maxDailyHours: null,
+      requireWorklogComment: false,
+      forcedJql: null,
+      autoLoggingDisabled: false,
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    (GuildSettings.findOrCreate as jest.Mock).mockResolvedValue([
+      mockSettings,
+      false,
+    ]);
+    (GuildSettings.findForGuild as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe("Command Data", () => {
+    it("should be a server-only command for server managers", () => {
+      const commandData = data.toJSON();
+
+      expect(name).toBe("admin");
+      expect(commandData.contexts).toEqual([InteractionContextType.Guild]);
+      expect(commandData.default_member_permissions).toBe(
+        PermissionFlagsBits.ManageGuild.toString()
+      );
+      expect(commandData.options?.map((option) => option.name)).toEqual([
+        "show",
+        "hosts",
+        "hours",
+        "comments",
+        "jql",
+        "autolog",
+      ]);
+    });
+  });
+
+  describe("Command Execution", () => {
+    it("should deny members without Manage Server", async () => {
+      mockInteraction.memberPermissions.has.mockReturnValue(false);
+
+      const replyCall = await runSubcommand("comments", { required: true });
+
+      expect(mockInteraction.memberPermissions.has).toHaveBeenCalledWith(
+        PermissionFlagsBits.ManageGuild
+      );
+      expect(replyCall.embeds[0].data.title).toBe("🚫 Access Denied");
+      expect(replyCall.flags).toBe(MessageFlags.Ephemeral);
+      expect(GuildSettings.findOrCreate).not.toHaveBeenCalled();
+    });
+
+    it("should deny use outside a server", async () => {
+      mockInteraction.guildId = null;
+
+      const replyCall = await runSubcommand("show");
+
+      expect(replyCall.embeds[0].data.title).toBe("🚫 Access Denied");
+      expect(GuildSettings.findForGuild).not.toHaveBeenCalled();
+    });
+
+    it("should show the server policies without creating them", async () => {
+      const replyCall = await runSubcommand("show");
+
+      expect(GuildSettings.findForGuild).toHaveBeenCalledWith(
+        "123456789012345678"
+      );
+      expect(GuildSettings.findOrCreate).not.toHaveBeenCalled();
+      expect(replyCall.embeds[0].data.title).toBe("🛡️ Server Policies");
+      expect(replyCall.embeds[0].data.description).toContain(
+        "Allowed hosts: any"
+      );
+    });
+
+    it("should restrict the allowed hosts", async () => {
+      const replyCall = await runSubcommand("hosts", {
+        hosts: "https://Acme.atlassian.net, *.acme.com",
+      });
+
+      expect(GuildSettings.findOrCreate).toHaveBeenCalledWith({
+        where: { guildId: "123456789012345678" },
+        defaults: { guildId: "123456789012345678" },
+      });
+      expect(mockSettings.allowedHosts).toBe("acme.atlassian.net,*.acme.com");
+      expect(mockSettings.save).toHaveBeenCalled();
+      expect(replyCall.embeds[0].data.title).toBe("🛡️ Server Policies Updated");
+      expect(replyCall.embeds[0].data.description).toContain(
+        "Allowed hosts: acme.atlassian.net, *.acme.com"
+      );
+    });
+
+    it("should allow any host when no hosts are given", async () => {
+      mockSettings.allowedHosts = "acme.atlassian.net";
+
+      await runSubcommand("hosts");
+
+      expect(mockSettings.allowedHosts).toBeNull();
+    });
+
+    it("should reject invalid hosts", async () => {
+      const replyCall = await runSubcommand("hosts", { hosts: "bad_host!" });
+
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+      expect(mockSettings.save).not.toHaveBeenCalled();
+    });
+
+    it("should set and clear the default and maximum daily hours", async () => {
+      await runSubcommand("hours", { default: 6, max: 8 });
+
+      expect(mockSettings.defaultDailyHours).toBe(6);
+      expect(mockSettings.maxDailyHours).toBe(8);
+
+      mockInteraction.reply.mockClear();
+      await runSubcommand("hours", { max: 0 });
+
+      expect(mockSettings.defaultDailyHours).toBe(6);
+      expect(mockSettings.maxDailyHours).toBeNull();
+    });
+
+    it("should reject a default above the maximum", async () => {
+      mockSettings.maxDailyHours = 6;
+
+      const replyCall = await runSubcommand("hours", { default: 8 });
+
+      expect(replyCall.embeds[0].data).toMatchObject({
+        title: "❌ Validation Error",
+        description: "Default daily hours cannot be more than the maximum",
+      });
+      expect(mockSettings.save).not.toHaveBeenCalled();
+    });
+
+    it("should require worklog comments", async () => {
+      await runSubcommand("comments", { required: true });
+
+      expect(mockSettings.requireWorklogComment).toBe(true);
+      expect(mockSettings.save).toHaveBeenCalled();
+    });
+
+    it("should force and remove the JQL", async () => {
+      await runSubcommand("jql", { query: "project = OPS" });
+      expect(mockSettings.forcedJql).toBe("project = OPS");
+
+      await runSubcommand("jql");
+      expect(mockSettings.forcedJql).toBeNull();
+    });
+
+    it("should turn auto-logging off and on", async () => {
+      await runSubcommand("autolog", { enabled: false });
+      expect(mockSettings.autoLoggingDisabled).toBe(true);
+
+      await runSubcommand("autolog", { enabled: true });
+      expect(mockSettings.autoLoggingDisabled).toBe(false);
+    });
+
+    it("should respect rate limits", async () => {
+      mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+        throw new Error("Too many requests");
+      });
+
+      const replyCall = await runSubcommand("show");
+
+      expect(
+        mockServices.IRateLimitService.checkRateLimit
+      ).toHaveBeenCalledWith("987654321098765432", "admin");
+      expect(replyCall.content).toContain("Rate Limited");
+      expect(GuildSettings.findForGuild).not.toHaveBeenCalled();
+    });
+  });
+});
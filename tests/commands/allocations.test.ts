@@ -0,0 +1,213 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { InteractionContextType } from "discord.js";
+import { data, execute, name } from "../../src/commands/allocations";
+import { Allocation } from "../../src/db/models/Allocation";
+import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/services/ServiceContainer");
+jest.mock("../../src/db/models/JiraConfig");
+jest.mock("../../src/db/models/Allocation", () => ({
+  ...jest.requireActual("../../src/db/models/Allocation"),
+  Allocation: {
+    findOne: jest.fn(),
+    findAll: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    destroy: jest.fn(),
+  },
+}));
+
+// Unmock SlashCommandBuilder for this test so we get actual command data
+jest.unmock("discord.js");
+
+const mockAllocation = Allocation as jest.Mocked<typeof Allocation>;
+
+describe("Allocations Command", () => {
+  let mockInteraction: any;
+  let mockServices: any;
+
+  const owner = { userId: "987654321098765432", profile: "default" };
+
+  const runSubcommand = async (
+    subcommand: string,
+    values: Record<string, unknown> = {}
+  ) => {
+    mockInteraction.options.getSubcommand.mockReturnValue(subcommand);
+    mockInteraction.options.get.mockImplementation((option: string) =>
+      values[option] !== undefined ? { value: values[option] } : null
+    );
+
+    await execute(mockInteraction);
+
+    return mockInteraction.reply.mock.calls[0][0].embeds?.[0]?.toJSON();
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const containerSetup = createMockServiceContainer();
+    mockServices = containerSetup.mockServices;
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(
+      containerSetup.mockContainer
+    );
+
+    mockInteraction = createMockInteraction({
+      options: {
+        get: jest.fn(),
+        getSubcommand: jest.fn(),
+      },
+    });
+
+    (JiraConfig.findProfile as jest.Mock).mockResolvedValue({
+      profile: "default",
+      dailyHours: 8,
+    });
+    mockAllocation.findOne.mockResolvedValue(null);
+    mockAllocation.findAll.mockResolvedValue([]);
+    mockAllocation.count.mockResolvedValue(0);
+    mockAllocation.create.mockImplementation(async (values: any) => values);
+    mockAllocation.destroy.mockResolvedValue(1);
+  });
+
+  it("should have every subcommand", () => {
+    const commandData = data.toJSON();
+
+    expect(name).toBe("allocations");
+    expect(commandData.contexts).toEqual([
+      InteractionContextType.Guild,
+      InteractionContextType.BotDM,
+    ]);
+    expect(commandData.options?.map((option) => option.name)).toEqual([
+      "add",
+      "remove",
+      "list",
+    ]);
+  });
+
+  describe("add", () => {
+    it("should reserve time on the given weekdays", async () => {
+      const embed = await runSubcommand("add", {
+        issue: "meet-1",
+        minutes: 60,
+        days: "mon",
+      });
+
+      expect(mockAllocation.create).toHaveBeenCalledWith({
+        ...owner,
+        issueKey: "MEET-1",
+        timeInSeconds: 3600,
+        days: "1",
+      });
+      expect(embed.title).toBe("📌 Allocation Added");
+      expect(embed.description).toContain("• `MEET-1` 1h on Mon");
+      expect(embed.description).toContain("out of your 8 daily hours");
+    });
+
+    it("should update an existing allocation", async () => {
+      const existing = {
+        update: jest.fn(async (values) => values),
+      };
+      mockAllocation.findOne.mockResolvedValue(existing as any);
+
+      const embed = await runSubcommand("add", {
+        issue: "OPS-12",
+        minutes: 15,
+      });
+
+      expect(existing.update).toHaveBeenCalledWith({
+        ...owner,
+        issueKey: "OPS-12",
+        timeInSeconds: 900,
+        days: null,
+      });
+      expect(mockAllocation.create).not.toHaveBeenCalled();
+      expect(embed.title).toBe("📌 Allocation Updated");
+      expect(embed.description).toContain("• `OPS-12` 15m every work day");
+    });
+
+    it("should limit how many allocations a profile has", async () => {
+      mockAllocation.count.mockResolvedValue(10);
+
+      const embed = await runSubcommand("add", {
+        issue: "OPS-12",
+        minutes: 15,
+      });
+
+      expect(embed.title).toBe("❌ Validation Error");
+      expect(embed.description).toBe(
+        "You can have at most 10 allocations per profile"
+      );
+      expect(mockAllocation.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid weekdays", async () => {
+      const embed = await runSubcommand("add", {
+        issue: "OPS-12",
+        minutes: 15,
+        days: "someday",
+      });
+
+      expect(embed.title).toBe("❌ Validation Error");
+      expect(mockAllocation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should remove an allocation", async () => {
+    const embed = await runSubcommand("remove", { issue: "ops-12" });
+
+    expect(mockAllocation.destroy).toHaveBeenCalledWith({
+      where: { ...owner, issueKey: "OPS-12" },
+    });
+    expect(embed.description).toBe("Time is no longer reserved for `OPS-12`.");
+  });
+
+  it("should list the allocations of a profile", async () => {
+    (JiraConfig.findProfile as jest.Mock).mockResolvedValue({
+      profile: "client",
+    });
+    mockAllocation.findAll.mockResolvedValue([
+      { issueKey: "OPS-12", timeInSeconds: 900, days: null },
+      { issueKey: "MEET-1", timeInSeconds: 3600, days: "1,3" },
+    ] as any);
+
+    const embed = await runSubcommand("list", { profile: "client" });
+
+    expect(mockAllocation.findAll).toHaveBeenCalledWith({
+      where: { ...owner, profile: "client" },
+      order: [["id", "ASC"]],
+    });
+    expect(embed.description).toBe(
+      ["• `OPS-12` 15m every work day", "• `MEET-1` 1h on Mon, Wed"].join("\n")
+    );
+    expect(embed.fields).toEqual([
+      { name: "📁 Profile", value: "`client`", inline: true },
+    ]);
+  });
+
+  it("should need a configuration", async () => {
+    (JiraConfig.findProfile as jest.Mock).mockResolvedValue(null);
+
+    const embed = await runSubcommand("list");
+
+    expect(embed.title).toBe("⚠️ Configuration Not Found");
+  });
+
+  it("should respect rate limits", async () => {
+    mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+      throw new Error("Too many requests");
+    });
+
+    await execute(mockInteraction);
+
+    expect(mockInteraction.reply.mock.calls[0][0].content).toContain(
+      "Rate Limited"
+    );
+    expect(mockAllocation.findAll).not.toHaveBeenCalled();
+  });
+});
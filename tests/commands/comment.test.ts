@@ -0,0 +1,171 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { MessageFlags } from "discord.js";
+import { execute, data } from "../../src/commands/comment";
+import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/services/ServiceContainer");
+jest.mock("../../src/db/models/JiraConfig");
+
+// Unmock SlashCommandBuilder for this test so we get actual command data
+jest.unmock("discord.js");
+
+describe("Comment Command", () => {
+  let mockInteraction: any;
+  let mockContainer: any;
+  let mockServices: any;
+
+  const mockOptions = (values: Record<string, string | boolean>) => {
+    mockInteraction.options.get.mockImplementation((name: string) =>
+      values[name] !== undefined ? { value: values[name] } : null
+    );
+  };
+
+  const createConfig = (overrides: Record<string, unknown> = {}) => ({
+    guildId: "123456789012345678",
+    userId: "987654321098765432",
+    worklogCommentTemplate: null,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockInteraction = createMockInteraction();
+    const mockContainerSetup = createMockServiceContainer();
+    mockContainer = mockContainerSetup.mockContainer;
+    mockServices = mockContainerSetup.mockServices;
+
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(mockContainer);
+
+    jest.clearAllMocks();
+  });
+
+  describe("Command Data", () => {
+    it("should have correct command configuration", () => {
+      const commandData = data.toJSON();
+      expect(commandData.name).toBe("comment");
+      expect(commandData.description).toBe(
+        "Configure the comment attached to your worklogs."
+      );
+      expect(commandData.options).toHaveLength(3);
+
+      const [templateOption, clearOption, profileOption] = commandData.options!;
+      expect(templateOption.name).toBe("template");
+      expect(templateOption.required).toBe(false);
+      expect(clearOption.name).toBe("clear");
+      expect(clearOption.required).toBe(false);
+      expect(profileOption.name).toBe("profile");
+      expect(profileOption.required).toBe(false);
+    });
+  });
+
+  describe("Command Execution", () => {
+    it("should save a comment template", async () => {
+      const mockConfig = createConfig();
+      mockOptions({ template: " {key}: {summary} " });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).toHaveBeenCalledWith(
+        mockInteraction.user.id,
+        undefined
+      );
+      expect(mockConfig.worklogCommentTemplate).toBe("{key}: {summary}");
+      expect(mockConfig.save).toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("💬 Worklog Comment Updated");
+      expect(replyCall.embeds[0].data.fields[0].value).toContain(
+        "{key}: {summary}"
+      );
+      expect(replyCall.flags).toBe(MessageFlags.Ephemeral);
+    });
+
+    it("should clear the comment template", async () => {
+      const mockConfig = createConfig({ worklogCommentTemplate: "{summary}" });
+      mockOptions({ clear: true });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig.worklogCommentTemplate).toBeNull();
+      expect(mockConfig.save).toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.description).toContain(
+        "without a comment"
+      );
+    });
+
+    it("should show the current template when no options are given", async () => {
+      const mockConfig = createConfig({ worklogCommentTemplate: "{summary}" });
+      mockOptions({});
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig.save).not.toHaveBeenCalled();
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("💬 Worklog Comment");
+    });
+
+    it("should reject an empty template", async () => {
+      mockOptions({ template: "   " });
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).not.toHaveBeenCalled();
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+      expect(replyCall.embeds[0].data.description).toContain(
+        "Worklog comment cannot be empty"
+      );
+    });
+
+    it("should return error if no config exists", async () => {
+      mockOptions({ template: "{summary}" });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(null);
+
+      await execute(mockInteraction);
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("⚠️ Configuration Not Found");
+    });
+
+    it("should reply when rate limited", async () => {
+      mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+        throw new Error("Rate limit exceeded");
+      });
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.reply).toHaveBeenCalledWith({
+        content: "⏱️ **Rate Limited**: Rate limit exceeded",
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it("should handle database errors gracefully", async () => {
+      mockOptions({ template: "{summary}" });
+      (JiraConfig.findProfile as jest.Mock).mockRejectedValue(
+        new Error("Database connection error")
+      );
+
+      await expect(execute(mockInteraction)).resolves.not.toThrow();
+
+      expect(mockInteraction.reply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: expect.stringMatching(
+            /^❌ \*\*Unexpected Error\*\*.*Error ID:/s
+          ),
+        })
+      );
+    });
+  });
+});
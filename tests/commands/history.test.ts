@@ -0,0 +1,191 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { InteractionContextType } from "discord.js";
+import { autocomplete, data, execute, name } from "../../src/commands/history";
+import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { WorklogEntry } from "../../src/db/models/WorklogEntry";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/services/ServiceContainer");
+jest.mock("../../src/db/models/JiraConfig");
+jest.mock("../../src/db/models/WorklogEntry", () => ({
+  ...jest.requireActual("../../src/db/models/WorklogEntry"),
+  WorklogEntry: { findInRange: jest.fn() },
+}));
+
+// Unmock SlashCommandBuilder for this test so we get actual command data
+jest.unmock("discord.js");
+
+const mockWorklogEntry = WorklogEntry as jest.Mocked<typeof WorklogEntry>;
+
+describe("History Command", () => {
+  let mockInteraction: any;
+  let mockServices: any;
+
+  const runCommand = async (values: Record<string, unknown> = {}) => {
+    mockInteraction.options.get.mockImplementation((option: string) =>
+      values[option] !== undefined ? { value: values[option] } : null
+    );
+
+    await execute(mockInteraction);
+
+    return mockInteraction.reply.mock.calls[0][0];
+  };
+
+  const createEntry = (overrides: Record<string, unknown> = {}) => ({
+    profile: "default",
+    issueKey: "PROJ-1",
+    date: "2025-08-04",
+    timeInSeconds: 7200,
+    source: "scheduled",
+    status: "posted",
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2025-08-05T10:00:00.000Z")); // Tuesday
+
+    const containerSetup = createMockServiceContainer();
+    mockServices = containerSetup.mockServices;
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(
+      containerSetup.mockContainer
+    );
+
+    mockInteraction = createMockInteraction({
+      options: {
+        get: jest.fn(),
+      },
+    });
+
+    (JiraConfig.findProfile as jest.Mock).mockResolvedValue({
+      timezone: "Etc/UTC",
+    });
+    mockWorklogEntry.findInRange.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should have every option", () => {
+    const commandData = data.toJSON();
+
+    expect(name).toBe("history");
+    expect(commandData.contexts).toEqual([
+      InteractionContextType.Guild,
+      InteractionContextType.BotDM,
+    ]);
+    expect(commandData.options?.map((option) => option.name)).toEqual([
+      "from",
+      "to",
+      "status",
+      "profile",
+    ]);
+  });
+
+  it("should list the last week by day", async () => {
+    mockWorklogEntry.findInRange.mockResolvedValue([
+      createEntry({ date: "2025-08-01", issueKey: "PROJ-3", source: "manual" }),
+      createEntry(),
+      createEntry({
+        issueKey: "PROJ-2",
+        timeInSeconds: 1800,
+        status: "failed",
+        profile: "acme",
+      }),
+      createEntry({ issueKey: "PROJ-4", status: "deleted" }),
+    ] as any);
+
+    const reply = await runCommand();
+
+    expect(mockWorklogEntry.findInRange).toHaveBeenCalledWith(
+      "987654321098765432",
+      "2025-07-30",
+      "2025-08-05",
+      {}
+    );
+    const embed = reply.embeds[0].toJSON();
+    expect(embed.title).toBe("📜 Worklog History 2025-07-30 to 2025-08-05");
+    expect(embed.description).toBe(
+      [
+        "**2025-08-01**",
+        "✅ `PROJ-3` 2h · manual",
+        "**2025-08-04**",
+        "✅ `PROJ-1` 2h · scheduled",
+        "❌ `PROJ-2` 30m · scheduled [acme]",
+        "🗑️ `PROJ-4` 2h · scheduled",
+      ].join("\n")
+    );
+    expect(embed.footer?.text).toBe("4h posted, 1 failed");
+  });
+
+  it("should filter by status and profile", async () => {
+    const reply = await runCommand({
+      from: "2025-08-04",
+      to: "2025-08-04",
+      status: "failed",
+      profile: "Acme",
+    });
+
+    expect(mockWorklogEntry.findInRange).toHaveBeenCalledWith(
+      "987654321098765432",
+      "2025-08-04",
+      "2025-08-04",
+      { status: "failed", profile: "acme" }
+    );
+    const embed = reply.embeds[0].toJSON();
+    expect(embed.title).toBe("📜 Worklog History 2025-08-04");
+    expect(embed.description).toBe("The bot posted no worklogs in this range.");
+  });
+
+  it("should cut long histories short", async () => {
+    mockWorklogEntry.findInRange.mockResolvedValue(
+      Array.from({ length: 50 }, () => createEntry()) as any
+    );
+
+    const reply = await runCommand();
+
+    expect(reply.embeds[0].toJSON().description).toContain(
+      "…and 11 more lines"
+    );
+  });
+
+  it("should reject ranges over 31 days", async () => {
+    const reply = await runCommand({ from: "2025-06-01" });
+
+    expect(reply.embeds[0].toJSON().title).toBe("❌ Validation Error");
+    expect(mockWorklogEntry.findInRange).not.toHaveBeenCalled();
+  });
+
+  it("should suggest recent days", async () => {
+    const interaction = {
+      user: { id: "987654321098765432" },
+      options: { data: [{ name: "from", focused: true, value: "" }] },
+      respond: jest.fn().mockResolvedValue(undefined),
+    };
+
+    await autocomplete(interaction as any);
+
+    expect(interaction.respond.mock.calls[0][0][0]).toEqual({
+      name: "Mon Aug 04 2025 (yesterday)",
+      value: "2025-08-04",
+    });
+  });
+
+  it("should respect rate limits", async () => {
+    mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+      throw new Error("Too many requests");
+    });
+
+    const reply = await runCommand();
+
+    expect(reply.content).toContain("Rate Limited");
+    expect(mockWorklogEntry.findInRange).not.toHaveBeenCalled();
+  });
+});
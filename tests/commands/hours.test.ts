@@ -1,7 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { MessageFlags } from "discord.js";
+import { InteractionContextType, MessageFlags } from "discord.js";
 import { execute, data } from "../../src/commands/hours";
+import { GuildSettings } from "../../src/db/models/GuildSettings";
 import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { UserSettings } from "../../src/db/models/UserSettings";
 import { ServiceContainer } from "../../src/services/ServiceContainer";
 import {
   createMockInteraction,
@@ -11,6 +13,8 @@ import {
 // Mock dependencies
 jest.mock("../../src/services/ServiceContainer");
 jest.mock("../../src/db/models/JiraConfig");
+jest.mock("../../src/db/models/UserSettings");
+jest.mock("../../src/db/models/GuildSettings");
 
 // Unmock SlashCommandBuilder for this test so we get actual command data
 jest.unmock("discord.js");
@@ -19,6 +23,13 @@ describe("Hours Command", () => {
   let mockInteraction: any;
   let mockContainer: any;
   let mockServices: any;
+  let mockSettings: any;
+
+  const mockOptions = (values: Record<string, string | number>) => {
+    mockInteraction.options.get.mockImplementation((name: string) =>
+      values[name] !== undefined ? { value: values[name] } : null
+    );
+  };
 
   beforeEach(() => {
     mockInteraction = createMockInteraction();
@@ -29,6 +40,16 @@ describe("Hours Command", () => {
     (ServiceContainer.getInstance as jest.Mock).mockReturnValue(mockContainer);
 
     jest.clearAllMocks();
+
+    mockSettings = {
+      dailyHoursCap: null,
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    (UserSettings.findOrCreate as jest.Mock).mockResolvedValue([
+      mockSettings,
+      false,
+    ]);
+    (GuildSettings.findForGuild as jest.Mock).mockResolvedValue(null);
   });
 
   describe("Command Data", () => {
@@ -43,7 +64,11 @@ describe("Hours Command", () => {
         "Configure your daily hours for time logging."
       );
       expect(commandData.options).toBeDefined();
-      expect(commandData.options).toHaveLength(1);
+      expect(commandData.contexts).toEqual([
+        InteractionContextType.Guild,
+        InteractionContextType.BotDM,
+      ]);
+      expect(commandData.options).toHaveLength(5);
 
       if (commandData.options && commandData.options.length > 0) {
         const hoursOption = commandData.options[0];
@@ -51,8 +76,28 @@ describe("Hours Command", () => {
         expect(hoursOption.description).toBe(
           "The number of daily hours to distribute across tickets."
         );
-        expect(hoursOption.required).toBe(true);
+        expect(hoursOption.required).toBe(false);
         expect(hoursOption.type).toBe(4); // INTEGER type
+
+        const distributionOption = commandData.options[1];
+        expect(distributionOption.name).toBe("distribution");
+        expect(distributionOption.required).toBe(false);
+        expect(distributionOption.type).toBe(3); // STRING type
+
+        const capOption = commandData.options[2];
+        expect(capOption.name).toBe("cap");
+        expect(capOption.required).toBe(false);
+        expect(capOption.type).toBe(4); // INTEGER type
+
+        const partialDaysOption = commandData.options[3];
+        expect(partialDaysOption.name).toBe("partial-days");
+        expect(partialDaysOption.required).toBe(false);
+        expect(partialDaysOption.type).toBe(3); // STRING type
+
+        const profileOption = commandData.options[4];
+        expect(profileOption.name).toBe("profile");
+        expect(profileOption.required).toBe(false);
+        expect(profileOption.type).toBe(3); // STRING type
       }
     });
 
@@ -75,17 +120,15 @@ describe("Hours Command", () => {
         save: jest.fn().mockResolvedValue(undefined),
       };
 
-      mockInteraction.options.get.mockReturnValue({ value: 6 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(mockConfig);
+      mockOptions({ hours: 6 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
 
       await execute(mockInteraction);
 
-      expect(JiraConfig.findOne).toHaveBeenCalledWith({
-        where: {
-          guildId: mockInteraction.guildId,
-          userId: mockInteraction.user.id,
-        },
-      });
+      expect(JiraConfig.findProfile).toHaveBeenCalledWith(
+        mockInteraction.user.id,
+        undefined
+      );
       expect(mockConfig.dailyHours).toBe(6);
       expect(mockConfig.save).toHaveBeenCalled();
 
@@ -99,8 +142,8 @@ describe("Hours Command", () => {
     });
 
     it("should return error if no config exists", async () => {
-      mockInteraction.options.get.mockReturnValue({ value: 6 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(null);
+      mockOptions({ hours: 6 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(null);
 
       await execute(mockInteraction);
 
@@ -126,8 +169,8 @@ describe("Hours Command", () => {
         save: jest.fn().mockResolvedValue(undefined),
       };
 
-      mockInteraction.options.get.mockReturnValue({ value: 10 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(mockConfig);
+      mockOptions({ hours: 10 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
 
       await execute(mockInteraction);
 
@@ -151,8 +194,8 @@ describe("Hours Command", () => {
         save: jest.fn().mockResolvedValue(undefined),
       };
 
-      mockInteraction.options.get.mockReturnValue({ value: 4 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(mockConfig);
+      mockOptions({ hours: 4 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
 
       await execute(mockInteraction);
 
@@ -165,6 +208,59 @@ describe("Hours Command", () => {
       expect(replyCall4.flags).toBe(MessageFlags.Ephemeral);
     });
 
+    it("should reject hours above the server maximum", async () => {
+      const mockConfig = {
+        guildId: "123456789012345678",
+        userId: "987654321098765432",
+        dailyHours: 8,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      mockOptions({ hours: 10 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+      (GuildSettings.findForGuild as jest.Mock).mockResolvedValue({
+        maxDailyHours: 8,
+      });
+
+      await execute(mockInteraction);
+
+      expect(GuildSettings.findForGuild).toHaveBeenCalledWith(
+        mockInteraction.guildId
+      );
+      expect(mockConfig.dailyHours).toBe(8);
+      expect(mockConfig.save).not.toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+      expect(replyCall.embeds[0].data.description).toBe(
+        "This server allows at most 8 daily hours."
+      );
+    });
+
+    it("should follow the notification guild policies in DMs", async () => {
+      const mockConfig = {
+        guildId: "111111111111111111",
+        userId: "987654321098765432",
+        dailyHours: 8,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      mockInteraction.guildId = null;
+      mockOptions({ hours: 6 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+      (GuildSettings.findForGuild as jest.Mock).mockResolvedValue({
+        maxDailyHours: 6,
+      });
+
+      await execute(mockInteraction);
+
+      expect(GuildSettings.findForGuild).toHaveBeenCalledWith(
+        "111111111111111111"
+      );
+      expect(mockConfig.dailyHours).toBe(6);
+      expect(mockConfig.save).toHaveBeenCalled();
+    });
+
     it("should handle boundary values correctly", async () => {
       const mockConfig = {
         guildId: "123456789012345678",
@@ -177,8 +273,8 @@ describe("Hours Command", () => {
       };
 
       // Test minimum value (1 hour)
-      mockInteraction.options.get.mockReturnValue({ value: 1 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(mockConfig);
+      mockOptions({ hours: 1 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
 
       await execute(mockInteraction);
 
@@ -195,8 +291,8 @@ describe("Hours Command", () => {
       mockConfig.dailyHours = 8; // Reset to default
 
       // Test maximum value (24 hours)
-      mockInteraction.options.get.mockReturnValue({ value: 24 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(mockConfig);
+      mockOptions({ hours: 24 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
 
       await execute(mockInteraction);
 
@@ -220,8 +316,8 @@ describe("Hours Command", () => {
         save: jest.fn().mockRejectedValue(new Error("Database error")),
       };
 
-      mockInteraction.options.get.mockReturnValue({ value: 6 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(mockConfig);
+      mockOptions({ hours: 6 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
 
       await expect(execute(mockInteraction)).resolves.not.toThrow();
 
@@ -237,19 +333,17 @@ describe("Hours Command", () => {
     });
 
     it("should handle database lookup errors gracefully", async () => {
-      mockInteraction.options.get.mockReturnValue({ value: 6 });
-      (JiraConfig.findOne as jest.Mock).mockRejectedValue(
+      mockOptions({ hours: 6 });
+      (JiraConfig.findProfile as jest.Mock).mockRejectedValue(
         new Error("Database connection error")
       );
 
       await expect(execute(mockInteraction)).resolves.not.toThrow();
 
-      expect(JiraConfig.findOne).toHaveBeenCalledWith({
-        where: {
-          guildId: mockInteraction.guildId,
-          userId: mockInteraction.user.id,
-        },
-      });
+      expect(JiraConfig.findProfile).toHaveBeenCalledWith(
+        mockInteraction.user.id,
+        undefined
+      );
       expect(mockInteraction.reply).toHaveBeenCalledWith(
         expect.objectContaining({
           content: expect.stringMatching(
@@ -261,8 +355,8 @@ describe("Hours Command", () => {
     });
 
     it("should always log command execution even when config is not found", async () => {
-      mockInteraction.options.get.mockReturnValue({ value: 6 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(null);
+      mockOptions({ hours: 6 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(null);
 
       await execute(mockInteraction);
 
@@ -286,14 +380,191 @@ describe("Hours Command", () => {
         save: jest.fn().mockResolvedValue(undefined),
       };
 
-      mockInteraction.options.get.mockReturnValue({ value: 12 });
-      (JiraConfig.findOne as jest.Mock).mockResolvedValue(mockConfig);
+      mockOptions({ hours: 12 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
 
       await execute(mockInteraction);
 
       // Verify that the options.get was called with correct parameters
-      expect(mockInteraction.options.get).toHaveBeenCalledWith("hours", true);
+      expect(mockInteraction.options.get).toHaveBeenCalledWith("hours", false);
       expect(mockConfig.dailyHours).toBe(12);
     });
+
+    it("should update the distribution strategy", async () => {
+      const mockConfig = {
+        guildId: "123456789012345678",
+        userId: "987654321098765432",
+        dailyHours: 8,
+        distributionStrategy: "fairly",
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      mockOptions({ distribution: "weighted" });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig.dailyHours).toBe(8);
+      expect(mockConfig.distributionStrategy).toBe("weighted");
+      expect(mockConfig.save).toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("⏰ Daily Hours Updated");
+      expect(replyCall.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            name: "⚖️ Distribution",
+            value: expect.stringContaining("`weighted`"),
+          }),
+        ])
+      );
+    });
+
+    it("should update what happens to partially logged days", async () => {
+      const mockConfig = {
+        guildId: "123456789012345678",
+        userId: "987654321098765432",
+        dailyHours: 8,
+        save: jest.fn().mockResolvedValue(undefined),
+      } as any;
+
+      mockOptions({ "partial-days": "top-up-new" });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig.partialDayMode).toBe("top-up-new");
+      expect(mockConfig.save).toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            name: "🧩 Partial Days",
+            value: expect.stringContaining("`top-up-new`"),
+          }),
+        ])
+      );
+    });
+
+    it("should show the current settings when no options are given", async () => {
+      const mockConfig = {
+        guildId: "123456789012345678",
+        userId: "987654321098765432",
+        dailyHours: 6,
+        distributionStrategy: "evenly",
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      mockOptions({});
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig.save).not.toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("⏰ Your Daily Hours");
+      expect(replyCall.embeds[0].data.description).toContain("6 hours");
+    });
+
+    it("should update the hours of a named profile", async () => {
+      const mockConfig = {
+        profile: "acme",
+        dailyHours: 8,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      mockOptions({ hours: 4, profile: "Acme" });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).toHaveBeenCalledWith(
+        mockInteraction.user.id,
+        "acme"
+      );
+      expect(mockConfig.dailyHours).toBe(4);
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: "📁 Profile", value: "`acme`" }),
+        ])
+      );
+    });
+
+    it("should name a missing profile", async () => {
+      mockOptions({ profile: "acme" });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(null);
+
+      await execute(mockInteraction);
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("⚠️ Configuration Not Found");
+      expect(replyCall.embeds[0].data.description).toContain("`acme`");
+    });
+
+    it("should reject an invalid profile name", async () => {
+      mockOptions({ profile: "no spaces" });
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).not.toHaveBeenCalled();
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+    });
+
+    it("should set the daily cap across profiles", async () => {
+      const mockConfig = {
+        dailyHours: 8,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      mockOptions({ cap: 10 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(UserSettings.findOrCreate).toHaveBeenCalledWith({
+        where: { userId: mockInteraction.user.id },
+        defaults: { userId: mockInteraction.user.id },
+      });
+      expect(mockSettings.dailyHoursCap).toBe(10);
+      expect(mockSettings.save).toHaveBeenCalled();
+      expect(mockConfig.save).not.toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("⏰ Daily Hours Updated");
+      expect(replyCall.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            name: "🧢 Daily Cap",
+            value: "10 hours across all profiles",
+          }),
+        ])
+      );
+    });
+
+    it("should remove the daily cap with 0", async () => {
+      mockSettings.dailyHoursCap = 10;
+      mockOptions({ cap: 0 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue({
+        dailyHours: 8,
+        save: jest.fn(),
+      });
+
+      await execute(mockInteraction);
+
+      expect(mockSettings.dailyHoursCap).toBeNull();
+      expect(mockSettings.save).toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: "🧢 Daily Cap", value: "No cap" }),
+        ])
+      );
+    });
   });
 });
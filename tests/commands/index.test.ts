@@ -17,8 +17,17 @@ describe("Commands Index", () => {
       expect(allCommands.time).toBeDefined();
       expect(allCommands.pause).toBeDefined();
       expect(allCommands.hours).toBeDefined();
+      expect(allCommands.schedule).toBeDefined();
+      expect(allCommands.comment).toBeDefined();
+      expect(allCommands.login).toBeDefined();
+      expect(allCommands.admin).toBeDefined();
+      expect(allCommands.report).toBeDefined();
+      expect(allCommands.timeoff).toBeDefined();
+      expect(allCommands.worklogs).toBeDefined();
+      expect(allCommands.history).toBeDefined();
+      expect(allCommands.allocations).toBeDefined();
       expect(allCommands.health).toBeDefined();
-      expect(Object.keys(allCommands)).toHaveLength(8);
+      expect(Object.keys(allCommands)).toHaveLength(17);
     });
 
     it("should have execute functions for all commands", () => {
@@ -48,9 +57,18 @@ describe("Commands Index", () => {
       expect(commands.time).toBeDefined();
       expect(commands.pause).toBeDefined();
       expect(commands.hours).toBeDefined();
+      expect(commands.schedule).toBeDefined();
+      expect(commands.comment).toBeDefined();
+      expect(commands.login).toBeDefined();
+      expect(commands.admin).toBeDefined();
+      expect(commands.report).toBeDefined();
+      expect(commands.timeoff).toBeDefined();
+      expect(commands.worklogs).toBeDefined();
+      expect(commands.history).toBeDefined();
+      expect(commands.allocations).toBeDefined();
       expect(commands.health).toBeDefined();
       expect("deploy" in commands).toBe(false);
-      expect(Object.keys(commands)).toHaveLength(7);
+      expect(Object.keys(commands)).toHaveLength(16);
     });
   });
 
@@ -70,7 +88,7 @@ describe("Commands Index", () => {
   describe("allCommandsData", () => {
     it("should contain data for all commands", () => {
       expect(Array.isArray(allCommandsData)).toBe(true);
-      expect(allCommandsData).toHaveLength(8);
+      expect(allCommandsData).toHaveLength(17);
 
       // Check that all data objects are SlashCommandBuilder instances
       allCommandsData.forEach((commandData) => {
@@ -95,7 +113,7 @@ describe("Commands Index", () => {
   describe("commandsData", () => {
     it("should contain data for user commands only", () => {
       expect(Array.isArray(commandsData)).toBe(true);
-      expect(commandsData).toHaveLength(7);
+      expect(commandsData).toHaveLength(16);
 
       // Test that it has one less command than allCommands (missing deploy)
       expect(commandsData.length).toBe(allCommandsData.length - 1);
@@ -2,6 +2,7 @@
 import { MessageFlags } from "discord.js";
 import { execute } from "../../src/commands/info";
 import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { UserSettings } from "../../src/db/models/UserSettings";
 import { InputValidator } from "../../src/services/InputValidator";
 import { ServiceContainer } from "../../src/services/ServiceContainer";
 import {
@@ -12,6 +13,8 @@ import {
 // Mock the database model
 jest.mock("../../src/db/models/JiraConfig");
 const mockJiraConfig = JiraConfig as jest.Mocked<typeof JiraConfig>;
+jest.mock("../../src/db/models/UserSettings");
+const mockUserSettings = UserSettings as jest.Mocked<typeof UserSettings>;
 
 // Mock the ServiceContainer
 jest.mock("../../src/services/ServiceContainer");
@@ -55,7 +58,7 @@ describe("Info Command", () => {
 
   describe("when user has no configuration", () => {
     beforeEach(() => {
-      mockJiraConfig.findOne.mockResolvedValue(null);
+      mockJiraConfig.findProfile.mockResolvedValue(null);
     });
 
     it("should inform user that no configuration exists", async () => {
@@ -87,9 +90,10 @@ describe("Info Command", () => {
     it("should query the database with correct parameters", async () => {
       await execute(mockInteraction);
 
-      expect(mockJiraConfig.findOne).toHaveBeenCalledWith({
-        where: { guildId: "123456789012345678", userId: "987654321098765432" },
-      });
+      expect(mockJiraConfig.findProfile).toHaveBeenCalledWith(
+        "987654321098765432",
+        undefined
+      );
     });
   });
 
@@ -104,7 +108,9 @@ describe("Info Command", () => {
     };
 
     beforeEach(() => {
-      mockJiraConfig.findOne.mockResolvedValue(mockConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockConfig as any);
+      mockJiraConfig.findAll.mockResolvedValue([mockConfig] as any);
+      mockUserSettings.findOne.mockResolvedValue(null);
     });
 
     it("should display configuration information", async () => {
@@ -134,6 +140,7 @@ describe("Info Command", () => {
           expect.objectContaining({ name: "🌐 Host" }),
           expect.objectContaining({ name: "👤 Username" }),
           expect.objectContaining({ name: "🔑 API Token" }),
+          expect.objectContaining({ name: "⚖️ Distribution" }),
         ]),
       });
     });
@@ -149,6 +156,49 @@ describe("Info Command", () => {
         }
       );
     });
+
+    it("should list every profile and the daily cap", async () => {
+      mockJiraConfig.findAll.mockResolvedValue([
+        { ...mockConfig, profile: "default" },
+        { ...mockConfig, profile: "acme", schedulePaused: true },
+      ] as any);
+      mockUserSettings.findOne.mockResolvedValue({ dailyHoursCap: 10 } as any);
+
+      await execute(mockInteraction);
+
+      const callArgs = (mockInteraction.reply as jest.Mock).mock.calls[0][0];
+      expect(callArgs.embeds[0].fields).toEqual(
+        expect.arrayContaining([
+          { name: "📁 Profile", value: "`default`", inline: true },
+          {
+            name: "🗂️ All Profiles",
+            value: "`default` 🟢, `acme` 🔴",
+            inline: true,
+          },
+          {
+            name: "🧢 Daily Cap",
+            value: "`10 hours across all profiles`",
+            inline: true,
+          },
+        ])
+      );
+    });
+
+    it("should show the requested profile", async () => {
+      mockInteraction.options.get.mockImplementation((name: string) =>
+        name === "profile" ? { value: "Acme" } : null
+      );
+      (InputValidator.validateProfileName as jest.Mock).mockImplementation(
+        (profile: string) => profile.toLowerCase()
+      );
+
+      await execute(mockInteraction);
+
+      expect(mockJiraConfig.findProfile).toHaveBeenCalledWith(
+        "987654321098765432",
+        "acme"
+      );
+    });
   });
 
   describe("when configuration is inactive", () => {
@@ -162,7 +212,9 @@ describe("Info Command", () => {
     };
 
     beforeEach(() => {
-      mockJiraConfig.findOne.mockResolvedValue(mockInactiveConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockInactiveConfig as any);
+      mockJiraConfig.findAll.mockResolvedValue([mockInactiveConfig] as any);
+      mockUserSettings.findOne.mockResolvedValue(null);
     });
 
     it("should show paused status", async () => {
@@ -184,7 +236,7 @@ describe("Info Command", () => {
 
   describe("error handling", () => {
     it("should handle database errors gracefully", async () => {
-      mockJiraConfig.findOne.mockRejectedValue(new Error("Database error"));
+      mockJiraConfig.findProfile.mockRejectedValue(new Error("Database error"));
 
       await expect(execute(mockInteraction)).resolves.not.toThrow();
 
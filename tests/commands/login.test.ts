@@ -0,0 +1,136 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { MessageFlags } from "discord.js";
+import { execute, data } from "../../src/commands/login";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/services/ServiceContainer");
+
+// Unmock SlashCommandBuilder for this test so we get actual command data
+jest.unmock("discord.js");
+
+describe("Login Command", () => {
+  let mockInteraction: any;
+  let mockContainer: any;
+  let mockServices: any;
+
+  const mockOptions = (values: Record<string, string>) => {
+    mockInteraction.options.get.mockImplementation((name: string) =>
+      values[name] !== undefined ? { value: values[name] } : null
+    );
+  };
+
+  beforeEach(() => {
+    mockInteraction = createMockInteraction();
+    const mockContainerSetup = createMockServiceContainer();
+    mockContainer = mockContainerSetup.mockContainer;
+    mockServices = mockContainerSetup.mockServices;
+
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(mockContainer);
+  });
+
+  describe("Command Data", () => {
+    it("should have correct command configuration", () => {
+      const commandData = data.toJSON();
+      expect(commandData.name).toBe("login");
+      expect(commandData.description).toBe(
+        "Connect your Jira Cloud account by signing in with Atlassian."
+      );
+      expect(commandData.options).toHaveLength(2);
+
+      const [siteOption, profileOption] = commandData.options!;
+      expect(siteOption.name).toBe("site");
+      expect(siteOption.required).toBe(false);
+      expect(profileOption.name).toBe("profile");
+      expect(profileOption.required).toBe(false);
+    });
+  });
+
+  describe("Command Execution", () => {
+    it("should reply with an authorization link", async () => {
+      mockOptions({});
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IOAuthService.createAuthorizationUrl
+      ).toHaveBeenCalledWith({
+        guildId: mockInteraction.guildId,
+        userId: mockInteraction.user.id,
+        site: undefined,
+        profile: "default",
+      });
+
+      const reply = mockInteraction.reply.mock.calls[0][0];
+      expect(reply.flags).toBe(MessageFlags.Ephemeral);
+      expect(reply.embeds[0].data.title).toBe("🔐 Sign in with Atlassian");
+      expect(reply.embeds[0].data.url).toBe(
+        "https://auth.atlassian.com/authorize?state=test"
+      );
+    });
+
+    it("should remember the requested site", async () => {
+      mockOptions({ site: "https://team.atlassian.net" });
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IOAuthService.createAuthorizationUrl
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ site: "team.atlassian.net" })
+      );
+    });
+
+    it("should remember the requested profile", async () => {
+      mockOptions({ profile: "Acme" });
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IOAuthService.createAuthorizationUrl
+      ).toHaveBeenCalledWith(expect.objectContaining({ profile: "acme" }));
+    });
+
+    it("should reject an invalid site", async () => {
+      mockOptions({ site: "not a host" });
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IOAuthService.createAuthorizationUrl
+      ).not.toHaveBeenCalled();
+      const reply = mockInteraction.reply.mock.calls[0][0];
+      expect(reply.embeds[0].data.title).toBe("❌ Validation Error");
+    });
+
+    it("should point to /setup when OAuth is not configured", async () => {
+      mockServices.IOAuthService.isEnabled.mockReturnValue(false);
+      mockOptions({});
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IOAuthService.createAuthorizationUrl
+      ).not.toHaveBeenCalled();
+      const reply = mockInteraction.reply.mock.calls[0][0];
+      expect(reply.embeds[0].data.title).toBe("⚠️ Login Unavailable");
+    });
+
+    it("should stop rate limited users", async () => {
+      mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+        throw new Error("Too many attempts");
+      });
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.reply).toHaveBeenCalledWith({
+        content: "⏱️ **Rate Limited**: Too many attempts",
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+});
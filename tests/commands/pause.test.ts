@@ -46,7 +46,7 @@ describe("Pause Command", () => {
 
   describe("when user has no configuration", () => {
     beforeEach(() => {
-      mockJiraConfig.findOne.mockResolvedValue(null);
+      mockJiraConfig.findProfile.mockResolvedValue(null);
     });
 
     it("should inform user that no configuration exists", async () => {
@@ -78,9 +78,10 @@ describe("Pause Command", () => {
     it("should query the database with correct parameters", async () => {
       await execute(mockInteraction);
 
-      expect(mockJiraConfig.findOne).toHaveBeenCalledWith({
-        where: { guildId: "123456789012345678", userId: "987654321098765432" },
-      });
+      expect(mockJiraConfig.findProfile).toHaveBeenCalledWith(
+        "987654321098765432",
+        undefined
+      );
     });
   });
 
@@ -93,7 +94,7 @@ describe("Pause Command", () => {
     };
 
     beforeEach(() => {
-      mockJiraConfig.findOne.mockResolvedValue(mockActiveConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockActiveConfig as any);
       mockActiveConfig.update.mockClear();
     });
 
@@ -142,7 +143,7 @@ describe("Pause Command", () => {
     };
 
     beforeEach(() => {
-      mockJiraConfig.findOne.mockResolvedValue(mockPausedConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockPausedConfig as any);
       mockPausedConfig.update.mockClear();
     });
 
@@ -172,7 +173,7 @@ describe("Pause Command", () => {
 
   describe("error handling", () => {
     it("should handle database errors gracefully", async () => {
-      mockJiraConfig.findOne.mockRejectedValue(new Error("Database error"));
+      mockJiraConfig.findProfile.mockRejectedValue(new Error("Database error"));
 
       // The execute function should handle the error gracefully, not throw
       await expect(execute(mockInteraction)).resolves.not.toThrow();
@@ -216,7 +217,7 @@ describe("Pause Command", () => {
         update: jest.fn().mockRejectedValue(new Error("Update error")),
       };
 
-      mockJiraConfig.findOne.mockResolvedValue(mockConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockConfig as any);
 
       await expect(execute(mockInteraction)).resolves.not.toThrow();
 
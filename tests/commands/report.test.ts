@@ -0,0 +1,401 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  InteractionContextType,
+  MessageFlags,
+  PermissionFlagsBits,
+} from "discord.js";
+import { autocomplete, data, execute, name } from "../../src/commands/report";
+import { JiraConfig, UserSettings } from "../../src/db/models";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+  mockAsyncIterable,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/db/models");
+jest.mock("../../src/services/ServiceContainer");
+
+// Unmock the builders for this test so we get actual embeds and files
+jest.unmock("discord.js");
+
+const mockJiraConfig = JiraConfig as jest.Mocked<typeof JiraConfig>;
+const mockUserSettings = UserSettings as jest.Mocked<typeof UserSettings>;
+
+describe("Report Command", () => {
+  let mockInteraction: any;
+  let mockServices: any;
+  let mockMessage: any;
+  let members: Record<string, any>;
+
+  const createConfig = (userId: string, overrides: Record<string, any> = {}) =>
+    ({
+      userId,
+      guildId: "123456789012345678",
+      profile: "default",
+      host: "test.atlassian.net",
+      username: `${userId}@example.com`,
+      token: "test-token",
+      dailyHours: 8,
+      workDays: "1,2,3,4,5",
+      schedulePaused: false,
+      ...overrides,
+    } as any);
+
+  const createMember = (id: string, displayName: string, roles: string[]) => ({
+    id,
+    displayName,
+    roles: { cache: new Map(roles.map((role) => [role, {}])) },
+  });
+
+  const mockOptions = (values: Record<string, any>) => {
+    mockInteraction.options.get.mockImplementation((option: string) =>
+      values[option] !== undefined ? values[option] : null
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    const containerSetup = createMockServiceContainer();
+    mockServices = containerSetup.mockServices;
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(
+      containerSetup.mockContainer
+    );
+
+    members = {
+      "111111111111111111": createMember("111111111111111111", "Alice", [
+        "444444444444444444",
+      ]),
+      "222222222222222222": createMember("222222222222222222", "Bob", []),
+    };
+    mockMessage = {
+      createMessageComponentCollector: jest.fn().mockReturnValue({
+        on: jest.fn(),
+      }),
+    };
+
+    mockInteraction = createMockInteraction({
+      guild: {
+        id: "123456789012345678",
+        members: {
+          fetch: jest.fn((userId: string) =>
+            members[userId]
+              ? Promise.resolve(members[userId])
+              : Promise.reject(new Error("Unknown Member"))
+          ),
+        },
+      },
+      editReply: jest.fn().mockResolvedValue(mockMessage),
+    });
+    mockOptions({
+      from: { value: "2025-07-28" },
+      to: { value: "2025-08-03" },
+    });
+
+    // Both models inherit the same automocked findAll, give each their own
+    mockJiraConfig.findAll = jest
+      .fn()
+      .mockResolvedValue([
+        createConfig("111111111111111111"),
+        createConfig("222222222222222222", { schedulePaused: true }),
+      ]);
+    mockUserSettings.findAll = jest.fn().mockResolvedValue([]);
+
+    mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+      mockAsyncIterable([{ key: "TEST-1" }])
+    );
+    mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(
+      (_host: string, username: string) =>
+        mockAsyncIterable(
+          ["2025-07-28", "2025-07-29", "2025-07-30", "2025-07-31", "2025-08-01"]
+            .filter(
+              (day) =>
+                username === "111111111111111111@example.com" ||
+                day !== "2025-07-29"
+            )
+            .map((day) => ({
+              timeSpentSeconds: 8 * 3600,
+              started: `${day}T09:00:00.000+0000`,
+              author: { emailAddress: username },
+            }))
+        )
+    );
+  });
+
+  describe("Command Data", () => {
+    it("should be a server-only command for server managers", () => {
+      const commandData = data.toJSON();
+
+      expect(name).toBe("report");
+      expect(commandData.contexts).toEqual([InteractionContextType.Guild]);
+      expect(commandData.default_member_permissions).toBe(
+        PermissionFlagsBits.ManageGuild.toString()
+      );
+      expect(commandData.options?.map((option) => option.name)).toEqual([
+        "from",
+        "to",
+        "role",
+      ]);
+    });
+  });
+
+  describe("Command Execution", () => {
+    it("should report the members of the server with a CSV", async () => {
+      await execute(mockInteraction);
+
+      expect(mockJiraConfig.findAll).toHaveBeenCalledWith({
+        order: [["createdAt", "ASC"]],
+      });
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "111111111111111111@example.com",
+        "test-token",
+        // eslint-disable-next-line quotes
+        'worklogAuthor = currentUser() AND worklogDate >= "2025-07-28" AND worklogDate <= "2025-08-03"'
+      );
+      expect(
+        mockServices.IJiraService.iterateIssueWorklogs
+      ).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "111111111111111111@example.com",
+        "test-token",
+        "TEST-1",
+        new Date(2025, 6, 28),
+        new Date(2025, 7, 3),
+        "Etc/UTC"
+      );
+
+      const reply = mockInteraction.editReply.mock.calls[0][0];
+      const embed = reply.embeds[0].toJSON();
+      expect(embed.title).toBe("📊 Timesheet 2025-07-28 to 2025-08-03");
+      expect(embed.description).toContain("2 members, 1 with gaps");
+      expect(embed.fields.map((field: any) => field.name)).toEqual([
+        "Alice",
+        "Bob",
+      ]);
+      expect(embed.fields[0].value).toContain("✅ No gaps");
+      expect(embed.fields[1].value).toContain("Tue Jul 29: 0h ⚠️");
+      expect(embed.fields[1].value).toContain("⏸️ Paused: default");
+      expect(reply.components).toEqual([]);
+
+      const file = reply.files[0];
+      expect(file.name).toBe("timesheet-2025-07-28-2025-08-03.csv");
+      expect(file.attachment.toString()).toContain(
+        "222222222222222222,Bob,2025-07-29,0,8,yes,default,"
+      );
+    });
+
+    it("should only report members with the role", async () => {
+      mockOptions({
+        role: { role: { id: "444444444444444444", name: "Backend" } },
+      });
+
+      await execute(mockInteraction);
+
+      const embed =
+        mockInteraction.editReply.mock.calls[0][0].embeds[0].toJSON();
+      expect(embed.title).toContain("(Backend)");
+      expect(embed.fields.map((field: any) => field.name)).toEqual(["Alice"]);
+    });
+
+    it("should count worklogs on the day they started in the member's timezone", async () => {
+      mockJiraConfig.findAll.mockResolvedValue([
+        createConfig("111111111111111111"),
+        createConfig("222222222222222222", { timezone: "America/New_York" }),
+      ]);
+      // 22:00 of the day before in New York
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(
+        (_host: string, username: string) =>
+          mockAsyncIterable(
+            [
+              "2025-07-29",
+              "2025-07-30",
+              "2025-07-31",
+              "2025-08-01",
+              "2025-08-02",
+            ].map((day) => ({
+              timeSpentSeconds: 8 * 3600,
+              started: `${day}T02:00:00.000+0000`,
+              author: { emailAddress: username },
+            }))
+          )
+      );
+
+      await execute(mockInteraction);
+
+      const embed =
+        mockInteraction.editReply.mock.calls[0][0].embeds[0].toJSON();
+      expect(embed.fields[0].value).toContain("Mon Jul 28: 0h ⚠️");
+      expect(embed.fields[1].value).toContain("✅ No gaps");
+    });
+
+    it("should report members who set up the bot elsewhere", async () => {
+      delete members["222222222222222222"];
+      members["333333333333333333"] = createMember(
+        "333333333333333333",
+        "Carol",
+        []
+      );
+      mockJiraConfig.findAll.mockResolvedValue([
+        createConfig("111111111111111111"),
+        createConfig("333333333333333333", { guildId: null }),
+      ]);
+
+      await execute(mockInteraction);
+
+      const embed =
+        mockInteraction.editReply.mock.calls[0][0].embeds[0].toJSON();
+      expect(embed.fields.map((field: any) => field.name)).toEqual([
+        "Alice",
+        "Carol",
+      ]);
+    });
+
+    it("should skip members who left the server", async () => {
+      delete members["222222222222222222"];
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.guild.members.fetch).toHaveBeenCalledWith(
+        "222222222222222222"
+      );
+      const embed =
+        mockInteraction.editReply.mock.calls[0][0].embeds[0].toJSON();
+      expect(embed.fields.map((field: any) => field.name)).toEqual(["Alice"]);
+    });
+
+    it("should keep reporting when a member's Jira fails", async () => {
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(
+        (_host: string, username: string) => {
+          if (username.startsWith("222222222222222222")) {
+            throw new Error("Unauthorized");
+          }
+          return mockAsyncIterable([]);
+        }
+      );
+
+      await execute(mockInteraction);
+
+      const embed =
+        mockInteraction.editReply.mock.calls[0][0].embeds[0].toJSON();
+      expect(embed.fields[1].value).toBe(
+        "❌ Could not fetch worklogs: Unauthorized"
+      );
+    });
+
+    it("should page through large teams", async () => {
+      mockJiraConfig.findAll.mockResolvedValue(
+        Array.from({ length: 12 }, (_, index) => {
+          const userId = `3${String(index).padStart(17, "0")}`;
+          members[userId] = createMember(userId, `Member ${index}`, []);
+          return createConfig(userId);
+        })
+      );
+
+      await execute(mockInteraction);
+
+      const reply = mockInteraction.editReply.mock.calls[0][0];
+      expect(reply.embeds[0].toJSON().fields).toHaveLength(10);
+      expect(reply.embeds[0].toJSON().footer.text).toBe("Page 1 of 2");
+      expect(reply.components).toHaveLength(1);
+
+      const collector =
+        mockMessage.createMessageComponentCollector.mock.results[0].value;
+      const onCollect = collector.on.mock.calls.find(
+        (call: any[]) => call[0] === "collect"
+      )[1];
+      const buttonInteraction = {
+        customId: "report-next",
+        update: jest.fn(),
+      };
+      await onCollect(buttonInteraction);
+
+      const page = buttonInteraction.update.mock.calls[0][0];
+      expect(page.embeds[0].toJSON().fields).toHaveLength(2);
+      expect(page.embeds[0].toJSON().footer.text).toBe("Page 2 of 2");
+    });
+
+    it("should say when nobody is configured", async () => {
+      mockJiraConfig.findAll.mockResolvedValue([]);
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: "No members have a Jira configuration in this server.",
+      });
+    });
+
+    it("should reject invalid dates", async () => {
+      mockOptions({ from: { value: "2025-07-40" } });
+
+      await execute(mockInteraction);
+
+      const reply = mockInteraction.reply.mock.calls[0][0];
+      expect(reply.embeds[0].toJSON().title).toBe("❌ Validation Error");
+      expect(reply.flags).toBe(MessageFlags.Ephemeral);
+      expect(mockInteraction.deferReply).not.toHaveBeenCalled();
+    });
+
+    it("should reject ranges longer than a month", async () => {
+      mockOptions({
+        from: { value: "2025-07-01" },
+        to: { value: "2025-08-15" },
+      });
+
+      await execute(mockInteraction);
+
+      const reply = mockInteraction.reply.mock.calls[0][0];
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "The date range must span at most 31 days"
+      );
+    });
+
+    it("should suggest recent weekdays for the dates", async () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date("2025-08-05T10:00:00.000Z"));
+      const mockAutocomplete: any = {
+        options: { data: [{ name: "from", focused: true, value: "" }] },
+        respond: jest.fn().mockResolvedValue(undefined),
+      };
+
+      await autocomplete(mockAutocomplete);
+      jest.useRealTimers();
+
+      expect(mockAutocomplete.respond.mock.calls[0][0][0]).toEqual({
+        name: "Mon Aug 04 2025 (yesterday)",
+        value: "2025-08-04",
+      });
+    });
+
+    it("should respond without suggestions when suggesting fails", async () => {
+      const mockAutocomplete: any = {
+        options: { data: [{ name: "from", focused: true, value: "" }] },
+        respond: jest
+          .fn()
+          .mockRejectedValueOnce(new Error("Invalid choices"))
+          .mockResolvedValue(undefined),
+      };
+
+      await autocomplete(mockAutocomplete);
+
+      expect(mockAutocomplete.respond).toHaveBeenLastCalledWith([]);
+    });
+
+    it("should respect rate limits", async () => {
+      mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+        throw new Error("Too many requests");
+      });
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.reply.mock.calls[0][0].content).toContain(
+        "Rate Limited"
+      );
+      expect(mockJiraConfig.findAll).not.toHaveBeenCalled();
+    });
+  });
+});
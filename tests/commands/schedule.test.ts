@@ -0,0 +1,579 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { MessageFlags } from "discord.js";
+import {
+  execute,
+  data,
+  handleButton,
+  handleModalSubmit,
+} from "../../src/commands/schedule";
+import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { UserSettings } from "../../src/db/models/UserSettings";
+import { WorklogEntry } from "../../src/db/models/WorklogEntry";
+import { WorklogProposal } from "../../src/db/models/WorklogProposal";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+  mockAsyncIterable,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/services/ServiceContainer");
+jest.mock("../../src/db/models/JiraConfig");
+jest.mock("../../src/db/models/UserSettings");
+jest.mock("../../src/db/models/WorklogEntry");
+jest.mock("../../src/db/models/WorklogProposal");
+
+// Unmock SlashCommandBuilder for this test so we get actual command data
+jest.unmock("discord.js");
+
+describe("Schedule Command", () => {
+  let mockInteraction: any;
+  let mockContainer: any;
+  let mockServices: any;
+
+  const mockOptions = (values: Record<string, string | number | boolean>) => {
+    mockInteraction.options.get.mockImplementation((name: string) =>
+      values[name] !== undefined ? { value: values[name] } : null
+    );
+  };
+
+  const createConfig = (overrides: Record<string, unknown> = {}) => ({
+    guildId: "123456789012345678",
+    userId: "987654321098765432",
+    timezone: "Etc/UTC",
+    scheduleTime: "06:00",
+    workDays: "1,2,3,4,5",
+    workdayStart: "09:00",
+    lunchStart: "12:00",
+    lunchMinutes: 0,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockInteraction = createMockInteraction();
+    const mockContainerSetup = createMockServiceContainer();
+    mockContainer = mockContainerSetup.mockContainer;
+    mockServices = mockContainerSetup.mockServices;
+
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(mockContainer);
+
+    jest.clearAllMocks();
+  });
+
+  describe("Command Data", () => {
+    it("should have correct command configuration", () => {
+      const commandData = data.toJSON();
+      expect(commandData.name).toBe("schedule");
+      expect(commandData.description).toBe(
+        "Configure when your time is logged automatically."
+      );
+      expect(commandData.options).toHaveLength(10);
+
+      const [
+        timezoneOption,
+        timeOption,
+        daysOption,
+        startOption,
+        lunchOption,
+        lunchMinutesOption,
+        confirmOption,
+        confirmMinutesOption,
+        unansweredOption,
+        profileOption,
+      ] = commandData.options!;
+      expect(timezoneOption.name).toBe("timezone");
+      expect(timezoneOption.required).toBe(false);
+      expect(timeOption.name).toBe("time");
+      expect(timeOption.required).toBe(false);
+      expect(daysOption.name).toBe("days");
+      expect(daysOption.required).toBe(false);
+      expect(startOption.name).toBe("start");
+      expect(lunchOption.name).toBe("lunch");
+      expect(lunchMinutesOption.name).toBe("lunch-minutes");
+      expect(lunchMinutesOption.required).toBe(false);
+      expect(confirmOption.name).toBe("confirm");
+      expect(confirmMinutesOption.name).toBe("confirm-minutes");
+      expect(unansweredOption.name).toBe("unanswered");
+      expect(profileOption.name).toBe("profile");
+      expect(profileOption.required).toBe(false);
+    });
+  });
+
+  describe("Command Execution", () => {
+    it("should update the schedule of a named profile", async () => {
+      const mockConfig = createConfig();
+      mockOptions({ time: "18:00", profile: "Acme" });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).toHaveBeenCalledWith(
+        mockInteraction.user.id,
+        "acme"
+      );
+      expect(mockConfig.scheduleTime).toBe("18:00");
+      expect(mockConfig.save).toHaveBeenCalled();
+    });
+
+    it("should update timezone, time and working days", async () => {
+      const mockConfig = createConfig();
+      mockOptions({
+        timezone: "America/Sao_Paulo",
+        time: "7:30",
+        days: "mon-thu",
+      });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).toHaveBeenCalledWith(
+        mockInteraction.user.id,
+        undefined
+      );
+      expect(mockConfig.timezone).toBe("America/Sao_Paulo");
+      expect(mockConfig.scheduleTime).toBe("07:30");
+      expect(mockConfig.workDays).toBe("1,2,3,4");
+      expect(mockConfig.save).toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("📅 Schedule Updated");
+      expect(replyCall.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ value: "`America/Sao_Paulo`" }),
+          expect.objectContaining({ value: "`07:30`" }),
+          expect.objectContaining({ value: "`Mon, Tue, Wed, Thu`" }),
+        ])
+      );
+      expect(replyCall.flags).toBe(MessageFlags.Ephemeral);
+    });
+
+    it("should only update the provided settings", async () => {
+      const mockConfig = createConfig();
+      mockOptions({ time: "08:15" });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig.timezone).toBe("Etc/UTC");
+      expect(mockConfig.scheduleTime).toBe("08:15");
+      expect(mockConfig.workDays).toBe("1,2,3,4,5");
+      expect(mockConfig.save).toHaveBeenCalled();
+    });
+
+    it("should update the workday start and lunch break", async () => {
+      const mockConfig = createConfig();
+      mockOptions({ start: "8:30", lunch: "12:30", "lunch-minutes": 45 });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig.workdayStart).toBe("08:30");
+      expect(mockConfig.lunchStart).toBe("12:30");
+      expect(mockConfig.lunchMinutes).toBe(45);
+      expect(mockConfig.save).toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            name: "🕘 Workday",
+            value: "`08:30, lunch at 12:30 for 45 min`",
+          }),
+        ])
+      );
+    });
+
+    it("should turn on confirmation before posting", async () => {
+      const mockConfig = createConfig();
+      mockOptions({
+        confirm: true,
+        "confirm-minutes": 90,
+        unanswered: "skip",
+      });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig).toEqual(
+        expect.objectContaining({
+          confirmWorklogs: true,
+          confirmMinutes: 90,
+          confirmFallback: "skip",
+        })
+      );
+      expect(mockConfig.save).toHaveBeenCalled();
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            name: "✅ Confirmation",
+            value: "Ask first, skip unanswered time after 1h 30m",
+          }),
+        ])
+      );
+    });
+
+    it("should reject a confirmation window that is too short", async () => {
+      mockOptions({ "confirm-minutes": 5 });
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).not.toHaveBeenCalled();
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+    });
+
+    it("should reject an invalid workday start", async () => {
+      mockOptions({ start: "9am" });
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).not.toHaveBeenCalled();
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+      expect(replyCall.embeds[0].data.description).toContain("Workday start");
+    });
+
+    it("should show the current schedule when no options are given", async () => {
+      const mockConfig = createConfig();
+      mockOptions({});
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+
+      await execute(mockInteraction);
+
+      expect(mockConfig.save).not.toHaveBeenCalled();
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("📅 Your Schedule");
+    });
+
+    it("should reject an invalid timezone", async () => {
+      mockOptions({ timezone: "Mars/Olympus" });
+
+      await execute(mockInteraction);
+
+      expect(JiraConfig.findProfile).not.toHaveBeenCalled();
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+      expect(replyCall.embeds[0].data.description).toContain(
+        "valid IANA timezone"
+      );
+    });
+
+    it("should reject an invalid time", async () => {
+      mockOptions({ time: "25:00" });
+
+      await execute(mockInteraction);
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+      expect(replyCall.embeds[0].data.description).toContain("HH:mm");
+    });
+
+    it("should reject invalid working days", async () => {
+      mockOptions({ days: "someday" });
+
+      await execute(mockInteraction);
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+    });
+
+    it("should return error if no config exists", async () => {
+      mockOptions({ time: "08:00" });
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(null);
+
+      await execute(mockInteraction);
+
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("⚠️ Configuration Not Found");
+    });
+
+    it("should reply when rate limited", async () => {
+      mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+        throw new Error("Rate limit exceeded");
+      });
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.reply).toHaveBeenCalledWith({
+        content: "⏱️ **Rate Limited**: Rate limit exceeded",
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it("should handle database errors gracefully", async () => {
+      mockOptions({ time: "08:00" });
+      (JiraConfig.findProfile as jest.Mock).mockRejectedValue(
+        new Error("Database connection error")
+      );
+
+      await expect(execute(mockInteraction)).resolves.not.toThrow();
+
+      expect(mockInteraction.reply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: expect.stringMatching(
+            /^❌ \*\*Unexpected Error\*\*.*Error ID:/s
+          ),
+        })
+      );
+    });
+  });
+
+  describe("Proposed worklogs", () => {
+    let mockProposal: any;
+    let mockConfig: any;
+
+    const createComponentInteraction = (
+      customId: string,
+      overrides: Record<string, unknown> = {}
+    ) =>
+      createMockInteraction({
+        customId,
+        update: jest.fn().mockResolvedValue(undefined),
+        deferUpdate: jest.fn().mockResolvedValue(undefined),
+        showModal: jest.fn().mockResolvedValue(undefined),
+        isFromMessage: jest.fn().mockReturnValue(true),
+        ...overrides,
+      });
+
+    beforeEach(() => {
+      mockProposal = {
+        id: 7,
+        userId: mockInteraction.user.id,
+        profile: "default",
+        date: "2025-07-28",
+        expiresAt: new Date("2025-07-29T08:00:00.000Z"),
+        entries: [
+          {
+            key: "PROJ-1",
+            summary: "Fix login",
+            assignee: "John Doe",
+            timeInSeconds: 28800,
+          },
+        ],
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      mockConfig = createConfig({
+        host: "test.jira.com",
+        username: "test@example.com",
+        token: "validtoken123456",
+      });
+      (WorklogProposal.findByPk as jest.Mock).mockResolvedValue(mockProposal);
+      (WorklogProposal.destroy as jest.Mock).mockResolvedValue(1);
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+      (UserSettings.findOne as jest.Mock).mockResolvedValue(null);
+      (WorklogEntry.findAll as jest.Mock).mockResolvedValue([]);
+      (WorklogEntry.create as jest.Mock).mockImplementation(
+        async (values) => values
+      );
+    });
+
+    it("should post the worklogs once approved", async () => {
+      const buttonInteraction =
+        createComponentInteraction("schedule:approve:7");
+
+      await handleButton(buttonInteraction);
+
+      expect(WorklogProposal.findByPk).toHaveBeenCalledWith(7);
+      expect(JiraConfig.findProfile).toHaveBeenCalledWith(
+        mockInteraction.user.id,
+        "default"
+      );
+      expect(WorklogProposal.destroy).toHaveBeenCalledWith({
+        where: { id: 7 },
+      });
+      expect(buttonInteraction.deferUpdate).toHaveBeenCalled();
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "PROJ-1",
+        28800,
+        expect.any(Date),
+        false,
+        undefined
+      );
+
+      const editCall = buttonInteraction.editReply.mock.calls[0][0];
+      expect(editCall.embeds[0].data.footer.text).toBe(
+        "Your time was submitted."
+      );
+      expect(editCall.components[0].components[0].data.custom_id).toBe(
+        "worklogs:revert:default:2025-07-28"
+      );
+    });
+
+    it("should say why nothing was logged when approving fails", async () => {
+      const settings = {
+        dailyHoursCap: 10,
+        cappedDate: "2025-07-28",
+        cappedSeconds: 28800,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      (UserSettings.findOne as jest.Mock).mockResolvedValue(settings);
+      // The user logged the day by hand while the proposal was open
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            author: { emailAddress: "test@example.com" },
+            timeSpentSeconds: 3600,
+          },
+        ])
+      );
+      const buttonInteraction =
+        createComponentInteraction("schedule:approve:7");
+
+      await handleButton(buttonInteraction);
+
+      expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      expect(settings.cappedSeconds).toBe(0);
+      const editCall = buttonInteraction.editReply.mock.calls[0][0];
+      expect(editCall.embeds[0].data.footer.text).toBe(
+        "Nothing was logged: Time was already logged on PROJ-1 for 2025-07-28"
+      );
+      expect(editCall.components).toEqual([]);
+      expect(mockServices.ILoggerService.logError).toHaveBeenCalled();
+    });
+
+    it("should skip the day without posting", async () => {
+      const buttonInteraction = createComponentInteraction("schedule:skip:7");
+
+      await handleButton(buttonInteraction);
+
+      expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      const updateCall = buttonInteraction.update.mock.calls[0][0];
+      expect(updateCall.embeds[0].data.footer.text).toBe(
+        "Your time was not logged."
+      );
+    });
+
+    it("should give the skipped time back to the daily cap", async () => {
+      const settings = {
+        dailyHoursCap: 10,
+        cappedDate: "2025-07-28",
+        cappedSeconds: 36000,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      (UserSettings.findOne as jest.Mock).mockResolvedValue(settings);
+
+      await handleButton(createComponentInteraction("schedule:skip:7"));
+
+      expect(UserSettings.findOne).toHaveBeenCalledWith({
+        where: { userId: mockInteraction.user.id },
+      });
+      expect(settings.cappedSeconds).toBe(7200);
+      expect(settings.save).toHaveBeenCalled();
+    });
+
+    it("should open the edit form", async () => {
+      const buttonInteraction = createComponentInteraction("schedule:edit:7");
+
+      await handleButton(buttonInteraction);
+
+      expect(WorklogProposal.destroy).not.toHaveBeenCalled();
+      expect(
+        buttonInteraction.showModal.mock.calls[0][0].toJSON().custom_id
+      ).toBe("schedule:edit-modal:7");
+    });
+
+    it("should not answer worklogs twice", async () => {
+      (WorklogProposal.destroy as jest.Mock).mockResolvedValue(0);
+      const buttonInteraction =
+        createComponentInteraction("schedule:approve:7");
+
+      await handleButton(buttonInteraction);
+
+      expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      expect(
+        buttonInteraction.reply.mock.calls[0][0].embeds[0].data.title
+      ).toBe("⌛ Worklogs Expired");
+    });
+
+    it("should not let other users answer", async () => {
+      const buttonInteraction = createComponentInteraction(
+        "schedule:approve:7",
+        { user: { id: "111111111111111111", username: "other" } }
+      );
+
+      await handleButton(buttonInteraction);
+
+      expect(WorklogProposal.destroy).not.toHaveBeenCalled();
+      expect(
+        buttonInteraction.reply.mock.calls[0][0].embeds[0].data.title
+      ).toBe("⌛ Worklogs Expired");
+    });
+
+    it("should save the edited worklogs and ask again", async () => {
+      const modalInteraction = createComponentInteraction(
+        "schedule:edit-modal:7",
+        {
+          fields: {
+            getTextInputValue: jest
+              .fn()
+              .mockReturnValue("PROJ-1 240\nPROJ-2 240"),
+          },
+        }
+      );
+
+      await handleModalSubmit(modalInteraction);
+
+      expect(
+        mockProposal.entries.map((entry: any) => [
+          entry.key,
+          entry.timeInSeconds,
+        ])
+      ).toEqual([
+        ["PROJ-1", 14400],
+        ["PROJ-2", 14400],
+      ]);
+      expect(mockProposal.save).toHaveBeenCalled();
+
+      const updateCall = modalInteraction.update.mock.calls[0][0];
+      expect(updateCall.embeds[0].data.fields).toHaveLength(2);
+      expect(updateCall.components).toHaveLength(1);
+    });
+
+    it("should count edited time towards the daily cap", async () => {
+      const settings = {
+        dailyHoursCap: 10,
+        cappedDate: "2025-07-28",
+        cappedSeconds: 28800,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      (UserSettings.findOne as jest.Mock).mockResolvedValue(settings);
+      const modalInteraction = createComponentInteraction(
+        "schedule:edit-modal:7",
+        {
+          fields: {
+            getTextInputValue: jest.fn().mockReturnValue("PROJ-1 360"),
+          },
+        }
+      );
+
+      await handleModalSubmit(modalInteraction);
+
+      expect(settings.cappedSeconds).toBe(21600);
+    });
+
+    it("should reject invalid edits", async () => {
+      const modalInteraction = createComponentInteraction(
+        "schedule:edit-modal:7",
+        {
+          fields: {
+            getTextInputValue: jest.fn().mockReturnValue("PROJ-1 soon"),
+          },
+        }
+      );
+
+      await handleModalSubmit(modalInteraction);
+
+      expect(mockProposal.save).not.toHaveBeenCalled();
+      const replyCall = modalInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+      expect(replyCall.flags).toBe(MessageFlags.Ephemeral);
+    });
+  });
+});
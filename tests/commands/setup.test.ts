@@ -1,7 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { MessageFlags } from "discord.js";
-import { execute, data, name } from "../../src/commands/setup";
-import { JiraConfig } from "../../src/db/models";
+import { InteractionContextType, MessageFlags } from "discord.js";
+import {
+  execute,
+  data,
+  name,
+  handleButton,
+  handleModalSubmit,
+} from "../../src/commands/setup";
+import { GuildSettings, JiraConfig } from "../../src/db/models";
 import { ApplicationError, ErrorType } from "../../src/services/ErrorHandler";
 import { InputValidator } from "../../src/services/InputValidator";
 import { ServiceContainer } from "../../src/services/ServiceContainer";
@@ -13,6 +19,7 @@ import {
 // Mock the database model
 jest.mock("../../src/db/models");
 const mockJiraConfig = JiraConfig as jest.Mocked<typeof JiraConfig>;
+const mockGuildSettings = GuildSettings as jest.Mocked<typeof GuildSettings>;
 
 // Mock the ServiceContainer
 jest.mock("../../src/services/ServiceContainer");
@@ -23,11 +30,65 @@ jest.mock("../../src/services/InputValidator");
 // Unmock SlashCommandBuilder for this test so we get actual command data
 jest.unmock("discord.js");
 
+let interactionCount = 0;
+
 describe("Setup Command", () => {
   let mockInteraction: any;
   let mockContainer: any;
   let mockServices: any;
 
+  /**
+   * Run /setup with the given options and return the form it opened
+   */
+  const openForm = async (options: Record<string, unknown> = {}) => {
+    (mockInteraction.options.get as jest.Mock).mockImplementation(
+      (option: string) =>
+        option in options ? { value: options[option] } : null
+    );
+
+    await execute(mockInteraction);
+
+    return mockInteraction.showModal.mock.calls[0][0].toJSON();
+  };
+
+  const createSubmitInteraction = (
+    customId: string,
+    values: Record<string, string>
+  ) => {
+    const submitInteraction = createMockInteraction({
+      customId,
+      guildId: mockInteraction.guildId,
+      user: mockInteraction.user,
+      fields: {
+        getTextInputValue: jest.fn((field: string) => values[field] ?? ""),
+      },
+    });
+
+    // Ensure deferReply updates the deferred state of this interaction
+    submitInteraction.deferReply.mockImplementation(() => {
+      submitInteraction.deferred = true;
+      return Promise.resolve(undefined);
+    });
+
+    return submitInteraction;
+  };
+
+  const submitForm = async (values: Record<string, string>, options = {}) => {
+    const form = await openForm(options);
+    const submitInteraction = createSubmitInteraction(form.custom_id, values);
+
+    await handleModalSubmit(submitInteraction);
+
+    return submitInteraction;
+  };
+
+  const validForm = {
+    host: "test.atlassian.net",
+    username: "testuser@example.com",
+    token: "test-token",
+    jql: "project = TEST",
+  };
+
   describe("Command Data", () => {
     it("should have correct command configuration", () => {
       // Test data exports exist
@@ -40,47 +101,42 @@ describe("Setup Command", () => {
         "Setup a Jira configuration for your user."
       );
       expect(commandData.options).toBeDefined();
-      expect(commandData.options).toHaveLength(5);
-
-      if (commandData.options && commandData.options.length >= 5) {
-        // Test host option
-        const hostOption = commandData.options[0];
-        expect(hostOption.name).toBe("host");
-        expect(hostOption.description).toBe("The host of your Jira instance.");
-        expect(hostOption.required).toBe(true);
-        expect(hostOption.type).toBe(3); // STRING type
-
-        // Test username option
-        const usernameOption = commandData.options[1];
-        expect(usernameOption.name).toBe("username");
-        expect(usernameOption.description).toBe("Your Jira username.");
-        expect(usernameOption.required).toBe(true);
-        expect(usernameOption.type).toBe(3); // STRING type
-
-        // Test token option
-        const tokenOption = commandData.options[2];
-        expect(tokenOption.name).toBe("token");
-        expect(tokenOption.description).toBe("Your Jira API token.");
-        expect(tokenOption.required).toBe(true);
-        expect(tokenOption.type).toBe(3); // STRING type
-
-        // Test jql option (optional)
-        const jqlOption = commandData.options[3];
-        expect(jqlOption.name).toBe("jql");
-        expect(jqlOption.description).toBe(
-          "The JQL query to use for searching."
-        );
-        expect(jqlOption.required).toBe(false);
-        expect(jqlOption.type).toBe(3); // STRING type
+      expect(commandData.contexts).toEqual([
+        InteractionContextType.Guild,
+        InteractionContextType.BotDM,
+      ]);
+      expect(commandData.options).toHaveLength(6);
+
+      if (commandData.options && commandData.options.length >= 6) {
+        // Credentials are entered in the form, never as options
+        expect(
+          commandData.options.map((option: any) => option.name)
+        ).not.toEqual(expect.arrayContaining(["host", "username", "token"]));
 
         // Test daily-hours option (optional)
-        const dailyHoursOption = commandData.options[4];
+        const dailyHoursOption = commandData.options[0];
         expect(dailyHoursOption.name).toBe("daily-hours");
         expect(dailyHoursOption.description).toBe(
-          "Daily hours to distribute across tickets (default: 8)."
+          "Daily hours to distribute across tickets (default: 8 or the server's)."
         );
         expect(dailyHoursOption.required).toBe(false);
         expect(dailyHoursOption.type).toBe(4); // INTEGER type
+
+        // Test connection options (optional)
+        expect(
+          commandData.options.slice(1).map((option: any) => option.name)
+        ).toEqual([
+          "deployment",
+          "auth",
+          "api-version",
+          "context-path",
+          "profile",
+        ]);
+        const deploymentOption = commandData.options[1] as any;
+        expect(deploymentOption.required).toBe(false);
+        expect(
+          deploymentOption.choices.map((choice: any) => choice.value)
+        ).toEqual(["cloud", "datacenter"]);
       }
     });
 
@@ -111,6 +167,10 @@ describe("Setup Command", () => {
     // Mock the ServiceContainer.getInstance method
     (ServiceContainer.getInstance as jest.Mock).mockReturnValue(mockContainer);
 
+    // No server policies unless a test sets them
+    mockGuildSettings.findForGuild.mockResolvedValue(null);
+    mockJiraConfig.findOne.mockResolvedValue(null);
+
     // Mock InputValidator methods with dynamic responses
     (InputValidator.validateDiscordId as jest.Mock) = jest.fn();
     (InputValidator.validateJiraHost as jest.Mock) = jest
@@ -119,10 +179,10 @@ describe("Setup Command", () => {
         // Return the host without adding https:// prefix if it's already clean
         return host;
       });
-    (InputValidator.validateEmail as jest.Mock) = jest
+    (InputValidator.validateJiraUsername as jest.Mock) = jest
       .fn()
-      .mockImplementation((email: string) => {
-        return email;
+      .mockImplementation((username: string) => {
+        return username;
       });
     (InputValidator.validateApiToken as jest.Mock) = jest
       .fn()
@@ -133,7 +193,7 @@ describe("Setup Command", () => {
       .fn()
       .mockImplementation((jql?: string) => {
         // Return the actual JQL if provided, otherwise return undefined
-        return jql;
+        return jql || undefined;
       });
     (InputValidator.validateDailyHours as jest.Mock) = jest
       .fn()
@@ -141,12 +201,28 @@ describe("Setup Command", () => {
         // Return the actual hours if provided, otherwise return 8 as default
         return hours ?? 8;
       });
+    (InputValidator.validateDeploymentType as jest.Mock) = jest
+      .fn()
+      .mockImplementation((value: string) => value);
+    (InputValidator.validateAuthScheme as jest.Mock) = jest
+      .fn()
+      .mockImplementation((value: string) => value);
+    (InputValidator.validateApiVersion as jest.Mock) = jest
+      .fn()
+      .mockImplementation((value: string) => value);
+    (InputValidator.validateContextPath as jest.Mock) = jest
+      .fn()
+      .mockImplementation((value?: string) => (value ? `/${value}` : ""));
+    (InputValidator.validateProfileName as jest.Mock) = jest
+      .fn()
+      .mockImplementation((value: string) => value.toLowerCase());
     (InputValidator.sanitizeInput as jest.Mock) = jest
       .fn()
       .mockImplementation((input: string) => input);
 
     // Create mock interaction
     mockInteraction = createMockInteraction({
+      id: `${++interactionCount}`,
       guildId: "123456789012345678",
       user: {
         id: "987654321098765432",
@@ -158,23 +234,61 @@ describe("Setup Command", () => {
       options: {
         get: jest.fn(),
       },
+      showModal: jest.fn().mockResolvedValue(undefined),
     });
+  });
 
-    // Ensure deferReply properly updates the deferred state after jest.clearAllMocks()
-    mockInteraction.deferReply.mockImplementation(() => {
-      mockInteraction.deferred = true;
-      return Promise.resolve(undefined);
+  describe("when opening the form", () => {
+    it("should show the credentials form instead of deferring", async () => {
+      const form = await openForm();
+
+      expect(mockInteraction.deferReply).not.toHaveBeenCalled();
+      expect(form.custom_id).toBe(`setup:modal:${mockInteraction.id}`);
+      expect(
+        form.components.map((row: any) => row.component.custom_id)
+      ).toEqual(["host", "username", "token", "jql"]);
+    });
+
+    it("should use a paragraph for the optional JQL field", async () => {
+      const form = await openForm();
+      const [, , token, jql] = form.components.map((row: any) => row.component);
+
+      expect(token).toMatchObject({ required: true, style: 1 });
+      expect(token.value).toBeUndefined();
+      expect(jql).toMatchObject({ required: false, style: 2 });
+    });
+
+    it("should validate the options before showing the form", async () => {
+      (InputValidator.validateContextPath as jest.Mock).mockImplementation(
+        () => {
+          throw new Error("Context path must be a URL path such as /jira");
+        }
+      );
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.showModal).not.toHaveBeenCalled();
+      const replyCall = mockInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data.title).toBe("❌ Validation Error");
+      expect(replyCall.flags).toBe(MessageFlags.Ephemeral);
+    });
+
+    it("should not show the form when rate limited", async () => {
+      mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+        throw new Error("Rate limit exceeded");
+      });
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.showModal).not.toHaveBeenCalled();
+      expect(mockInteraction.reply.mock.calls[0][0].embeds[0].data.title).toBe(
+        "⏱️ Rate Limited"
+      );
     });
   });
 
   describe("when creating new configuration", () => {
     beforeEach(() => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "test.atlassian.net" }) // host
-        .mockReturnValueOnce({ value: "testuser@example.com" }) // username
-        .mockReturnValueOnce({ value: "test-token" }) // token
-        .mockReturnValueOnce({ value: "project = TEST" }); // jql
-
       mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
 
       const mockConfig = {
@@ -191,16 +305,16 @@ describe("Setup Command", () => {
       mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, true]);
     });
 
-    it("should defer reply on start", async () => {
-      await execute(mockInteraction);
+    it("should defer reply once the form is submitted", async () => {
+      const submitInteraction = await submitForm(validForm);
 
-      expect(mockInteraction.deferReply).toHaveBeenCalledWith({
+      expect(submitInteraction.deferReply).toHaveBeenCalledWith({
         flags: MessageFlags.Ephemeral,
       });
     });
 
     it("should validate Jira connection", async () => {
-      await execute(mockInteraction);
+      await submitForm(validForm);
 
       expect(mockServices.IJiraService.getServerInfo).toHaveBeenCalledWith(
         "test.atlassian.net",
@@ -210,15 +324,16 @@ describe("Setup Command", () => {
     });
 
     it("should create new configuration when successful", async () => {
-      await execute(mockInteraction);
+      await submitForm(validForm);
 
       expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith({
         where: {
-          guildId: "123456789012345678",
           userId: "987654321098765432",
+          profile: "default",
         },
         defaults: {
           guildId: "123456789012345678",
+          profile: "default",
           host: "test.atlassian.net",
           username: "testuser@example.com",
           token: "test-token",
@@ -226,39 +341,52 @@ describe("Setup Command", () => {
           timeJqlOverride: "project = TEST",
           schedulePaused: false,
           dailyHours: 8,
+          deploymentType: "cloud",
+          apiVersion: null,
+          contextPath: null,
+          authScheme: "basic",
         },
       });
     });
 
     it("should confirm successful setup", async () => {
-      await execute(mockInteraction);
+      const submitInteraction = await submitForm(validForm);
 
-      expect(mockInteraction.followUp).toHaveBeenCalled();
-      const followUpCall = mockInteraction.followUp.mock.calls[0][0];
+      expect(submitInteraction.followUp).toHaveBeenCalled();
+      const followUpCall = submitInteraction.followUp.mock.calls[0][0];
       expect(followUpCall.embeds).toHaveLength(1);
 
-      // Check embed properties using .data pattern like in hours test
-      const embed = followUpCall.embeds[0];
-      const embedData = embed.data || embed;
+      const embedData = followUpCall.embeds[0].data;
       expect(embedData.title).toBe("✅ Configuration Saved Successfully!");
       expect(embedData.description).toBe(
         "Your Jira configuration has been saved and tested successfully."
       );
       expect(followUpCall.flags).toBe(MessageFlags.Ephemeral);
     });
+
+    it("should not accept the same form twice", async () => {
+      const form = await openForm();
+      await handleModalSubmit(
+        createSubmitInteraction(form.custom_id, validForm)
+      );
+
+      const secondSubmit = createSubmitInteraction(form.custom_id, validForm);
+      await handleModalSubmit(secondSubmit);
+
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledTimes(1);
+      expect(secondSubmit.reply.mock.calls[0][0].embeds[0].data.title).toBe(
+        "⌛ Setup Expired"
+      );
+    });
   });
 
   describe("when updating existing configuration", () => {
-    beforeEach(() => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "updated.atlassian.net" }) // host
-        .mockReturnValueOnce({ value: "updated@example.com" }) // username
-        .mockReturnValueOnce({ value: "updated-token" }) // token
-        .mockReturnValueOnce({ value: "project = UPDATED" }); // jql
+    let mockConfig: any;
 
+    beforeEach(() => {
       mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
 
-      const mockConfig = {
+      mockConfig = {
         guildId: "123456789012345678",
         host: "https://old.atlassian.net",
         username: "old@example.com",
@@ -266,97 +394,171 @@ describe("Setup Command", () => {
         userId: "987654321098765432",
         timeJqlOverride: "project = OLD",
         schedulePaused: false,
+        dailyHours: 8,
         save: jest.fn().mockResolvedValue(undefined),
       };
 
-      mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, false]);
+      mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig, false]);
     });
 
     it("should update existing configuration", async () => {
-      await execute(mockInteraction);
+      await submitForm(
+        {
+          host: "updated.atlassian.net",
+          username: "updated@example.com",
+          token: "updated-token",
+          jql: "project = UPDATED",
+        },
+        { "daily-hours": 12 }
+      );
 
-      const [config] = await mockJiraConfig.findOrCreate.mock.results[0].value;
-      expect(config.host).toBe("updated.atlassian.net");
-      expect(config.username).toBe("updated@example.com");
-      expect(config.token).toBe("updated-token");
-      expect(config.timeJqlOverride).toBe("project = UPDATED");
-      expect(config.save).toHaveBeenCalled();
+      expect(mockConfig.host).toBe("updated.atlassian.net");
+      expect(mockConfig.username).toBe("updated@example.com");
+      expect(mockConfig.token).toBe("updated-token");
+      expect(mockConfig.timeJqlOverride).toBe("project = UPDATED");
+      expect(mockConfig.dailyHours).toBe(12);
+      expect(mockConfig.save).toHaveBeenCalled();
     });
 
     it("should confirm successful update", async () => {
-      await execute(mockInteraction);
+      const submitInteraction = await submitForm(validForm);
 
-      expect(mockInteraction.followUp).toHaveBeenCalled();
-      const followUpCall = mockInteraction.followUp.mock.calls[0][0];
-      expect(followUpCall.embeds).toHaveLength(1);
+      const followUpCall = submitInteraction.followUp.mock.calls[0][0];
+      expect(followUpCall.embeds[0].data.title).toBe(
+        "✅ Configuration Saved Successfully!"
+      );
+      expect(followUpCall.embeds[0].data.footer.text).toBe(
+        "Updated by testuser"
+      );
+    });
 
-      // Check embed properties using .data pattern like in hours test
-      const embed = followUpCall.embeds[0];
-      const embedData = embed.data || embed;
-      expect(embedData.title).toBe("✅ Configuration Saved Successfully!");
-      expect(embedData.description).toBe(
-        "Your Jira configuration has been saved and tested successfully."
+    it("should notify through the guild setup was last run in", async () => {
+      mockInteraction.guildId = "111111111111111111";
+
+      await submitForm(validForm);
+
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: "987654321098765432", profile: "default" },
+        })
       );
-      expect(followUpCall.flags).toBe(MessageFlags.Ephemeral);
+      expect(mockConfig.guildId).toBe("111111111111111111");
+      expect(mockConfig.save).toHaveBeenCalled();
+    });
+
+    it("should keep the notification guild when run in a DM", async () => {
+      mockInteraction.guildId = null;
+
+      await submitForm(validForm);
+
+      expect(mockConfig.guildId).toBe("123456789012345678");
+      expect(mockConfig.host).toBe("test.atlassian.net");
+      expect(mockConfig.save).toHaveBeenCalled();
     });
   });
 
   describe("when setup without JQL override", () => {
+    it("should create configuration without JQL override", async () => {
+      mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
+      mockJiraConfig.findOrCreate.mockResolvedValue([{} as any, true]);
+
+      await submitForm({ ...validForm, jql: "" });
+
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaults: expect.objectContaining({ timeJqlOverride: undefined }),
+        })
+      );
+    });
+  });
+
+  describe("when the form has invalid values", () => {
     beforeEach(() => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "test.atlassian.net" }) // host
-        .mockReturnValueOnce({ value: "testuser@example.com" }) // username
-        .mockReturnValueOnce({ value: "test-token" }) // token
-        .mockReturnValueOnce(null); // jql (optional)
+      (InputValidator.validateApiToken as jest.Mock).mockImplementation(() => {
+        throw new Error("API token contains invalid characters");
+      });
+    });
 
+    it("should show the error inline with a retry button", async () => {
+      const submitInteraction = await submitForm({
+        ...validForm,
+        token: "bad token",
+      });
+
+      expect(submitInteraction.deferReply).not.toHaveBeenCalled();
+      expect(mockServices.IJiraService.getServerInfo).not.toHaveBeenCalled();
+
+      const replyCall = submitInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data).toMatchObject({
+        title: "❌ Validation Error",
+        description: "API token contains invalid characters",
+      });
+      expect(replyCall.flags).toBe(MessageFlags.Ephemeral);
+      expect(replyCall.components[0].toJSON().components[0]).toMatchObject({
+        custom_id: `setup:retry:${mockInteraction.id}`,
+        label: "Edit and retry",
+      });
+    });
+
+    it("should reopen the form filled in with the submitted values", async () => {
+      await submitForm({ ...validForm, token: "bad token" });
+
+      const buttonInteraction = createMockInteraction({
+        customId: `setup:retry:${mockInteraction.id}`,
+        user: mockInteraction.user,
+        showModal: jest.fn().mockResolvedValue(undefined),
+      });
+      await handleButton(buttonInteraction);
+
+      const form = buttonInteraction.showModal.mock.calls[0][0].toJSON();
+      expect(form.custom_id).toBe(`setup:modal:${mockInteraction.id}`);
+      expect(form.components.map((row: any) => row.component.value)).toEqual([
+        "test.atlassian.net",
+        "testuser@example.com",
+        "bad token",
+        "project = TEST",
+      ]);
+    });
+
+    it("should save once the corrected form is submitted", async () => {
+      await submitForm({ ...validForm, token: "bad token" });
+
+      (InputValidator.validateApiToken as jest.Mock).mockImplementation(
+        (token: string) => token
+      );
       mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
+      mockJiraConfig.findOrCreate.mockResolvedValue([{} as any, true]);
 
-      const mockConfig = {
-        guildId: "123456789012345678",
-        host: "test.atlassian.net",
-        username: "testuser@example.com",
-        token: "test-token",
-        userId: "987654321098765432",
-        timeJqlOverride: undefined,
-        schedulePaused: false,
-        save: jest.fn().mockResolvedValue(undefined),
-      };
+      await handleModalSubmit(
+        createSubmitInteraction(`setup:modal:${mockInteraction.id}`, validForm)
+      );
 
-      mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, true]);
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaults: expect.objectContaining({ token: "test-token" }),
+        })
+      );
     });
 
-    it("should create configuration without JQL override", async () => {
-      await execute(mockInteraction);
+    it("should not reopen another user's form", async () => {
+      await submitForm({ ...validForm, token: "bad token" });
 
-      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith({
-        where: {
-          guildId: "123456789012345678",
-          userId: "987654321098765432",
-        },
-        defaults: {
-          guildId: "123456789012345678",
-          host: "test.atlassian.net",
-          username: "testuser@example.com",
-          token: "test-token",
-          userId: "987654321098765432",
-          timeJqlOverride: undefined,
-          schedulePaused: false,
-          dailyHours: 8,
-        },
+      const buttonInteraction = createMockInteraction({
+        customId: `setup:retry:${mockInteraction.id}`,
+        user: { id: "111111111111111111", username: "other" },
+        showModal: jest.fn(),
       });
+      await handleButton(buttonInteraction);
+
+      expect(buttonInteraction.showModal).not.toHaveBeenCalled();
+      expect(
+        buttonInteraction.reply.mock.calls[0][0].embeds[0].data.title
+      ).toBe("⌛ Setup Expired");
     });
   });
 
   describe("error handling", () => {
-    beforeEach(() => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "https://invalid.atlassian.net" })
-        .mockReturnValueOnce({ value: "invalid@example.com" })
-        .mockReturnValueOnce({ value: "invalid-token" })
-        .mockReturnValueOnce(null);
-    });
-
-    it("should handle Jira connection failure", async () => {
+    it("should show a failed connection test with a retry button", async () => {
       mockServices.IJiraService.getServerInfo.mockRejectedValue(
         new ApplicationError(
           "Invalid credentials (getting server info)",
@@ -366,36 +568,41 @@ describe("Setup Command", () => {
         )
       );
 
-      await execute(mockInteraction);
-
-      expect(mockInteraction.editReply).toHaveBeenCalledWith(
-        expect.objectContaining({
-          content:
-            "❌ **Authentication Failed**: Your Jira credentials appear to be invalid. Please run `/setup` to reconfigure your connection.",
-        })
-      );
+      const submitInteraction = await submitForm(validForm);
 
+      const replyCall = submitInteraction.editReply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data).toMatchObject({
+        title: "❌ Connection Failed",
+        description:
+          "Could not connect to Jira: Invalid credentials (getting server info). Check the host, username and token, then try again.",
+      });
+      expect(replyCall.components[0].toJSON().components[0]).toMatchObject({
+        custom_id: `setup:retry:${mockInteraction.id}`,
+        label: "Edit and retry",
+      });
       expect(mockJiraConfig.findOrCreate).not.toHaveBeenCalled();
     });
 
-    it("should handle Jira connection failure with different error messages", async () => {
+    it("should keep the values of a form that failed to connect", async () => {
       mockServices.IJiraService.getServerInfo.mockRejectedValue(
-        new ApplicationError(
-          "Resource not found (getting server info)",
-          ErrorType.JIRA_API_ERROR,
-          true,
-          404
-        )
+        new Error("getaddrinfo ENOTFOUND test.atlassian.net")
       );
+      await submitForm(validForm);
 
-      await execute(mockInteraction);
+      const buttonInteraction = createMockInteraction({
+        customId: `setup:retry:${mockInteraction.id}`,
+        user: mockInteraction.user,
+        showModal: jest.fn().mockResolvedValue(undefined),
+      });
+      await handleButton(buttonInteraction);
 
-      expect(mockInteraction.editReply).toHaveBeenCalledWith(
-        expect.objectContaining({
-          content:
-            "❌ **Jira Error**: Resource not found (getting server info)\n\nPlease check your Jira configuration with `/info` and verify your credentials.",
-        })
-      );
+      const form = buttonInteraction.showModal.mock.calls[0][0].toJSON();
+      expect(form.components.map((row: any) => row.component.value)).toEqual([
+        "test.atlassian.net",
+        "testuser@example.com",
+        "test-token",
+        "project = TEST",
+      ]);
     });
 
     it("should handle service container errors", async () => {
@@ -407,7 +614,6 @@ describe("Setup Command", () => {
       await expect(execute(mockInteraction)).resolves.not.toThrow();
 
       // Verify that an error response was sent to the user
-      // Since ServiceContainer fails before deferReply, it should use reply() not editReply()
       expect(mockInteraction.reply).toHaveBeenCalledWith(
         expect.objectContaining({
           content: expect.stringMatching(
@@ -426,10 +632,9 @@ describe("Setup Command", () => {
         new Error("Database error")
       );
 
-      await expect(execute(mockInteraction)).resolves.not.toThrow();
+      const submitInteraction = await submitForm(validForm);
 
-      // Verify that an error response was sent to the user
-      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+      expect(submitInteraction.editReply).toHaveBeenCalledWith(
         expect.objectContaining({
           content: expect.stringMatching(
             /^❌ \*\*Unexpected Error\*\*.*Error ID:/s
@@ -444,22 +649,14 @@ describe("Setup Command", () => {
       });
 
       const mockConfig = {
-        guildId: "123456789012345678",
-        host: "https://old.atlassian.net",
-        username: "old@example.com",
-        token: "old-token",
-        userId: "987654321098765432",
-        timeJqlOverride: null,
-        schedulePaused: false,
         save: jest.fn().mockRejectedValue(new Error("Save failed")),
       };
 
       mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, false]);
 
-      await expect(execute(mockInteraction)).resolves.not.toThrow();
+      const submitInteraction = await submitForm(validForm);
 
-      // Verify that an error response was sent to the user
-      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+      expect(submitInteraction.editReply).toHaveBeenCalledWith(
         expect.objectContaining({
           content: expect.stringMatching(
             /^❌ \*\*Unexpected Error\*\*.*Error ID:/s
@@ -468,273 +665,222 @@ describe("Setup Command", () => {
       );
     });
 
-    it("should handle missing guildId", async () => {
-      // Test edge case where guildId might be null
-      mockInteraction.guildId = null;
-
-      mockServices.IJiraService.getServerInfo.mockResolvedValue({
-        version: "8.5.0",
-      });
+    it("should ask to run /setup again for an unknown form", async () => {
+      const submitInteraction = createSubmitInteraction(
+        "setup:modal:unknown",
+        validForm
+      );
 
-      // This should be handled gracefully with error handling
-      await expect(execute(mockInteraction)).resolves.not.toThrow();
+      await handleModalSubmit(submitInteraction);
 
-      // Verify that an error response was sent to the user
-      expect(mockInteraction.editReply).toHaveBeenCalledWith(
-        expect.objectContaining({
-          content: expect.stringMatching(
-            /^❌ \*\*Unexpected Error\*\*.*Error ID:/s
-          ),
-        })
-      );
+      expect(
+        submitInteraction.reply.mock.calls[0][0].embeds[0].data
+      ).toMatchObject({
+        title: "⌛ Setup Expired",
+        description: "This setup form has expired. Run `/setup` again.",
+      });
+      expect(mockServices.IJiraService.getServerInfo).not.toHaveBeenCalled();
     });
   });
 
   describe("when setting daily hours", () => {
-    it("should save custom daily hours when provided", async () => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "test.atlassian.net" }) // host
-        .mockReturnValueOnce({ value: "testuser@example.com" }) // username
-        .mockReturnValueOnce({ value: "test-token" }) // token
-        .mockReturnValueOnce({ value: "project = TEST" }) // jql
-        .mockReturnValueOnce({ value: 6 }); // daily-hours
-
+    beforeEach(() => {
       mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
+      mockJiraConfig.findOrCreate.mockResolvedValue([{} as any, true]);
+    });
 
-      const mockConfig = {
-        guildId: "123456789012345678",
-        host: "test.atlassian.net",
-        username: "testuser@example.com",
-        token: "test-token",
-        userId: "987654321098765432",
-        timeJqlOverride: "project = TEST",
-        schedulePaused: false,
-        dailyHours: 6,
-        save: jest.fn().mockResolvedValue(undefined),
-      };
-
-      mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, true]);
-
-      await execute(mockInteraction);
+    it("should save custom daily hours when provided", async () => {
+      await submitForm(validForm, { "daily-hours": 6 });
 
-      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith({
-        where: {
-          guildId: "123456789012345678",
-          userId: "987654321098765432",
-        },
-        defaults: {
-          guildId: "123456789012345678",
-          host: "test.atlassian.net",
-          username: "testuser@example.com",
-          token: "test-token",
-          userId: "987654321098765432",
-          timeJqlOverride: "project = TEST",
-          schedulePaused: false,
-          dailyHours: 6,
-        },
-      });
+      expect(InputValidator.validateDailyHours).toHaveBeenCalledWith(6);
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaults: expect.objectContaining({ dailyHours: 6 }),
+        })
+      );
     });
 
     it("should default to 8 hours when daily-hours not provided", async () => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "test.atlassian.net" }) // host
-        .mockReturnValueOnce({ value: "testuser@example.com" }) // username
-        .mockReturnValueOnce({ value: "test-token" }) // token
-        .mockReturnValueOnce({ value: "project = TEST" }) // jql
-        .mockReturnValueOnce(null); // daily-hours (not provided)
+      await submitForm(validForm);
 
-      mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaults: expect.objectContaining({ dailyHours: 8 }),
+        })
+      );
+    });
+  });
 
-      const mockConfig = {
-        guildId: "123456789012345678",
-        host: "test.atlassian.net",
-        username: "testuser@example.com",
-        token: "test-token",
-        userId: "987654321098765432",
-        timeJqlOverride: "project = TEST",
-        schedulePaused: false,
-        dailyHours: 8,
-        save: jest.fn().mockResolvedValue(undefined),
-      };
+  describe("when the server has policies", () => {
+    beforeEach(() => {
+      mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
+      mockJiraConfig.findOrCreate.mockResolvedValue([{} as any, true]);
+    });
 
-      mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, true]);
+    it("should use the server default daily hours", async () => {
+      mockGuildSettings.findForGuild.mockResolvedValue({
+        defaultDailyHours: 6,
+      } as any);
 
-      await execute(mockInteraction);
+      await submitForm(validForm);
 
-      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith({
-        where: {
-          guildId: "123456789012345678",
-          userId: "987654321098765432",
-        },
-        defaults: {
-          guildId: "123456789012345678",
-          host: "test.atlassian.net",
-          username: "testuser@example.com",
-          token: "test-token",
-          userId: "987654321098765432",
-          timeJqlOverride: "project = TEST",
-          schedulePaused: false,
-          dailyHours: 8,
-        },
-      });
+      expect(mockGuildSettings.findForGuild).toHaveBeenCalledWith(
+        "123456789012345678"
+      );
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaults: expect.objectContaining({ dailyHours: 6 }),
+        })
+      );
     });
 
-    it("should handle boundary daily hours values", async () => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "test.atlassian.net" }) // host
-        .mockReturnValueOnce({ value: "testuser@example.com" }) // username
-        .mockReturnValueOnce({ value: "test-token" }) // token
-        .mockReturnValueOnce(null) // jql
-        .mockReturnValueOnce({ value: 1 }); // daily-hours (minimum)
+    it("should reject daily hours above the server maximum", async () => {
+      mockGuildSettings.findForGuild.mockResolvedValue({
+        maxDailyHours: 6,
+      } as any);
 
-      mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
+      const submitInteraction = await submitForm(validForm, {
+        "daily-hours": 8,
+      });
 
-      const mockConfig = {
-        guildId: "123456789012345678",
-        host: "test.atlassian.net",
-        username: "testuser@example.com",
-        token: "test-token",
-        userId: "987654321098765432",
-        timeJqlOverride: undefined,
-        schedulePaused: false,
-        dailyHours: 1,
-        save: jest.fn().mockResolvedValue(undefined),
-      };
+      const replyCall = submitInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data).toMatchObject({
+        title: "❌ Validation Error",
+        description:
+          "This server allows at most 6 daily hours. Run /setup again with fewer daily-hours.",
+      });
+      expect(replyCall.components).toEqual([]);
+      expect(mockJiraConfig.findOrCreate).not.toHaveBeenCalled();
+    });
 
-      mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, true]);
+    it("should reject hosts outside the allowlist with a retry button", async () => {
+      mockGuildSettings.findForGuild.mockResolvedValue({
+        allowedHosts: "acme.atlassian.net,*.acme.com",
+      } as any);
 
-      await execute(mockInteraction);
+      const submitInteraction = await submitForm(validForm);
 
-      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith({
-        where: {
-          guildId: "123456789012345678",
-          userId: "987654321098765432",
-        },
-        defaults: {
-          guildId: "123456789012345678",
-          host: "test.atlassian.net",
-          username: "testuser@example.com",
-          token: "test-token",
-          userId: "987654321098765432",
-          timeJqlOverride: undefined,
-          schedulePaused: false,
-          dailyHours: 1,
-        },
+      expect(mockServices.IJiraService.getServerInfo).not.toHaveBeenCalled();
+      const replyCall = submitInteraction.reply.mock.calls[0][0];
+      expect(replyCall.embeds[0].data).toMatchObject({
+        title: "❌ Validation Error",
+        description:
+          "This server only allows these Jira hosts: acme.atlassian.net, *.acme.com",
+      });
+      expect(replyCall.components[0].toJSON().components[0]).toMatchObject({
+        custom_id: `setup:retry:${mockInteraction.id}`,
       });
     });
 
-    it("should update daily hours for existing config", async () => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "updated.atlassian.net" }) // host
-        .mockReturnValueOnce({ value: "updated@example.com" }) // username
-        .mockReturnValueOnce({ value: "updated-token" }) // token
-        .mockReturnValueOnce({ value: "project = UPDATED" }) // jql
-        .mockReturnValueOnce({ value: 12 }); // daily-hours
+    it("should accept hosts matching a wildcard", async () => {
+      mockGuildSettings.findForGuild.mockResolvedValue({
+        allowedHosts: "*.acme.com",
+      } as any);
 
-      mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
+      await submitForm({ ...validForm, host: "jira.acme.com" });
 
-      const mockConfig = {
-        guildId: "123456789012345678",
-        host: "https://old.atlassian.net",
-        username: "old@example.com",
-        token: "old-token",
-        userId: "987654321098765432",
-        timeJqlOverride: "project = OLD",
-        schedulePaused: false,
-        dailyHours: 8,
-        save: jest.fn().mockResolvedValue(undefined),
-      };
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalled();
+    });
 
-      mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, false]);
+    it("should follow the notification guild policies in DMs", async () => {
+      mockInteraction.guildId = null;
+      mockJiraConfig.findOne.mockResolvedValue({
+        guildId: "111111111111111111",
+      } as any);
 
-      await execute(mockInteraction);
+      await submitForm(validForm);
 
-      // Verify the config was updated
-      expect(mockConfig.host).toBe("updated.atlassian.net");
-      expect(mockConfig.username).toBe("updated@example.com");
-      expect(mockConfig.token).toBe("updated-token");
-      expect(mockConfig.timeJqlOverride).toBe("project = UPDATED");
-      expect(mockConfig.dailyHours).toBe(12);
-      expect(mockConfig.save).toHaveBeenCalled();
+      expect(mockJiraConfig.findOne).toHaveBeenCalledWith({
+        where: { userId: "987654321098765432", profile: "default" },
+      });
+      expect(mockGuildSettings.findForGuild).toHaveBeenCalledWith(
+        "111111111111111111"
+      );
     });
   });
 
-  describe("parameter validation", () => {
-    it("should extract all parameters correctly", async () => {
-      const mockGetValues = [
-        { value: "test.atlassian.net" }, // host
-        { value: "testuser@example.com" }, // username
-        { value: "test-token" }, // token
-        { value: "project = TEST" }, // jql
-        { value: 10 }, // daily-hours
-      ];
-
-      let callIndex = 0;
-      (mockInteraction.options.get as jest.Mock).mockImplementation(() => {
-        return mockGetValues[callIndex++] || null;
-      });
-
-      mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
-
+  describe("when setting up a named profile", () => {
+    it("should save the connection under that profile", async () => {
       const mockConfig = {
-        guildId: "123456789012345678",
-        host: "test.atlassian.net",
-        username: "testuser@example.com",
-        token: "test-token",
-        userId: "987654321098765432",
-        timeJqlOverride: "project = TEST",
-        schedulePaused: false,
-        dailyHours: 10,
         save: jest.fn().mockResolvedValue(undefined),
       };
-
       mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, true]);
 
-      await execute(mockInteraction);
+      const submitInteraction = await submitForm(validForm, {
+        profile: "Acme",
+      });
 
-      // Verify all parameters were requested correctly
-      expect(mockInteraction.options.get).toHaveBeenCalledWith("host", true);
-      expect(mockInteraction.options.get).toHaveBeenCalledWith(
-        "username",
-        true
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "987654321098765432",
+            profile: "acme",
+          },
+          defaults: expect.objectContaining({ profile: "acme" }),
+        })
       );
-      expect(mockInteraction.options.get).toHaveBeenCalledWith("token", true);
-      expect(mockInteraction.options.get).toHaveBeenCalledWith("jql", false);
-      expect(mockInteraction.options.get).toHaveBeenCalledWith(
-        "daily-hours",
-        false
+
+      const fields =
+        submitInteraction.followUp.mock.calls[0][0].embeds[0].data.fields;
+      expect(fields).toContainEqual(
+        expect.objectContaining({ name: "📁 Profile", value: "`acme`" })
       );
     });
+  });
 
-    it("should handle interaction deferReply", async () => {
-      (mockInteraction.options.get as jest.Mock)
-        .mockReturnValueOnce({ value: "test.atlassian.net" })
-        .mockReturnValueOnce({ value: "testuser@example.com" })
-        .mockReturnValueOnce({ value: "test-token" })
-        .mockReturnValueOnce(null)
-        .mockReturnValueOnce(null);
-
-      mockServices.IJiraService.getServerInfo.mockResolvedValue({ ok: true });
-
+  describe("when setting up Jira Data Center", () => {
+    it("should configure the connection and save the deployment settings", async () => {
       const mockConfig = {
-        guildId: "123456789012345678",
-        host: "test.atlassian.net",
-        username: "testuser@example.com",
-        token: "test-token",
-        userId: "987654321098765432",
-        timeJqlOverride: undefined,
-        schedulePaused: false,
-        dailyHours: 8,
         save: jest.fn().mockResolvedValue(undefined),
       };
-
       mockJiraConfig.findOrCreate.mockResolvedValue([mockConfig as any, true]);
 
-      await execute(mockInteraction);
+      const submitInteraction = await submitForm(
+        {
+          host: "jira.example.com",
+          username: "jdoe",
+          token: "pat-token",
+          jql: "",
+        },
+        { deployment: "datacenter", auth: "bearer", "context-path": "jira" }
+      );
 
-      expect(mockInteraction.deferReply).toHaveBeenCalledWith({
-        flags: MessageFlags.Ephemeral,
+      expect(InputValidator.validateJiraUsername).toHaveBeenCalledWith(
+        "jdoe",
+        "datacenter"
+      );
+      expect(
+        mockServices.IJiraService.configureConnection
+      ).toHaveBeenCalledWith("jira.example.com", "jdoe", {
+        deploymentType: "datacenter",
+        apiVersion: null,
+        contextPath: "/jira",
+        authScheme: "bearer",
       });
+      expect(
+        mockServices.IJiraService.configureConnection.mock
+          .invocationCallOrder[0]
+      ).toBeLessThan(
+        mockServices.IJiraService.getServerInfo.mock.invocationCallOrder[0]
+      );
+      expect(mockJiraConfig.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          defaults: expect.objectContaining({
+            deploymentType: "datacenter",
+            contextPath: "/jira",
+            authScheme: "bearer",
+          }),
+        })
+      );
+
+      const followUpCall = submitInteraction.followUp.mock.calls[0][0];
+      const fields = followUpCall.embeds[0].data.fields;
+      expect(fields).toContainEqual(
+        expect.objectContaining({
+          name: "🏢 Deployment",
+          value: "`Data Center, API v2, Bearer PAT, /jira`",
+        })
+      );
     });
   });
 });
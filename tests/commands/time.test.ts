@@ -1,11 +1,19 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { MessageFlags } from "discord.js";
-import { execute } from "../../src/commands/time";
-import { JiraConfig } from "../../src/db/models";
+import { EmbedBuilder, MessageFlags } from "discord.js";
+import { autocomplete, execute } from "../../src/commands/time";
+import {
+  Allocation,
+  GuildSettings,
+  JiraConfig,
+  TimeOff,
+  WorklogEntry,
+} from "../../src/db/models";
 import { ServiceContainer } from "../../src/services/ServiceContainer";
+import { distributeTime } from "../../src/services/utils";
 import {
   createMockInteraction,
   createMockServiceContainer,
+  mockAsyncIterable,
 } from "../test-utils";
 
 // Mock Discord.js components
@@ -15,7 +23,9 @@ jest.mock("discord.js", () => ({
     setTitle: jest.fn().mockReturnThis(),
     setColor: jest.fn().mockReturnThis(),
     addFields: jest.fn().mockReturnThis(),
+    setFields: jest.fn().mockReturnThis(),
     setFooter: jest.fn().mockReturnThis(),
+    setDescription: jest.fn().mockReturnThis(),
   })),
   ActionRowBuilder: jest.fn().mockImplementation(() => ({
     addComponents: jest.fn().mockReturnThis(),
@@ -25,7 +35,13 @@ jest.mock("discord.js", () => ({
     setLabel: jest.fn().mockReturnThis(),
     setStyle: jest.fn().mockReturnThis(),
   })),
+  ModalBuilder: jest.fn().mockImplementation(() => ({
+    setCustomId: jest.fn().mockReturnThis(),
+    setTitle: jest.fn().mockReturnThis(),
+    addComponents: jest.fn().mockReturnThis(),
+  })),
   ButtonStyle: {
+    Secondary: 2,
     Success: 3,
   },
   MessageFlags: {
@@ -36,12 +52,15 @@ jest.mock("discord.js", () => ({
 // Mock the database model
 jest.mock("../../src/db/models");
 const mockJiraConfig = JiraConfig as jest.Mocked<typeof JiraConfig>;
+const mockGuildSettings = GuildSettings as jest.Mocked<typeof GuildSettings>;
+const mockTimeOff = TimeOff as jest.Mocked<typeof TimeOff>;
 
 // Mock the ServiceContainer
 jest.mock("../../src/services/ServiceContainer");
 
 // Mock utils
 jest.mock("../../src/services/utils", () => ({
+  collectAll: jest.requireActual("../../src/services/utils").collectAll,
   convertSeconds: jest.fn(
     (seconds: number) =>
       `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
@@ -51,6 +70,9 @@ jest.mock("../../src/services/utils", () => ({
   ),
 }));
 
+const getHandler = (collector: { on: jest.Mock }, event: string) =>
+  collector.on.mock.calls.find((call) => call[0] === event)[1];
+
 describe("Time Command", () => {
   let mockInteraction: any;
   let mockContainer: any;
@@ -67,6 +89,23 @@ describe("Time Command", () => {
     // Mock the ServiceContainer.getInstance method
     (ServiceContainer.getInstance as jest.Mock).mockReturnValue(mockContainer);
 
+    // No server policies unless a test sets them
+    mockGuildSettings.findForGuild.mockResolvedValue(null);
+    // No days off unless a test adds them
+    mockTimeOff.findForDay.mockResolvedValue(null);
+    mockTimeOff.findInRange.mockResolvedValue([]);
+    // No allocations unless a test adds them
+    (Allocation as unknown as { findForDay: jest.Mock }).findForDay = jest
+      .fn()
+      .mockResolvedValue([]);
+    // The ledger keeps whatever is posted
+    (WorklogEntry as unknown as { findAll: jest.Mock }).findAll = jest
+      .fn()
+      .mockResolvedValue([]);
+    (WorklogEntry as unknown as { create: jest.Mock }).create = jest
+      .fn()
+      .mockImplementation(async (values) => values);
+
     // Create mock interaction with specific methods for time command
     mockInteraction = createMockInteraction({
       guildId: "123456789012345678",
@@ -94,7 +133,7 @@ describe("Time Command", () => {
         .mockReturnValueOnce({ value: 1 }) // days-ago
         .mockReturnValueOnce(null); // hours (optional)
 
-      mockJiraConfig.findOne.mockResolvedValue(null);
+      mockJiraConfig.findProfile.mockResolvedValue(null);
     });
 
     afterEach(() => {
@@ -121,8 +160,33 @@ describe("Time Command", () => {
     it("should query database with correct parameters", async () => {
       await execute(mockInteraction);
 
-      expect(mockJiraConfig.findOne).toHaveBeenCalledWith({
-        where: { guildId: "123456789012345678", userId: "987654321098765432" },
+      expect(mockJiraConfig.findProfile).toHaveBeenCalledWith(
+        "987654321098765432",
+        undefined
+      );
+    });
+
+    it("should name a missing profile", async () => {
+      (mockInteraction.options.get as jest.Mock)
+        .mockReset()
+        .mockImplementation((name: string) =>
+          name === "days-ago"
+            ? { value: 1 }
+            : name === "profile"
+            ? { value: "Acme" }
+            : null
+        );
+
+      await execute(mockInteraction);
+
+      expect(mockJiraConfig.findProfile).toHaveBeenCalledWith(
+        "987654321098765432",
+        "acme"
+      );
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content:
+          "You don't have a Jira profile named acme. Use /setup to create it.",
+        flags: MessageFlags.Ephemeral,
       });
     });
   });
@@ -147,21 +211,37 @@ describe("Time Command", () => {
         timeJqlOverride: null,
         dailyHours: 8,
       };
-      mockJiraConfig.findOne.mockResolvedValue(mockConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockConfig as any);
     });
 
     afterEach(() => {
       jest.useRealTimers();
     });
 
-    it("should reject weekend work checking", async () => {
+    it("should reject checking a day that is not a work day", async () => {
       await execute(mockInteraction);
 
       expect(mockInteraction.editReply).toHaveBeenCalledWith({
-        content: "You can't check your work on weekends.",
+        content:
+          "Sat Jul 26 2025 is not a work day. Change your work days with /schedule days.",
         flags: MessageFlags.Ephemeral,
       });
     });
+
+    it("should check days the user works on", async () => {
+      mockJiraConfig.findProfile.mockResolvedValue({
+        ...(await mockJiraConfig.findProfile("987654321098765432")),
+        workDays: "1,2,3,4,5,6",
+      } as any);
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: expect.stringContaining("is not a work day"),
+        })
+      );
+    });
   });
 
   describe("when user has configuration and valid workday", () => {
@@ -183,7 +263,7 @@ describe("Time Command", () => {
         .mockReturnValueOnce({ value: 1 }) // days-ago
         .mockReturnValueOnce({ value: 8 }); // hours
 
-      mockJiraConfig.findOne.mockResolvedValue(mockConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockConfig as any);
     });
 
     afterEach(() => {
@@ -191,10 +271,9 @@ describe("Time Command", () => {
     });
 
     it("should show progress message", async () => {
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue({ total: 0, issues: [] }),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
 
       await execute(mockInteraction);
 
@@ -207,14 +286,15 @@ describe("Time Command", () => {
     });
 
     it("should use default JQL when no override", async () => {
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue({ total: 0, issues: [] }),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
 
       await execute(mockInteraction);
 
-      expect(mockServices.IJiraService.getIssuesWorked).toHaveBeenCalledWith(
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
         "https://test.atlassian.net",
         "testuser@example.com",
         "test-token",
@@ -227,16 +307,17 @@ describe("Time Command", () => {
         ...mockConfig,
         timeJqlOverride: "project = TEST AND assignee = currentUser()",
       };
-      mockJiraConfig.findOne.mockResolvedValue(configWithJql as any);
+      mockJiraConfig.findProfile.mockResolvedValue(configWithJql as any);
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue({ total: 0, issues: [] }),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
 
       await execute(mockInteraction);
 
-      expect(mockServices.IJiraService.getIssuesWorked).toHaveBeenCalledWith(
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
         "https://test.atlassian.net",
         "testuser@example.com",
         "test-token",
@@ -244,11 +325,110 @@ describe("Time Command", () => {
       );
     });
 
-    it("should handle no issues found", async () => {
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue({ total: 0, issues: [] }),
+    it("should fill the day into the JQL override", async () => {
+      mockJiraConfig.findProfile.mockResolvedValue({
+        ...mockConfig,
+        // eslint-disable-next-line quotes
+        timeJqlOverride: 'assignee WAS currentUser() ON "{0}"',
+      } as any);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
+        "https://test.atlassian.net",
+        "testuser@example.com",
+        "test-token",
+        // eslint-disable-next-line quotes
+        'assignee WAS currentUser() ON "2025-07-28"'
+      );
+    });
+
+    it("should use the JQL forced by the server", async () => {
+      mockJiraConfig.findProfile.mockResolvedValue({
+        ...mockConfig,
+        timeJqlOverride: "project = TEST AND assignee = currentUser()",
+      } as any);
+      mockGuildSettings.findForGuild.mockResolvedValue({
+        forcedJql: "project = OPS AND worklogAuthor = currentUser()",
+      } as any);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+
+      await execute(mockInteraction);
+
+      expect(mockGuildSettings.findForGuild).toHaveBeenCalledWith(
+        "123456789012345678"
+      );
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
+        "https://test.atlassian.net",
+        "testuser@example.com",
+        "test-token",
+        "project = OPS AND worklogAuthor = currentUser()"
+      );
+    });
+
+    it("should reject hosts the server does not allow", async () => {
+      mockGuildSettings.findForGuild.mockResolvedValue({
+        allowedHosts: "acme.atlassian.net",
+      } as any);
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content:
+          "This server doesn't allow connecting to https://test.atlassian.net. Use /setup to connect to one of: acme.atlassian.net.",
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should reject hours above the server maximum", async () => {
+      mockGuildSettings.findForGuild.mockResolvedValue({
+        maxDailyHours: 6,
+      } as any);
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: "This server allows at most 6 hours.",
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should require a comment when the server does", async () => {
+      mockGuildSettings.findForGuild.mockResolvedValue({
+        requireWorklogComment: true,
+      } as any);
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content:
+          "This server requires a worklog comment. Pass one with the comment option or save a template with /comment.",
+        flags: MessageFlags.Ephemeral,
       });
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).not.toHaveBeenCalled();
+    });
+
+    it("should handle no issues found", async () => {
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
 
       await execute(mockInteraction);
 
@@ -282,23 +462,26 @@ describe("Time Command", () => {
         ],
       };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue({ total: 1, issues: mockIssues }),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockIssues)
+      );
 
-      mockServices.IJiraService.getIssueWorklog.mockResolvedValue({
-        json: jest.fn().mockResolvedValue(mockWorklogs),
-      });
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable(mockWorklogs.worklogs)
+      );
 
       await execute(mockInteraction);
 
-      expect(mockServices.IJiraService.getIssueWorklog).toHaveBeenCalledWith(
+      expect(
+        mockServices.IJiraService.iterateIssueWorklogs
+      ).toHaveBeenCalledWith(
         "https://test.atlassian.net",
         "testuser@example.com",
         "test-token",
         "TEST-1",
-        new Date("2025-07-28T10:00:00.000Z")
+        new Date(2025, 6, 28),
+        new Date(2025, 6, 28),
+        "Etc/UTC"
       );
 
       expect(mockInteraction.editReply).toHaveBeenCalledWith(
@@ -325,14 +508,13 @@ describe("Time Command", () => {
         worklogs: [],
       };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue({ total: 1, issues: mockIssues }),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockIssues)
+      );
 
-      mockServices.IJiraService.getIssueWorklog.mockResolvedValue({
-        json: jest.fn().mockResolvedValue(mockWorklogs),
-      });
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable(mockWorklogs.worklogs)
+      );
 
       await execute(mockInteraction);
 
@@ -345,6 +527,105 @@ describe("Time Command", () => {
     });
   });
 
+  describe("weighted distribution", () => {
+    const mockIssues = [
+      {
+        id: "10001",
+        key: "TEST-1",
+        fields: {
+          summary: "Busy issue",
+          assignee: { displayName: "Test User" },
+        },
+      },
+      {
+        id: "10002",
+        key: "TEST-2",
+        fields: {
+          summary: "Quiet issue",
+          assignee: { displayName: "Test User" },
+        },
+      },
+    ];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date("2025-07-29T10:00:00.000Z"));
+
+      (mockInteraction.options.get as jest.Mock)
+        .mockReturnValueOnce({ value: 1 }) // days-ago
+        .mockReturnValueOnce({ value: 8 }); // hours
+
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockIssues)
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should weight time by activity and explain each share", async () => {
+      mockJiraConfig.findProfile.mockResolvedValue({
+        guildId: "123456789012345678",
+        userId: "987654321098765432",
+        host: "test.atlassian.net",
+        username: "testuser@example.com",
+        token: "test-token",
+        distributionStrategy: "weighted",
+      } as any);
+      mockServices.IJiraService.getIssuesActivity.mockResolvedValue([
+        { issueKey: "TEST-1", transitions: 2, comments: 1, commits: 1 },
+        { issueKey: "TEST-2", transitions: 0, comments: 0, commits: 0 },
+      ]);
+
+      await execute(mockInteraction);
+
+      expect(mockServices.IJiraService.getIssuesActivity).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "testuser@example.com",
+        "test-token",
+        expect.arrayContaining([
+          expect.objectContaining({ id: "10001", key: "TEST-1" }),
+        ]),
+        expect.any(Date),
+        "Etc/UTC"
+      );
+      expect(distributeTime).toHaveBeenCalledWith(
+        8 * 3600,
+        2,
+        "weighted",
+        [9, 1]
+      );
+
+      const embed = (EmbedBuilder as unknown as jest.Mock).mock.results[0]
+        .value;
+      const fields = embed.addFields.mock.calls[0][0];
+      expect(fields[0].value).toContain("(2 transitions, 1 comment, 1 commit)");
+      expect(fields[1].value).toContain("(no activity)");
+    });
+
+    it("should not look up activity for other strategies", async () => {
+      mockJiraConfig.findProfile.mockResolvedValue({
+        guildId: "123456789012345678",
+        userId: "987654321098765432",
+        host: "test.atlassian.net",
+        username: "testuser@example.com",
+        token: "test-token",
+        distributionStrategy: "evenly",
+      } as any);
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IJiraService.getIssuesActivity
+      ).not.toHaveBeenCalled();
+      expect(distributeTime).toHaveBeenCalledWith(8 * 3600, 2, "evenly", []);
+    });
+  });
+
   describe("error handling", () => {
     const mockConfig = {
       guildId: "123456789012345678",
@@ -364,7 +645,7 @@ describe("Time Command", () => {
         .mockReturnValueOnce({ value: 1 }) // days-ago
         .mockReturnValueOnce({ value: 8 }); // hours
 
-      mockJiraConfig.findOne.mockResolvedValue(mockConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockConfig as any);
     });
 
     afterEach(() => {
@@ -372,10 +653,9 @@ describe("Time Command", () => {
     });
 
     it("should handle Jira API errors", async () => {
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: false,
-        statusText: "Unauthorized",
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([], new Error("Unauthorized"))
+      );
 
       await execute(mockInteraction);
 
@@ -402,7 +682,7 @@ describe("Time Command", () => {
     });
 
     it("should handle database errors", async () => {
-      mockJiraConfig.findOne.mockRejectedValue(new Error("Database error"));
+      mockJiraConfig.findProfile.mockRejectedValue(new Error("Database error"));
 
       await expect(execute(mockInteraction)).resolves.not.toThrow();
 
@@ -435,7 +715,7 @@ describe("Time Command", () => {
         .mockReturnValueOnce({ value: 1 }) // days-ago
         .mockReturnValueOnce({ value: 8 }); // hours
 
-      mockJiraConfig.findOne.mockResolvedValue(mockConfig as any);
+      mockJiraConfig.findProfile.mockResolvedValue(mockConfig as any);
     });
 
     afterEach(() => {
@@ -456,14 +736,13 @@ describe("Time Command", () => {
 
       const mockWorklogs = { worklogs: [] };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue({ total: 1, issues: mockIssues }),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockIssues)
+      );
 
-      mockServices.IJiraService.getIssueWorklog.mockResolvedValue({
-        json: jest.fn().mockResolvedValue(mockWorklogs),
-      });
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable(mockWorklogs.worklogs)
+      );
 
       const mockCollector = {
         on: jest.fn(),
@@ -481,7 +760,7 @@ describe("Time Command", () => {
 
       expect(mockMessage.createMessageComponentCollector).toHaveBeenCalledWith({
         filter: expect.any(Function),
-        time: 15000,
+        time: 300000,
       });
 
       // Test the filter function
@@ -508,16 +787,9 @@ describe("Time Command", () => {
     });
 
     it("should handle collector timeout with no interactions", async () => {
-      const mockResponse = {
-        ok: true,
-        status: 200,
-        json: jest.fn().mockResolvedValue({
-          total: 0,
-          issues: [],
-        }),
-      };
-
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue(mockResponse);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
 
       await execute(mockInteraction);
 
@@ -535,26 +807,22 @@ describe("Time Command", () => {
       jest.useFakeTimers();
       jest.setSystemTime(new Date("2025-07-30T10:00:00.000Z")); // Wednesday
 
-      const mockResponse = {
-        ok: false,
-        status: 401,
-        statusText: "Unauthorized",
-      };
-
       // Mock the options that time command expects
       (mockInteraction.options.get as jest.Mock)
         .mockReturnValueOnce({ value: 1 }) // days-ago (Tuesday, not weekend)
         .mockReturnValueOnce(null); // hours (optional)
 
-      // Mock findOne to return config so we don't hit config error
-      mockJiraConfig.findOne.mockResolvedValue({
+      // Mock findProfile to return config so we don't hit config error
+      mockJiraConfig.findProfile.mockResolvedValue({
         host: "https://test.atlassian.net",
         username: "test@example.com",
         token: "test-token",
         jql: "assignee = currentUser()",
       } as any);
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue(mockResponse);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([], new Error("Unauthorized"))
+      );
 
       // Set interaction as already replied
       mockInteraction.replied = true;
@@ -576,26 +844,22 @@ describe("Time Command", () => {
       jest.useFakeTimers();
       jest.setSystemTime(new Date("2025-07-30T10:00:00.000Z")); // Wednesday
 
-      const mockResponse = {
-        ok: false,
-        status: 500,
-        statusText: "Internal Server Error",
-      };
-
       // Mock the options that time command expects
       (mockInteraction.options.get as jest.Mock)
         .mockReturnValueOnce({ value: 1 }) // days-ago (Tuesday, not weekend)
         .mockReturnValueOnce(null); // hours (optional)
 
-      // Mock findOne to return config so we don't hit config error
-      mockJiraConfig.findOne.mockResolvedValue({
+      // Mock findProfile to return config so we don't hit config error
+      mockJiraConfig.findProfile.mockResolvedValue({
         host: "https://test.atlassian.net",
         username: "test@example.com",
         token: "test-token",
         jql: "assignee = currentUser()",
       } as any);
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue(mockResponse);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([], new Error("Internal Server Error"))
+      );
 
       // Set interaction as not replied and not deferred
       mockInteraction.replied = false;
@@ -622,8 +886,8 @@ describe("Time Command", () => {
         .mockReturnValueOnce({ value: 1 }) // days-ago (Tuesday, not weekend)
         .mockReturnValueOnce({ value: 8 }); // hours
 
-      // Mock findOne to return config
-      mockJiraConfig.findOne.mockResolvedValue({
+      // Mock findProfile to return config
+      mockJiraConfig.findProfile.mockResolvedValue({
         host: "https://test.atlassian.net",
         username: "test@example.com",
         token: "test-token",
@@ -631,38 +895,33 @@ describe("Time Command", () => {
       } as any);
 
       // Mock successful API response with issues
-      const mockResponse = {
-        ok: true,
-        json: jest.fn().mockResolvedValue({
-          total: 2,
-          issues: [
-            {
-              id: "ISSUE-1",
-              key: "ISSUE-1",
-              fields: {
-                summary: "Test Issue 1",
-                assignee: { displayName: "Test User" },
-              },
-              worklogs: [],
-            },
-            {
-              id: "ISSUE-2",
-              key: "ISSUE-2",
-              fields: {
-                summary: "Test Issue 2",
-                assignee: { displayName: "Test User" },
-              },
-              worklogs: [],
-            },
-          ],
-        }),
-      };
+      const mockIssues = [
+        {
+          id: "ISSUE-1",
+          key: "ISSUE-1",
+          fields: {
+            summary: "Test Issue 1",
+            assignee: { displayName: "Test User" },
+          },
+          worklogs: [],
+        },
+        {
+          id: "ISSUE-2",
+          key: "ISSUE-2",
+          fields: {
+            summary: "Test Issue 2",
+            assignee: { displayName: "Test User" },
+          },
+          worklogs: [],
+        },
+      ];
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue(mockResponse);
-      mockServices.IJiraService.getIssueWorklog.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue({ worklogs: [] }),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockIssues)
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
     });
 
     afterEach(() => {
@@ -695,20 +954,135 @@ describe("Time Command", () => {
       const mockButtonInteraction = {
         customId: "submit",
         user: { id: "987654321098765432" },
-        update: jest.fn().mockResolvedValue({}),
+        deferUpdate: jest.fn().mockResolvedValue({}),
       };
 
       // Test submit button functionality (covers lines 243-257)
       await onCollectHandler(mockButtonInteraction);
 
+      expect(mockButtonInteraction.deferUpdate).toHaveBeenCalled();
       expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(2);
-      expect(mockButtonInteraction.update).toHaveBeenCalledWith({
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
         content: "Time logged successfully.",
         embeds: expect.any(Array),
         components: [],
       });
     });
 
+    it("should report the worklogs that could not be posted", async () => {
+      const mockCollector = {
+        on: jest.fn(),
+      };
+      mockInteraction.editReply.mockResolvedValue({
+        createMessageComponentCollector: jest
+          .fn()
+          .mockReturnValue(mockCollector),
+      });
+      mockServices.IJiraService.postWorklog
+        .mockResolvedValueOnce({ ok: true })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: "Too Many Requests",
+        });
+
+      await execute(mockInteraction);
+
+      const mockButtonInteraction = {
+        customId: "submit",
+        user: { id: "987654321098765432" },
+        deferUpdate: jest.fn().mockResolvedValue({}),
+      };
+      await getHandler(mockCollector, "collect")(mockButtonInteraction);
+
+      const { content } = mockInteraction.editReply.mock.calls.at(-1)[0];
+      expect(content).toMatch(/^Logged 1 of 2 worklogs\.\n/);
+      expect(content).toContain(
+        "❌ Rate limit exceeded, retrying automatically"
+      );
+      expect(
+        (WorklogEntry as unknown as { create: jest.Mock }).create
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: "manual",
+          status: "retrying",
+          error: "Rate limit exceeded",
+        })
+      );
+    });
+
+    it("should not log a day the scheduler logged meanwhile", async () => {
+      const mockCollector = {
+        on: jest.fn(),
+      };
+      mockInteraction.editReply.mockResolvedValue({
+        createMessageComponentCollector: jest
+          .fn()
+          .mockReturnValue(mockCollector),
+      });
+
+      await execute(mockInteraction);
+
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            author: { emailAddress: "test@example.com" },
+            timeSpentSeconds: 14400,
+          },
+        ])
+      );
+      const mockButtonInteraction = {
+        customId: "submit",
+        user: { id: "987654321098765432" },
+        deferUpdate: jest.fn().mockResolvedValue({}),
+      };
+      await getHandler(mockCollector, "collect")(mockButtonInteraction);
+
+      expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content:
+            "⚠️ Time was already logged on ISSUE-1 for 2025-07-29, nothing was logged.",
+          components: [],
+        })
+      );
+    });
+
+    it("should report a failure to post instead of throwing", async () => {
+      const mockCollector = {
+        on: jest.fn(),
+      };
+      mockInteraction.editReply.mockResolvedValue({
+        createMessageComponentCollector: jest
+          .fn()
+          .mockReturnValue(mockCollector),
+      });
+
+      await execute(mockInteraction);
+
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() => {
+        throw new Error("Jira is down");
+      });
+      const mockButtonInteraction = {
+        customId: "submit",
+        user: { id: "987654321098765432" },
+        replied: false,
+        deferred: false,
+        deferUpdate: jest.fn(async () => {
+          mockButtonInteraction.deferred = true;
+        }),
+        editReply: jest.fn().mockResolvedValue({}),
+      };
+      await expect(
+        getHandler(mockCollector, "collect")(mockButtonInteraction)
+      ).resolves.toBeUndefined();
+
+      expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      expect(mockButtonInteraction.editReply).toHaveBeenCalledWith({
+        content: expect.stringContaining("Unexpected Error"),
+      });
+    });
+
     it("should handle collector end with no collected interactions", async () => {
       const mockCollector = {
         on: jest.fn(),
@@ -742,7 +1116,7 @@ describe("Time Command", () => {
       });
     });
 
-    it("should handle collector end with collected interactions", async () => {
+    it("should keep the preview when the collector ends after a submit", async () => {
       const mockCollector = {
         on: jest.fn(),
       };
@@ -755,25 +1129,1034 @@ describe("Time Command", () => {
       };
 
       mockInteraction.editReply.mockResolvedValue(mockMessage);
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
 
       await execute(mockInteraction);
 
-      // Get the collector event handlers
-      const onEndHandler = mockCollector.on.mock.calls.find(
-        (call) => call[0] === "end"
-      )[1];
+      const onCollectHandler = getHandler(mockCollector, "collect");
+      const onEndHandler = getHandler(mockCollector, "end");
 
-      // Mock collected interactions (not empty)
-      const mockCollected = { size: 1 };
+      await onCollectHandler({
+        customId: "submit",
+        user: { id: "987654321098765432" },
+        deferUpdate: jest.fn().mockResolvedValue({}),
+      });
+      mockInteraction.editReply.mockClear();
 
-      // Test collector end with collected interactions (covers the else branch)
-      await onEndHandler(mockCollected);
+      await onEndHandler({ size: 1 });
 
-      // Should not call editReply when there are collected interactions
+      // Should not call editReply once the time was submitted
       expect(mockInteraction.editReply).not.toHaveBeenCalledWith({
         embeds: expect.any(Array),
         components: [],
       });
     });
+
+    it("should remove the controls when the collector ends after edits only", async () => {
+      const mockCollector = { on: jest.fn() };
+      mockInteraction.editReply.mockResolvedValue({
+        createMessageComponentCollector: jest
+          .fn()
+          .mockReturnValue(mockCollector),
+      });
+
+      await execute(mockInteraction);
+
+      await getHandler(mockCollector, "end")({ size: 2 });
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        embeds: expect.any(Array),
+        components: [],
+      });
+    });
+
+    it("should log a failure to expire the preview", async () => {
+      const mockCollector = { on: jest.fn() };
+      mockInteraction.editReply.mockResolvedValue({
+        createMessageComponentCollector: jest
+          .fn()
+          .mockReturnValue(mockCollector),
+      });
+
+      await execute(mockInteraction);
+      mockInteraction.editReply.mockRejectedValueOnce(
+        new Error("Unknown Message")
+      );
+
+      await expect(
+        getHandler(mockCollector, "end")({ size: 0 })
+      ).resolves.toBeUndefined();
+
+      expect(mockServices.ILoggerService.logError).toHaveBeenCalledWith(
+        new Error("Unknown Message"),
+        expect.objectContaining({ Operation: "expireTimePreview" })
+      );
+    });
+  });
+
+  describe("editable preview", () => {
+    let mockCollector: { on: jest.Mock };
+
+    const createModalSubmit = (values: Record<string, string>) => ({
+      user: { id: "987654321098765432" },
+      fields: {
+        getTextInputValue: jest.fn((id: string) => values[id]),
+      },
+      isFromMessage: jest.fn().mockReturnValue(true),
+      update: jest.fn().mockResolvedValue({}),
+      reply: jest.fn().mockResolvedValue({}),
+    });
+
+    const createSelectInteraction = (
+      key: string,
+      modalSubmit: ReturnType<typeof createModalSubmit> | null
+    ) => ({
+      id: `select-${key}`,
+      customId: "edit-issue",
+      user: { id: "987654321098765432" },
+      values: [key],
+      isStringSelectMenu: jest.fn().mockReturnValue(true),
+      showModal: jest.fn().mockResolvedValue(undefined),
+      awaitModalSubmit: modalSubmit
+        ? jest.fn().mockResolvedValue(modalSubmit)
+        : jest
+            .fn()
+            .mockRejectedValue(new Error("Collector received no interactions")),
+    });
+
+    const createAddInteraction = (
+      modalSubmit: ReturnType<typeof createModalSubmit>
+    ) => ({
+      id: "add-1",
+      customId: "add-issue",
+      user: { id: "987654321098765432" },
+      isStringSelectMenu: jest.fn().mockReturnValue(false),
+      showModal: jest.fn().mockResolvedValue(undefined),
+      awaitModalSubmit: jest.fn().mockResolvedValue(modalSubmit),
+    });
+
+    const createSubmitInteraction = () => ({
+      customId: "submit",
+      user: { id: "987654321098765432" },
+      isStringSelectMenu: jest.fn().mockReturnValue(false),
+      deferUpdate: jest.fn().mockResolvedValue({}),
+      reply: jest.fn().mockResolvedValue({}),
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date("2025-07-30T10:00:00.000Z")); // Wednesday
+
+      (mockInteraction.options.get as jest.Mock)
+        .mockReturnValueOnce({ value: 1 }) // days-ago
+        .mockReturnValueOnce({ value: 8 }); // hours
+
+      mockJiraConfig.findProfile.mockResolvedValue({
+        host: "test.atlassian.net",
+        username: "test@example.com",
+        token: "test-token",
+      } as any);
+
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "10001",
+            key: "ISSUE-1",
+            fields: {
+              summary: "Test Issue 1",
+              assignee: { displayName: "Test User" },
+            },
+          },
+          {
+            id: "10002",
+            key: "ISSUE-2",
+            fields: {
+              summary: "Test Issue 2",
+              assignee: { displayName: "Test User" },
+            },
+          },
+        ])
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      mockCollector = { on: jest.fn() };
+      mockInteraction.editReply.mockResolvedValue({
+        createMessageComponentCollector: jest
+          .fn()
+          .mockReturnValue(mockCollector),
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should offer an issue select menu and an add button", async () => {
+      await execute(mockInteraction);
+
+      const previewCall = mockInteraction.editReply.mock.calls.find(
+        (call: any[]) => call[0].components?.length
+      )[0];
+      expect(previewCall.components).toHaveLength(2);
+    });
+
+    it("should post only the edited split", async () => {
+      await execute(mockInteraction);
+      const onCollect = getHandler(mockCollector, "collect");
+
+      const firstEdit = createModalSubmit({ minutes: "300" });
+      const firstSelect = createSelectInteraction("ISSUE-1", firstEdit);
+      await onCollect(firstSelect);
+      await onCollect(
+        createSelectInteraction(
+          "ISSUE-2",
+          createModalSubmit({ minutes: "180" })
+        )
+      );
+
+      expect(firstSelect.showModal).toHaveBeenCalled();
+      expect(firstEdit.update).toHaveBeenCalledWith({
+        embeds: expect.any(Array),
+        components: expect.any(Array),
+      });
+
+      const submit = createSubmitInteraction();
+      await onCollect(submit);
+
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(2);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        "ISSUE-1",
+        18000,
+        expect.any(Date),
+        false,
+        undefined
+      );
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        "ISSUE-2",
+        10800,
+        expect.any(Date),
+        false,
+        undefined
+      );
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.objectContaining({ content: "Time logged successfully." })
+      );
+    });
+
+    it("should not preview a day logged on issues outside the JQL", async () => {
+      mockServices.IJiraService.iterateUserWorklogs.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            issueKey: "MEET-1",
+            author: { emailAddress: "test@example.com" },
+            timeSpent: "1h",
+            timeSpentSeconds: 3600,
+          },
+        ])
+      );
+
+      await execute(mockInteraction);
+
+      const embed = (EmbedBuilder as unknown as jest.Mock).mock.results[0]
+        .value;
+      expect(embed.addFields).toHaveBeenCalledWith({
+        name: "Other issues",
+        value: "- MEET-1: 1h",
+        inline: false,
+      });
+      expect(embed.setFooter).toHaveBeenCalledWith({
+        text: "You logged 1 worklogs for a total of 1h.",
+      });
+      expect(mockInteraction.editReply).toHaveBeenLastCalledWith({
+        embeds: [embed],
+        components: [],
+      });
+    });
+
+    it("should top up the rest of a partially logged day", async () => {
+      mockJiraConfig.findProfile.mockResolvedValue({
+        host: "test.atlassian.net",
+        username: "test@example.com",
+        token: "test-token",
+        partialDayMode: "top-up-new",
+      } as any);
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(
+        (_host: string, _username: string, _token: string, key: string) =>
+          mockAsyncIterable(
+            key === "ISSUE-1"
+              ? [
+                  {
+                    author: { emailAddress: "test@example.com" },
+                    started: "2025-07-29T13:00:00.000+0000",
+                    timeSpent: "2h",
+                    timeSpentSeconds: 7200,
+                  },
+                ]
+              : []
+          )
+      );
+
+      await execute(mockInteraction);
+      const embed = (EmbedBuilder as unknown as jest.Mock).mock.results[0]
+        .value;
+      expect(embed.setFooter).toHaveBeenCalledWith({
+        text: "You already logged 2h. Split total: 6h of 6h.",
+      });
+
+      const submit = createSubmitInteraction();
+      await getHandler(mockCollector, "collect")(submit);
+
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(1);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        "ISSUE-2",
+        21600,
+        // After the two hours logged from 13:00
+        new Date("2025-07-29T15:00:00.000Z"),
+        false,
+        undefined
+      );
+    });
+
+    it("should tie the worklogs to the command that previewed them", async () => {
+      mockInteraction.id = "555555555555555555";
+
+      await execute(mockInteraction);
+      await getHandler(mockCollector, "collect")(createSubmitInteraction());
+
+      expect(WorklogEntry.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: "manual",
+          submissionId: "555555555555555555",
+        })
+      );
+    });
+
+    it("should reserve allocations before splitting the rest", async () => {
+      (Allocation.findForDay as jest.Mock).mockResolvedValue([
+        { issueKey: "MEET-1", timeInSeconds: 3600 },
+      ]);
+
+      await execute(mockInteraction);
+      const submit = createSubmitInteraction();
+      await getHandler(mockCollector, "collect")(submit);
+
+      expect(
+        mockServices.IJiraService.postWorklog.mock.calls.map(
+          (call: unknown[]) => [call[3], call[4]]
+        )
+      ).toEqual([
+        ["MEET-1", 3600],
+        ["ISSUE-1", 12600],
+        ["ISSUE-2", 12600],
+      ]);
+    });
+
+    it("should drop an issue and reject a split that no longer matches the day", async () => {
+      await execute(mockInteraction);
+      const onCollect = getHandler(mockCollector, "collect");
+
+      await onCollect(
+        createSelectInteraction("ISSUE-1", createModalSubmit({ minutes: "0" }))
+      );
+
+      const embed = (EmbedBuilder as unknown as jest.Mock).mock.results[0]
+        .value;
+      const fields = embed.setFields.mock.calls[0][0];
+      expect(fields).toHaveLength(1);
+      expect(fields[0].name).toContain("ISSUE-2");
+
+      const submit = createSubmitInteraction();
+      await onCollect(submit);
+
+      expect(submit.deferUpdate).not.toHaveBeenCalled();
+      expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      expect(submit.reply).toHaveBeenCalledWith({
+        content: expect.stringContaining("Your split adds up to 4h"),
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it("should add an issue key by hand", async () => {
+      await execute(mockInteraction);
+      const onCollect = getHandler(mockCollector, "collect");
+
+      await onCollect(
+        createSelectInteraction(
+          "ISSUE-1",
+          createModalSubmit({ minutes: "120" })
+        )
+      );
+      const addSubmit = createModalSubmit({
+        "issue-key": "proj-42",
+        minutes: "120",
+      });
+      await onCollect(createAddInteraction(addSubmit));
+
+      expect(addSubmit.update).toHaveBeenCalled();
+
+      await onCollect(createSubmitInteraction());
+
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(3);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        "PROJ-42",
+        7200,
+        expect.any(Date),
+        false,
+        undefined
+      );
+    });
+
+    it("should reject invalid minutes without changing the split", async () => {
+      await execute(mockInteraction);
+      const onCollect = getHandler(mockCollector, "collect");
+
+      const invalidEdit = createModalSubmit({ minutes: "lots" });
+      await onCollect(createSelectInteraction("ISSUE-1", invalidEdit));
+
+      expect(invalidEdit.update).not.toHaveBeenCalled();
+      expect(invalidEdit.reply).toHaveBeenCalledWith({
+        content: expect.stringContaining("Minutes must be a valid number"),
+        flags: MessageFlags.Ephemeral,
+      });
+
+      await onCollect(createSubmitInteraction());
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject an invalid issue key", async () => {
+      await execute(mockInteraction);
+      const onCollect = getHandler(mockCollector, "collect");
+
+      const addSubmit = createModalSubmit({
+        "issue-key": "not a key",
+        minutes: "30",
+      });
+      await onCollect(createAddInteraction(addSubmit));
+
+      expect(addSubmit.update).not.toHaveBeenCalled();
+      expect(addSubmit.reply).toHaveBeenCalledWith({
+        content: expect.stringContaining("Issue key format is invalid"),
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it("should fill the saved comment template for each worklog", async () => {
+      mockJiraConfig.findProfile.mockResolvedValue({
+        host: "test.atlassian.net",
+        username: "test@example.com",
+        token: "test-token",
+        worklogCommentTemplate: "{key}: {summary} ({status}) on {date}",
+      } as any);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "10001",
+            key: "ISSUE-1",
+            fields: {
+              summary: "Test Issue 1",
+              assignee: { displayName: "Test User" },
+              status: { name: "In Review" },
+            },
+          },
+        ])
+      );
+
+      await execute(mockInteraction);
+      await getHandler(mockCollector, "collect")(createSubmitInteraction());
+
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        "ISSUE-1",
+        28800,
+        expect.any(Date),
+        false,
+        "ISSUE-1: Test Issue 1 (In Review) on 2025-07-29"
+      );
+    });
+
+    it("should prefer the comment given to the command", async () => {
+      const options: Record<string, unknown> = {
+        "days-ago": 1,
+        hours: 8,
+        comment: "Sprint work",
+      };
+      (mockInteraction.options.get as jest.Mock)
+        .mockReset()
+        .mockImplementation((name: string) =>
+          options[name] !== undefined ? { value: options[name] } : null
+        );
+      mockJiraConfig.findProfile.mockResolvedValue({
+        host: "test.atlassian.net",
+        username: "test@example.com",
+        token: "test-token",
+        worklogCommentTemplate: "{summary}",
+      } as any);
+
+      await execute(mockInteraction);
+      await getHandler(mockCollector, "collect")(createSubmitInteraction());
+
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(2);
+      mockServices.IJiraService.postWorklog.mock.calls.forEach(
+        (call: unknown[]) => expect(call[7]).toBe("Sprint work")
+      );
+    });
+
+    it("should reject an empty comment", async () => {
+      const options: Record<string, unknown> = {
+        "days-ago": 1,
+        comment: "   ",
+      };
+      (mockInteraction.options.get as jest.Mock)
+        .mockReset()
+        .mockImplementation((name: string) =>
+          options[name] !== undefined ? { value: options[name] } : null
+        );
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: "Worklog comment must be between 1 and 2000 characters.",
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(mockJiraConfig.findProfile).not.toHaveBeenCalled();
+    });
+
+    it("should ignore a dismissed modal", async () => {
+      await execute(mockInteraction);
+      const onCollect = getHandler(mockCollector, "collect");
+
+      await expect(
+        onCollect(createSelectInteraction("ISSUE-1", null))
+      ).resolves.toBeUndefined();
+
+      await onCollect(createSubmitInteraction());
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("date ranges", () => {
+    let mockCollector: any;
+
+    const setOptions = (options: Record<string, unknown>) => {
+      (mockInteraction.options.get as jest.Mock)
+        .mockReset()
+        .mockImplementation((name: string) =>
+          options[name] !== undefined ? { value: options[name] } : null
+        );
+    };
+
+    const createIssue = (key: string) => ({
+      id: key,
+      key,
+      fields: {
+        summary: `Summary of ${key}`,
+        assignee: { displayName: "Test User" },
+      },
+    });
+
+    const getDescription = (index = 0) =>
+      (EmbedBuilder as unknown as jest.Mock).mock.results[index].value
+        .setDescription.mock.calls[0][0];
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date("2025-08-05T10:00:00.000Z")); // Tuesday
+
+      mockCollector = { on: jest.fn() };
+      mockInteraction.editReply.mockResolvedValue({
+        createMessageComponentCollector: jest
+          .fn()
+          .mockReturnValue(mockCollector),
+      });
+      setOptions({ preset: "last-week", hours: 8 });
+
+      mockJiraConfig.findProfile.mockResolvedValue({
+        guildId: "123456789012345678",
+        userId: "987654321098765432",
+        host: "test.atlassian.net",
+        username: "test@example.com",
+        token: "test-token",
+      } as any);
+
+      // Monday has one issue, Tuesday is logged, Wednesday has no issues,
+      // Thursday fails and Friday has two issues
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(
+        (_host: string, _username: string, _token: string, jql: string) => {
+          if (jql.includes("2025-07-31")) {
+            throw new Error("Jira down");
+          }
+          if (jql.includes("2025-07-30")) {
+            return mockAsyncIterable([]);
+          }
+          return mockAsyncIterable(
+            jql.includes("2025-08-01")
+              ? [createIssue("ISSUE-1"), createIssue("ISSUE-2")]
+              : [createIssue("ISSUE-1")]
+          );
+        }
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(
+        (
+          _host: string,
+          _username: string,
+          _token: string,
+          _key: string,
+          date: Date
+        ) =>
+          mockAsyncIterable(
+            date.getDate() === 29
+              ? [
+                  {
+                    timeSpentSeconds: 2 * 3600,
+                    author: { emailAddress: "test@example.com" },
+                  },
+                ]
+              : []
+          )
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should show every working day of last week", async () => {
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledTimes(5);
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        // eslint-disable-next-line quotes
+        'assignee WAS currentUser() ON "2025-07-28" AND status WAS "In Progress" ON "2025-07-28"'
+      );
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: `Checking your work from ${new Date(
+          2025,
+          6,
+          28
+        ).toDateString()} to ${new Date(2025, 7, 3).toDateString()}...`,
+        flags: MessageFlags.Ephemeral,
+      });
+
+      const description = getDescription();
+      expect(description).toContain("📝 Mon Jul 28: ISSUE-1 8h");
+      expect(description).toContain("✅ Tue Jul 29: already logged 2h");
+      expect(description).toContain("⚠️ Wed Jul 30: no issues found");
+      expect(description).toContain(
+        "❌ Thu Jul 31: Failed to get your work: Jira down"
+      );
+      expect(description).toContain("📝 Fri Aug 01: ISSUE-1 4h, ISSUE-2 4h");
+      expect(description).not.toContain("Sat Aug 02");
+    });
+
+    it("should log all missing days in one submit", async () => {
+      await execute(mockInteraction);
+
+      const submit = {
+        customId: "submit-range",
+        deferUpdate: jest.fn().mockResolvedValue({}),
+      };
+      await getHandler(mockCollector, "collect")(submit);
+      // A second click doesn't log the days twice
+      await getHandler(mockCollector, "collect")(submit);
+
+      expect(submit.deferUpdate).toHaveBeenCalledTimes(1);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(3);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        "ISSUE-2",
+        4 * 3600,
+        expect.any(Date),
+        false,
+        undefined
+      );
+      expect(mockInteraction.editReply).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          content: "Time logged successfully.",
+          components: [],
+        })
+      );
+      expect(getDescription(1)).toBe(
+        "✅ Mon Jul 28: logged 8h on 1 issue\n✅ Fri Aug 01: logged 8h on 2 issues"
+      );
+    });
+
+    it("should report the issues that failed on each day", async () => {
+      mockServices.IJiraService.postWorklog.mockImplementation(
+        (_host: string, _username: string, _token: string, key: string) =>
+          key === "ISSUE-2"
+            ? Promise.reject(new Error("Issue is closed"))
+            : Promise.resolve({ ok: true })
+      );
+
+      await execute(mockInteraction);
+      await getHandler(
+        mockCollector,
+        "collect"
+      )({
+        customId: "submit-range",
+        deferUpdate: jest.fn().mockResolvedValue({}),
+      });
+
+      expect(mockInteraction.editReply).toHaveBeenLastCalledWith(
+        expect.objectContaining({ content: "Some days could not be logged." })
+      );
+      expect(getDescription(1)).toBe(
+        "✅ Mon Jul 28: logged 8h on 1 issue\n⚠️ Fri Aug 01: logged 1 of 2 issues\n`ISSUE-2` 4h: ❌ Issue is closed"
+      );
+    });
+
+    it("should report a failure to submit the days instead of throwing", async () => {
+      await execute(mockInteraction);
+      mockInteraction.editReply.mockRejectedValueOnce(
+        new Error("Unknown Message")
+      );
+
+      const submit = {
+        customId: "submit-range",
+        user: { id: "987654321098765432" },
+        replied: false,
+        deferred: true,
+        deferUpdate: jest.fn().mockResolvedValue({}),
+        editReply: jest.fn().mockResolvedValue({}),
+      };
+      await expect(
+        getHandler(mockCollector, "collect")(submit)
+      ).resolves.toBeUndefined();
+
+      expect(submit.editReply).toHaveBeenCalledWith({
+        content: expect.stringContaining("Unexpected Error"),
+      });
+    });
+
+    it("should log a failure to expire the preview", async () => {
+      await execute(mockInteraction);
+      mockInteraction.editReply.mockRejectedValueOnce(
+        new Error("Unknown Message")
+      );
+
+      await expect(
+        getHandler(mockCollector, "end")({ size: 0 })
+      ).resolves.toBeUndefined();
+
+      expect(mockServices.ILoggerService.logError).toHaveBeenCalledWith(
+        new Error("Unknown Message"),
+        expect.objectContaining({ Operation: "expireTimePreview" })
+      );
+    });
+
+    describe("with time off", () => {
+      const setTimeOffIssue = (timeOffIssueKey: string) =>
+        mockJiraConfig.findProfile.mockResolvedValue({
+          guildId: "123456789012345678",
+          userId: "987654321098765432",
+          host: "test.atlassian.net",
+          username: "test@example.com",
+          token: "test-token",
+          timeOffIssueKey,
+        } as any);
+
+      beforeEach(() => {
+        mockTimeOff.findInRange.mockResolvedValue([
+          { date: "2025-07-30", reason: "Holiday" },
+        ] as any);
+        mockTimeOff.findForDay.mockResolvedValue({
+          date: "2025-07-30",
+          reason: "Holiday",
+        } as any);
+      });
+
+      it("should skip days off in ranges", async () => {
+        await execute(mockInteraction);
+
+        expect(mockTimeOff.findInRange).toHaveBeenCalledWith(
+          "987654321098765432",
+          "123456789012345678",
+          "2025-07-28",
+          "2025-08-03"
+        );
+        expect(
+          mockServices.IJiraService.iterateIssuesWorked
+        ).toHaveBeenCalledTimes(4);
+        expect(getDescription()).toContain("🌴 Wed Jul 30: time off (Holiday)");
+      });
+
+      it("should log days off in ranges to the time off issue", async () => {
+        setTimeOffIssue("HR-12");
+
+        await execute(mockInteraction);
+        expect(getDescription()).toContain("🌴 Wed Jul 30: HR-12 8h");
+
+        await getHandler(
+          mockCollector,
+          "collect"
+        )({
+          customId: "submit-range",
+          deferUpdate: jest.fn().mockResolvedValue({}),
+        });
+
+        expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+          "test.atlassian.net",
+          "test@example.com",
+          "test-token",
+          "HR-12",
+          8 * 3600,
+          expect.any(Date),
+          false,
+          "Holiday"
+        );
+      });
+
+      it("should not check a single day off", async () => {
+        setOptions({ date: "2025-07-30" });
+
+        await execute(mockInteraction);
+
+        expect(mockTimeOff.findForDay).toHaveBeenCalledWith(
+          "987654321098765432",
+          "123456789012345678",
+          "2025-07-30"
+        );
+        expect(mockInteraction.editReply).toHaveBeenLastCalledWith({
+          content: `${new Date(
+            2025,
+            6,
+            30
+          ).toDateString()} is time off (Holiday). Set an issue for time off with /timeoff issue, or remove the day with /timeoff remove.`,
+          flags: MessageFlags.Ephemeral,
+        });
+        expect(
+          mockServices.IJiraService.iterateIssuesWorked
+        ).not.toHaveBeenCalled();
+      });
+
+      it("should preview a single day off on the time off issue", async () => {
+        setTimeOffIssue("HR-12");
+        setOptions({ date: "2025-07-30", hours: 8 });
+
+        await execute(mockInteraction);
+
+        const embed = (EmbedBuilder as unknown as jest.Mock).mock.results[0]
+          .value;
+        expect(embed.setTitle.mock.calls[0][0]).toContain(
+          "🌴 You were off 6 days ago"
+        );
+        expect(embed.addFields.mock.calls[0][0][0].name).toBe(
+          "HR-12 (Time off)"
+        );
+        expect(
+          mockServices.IJiraService.iterateIssuesWorked
+        ).not.toHaveBeenCalled();
+      });
+    });
+
+    it("should check from a date until yesterday", async () => {
+      setOptions({ from: "2025-08-01" });
+
+      await execute(mockInteraction);
+
+      // Friday and Monday, the weekend is skipped
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledTimes(2);
+      expect(getDescription()).toContain("Mon Aug 04");
+    });
+
+    it("should not offer to submit when nothing is missing", async () => {
+      setOptions({ from: "2025-07-29", to: "2025-07-30" });
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).toHaveBeenLastCalledWith(
+        expect.objectContaining({ components: [] })
+      );
+      expect(mockCollector.on).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [
+        { from: "2025-08-04", to: "2025-08-01" },
+        "The end date must not be before the start date",
+      ],
+      [{ from: "2025-08-04", to: "2025-08-05" }, "Dates must be before today"],
+      [
+        { from: "2025-06-01", to: "2025-06-10" },
+        "Dates must be within the last 50 days",
+      ],
+      [
+        { preset: "last-week", from: "2025-08-01" },
+        "Use either a preset or from and to, not both",
+      ],
+      [{ to: "2025-08-01" }, "A date range needs a from date"],
+      [
+        { date: "someday" },
+        "Date must be a date such as 2025-07-28, yesterday, friday or 3 days ago",
+      ],
+      [{ date: "today" }, "Dates must be before today"],
+    ])("should reject %j", async (options, message) => {
+      setOptions(options);
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: message,
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [
+        { "days-ago": 1, from: "2025-08-01" },
+        "Use only one of days-ago, date, or a date range.",
+      ],
+      [
+        { date: "friday", preset: "last-week" },
+        "Use only one of days-ago, date, or a date range.",
+      ],
+      [
+        {},
+        "Choose the days to check with days-ago, date, from and to, or a preset.",
+      ],
+    ])("should reject the options %j", async (options, message) => {
+      setOptions(options);
+
+      await execute(mockInteraction);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: message,
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(mockJiraConfig.findProfile).not.toHaveBeenCalled();
+    });
+
+    it("should check a day given in words", async () => {
+      setOptions({ date: "last friday" });
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IJiraService.iterateIssueWorklogs
+      ).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        "ISSUE-1",
+        new Date(2025, 7, 1),
+        new Date(2025, 7, 1),
+        "Etc/UTC"
+      );
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        // eslint-disable-next-line quotes
+        'assignee WAS currentUser() ON "2025-08-01" AND status WAS "In Progress" ON "2025-08-01"'
+      );
+    });
+
+    it("should count days ago from today in the user's timezone", async () => {
+      // Already Wednesday in Auckland while it is Tuesday in UTC
+      jest.setSystemTime(new Date("2025-08-05T14:00:00.000Z"));
+      setOptions({ "days-ago": 1 });
+      mockJiraConfig.findProfile.mockResolvedValue({
+        host: "test.atlassian.net",
+        username: "test@example.com",
+        token: "test-token",
+        timezone: "Pacific/Auckland",
+      } as any);
+
+      await execute(mockInteraction);
+
+      expect(
+        mockServices.IJiraService.iterateIssueWorklogs
+      ).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "test-token",
+        "ISSUE-1",
+        new Date(2025, 7, 5),
+        new Date(2025, 7, 5),
+        "Pacific/Auckland"
+      );
+    });
+  });
+
+  describe("autocomplete", () => {
+    let mockAutocomplete: any;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date("2025-08-05T10:00:00.000Z")); // Tuesday
+
+      mockAutocomplete = {
+        user: { id: "987654321098765432" },
+        options: {
+          get: jest.fn().mockReturnValue(null),
+          data: [{ name: "date", focused: true, value: "fri" }],
+        },
+        respond: jest.fn().mockResolvedValue(undefined),
+      };
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should suggest the typed date and recent workdays", async () => {
+      mockJiraConfig.findProfile.mockResolvedValue({
+        workDays: "1,2,3,4,5",
+      } as any);
+
+      await autocomplete(mockAutocomplete);
+
+      const choices = mockAutocomplete.respond.mock.calls[0][0];
+      expect(choices[0]).toEqual({
+        name: "Fri Aug 01 2025 (4 days ago)",
+        value: "2025-08-01",
+      });
+      expect(choices[1]).toEqual({
+        name: "Mon Aug 04 2025 (yesterday)",
+        value: "2025-08-04",
+      });
+      expect(choices).toHaveLength(10);
+    });
+
+    it("should respond without suggestions when the lookup fails", async () => {
+      mockJiraConfig.findProfile.mockRejectedValue(new Error("DB down"));
+
+      await autocomplete(mockAutocomplete);
+
+      expect(mockAutocomplete.respond).toHaveBeenCalledWith([]);
+    });
   });
 });
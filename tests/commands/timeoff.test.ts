@@ -0,0 +1,322 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { InteractionContextType, MessageFlags } from "discord.js";
+import { data, execute, name } from "../../src/commands/timeoff";
+import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { TimeOff } from "../../src/db/models/TimeOff";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/services/ServiceContainer");
+jest.mock("../../src/db/models/JiraConfig");
+jest.mock("../../src/db/models/TimeOff");
+
+// Unmock SlashCommandBuilder for this test so we get actual command data
+jest.unmock("discord.js");
+
+const mockTimeOff = TimeOff as jest.Mocked<typeof TimeOff>;
+
+describe("Time Off Command", () => {
+  let mockInteraction: any;
+  let mockServices: any;
+  let mockConfig: any;
+
+  const runSubcommand = async (
+    subcommand: string,
+    values: Record<string, unknown> = {}
+  ) => {
+    mockInteraction.options.getSubcommand.mockReturnValue(subcommand);
+    mockInteraction.options.get.mockImplementation((option: string) =>
+      values[option] !== undefined
+        ? option === "file"
+          ? { attachment: values[option] }
+          : { value: values[option] }
+        : null
+    );
+
+    await execute(mockInteraction);
+
+    return mockInteraction.reply.mock.calls[0][0];
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2025-08-05T10:00:00.000Z")); // Tuesday
+
+    const containerSetup = createMockServiceContainer();
+    mockServices = containerSetup.mockServices;
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(
+      containerSetup.mockContainer
+    );
+
+    mockInteraction = createMockInteraction({
+      memberPermissions: {
+        has: jest.fn().mockReturnValue(true),
+      },
+      options: {
+        get: jest.fn(),
+        getSubcommand: jest.fn(),
+      },
+    });
+
+    mockConfig = {
+      timezone: "Etc/UTC",
+      timeOffIssueKey: null,
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+    mockTimeOff.destroy.mockResolvedValue(2);
+    mockTimeOff.bulkCreate.mockResolvedValue([]);
+    mockTimeOff.findInRange.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("Command Data", () => {
+    it("should have every subcommand", () => {
+      const commandData = data.toJSON();
+
+      expect(name).toBe("timeoff");
+      expect(commandData.contexts).toEqual([
+        InteractionContextType.Guild,
+        InteractionContextType.BotDM,
+      ]);
+      expect(commandData.options?.map((option) => option.name)).toEqual([
+        "add",
+        "remove",
+        "list",
+        "import",
+        "issue",
+      ]);
+    });
+  });
+
+  describe("add", () => {
+    it("should add personal days off", async () => {
+      const reply = await runSubcommand("add", {
+        from: "2025-08-11",
+        to: "2025-08-13",
+        reason: "Vacation",
+      });
+
+      const days = ["2025-08-11", "2025-08-12", "2025-08-13"];
+      expect(mockTimeOff.destroy).toHaveBeenCalledWith({
+        where: { userId: "987654321098765432", date: days },
+      });
+      expect(mockTimeOff.bulkCreate).toHaveBeenCalledWith(
+        days.map((date) => ({
+          userId: "987654321098765432",
+          date,
+          reason: "Vacation",
+        })),
+        { validate: true }
+      );
+      expect(reply.embeds[0].toJSON().title).toBe("🌴 Time Off Added");
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "Added 3 days to your time off:\n• 2025-08-11 to 2025-08-13: Vacation"
+      );
+      expect(reply.flags).toBe(MessageFlags.Ephemeral);
+    });
+
+    it("should read dates in words in the user's timezone", async () => {
+      await runSubcommand("add", { from: "yesterday" });
+
+      expect(mockTimeOff.bulkCreate).toHaveBeenCalledWith(
+        [{ userId: "987654321098765432", date: "2025-08-04", reason: null }],
+        { validate: true }
+      );
+    });
+
+    it("should add server holidays for managers", async () => {
+      await runSubcommand("add", {
+        from: "2025-12-25",
+        reason: "Christmas",
+        server: true,
+      });
+
+      expect(mockTimeOff.bulkCreate).toHaveBeenCalledWith(
+        [
+          {
+            guildId: "123456789012345678",
+            userId: null,
+            date: "2025-12-25",
+            reason: "Christmas",
+          },
+        ],
+        { validate: true }
+      );
+    });
+
+    it("should deny server holidays to other members", async () => {
+      mockInteraction.memberPermissions.has.mockReturnValue(false);
+
+      const reply = await runSubcommand("add", {
+        from: "2025-12-25",
+        server: true,
+      });
+
+      expect(reply.embeds[0].toJSON().title).toBe("🚫 Access Denied");
+      expect(mockTimeOff.bulkCreate).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid dates", async () => {
+      const reply = await runSubcommand("add", { from: "someday" });
+
+      expect(reply.embeds[0].toJSON().title).toBe("❌ Validation Error");
+      expect(mockTimeOff.bulkCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("remove", () => {
+    it("should remove days off", async () => {
+      const reply = await runSubcommand("remove", {
+        from: "2025-08-11",
+        to: "2025-08-12",
+      });
+
+      expect(mockTimeOff.destroy).toHaveBeenCalledWith({
+        where: {
+          userId: "987654321098765432",
+          date: ["2025-08-11", "2025-08-12"],
+        },
+      });
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "Removed 2 days from your time off."
+      );
+    });
+  });
+
+  describe("list", () => {
+    it("should list upcoming days off with the server's holidays", async () => {
+      mockTimeOff.findInRange.mockResolvedValue([
+        { date: "2025-08-11", reason: "Vacation" },
+        { date: "2025-08-12", reason: "Vacation" },
+        { date: "2025-12-25", reason: "Christmas" },
+      ] as any);
+
+      const reply = await runSubcommand("list");
+
+      expect(mockTimeOff.findInRange).toHaveBeenCalledWith(
+        "987654321098765432",
+        "123456789012345678",
+        "2025-08-05",
+        "2026-08-05"
+      );
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "• 2025-08-11 to 2025-08-12: Vacation\n• 2025-12-25: Christmas"
+      );
+    });
+
+    it("should say when there are no days off", async () => {
+      const reply = await runSubcommand("list", { server: true });
+
+      expect(mockTimeOff.findInRange).toHaveBeenCalledWith(
+        null,
+        "123456789012345678",
+        "2025-08-05",
+        "2026-08-05"
+      );
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "This server has no upcoming holidays."
+      );
+    });
+  });
+
+  describe("import", () => {
+    const file = {
+      name: "holidays.ics",
+      size: 200,
+      url: "https://cdn.discordapp.com/attachments/holidays.ics",
+    };
+
+    it("should import the days of a calendar", async () => {
+      mockServices.IHttpService.fetch.mockResolvedValue({
+        ok: true,
+        text: jest
+          .fn()
+          .mockResolvedValue(
+            "BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20251225\nDTEND;VALUE=DATE:20251227\nSUMMARY:Christmas\nEND:VEVENT\nEND:VCALENDAR"
+          ),
+      });
+
+      const reply = await runSubcommand("import", { file, server: true });
+
+      expect(mockServices.IHttpService.fetch).toHaveBeenCalledWith(file.url);
+      expect(mockTimeOff.bulkCreate).toHaveBeenCalledWith(
+        ["2025-12-25", "2025-12-26"].map((date) => ({
+          guildId: "123456789012345678",
+          userId: null,
+          date,
+          reason: "Christmas",
+        })),
+        { validate: true }
+      );
+      expect(reply.embeds[0].toJSON().title).toBe("🌴 Holidays Added");
+    });
+
+    it("should reject other files", async () => {
+      const reply = await runSubcommand("import", {
+        file: { ...file, name: "holidays.txt" },
+      });
+
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "The file must be a calendar (.ics) file"
+      );
+      expect(mockServices.IHttpService.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should reject calendars without events", async () => {
+      const reply = await runSubcommand("import", { file });
+
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "The calendar has no events"
+      );
+      expect(mockTimeOff.bulkCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("issue", () => {
+    it("should set the issue time off is logged to", async () => {
+      const reply = await runSubcommand("issue", { key: "hr-12" });
+
+      expect(mockConfig.timeOffIssueKey).toBe("HR-12");
+      expect(mockConfig.save).toHaveBeenCalled();
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "Your daily hours are logged to `HR-12` on days off."
+      );
+    });
+
+    it("should go back to skipping days off without a key", async () => {
+      mockConfig.timeOffIssueKey = "HR-12";
+
+      await runSubcommand("issue");
+
+      expect(mockConfig.timeOffIssueKey).toBeNull();
+    });
+
+    it("should need a configuration", async () => {
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(null);
+
+      const reply = await runSubcommand("issue", { key: "HR-12" });
+
+      expect(reply.embeds[0].toJSON().title).toBe("⚠️ Configuration Not Found");
+    });
+  });
+
+  it("should respect rate limits", async () => {
+    mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+      throw new Error("Too many requests");
+    });
+
+    const reply = await runSubcommand("list");
+
+    expect(reply.content).toContain("Rate Limited");
+    expect(mockTimeOff.findInRange).not.toHaveBeenCalled();
+  });
+});
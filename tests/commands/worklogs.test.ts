@@ -0,0 +1,483 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { EmbedBuilder, InteractionContextType } from "discord.js";
+import {
+  autocomplete,
+  buildFailedWorklogMessage,
+  buildRevertRow,
+  data,
+  execute,
+  handleButton,
+  name,
+} from "../../src/commands/worklogs";
+import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { WorklogEntry } from "../../src/db/models/WorklogEntry";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockInteraction,
+  createMockServiceContainer,
+} from "../test-utils";
+
+// Mock dependencies
+jest.mock("../../src/services/ServiceContainer");
+jest.mock("../../src/db/models/JiraConfig");
+jest.mock("../../src/db/models/WorklogEntry");
+
+// Unmock SlashCommandBuilder for this test so we get actual command data
+jest.unmock("discord.js");
+
+const mockWorklogEntry = WorklogEntry as jest.Mocked<typeof WorklogEntry>;
+
+describe("Worklogs Command", () => {
+  let mockInteraction: any;
+  let mockServices: any;
+  let mockConfig: any;
+  let mockEntry: any;
+
+  const runSubcommand = async (
+    subcommand: string,
+    values: Record<string, unknown> = {}
+  ) => {
+    mockInteraction.options.getSubcommand.mockReturnValue(subcommand);
+    mockInteraction.options.get.mockImplementation((option: string) =>
+      values[option] !== undefined ? { value: values[option] } : null
+    );
+
+    await execute(mockInteraction);
+
+    return mockInteraction.reply.mock.calls[0][0];
+  };
+
+  const createEntry = (overrides: Record<string, unknown> = {}) => ({
+    id: 3,
+    userId: "987654321098765432",
+    profile: "default",
+    issueKey: "PROJ-1",
+    worklogId: "10001",
+    date: "2025-08-04",
+    started: new Date("2025-08-04T09:00:00.000Z"),
+    timeInSeconds: 7200,
+    comment: "Fixed login",
+    source: "scheduled",
+    status: "posted",
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2025-08-05T10:00:00.000Z")); // Tuesday
+
+    const containerSetup = createMockServiceContainer();
+    mockServices = containerSetup.mockServices;
+    (ServiceContainer.getInstance as jest.Mock).mockReturnValue(
+      containerSetup.mockContainer
+    );
+
+    mockInteraction = createMockInteraction({
+      options: {
+        get: jest.fn(),
+        getSubcommand: jest.fn(),
+      },
+    });
+
+    mockConfig = {
+      userId: "987654321098765432",
+      profile: "default",
+      host: "test.jira.com",
+      username: "test@example.com",
+      token: "validtoken123456",
+      timezone: "Etc/UTC",
+    };
+    mockEntry = createEntry();
+    (JiraConfig.findProfile as jest.Mock).mockResolvedValue(mockConfig);
+    mockWorklogEntry.findOne.mockResolvedValue(mockEntry);
+    mockWorklogEntry.findAll.mockResolvedValue([]);
+    mockWorklogEntry.findForDay.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("Command Data", () => {
+    it("should have every subcommand", () => {
+      const commandData = data.toJSON();
+
+      expect(name).toBe("worklogs");
+      expect(commandData.contexts).toEqual([
+        InteractionContextType.Guild,
+        InteractionContextType.BotDM,
+      ]);
+      expect(commandData.options?.map((option) => option.name)).toEqual([
+        "list",
+        "edit",
+        "delete",
+      ]);
+    });
+  });
+
+  describe("list", () => {
+    it("should list yesterday's worklogs by default", async () => {
+      mockWorklogEntry.findForDay.mockResolvedValue([
+        mockEntry,
+        createEntry({ issueKey: "PROJ-2", timeInSeconds: 1800, comment: null }),
+      ]);
+
+      const reply = await runSubcommand("list");
+
+      expect(mockWorklogEntry.findForDay).toHaveBeenCalledWith(
+        "987654321098765432",
+        "default",
+        "2025-08-04"
+      );
+      const embed = reply.embeds[0].toJSON();
+      expect(embed.title).toBe("🧾 Worklogs for 2025-08-04");
+      expect(embed.description).toBe(
+        "• `PROJ-1` 2h: Fixed login\n• `PROJ-2` 30m"
+      );
+    });
+
+    it("should say when nothing was posted", async () => {
+      const reply = await runSubcommand("list", {
+        date: "2025-08-01",
+        profile: "Acme",
+      });
+
+      expect(mockWorklogEntry.findForDay).toHaveBeenCalledWith(
+        "987654321098765432",
+        "acme",
+        "2025-08-01"
+      );
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "The bot posted no worklogs for this day."
+      );
+    });
+  });
+
+  describe("edit", () => {
+    it("should update the time and comment in Jira", async () => {
+      const reply = await runSubcommand("edit", {
+        worklog: "3",
+        minutes: 90,
+        comment: "Reviewed login",
+      });
+
+      expect(mockWorklogEntry.findOne).toHaveBeenCalledWith({
+        where: { id: 3, userId: "987654321098765432", status: "posted" },
+      });
+      expect(mockServices.IJiraService.configureConnection).toHaveBeenCalled();
+      expect(mockServices.IJiraService.updateWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "PROJ-1",
+        "10001",
+        5400,
+        "Reviewed login"
+      );
+      expect(mockEntry.timeInSeconds).toBe(5400);
+      expect(mockEntry.comment).toBe("Reviewed login");
+      expect(mockEntry.save).toHaveBeenCalled();
+      expect(reply.embeds[0].toJSON().title).toBe("✏️ Worklog Updated");
+    });
+
+    it("should keep the time when only the comment changes", async () => {
+      await runSubcommand("edit", { worklog: "3", comment: "Reviewed" });
+
+      expect(mockServices.IJiraService.updateWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "PROJ-1",
+        "10001",
+        7200,
+        "Reviewed"
+      );
+    });
+
+    it("should need a change", async () => {
+      const reply = await runSubcommand("edit", { worklog: "3" });
+
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "Give the new minutes, a comment or both"
+      );
+      expect(mockServices.IJiraService.updateWorklog).not.toHaveBeenCalled();
+    });
+
+    it("should only edit the user's own worklogs", async () => {
+      mockWorklogEntry.findOne.mockResolvedValue(null);
+
+      const reply = await runSubcommand("edit", { worklog: "3", minutes: 30 });
+
+      expect(reply.embeds[0].toJSON().title).toBe("❌ Validation Error");
+      expect(mockServices.IJiraService.updateWorklog).not.toHaveBeenCalled();
+    });
+
+    it("should keep the worklog when Jira refuses the change", async () => {
+      mockServices.IJiraService.updateWorklog.mockResolvedValue({
+        ok: false,
+        status: 403,
+        statusText: "Forbidden",
+      });
+
+      await runSubcommand("edit", { worklog: "3", minutes: 30 });
+
+      expect(mockEntry.save).not.toHaveBeenCalled();
+      expect(mockInteraction.reply).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: expect.stringContaining("❌"),
+        })
+      );
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete the worklog from Jira", async () => {
+      const reply = await runSubcommand("delete", { worklog: "3" });
+
+      expect(mockServices.IJiraService.deleteWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "PROJ-1",
+        "10001"
+      );
+      expect(mockEntry.status).toBe("deleted");
+      expect(mockEntry.save).toHaveBeenCalled();
+      expect(reply.embeds[0].toJSON().description).toBe(
+        "Deleted 2025-08-04 PROJ-1 2h from Jira."
+      );
+    });
+
+    it("should mark worklogs already deleted in Jira", async () => {
+      mockServices.IJiraService.deleteWorklog.mockResolvedValue({
+        ok: false,
+        status: 404,
+      });
+
+      await runSubcommand("delete", { worklog: "3" });
+
+      expect(mockEntry.status).toBe("deleted");
+    });
+
+    it("should need the profile the worklog was posted with", async () => {
+      (JiraConfig.findProfile as jest.Mock).mockResolvedValue(null);
+
+      const reply = await runSubcommand("delete", { worklog: "3" });
+
+      expect(reply.embeds[0].toJSON().description).toContain(
+        "profile these worklogs were posted with no longer exists"
+      );
+      expect(mockServices.IJiraService.deleteWorklog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("autocomplete", () => {
+    const createAutocomplete = (focused: string, value: string) => ({
+      user: { id: "987654321098765432" },
+      options: {
+        get: jest.fn().mockReturnValue(null),
+        data: [{ name: focused, focused: true, value }],
+      },
+      respond: jest.fn().mockResolvedValue(undefined),
+    });
+
+    it("should suggest the user's recent worklogs", async () => {
+      mockWorklogEntry.findAll.mockResolvedValue([
+        mockEntry,
+        createEntry({ id: 4, issueKey: "PROJ-2", profile: "acme" }),
+      ] as any);
+      const interaction = createAutocomplete("worklog", "proj-2");
+
+      await autocomplete(interaction as any);
+
+      expect(mockWorklogEntry.findAll).toHaveBeenCalledWith({
+        where: { userId: "987654321098765432", status: "posted" },
+        order: [["started", "DESC"]],
+        limit: 100,
+      });
+      expect(interaction.respond).toHaveBeenCalledWith([
+        { name: "2025-08-04 PROJ-2 2h [acme]", value: "4" },
+      ]);
+    });
+
+    it("should suggest recent days for the date", async () => {
+      const interaction = createAutocomplete("date", "");
+
+      await autocomplete(interaction as any);
+
+      expect(interaction.respond.mock.calls[0][0][0]).toEqual({
+        name: "Mon Aug 04 2025 (yesterday)",
+        value: "2025-08-04",
+      });
+    });
+  });
+
+  describe("Revert", () => {
+    let buttonInteraction: any;
+
+    beforeEach(() => {
+      buttonInteraction = createMockInteraction({
+        customId: "worklogs:revert:default:2025-08-04",
+        deferUpdate: jest.fn().mockResolvedValue(undefined),
+        message: {
+          embeds: [
+            new EmbedBuilder()
+              .setTitle("You worked on 2 issues yesterday")
+              .setFooter({ text: "Your time was submitted." })
+              .toJSON(),
+          ],
+        },
+      });
+      mockWorklogEntry.findForDay.mockResolvedValue([
+        mockEntry,
+        createEntry({ issueKey: "PROJ-2", worklogId: "10002" }),
+      ]);
+    });
+
+    it("should build the button for a day", () => {
+      expect(
+        (buildRevertRow(undefined, "2025-08-04").toJSON().components[0] as any)
+          .custom_id
+      ).toBe("worklogs:revert:default:2025-08-04");
+    });
+
+    it("should delete the day's worklogs", async () => {
+      await handleButton(buttonInteraction);
+
+      expect(buttonInteraction.deferUpdate).toHaveBeenCalled();
+      expect(mockWorklogEntry.update).toHaveBeenCalledWith(
+        { status: "deleted", nextAttemptAt: null },
+        {
+          where: {
+            userId: "987654321098765432",
+            profile: "default",
+            date: "2025-08-04",
+            source: "scheduled",
+            status: "retrying",
+          },
+        }
+      );
+      expect(mockWorklogEntry.findForDay).toHaveBeenCalledWith(
+        "987654321098765432",
+        "default",
+        "2025-08-04",
+        { source: "scheduled" }
+      );
+      expect(mockServices.IJiraService.deleteWorklog).toHaveBeenCalledTimes(2);
+      const editCall = buttonInteraction.editReply.mock.calls[0][0];
+      expect(editCall.embeds[0].toJSON().footer.text).toBe(
+        "Your time was reverted, 2 worklogs were deleted."
+      );
+      expect(editCall.components).toEqual([]);
+    });
+
+    it("should keep the button when some worklogs are left", async () => {
+      mockServices.IJiraService.deleteWorklog
+        .mockResolvedValueOnce({ ok: true })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 500,
+          statusText: "Server Error",
+        });
+
+      await handleButton(buttonInteraction);
+
+      const editCall = buttonInteraction.editReply.mock.calls[0][0];
+      expect(editCall.embeds[0].toJSON().footer.text).toBe(
+        "Could not delete 1 of 2 worklogs. Try again or use /worklogs."
+      );
+      expect(editCall.components).toHaveLength(1);
+      expect(mockServices.ILoggerService.logError).toHaveBeenCalled();
+    });
+  });
+
+  describe("Retry", () => {
+    let buttonInteraction: any;
+
+    beforeEach(() => {
+      buttonInteraction = createMockInteraction({
+        customId: "worklogs:retry:3",
+        deferUpdate: jest.fn().mockResolvedValue(undefined),
+        update: jest.fn().mockResolvedValue(undefined),
+      });
+      mockEntry = createEntry({
+        worklogId: null,
+        status: "failed",
+        attempts: 5,
+        error: "Rate limit exceeded",
+      });
+      mockWorklogEntry.findOne.mockResolvedValue(mockEntry);
+    });
+
+    it("should offer to retry a failed worklog", () => {
+      const message = buildFailedWorklogMessage(mockEntry);
+
+      expect(message.embeds[0].toJSON().title).toBe(
+        "❌ Could not post a worklog on PROJ-1"
+      );
+      expect(message.embeds[0].toJSON().description).toContain(
+        "Rate limit exceeded after 5 attempts."
+      );
+      expect(
+        (message.components[0].toJSON().components[0] as any).custom_id
+      ).toBe("worklogs:retry:3");
+    });
+
+    it("should post the worklog again", async () => {
+      mockServices.IJiraService.postWorklog.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ id: "10005" }),
+      });
+
+      await handleButton(buttonInteraction);
+
+      expect(mockWorklogEntry.findOne).toHaveBeenCalledWith({
+        where: { id: 3, userId: "987654321098765432", status: "failed" },
+      });
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "PROJ-1",
+        7200,
+        new Date("2025-08-04T09:00:00.000Z"),
+        false,
+        "Fixed login"
+      );
+      expect(mockEntry).toMatchObject({
+        status: "posted",
+        worklogId: "10005",
+        attempts: 6,
+      });
+      const editCall = buttonInteraction.editReply.mock.calls[0][0];
+      expect(editCall.embeds[0].toJSON().title).toBe(
+        "✅ Worklog posted on PROJ-1"
+      );
+      expect(editCall.components).toEqual([]);
+    });
+
+    it("should not retry a worklog twice", async () => {
+      mockWorklogEntry.findOne.mockResolvedValue(null);
+
+      await handleButton(buttonInteraction);
+
+      expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      expect(
+        buttonInteraction.update.mock.calls[0][0].embeds[0].toJSON().title
+      ).toBe("⌛ Worklog Already Handled");
+    });
+  });
+
+  it("should respect rate limits", async () => {
+    mockServices.IRateLimitService.checkRateLimit.mockImplementation(() => {
+      throw new Error("Too many requests");
+    });
+
+    const reply = await runSubcommand("list");
+
+    expect(reply.content).toContain("Rate Limited");
+    expect(mockWorklogEntry.findForDay).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import { DataTypes, QueryTypes, Sequelize } from "sequelize";
+import { mergeGuildDuplicates } from "../../src/db/migrations";
+import { JiraConfig } from "../../src/db/models/JiraConfig";
+import { UserSettings } from "../../src/db/models/UserSettings";
+
+describe("mergeGuildDuplicates", () => {
+  let sequelize: Sequelize;
+
+  const createTable = (tableName: string, withProfile: boolean) =>
+    sequelize.getQueryInterface().createTable(tableName, {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      guildId: DataTypes.STRING,
+      userId: DataTypes.STRING,
+      ...(withProfile ? { profile: DataTypes.STRING } : {}),
+      host: DataTypes.STRING,
+      createdAt: DataTypes.DATE,
+      updatedAt: DataTypes.DATE,
+    });
+
+  const insert = (tableName: string, rows: Record<string, unknown>[]) =>
+    sequelize.getQueryInterface().bulkInsert(
+      tableName,
+      rows.map((row) => ({
+        createdAt: new Date("2025-01-01T00:00:00.000Z"),
+        ...row,
+      }))
+    );
+
+  const select = (tableName: string) =>
+    sequelize.query<Record<string, unknown>>(
+      `SELECT * FROM "${tableName}" ORDER BY id`,
+      { type: QueryTypes.SELECT }
+    );
+
+  beforeEach(async () => {
+    sequelize = new Sequelize("sqlite::memory:", { logging: false });
+    JiraConfig.initModel(sequelize);
+    UserSettings.initModel(sequelize);
+  });
+
+  afterEach(async () => {
+    await sequelize.close();
+  });
+
+  it("should do nothing on a fresh database", async () => {
+    await expect(mergeGuildDuplicates(sequelize)).resolves.toBe(0);
+  });
+
+  it("should keep the latest configuration of each user and profile", async () => {
+    await createTable(JiraConfig.tableName, true);
+    await insert(JiraConfig.tableName, [
+      {
+        guildId: "111111111111111111",
+        userId: "987654321098765432",
+        profile: "default",
+        host: "old.atlassian.net",
+        updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+      },
+      {
+        guildId: "222222222222222222",
+        userId: "987654321098765432",
+        profile: "default",
+        host: "new.atlassian.net",
+        updatedAt: new Date("2025-02-01T00:00:00.000Z"),
+      },
+      {
+        guildId: "111111111111111111",
+        userId: "987654321098765432",
+        profile: "acme",
+        host: "acme.atlassian.net",
+        updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+      },
+      {
+        guildId: "111111111111111111",
+        userId: "123456789012345678",
+        profile: "default",
+        host: "other.atlassian.net",
+        updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+      },
+    ]);
+
+    await expect(mergeGuildDuplicates(sequelize)).resolves.toBe(1);
+
+    const rows = await select(JiraConfig.tableName);
+    expect(rows.map((row) => row.host)).toEqual([
+      "new.atlassian.net",
+      "acme.atlassian.net",
+      "other.atlassian.net",
+    ]);
+
+    // Running again finds nothing left to merge
+    await expect(mergeGuildDuplicates(sequelize)).resolves.toBe(0);
+  });
+
+  it("should treat rows from before profiles as the default profile", async () => {
+    await createTable(JiraConfig.tableName, false);
+    await insert(JiraConfig.tableName, [
+      {
+        guildId: "111111111111111111",
+        userId: "987654321098765432",
+        host: "new.atlassian.net",
+        updatedAt: new Date("2025-02-01T00:00:00.000Z"),
+      },
+      {
+        guildId: "222222222222222222",
+        userId: "987654321098765432",
+        host: "old.atlassian.net",
+        updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+      },
+    ]);
+
+    await expect(mergeGuildDuplicates(sequelize)).resolves.toBe(1);
+
+    const rows = await select(JiraConfig.tableName);
+    expect(rows.map((row) => row.host)).toEqual(["new.atlassian.net"]);
+  });
+
+  it("should keep the latest settings of each user", async () => {
+    await createTable(UserSettings.tableName, false);
+    await insert(UserSettings.tableName, [
+      {
+        guildId: "111111111111111111",
+        userId: "987654321098765432",
+        updatedAt: new Date("2025-02-01T00:00:00.000Z"),
+      },
+      {
+        guildId: "222222222222222222",
+        userId: "987654321098765432",
+        updatedAt: new Date("2025-01-01T00:00:00.000Z"),
+      },
+    ]);
+
+    await expect(mergeGuildDuplicates(sequelize)).resolves.toBe(1);
+
+    const rows = await select(UserSettings.tableName);
+    expect(rows.map((row) => row.guildId)).toEqual(["111111111111111111"]);
+  });
+});
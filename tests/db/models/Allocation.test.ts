@@ -0,0 +1,101 @@
+import { Sequelize } from "sequelize";
+import { Allocation } from "../../../src/db/models/Allocation";
+
+describe("Allocation Model", () => {
+  let sequelize: Sequelize;
+
+  const userId = "987654321098765432";
+  const owner = { userId, profile: "default" };
+
+  beforeAll(() => {
+    sequelize = new Sequelize("sqlite::memory:", { logging: false });
+  });
+
+  beforeEach(async () => {
+    Allocation.initModel(sequelize);
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it("should store the weekdays it applies on", async () => {
+    const allocation = await Allocation.create({
+      ...owner,
+      issueKey: "MEET-1",
+      timeInSeconds: 3600,
+      days: "wed,mon",
+    });
+
+    expect(allocation.days).toBe("1,3");
+  });
+
+  it("should find the allocations of a day in the order they were added", async () => {
+    await Allocation.create({
+      ...owner,
+      issueKey: "OPS-12",
+      timeInSeconds: 900,
+    });
+    await Allocation.create({
+      ...owner,
+      issueKey: "MEET-1",
+      timeInSeconds: 3600,
+      days: "1",
+    });
+    await Allocation.create({
+      ...owner,
+      profile: "client",
+      issueKey: "SUP-3",
+      timeInSeconds: 1800,
+    });
+
+    const monday = await Allocation.findForDay(
+      userId,
+      "default",
+      new Date(2025, 7, 4)
+    );
+    const tuesday = await Allocation.findForDay(
+      userId,
+      "default",
+      new Date(2025, 7, 5)
+    );
+
+    expect(monday.map((allocation) => allocation.issueKey)).toEqual([
+      "OPS-12",
+      "MEET-1",
+    ]);
+    expect(tuesday.map((allocation) => allocation.issueKey)).toEqual([
+      "OPS-12",
+    ]);
+  });
+
+  it("should reject invalid issue keys, times and days", async () => {
+    await expect(
+      Allocation.create({ ...owner, issueKey: "meeting", timeInSeconds: 900 })
+    ).rejects.toThrow();
+    await expect(
+      Allocation.create({ ...owner, issueKey: "MEET-1", timeInSeconds: 30 })
+    ).rejects.toThrow("Time in seconds must be at least 60");
+    await expect(
+      Allocation.create({
+        ...owner,
+        issueKey: "MEET-1",
+        timeInSeconds: 900,
+        days: "someday",
+      })
+    ).rejects.toThrow("Work days must be weekday names or ranges");
+  });
+
+  it("should keep one allocation per profile and issue", async () => {
+    await Allocation.create({
+      ...owner,
+      issueKey: "MEET-1",
+      timeInSeconds: 900,
+    });
+
+    await expect(
+      Allocation.create({ ...owner, issueKey: "MEET-1", timeInSeconds: 1800 })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,84 @@
+import { Sequelize } from "sequelize";
+import { GuildSettings } from "../../../src/db/models/GuildSettings";
+
+describe("GuildSettings Model", () => {
+  let sequelize: Sequelize;
+
+  beforeAll(() => {
+    sequelize = new Sequelize("sqlite::memory:", { logging: false });
+  });
+
+  beforeEach(async () => {
+    GuildSettings.initModel(sequelize);
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it("should default to no policies", async () => {
+    const settings = await GuildSettings.create({
+      guildId: "123456789012345678",
+    });
+
+    expect(settings.allowedHosts).toBeFalsy();
+    expect(settings.defaultDailyHours).toBeFalsy();
+    expect(settings.maxDailyHours).toBeFalsy();
+    expect(settings.requireWorklogComment).toBe(false);
+    expect(settings.forcedJql).toBeFalsy();
+    expect(settings.autoLoggingDisabled).toBe(false);
+  });
+
+  it("should normalize the host allowlist", async () => {
+    const settings = await GuildSettings.create({
+      guildId: "123456789012345678",
+      allowedHosts: "https://Acme.atlassian.net, *.acme.com",
+    });
+
+    expect(settings.allowedHosts).toBe("acme.atlassian.net,*.acme.com");
+  });
+
+  it("should reject invalid hosts", async () => {
+    await expect(
+      GuildSettings.create({
+        guildId: "123456789012345678",
+        allowedHosts: "not a host!",
+      })
+    ).rejects.toThrow("Jira host");
+  });
+
+  it("should reject a default above the maximum daily hours", async () => {
+    await expect(
+      GuildSettings.create({
+        guildId: "123456789012345678",
+        defaultDailyHours: 8,
+        maxDailyHours: 6,
+      })
+    ).rejects.toThrow("Default daily hours cannot be more than the maximum");
+  });
+
+  it("should keep one row per guild", async () => {
+    const guild = {
+      guildId: "123456789012345678",
+    };
+    await GuildSettings.create(guild);
+
+    await expect(GuildSettings.create(guild)).rejects.toThrow();
+  });
+
+  it("should find the policies of a guild", async () => {
+    await GuildSettings.create({
+      guildId: "123456789012345678",
+      maxDailyHours: 6,
+    });
+
+    const settings = await GuildSettings.findForGuild("123456789012345678");
+
+    expect(settings!.maxDailyHours).toBe(6);
+    await expect(
+      GuildSettings.findForGuild("111111111111111111")
+    ).resolves.toBeNull();
+    await expect(GuildSettings.findForGuild(null)).resolves.toBeNull();
+  });
+});
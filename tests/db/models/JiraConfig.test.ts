@@ -17,6 +17,12 @@ const createMockConfigService = (): IConfigService => ({
   getDatabaseUrl: jest.fn(),
   getPgConnectionString: jest.fn(),
   getEncryptionSecretKey: jest.fn().mockReturnValue("test-secret-key"),
+  getAtlassianClientId: jest.fn(),
+  getAtlassianClientSecret: jest.fn(),
+  getOAuthRedirectUri: jest.fn(),
+  getOAuthCallbackPort: jest.fn(),
+  getAtlassianAuthUrl: jest.fn(),
+  getAtlassianApiUrl: jest.fn(),
   isDiscordLoggingEnabled: jest.fn(),
   isPgLoggingEnabled: jest.fn(),
   isProduction: jest.fn(),
@@ -97,7 +103,19 @@ describe("JiraConfig Model", () => {
     expect(config.timeJqlOverride).toBe(configData.timeJqlOverride);
   });
 
-  it("should require guildId field", async () => {
+  it("should allow a configuration set up in DMs without a guild", async () => {
+    const config = await JiraConfig.create({
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+    });
+
+    expect(config.guildId).toBeFalsy();
+  });
+
+  it("should share a profile across guilds", async () => {
     const configData = {
       host: "test.atlassian.net",
       username: "testuser@example.com",
@@ -105,8 +123,11 @@ describe("JiraConfig Model", () => {
       userId: "987654321098765432",
       schedulePaused: false,
     };
+    await JiraConfig.create({ ...configData, guildId: "123456789012345678" });
 
-    await expect(JiraConfig.create(configData as never)).rejects.toThrow();
+    await expect(
+      JiraConfig.create({ ...configData, guildId: "111111111111111111" })
+    ).rejects.toThrow();
   });
 
   it("should require host field", async () => {
@@ -219,4 +240,306 @@ describe("JiraConfig Model", () => {
 
     expect(config.dailyHours).toBe(6);
   });
+
+  it("should default schedule settings", async () => {
+    const config = await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+    });
+
+    expect(config.timezone).toBe("Etc/UTC");
+    expect(config.scheduleTime).toBe("06:00");
+    expect(config.workDays).toBe("1,2,3,4,5");
+    expect(config.workdayStart).toBe("09:00");
+    expect(config.lunchStart).toBe("12:00");
+    expect(config.lunchMinutes).toBe(0);
+  });
+
+  it("should normalize custom schedule settings", async () => {
+    const config = await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+      timezone: "America/Sao_Paulo",
+      scheduleTime: "7:30",
+      workDays: "sun-thu",
+    });
+
+    expect(config.timezone).toBe("America/Sao_Paulo");
+    expect(config.scheduleTime).toBe("07:30");
+    expect(config.workDays).toBe("1,2,3,4,7");
+  });
+
+  it("should normalize the workday layout", async () => {
+    const config = await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+      workdayStart: "8:30",
+      lunchStart: "12:15",
+      lunchMinutes: 45,
+    });
+
+    expect(config.workdayStart).toBe("08:30");
+    expect(config.lunchStart).toBe("12:15");
+    expect(config.lunchMinutes).toBe(45);
+  });
+
+  it("should reject an overly long lunch break", async () => {
+    await expect(
+      JiraConfig.create({
+        guildId: "123456789012345678",
+        host: "test.atlassian.net",
+        username: "testuser@example.com",
+        token: "validtesttoken123",
+        userId: "987654321098765432",
+        schedulePaused: false,
+        lunchMinutes: 300,
+      })
+    ).rejects.toThrow("Lunch break must be no more than 240");
+  });
+
+  it("should reject an invalid timezone", async () => {
+    await expect(
+      JiraConfig.create({
+        guildId: "123456789012345678",
+        host: "test.atlassian.net",
+        username: "testuser@example.com",
+        token: "validtesttoken123",
+        userId: "987654321098765432",
+        schedulePaused: false,
+        timezone: "Nowhere/Land",
+      })
+    ).rejects.toThrow("Timezone must be a valid IANA timezone");
+  });
+
+  it("should default to the fairly distribution strategy", async () => {
+    const config = await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+    });
+
+    expect(config.distributionStrategy).toBe("fairly");
+  });
+
+  it("should reject an unknown distribution strategy", async () => {
+    await expect(
+      JiraConfig.create({
+        guildId: "123456789012345678",
+        host: "test.atlassian.net",
+        username: "testuser@example.com",
+        token: "validtesttoken123",
+        userId: "987654321098765432",
+        schedulePaused: false,
+        distributionStrategy: "random" as never,
+      })
+    ).rejects.toThrow("Distribution strategy must be one of");
+  });
+
+  it("should default to posting without confirmation", async () => {
+    const config = await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+    });
+
+    expect(config.confirmWorklogs).toBe(false);
+    expect(config.confirmMinutes).toBe(120);
+    expect(config.confirmFallback).toBe("submit");
+  });
+
+  it("should reject an invalid confirmation window", async () => {
+    await expect(
+      JiraConfig.create({
+        guildId: "123456789012345678",
+        host: "test.atlassian.net",
+        username: "testuser@example.com",
+        token: "validtesttoken123",
+        userId: "987654321098765432",
+        schedulePaused: false,
+        confirmWorklogs: true,
+        confirmMinutes: 5,
+      })
+    ).rejects.toThrow("Confirmation window must be at least 15");
+  });
+
+  it("should store a worklog comment template", async () => {
+    const config = await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+      worklogCommentTemplate: "  {key}: {summary}  ",
+    });
+
+    expect(config.worklogCommentTemplate).toBe("{key}: {summary}");
+  });
+
+  it("should reject an overly long worklog comment template", async () => {
+    await expect(
+      JiraConfig.create({
+        guildId: "123456789012345678",
+        host: "test.atlassian.net",
+        username: "testuser@example.com",
+        token: "validtesttoken123",
+        userId: "987654321098765432",
+        schedulePaused: false,
+        worklogCommentTemplate: "x".repeat(2001),
+      })
+    ).rejects.toThrow("Worklog comment must be no more than 2000 characters");
+  });
+
+  it("should default to a Jira Cloud connection", async () => {
+    const config = await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+    });
+
+    expect(config.deploymentType).toBe("cloud");
+    expect(config.authScheme).toBe("basic");
+    expect(config.apiVersion).toBeFalsy();
+    expect(config.contextPath).toBeFalsy();
+  });
+
+  it("should store a Data Center connection with a plain username", async () => {
+    const config = await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "jira.example.com:8443",
+      username: "jdoe",
+      token: "validtesttoken123",
+      userId: "987654321098765432",
+      schedulePaused: false,
+      deploymentType: "datacenter",
+      authScheme: "bearer",
+      apiVersion: "2",
+      contextPath: "jira/",
+    });
+
+    expect(config.username).toBe("jdoe");
+    expect(config.authScheme).toBe("bearer");
+    expect(config.apiVersion).toBe("2");
+    expect(config.contextPath).toBe("/jira");
+  });
+
+  it("should require an e-mail username on Jira Cloud", async () => {
+    await expect(
+      JiraConfig.create({
+        guildId: "123456789012345678",
+        host: "test.atlassian.net",
+        username: "jdoe.smith",
+        token: "validtesttoken123",
+        userId: "987654321098765432",
+        schedulePaused: false,
+      })
+    ).rejects.toThrow("Email format is invalid");
+  });
+
+  it("should store an encrypted OAuth refresh token", async () => {
+    const refreshToken = "r".repeat(1200);
+    await JiraConfig.create({
+      guildId: "123456789012345678",
+      host: "test.atlassian.net",
+      username: "testuser@example.com",
+      token: refreshToken,
+      userId: "987654321098765432",
+      schedulePaused: false,
+      authScheme: "oauth",
+      cloudId: "cloud-123",
+    });
+
+    const config = await JiraConfig.findOne({
+      where: { userId: "987654321098765432" },
+    });
+
+    expect(config!.token).toBe(refreshToken);
+    expect(config!.cloudId).toBe("cloud-123");
+  });
+
+  describe("profiles", () => {
+    const createProfile = (profile?: string) =>
+      JiraConfig.create({
+        guildId: "123456789012345678",
+        host: "test.atlassian.net",
+        username: "testuser@example.com",
+        token: "validtesttoken123",
+        userId: "987654321098765432",
+        schedulePaused: false,
+        ...(profile ? { profile } : {}),
+      });
+
+    it("should default to the default profile", async () => {
+      const config = await createProfile();
+
+      expect(config.profile).toBe("default");
+    });
+
+    it("should normalize the profile name", async () => {
+      const config = await createProfile("Acme");
+
+      expect(config.profile).toBe("acme");
+    });
+
+    it("should reject an invalid profile name", async () => {
+      await expect(createProfile("acme corp")).rejects.toThrow(
+        "Profile name may only contain letters, numbers, - and _"
+      );
+    });
+
+    it("should allow one configuration per profile", async () => {
+      await createProfile("acme");
+
+      await expect(createProfile("acme")).rejects.toThrow();
+    });
+
+    it("should find a named profile", async () => {
+      await createProfile("acme");
+      await createProfile("globex");
+
+      const config = await JiraConfig.findProfile(
+        "987654321098765432",
+        "globex"
+      );
+
+      expect(config!.profile).toBe("globex");
+      expect(
+        await JiraConfig.findProfile("987654321098765432", "initech")
+      ).toBeNull();
+    });
+
+    it("should prefer the default profile, then the oldest one", async () => {
+      await createProfile("acme");
+      await createProfile("globex");
+
+      const oldest = await JiraConfig.findProfile("987654321098765432");
+      expect(oldest!.profile).toBe("acme");
+
+      await createProfile();
+
+      const fallback = await JiraConfig.findProfile("987654321098765432");
+      expect(fallback!.profile).toBe("default");
+    });
+  });
 });
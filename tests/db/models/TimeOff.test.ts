@@ -0,0 +1,110 @@
+import { Sequelize } from "sequelize";
+import { TimeOff } from "../../../src/db/models/TimeOff";
+
+describe("TimeOff Model", () => {
+  let sequelize: Sequelize;
+
+  const userId = "987654321098765432";
+  const guildId = "123456789012345678";
+
+  beforeAll(() => {
+    sequelize = new Sequelize("sqlite::memory:", { logging: false });
+  });
+
+  beforeEach(async () => {
+    TimeOff.initModel(sequelize);
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it("should store personal time off and guild holidays", async () => {
+    const vacation = await TimeOff.create({
+      userId,
+      date: "2025-08-04",
+      reason: " Vacation ",
+    });
+    const holiday = await TimeOff.create({ guildId, date: "2025-12-25" });
+
+    expect(vacation.reason).toBe("Vacation");
+    expect(holiday.userId).toBeFalsy();
+    expect(holiday.reason).toBeFalsy();
+  });
+
+  it("should belong to either a user or a guild", async () => {
+    await expect(TimeOff.create({ date: "2025-08-04" })).rejects.toThrow(
+      "Time off must belong to either a user or a server"
+    );
+    await expect(
+      TimeOff.create({ userId, guildId, date: "2025-08-04" })
+    ).rejects.toThrow("Time off must belong to either a user or a server");
+  });
+
+  it("should reject invalid dates and long reasons", async () => {
+    await expect(TimeOff.create({ userId, date: "tomorrow" })).rejects.toThrow(
+      "Date format is invalid"
+    );
+    await expect(
+      TimeOff.create({ userId, date: "2025-08-04", reason: "x".repeat(101) })
+    ).rejects.toThrow("Reason must be no more than 100 characters long");
+  });
+
+  it("should keep one entry per user and date", async () => {
+    await TimeOff.create({ userId, date: "2025-08-04" });
+
+    await expect(
+      TimeOff.create({ userId, date: "2025-08-04" })
+    ).rejects.toThrow();
+  });
+
+  describe("findInRange", () => {
+    beforeEach(async () => {
+      await TimeOff.bulkCreate([
+        { userId, date: "2025-12-24", reason: "Vacation" },
+        { userId, date: "2025-12-25", reason: "Vacation" },
+        { guildId, date: "2025-12-25", reason: "Christmas" },
+        { guildId, date: "2025-12-26", reason: "Boxing Day" },
+        { userId: "111111111111111111", date: "2025-12-29" },
+        { guildId: "222222222222222222", date: "2025-12-30" },
+      ]);
+    });
+
+    it("should combine personal time off and the guild's holidays", async () => {
+      const days = await TimeOff.findInRange(
+        userId,
+        guildId,
+        "2025-12-01",
+        "2025-12-31"
+      );
+
+      expect(days.map((day) => [day.date, day.reason])).toEqual([
+        ["2025-12-24", "Vacation"],
+        ["2025-12-25", "Vacation"],
+        ["2025-12-26", "Boxing Day"],
+      ]);
+    });
+
+    it("should only find guild holidays without a user", async () => {
+      const days = await TimeOff.findInRange(
+        null,
+        guildId,
+        "2025-12-01",
+        "2025-12-31"
+      );
+
+      expect(days.map((day) => day.date)).toEqual(["2025-12-25", "2025-12-26"]);
+    });
+
+    it("should find the time off of a single day", async () => {
+      await expect(
+        TimeOff.findForDay(userId, null, "2025-12-26")
+      ).resolves.toBeNull();
+
+      const day = await TimeOff.findForDay(userId, guildId, "2025-12-26");
+
+      expect(day!.reason).toBe("Boxing Day");
+    });
+  });
+});
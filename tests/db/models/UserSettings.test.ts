@@ -0,0 +1,60 @@
+import { Sequelize } from "sequelize";
+import { UserSettings } from "../../../src/db/models/UserSettings";
+
+describe("UserSettings Model", () => {
+  let sequelize: Sequelize;
+
+  beforeAll(() => {
+    sequelize = new Sequelize("sqlite::memory:", { logging: false });
+  });
+
+  beforeEach(async () => {
+    UserSettings.initModel(sequelize);
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it("should default to no cap", async () => {
+    const settings = await UserSettings.create({
+      userId: "987654321098765432",
+    });
+
+    expect(settings.dailyHoursCap).toBeFalsy();
+    expect(settings.cappedDate).toBeFalsy();
+    expect(settings.cappedSeconds).toBe(0);
+  });
+
+  it("should store a daily hours cap", async () => {
+    await UserSettings.create({
+      userId: "987654321098765432",
+      dailyHoursCap: 10,
+    });
+
+    const settings = await UserSettings.findOne({
+      where: { userId: "987654321098765432" },
+    });
+
+    expect(settings!.dailyHoursCap).toBe(10);
+  });
+
+  it("should reject an invalid daily hours cap", async () => {
+    await expect(
+      UserSettings.create({
+        userId: "987654321098765432",
+        dailyHoursCap: 25,
+      })
+    ).rejects.toThrow("Daily hours cap");
+  });
+
+  it("should keep one row per user", async () => {
+    const user = {
+      userId: "987654321098765432",
+    };
+    await UserSettings.create(user);
+
+    await expect(UserSettings.create(user)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,158 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Sequelize } from "sequelize";
+import { WorklogEntry } from "../../../src/db/models/WorklogEntry";
+
+describe("WorklogEntry Model", () => {
+  let sequelize: Sequelize;
+
+  const config = { userId: "987654321098765432", profile: "default" };
+  const worklog = {
+    issueKey: "PROJ-1",
+    date: "2025-07-28",
+    started: new Date("2025-07-28T09:00:00.000Z"),
+    timeInSeconds: 3600,
+  };
+
+  beforeAll(() => {
+    sequelize = new Sequelize("sqlite::memory:", { logging: false });
+  });
+
+  beforeEach(async () => {
+    WorklogEntry.initModel(sequelize);
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it("should default to a posted worklog on its first attempt", async () => {
+    const entry = await WorklogEntry.create({
+      ...config,
+      ...worklog,
+      worklogId: "10001",
+      source: "manual",
+    });
+
+    expect(await entry.reload()).toEqual(
+      expect.objectContaining({
+        status: "posted",
+        attempts: 1,
+        nextAttemptAt: null,
+        error: null,
+      })
+    );
+  });
+
+  it("should find a profile's posted worklogs for a day in order", async () => {
+    const posted = { ...config, ...worklog, source: "scheduled" as const };
+    await WorklogEntry.bulkCreate([
+      {
+        ...posted,
+        issueKey: "PROJ-2",
+        worklogId: "2",
+        started: new Date("2025-07-28T10:00:00.000Z"),
+      },
+      { ...posted, worklogId: "1" },
+      { ...posted, worklogId: "3", date: "2025-07-29" },
+      { ...posted, worklogId: "4", profile: "acme" },
+      { ...posted, worklogId: "5", status: "deleted" },
+      { ...posted, worklogId: null, status: "failed" },
+    ]);
+
+    const entries = await WorklogEntry.findForDay(
+      config.userId,
+      "default",
+      "2025-07-28"
+    );
+
+    expect(entries.map((entry) => entry.worklogId)).toEqual(["1", "2"]);
+  });
+
+  it("should find only the scheduled worklogs of a day to revert", async () => {
+    const posted = { ...config, ...worklog };
+    await WorklogEntry.bulkCreate([
+      { ...posted, worklogId: "1", source: "manual" },
+      {
+        ...posted,
+        worklogId: "2",
+        source: "scheduled",
+        started: new Date("2025-07-28T13:00:00.000Z"),
+      },
+    ]);
+
+    const all = await WorklogEntry.findForDay(
+      config.userId,
+      "default",
+      "2025-07-28"
+    );
+    const scheduled = await WorklogEntry.findForDay(
+      config.userId,
+      "default",
+      "2025-07-28",
+      { source: "scheduled" }
+    );
+
+    expect(all.map((entry) => entry.worklogId)).toEqual(["1", "2"]);
+    expect(scheduled.map((entry) => entry.worklogId)).toEqual(["2"]);
+  });
+
+  it("should find a user's ledger between two dates", async () => {
+    const posted = { ...config, ...worklog, source: "manual" as const };
+    await WorklogEntry.bulkCreate([
+      { ...posted, worklogId: "1", date: "2025-07-29" },
+      { ...posted, worklogId: "2" },
+      { ...posted, worklogId: null, status: "failed" },
+      { ...posted, worklogId: "3", date: "2025-07-30" },
+      { ...posted, worklogId: "4", userId: "123456789012345678" },
+    ]);
+
+    const entries = await WorklogEntry.findInRange(
+      config.userId,
+      "2025-07-28",
+      "2025-07-29",
+      { status: "posted" }
+    );
+
+    expect(entries.map((entry) => entry.worklogId)).toEqual(["2", "1"]);
+  });
+
+  it("should reject invalid worklogs", async () => {
+    await expect(
+      WorklogEntry.create({
+        ...config,
+        ...worklog,
+        worklogId: "1",
+        timeInSeconds: 30,
+        source: "manual",
+      })
+    ).rejects.toThrow("Time in seconds must be at least 60");
+    await expect(
+      WorklogEntry.create({
+        ...config,
+        ...worklog,
+        worklogId: "1",
+        date: "yesterday",
+        source: "manual",
+      })
+    ).rejects.toThrow("Date format is invalid");
+    await expect(
+      WorklogEntry.create({
+        ...config,
+        ...worklog,
+        worklogId: "1",
+        source: "imported" as any,
+      })
+    ).rejects.toThrow("Worklog source must be one of: manual, scheduled");
+    await expect(
+      WorklogEntry.create({
+        ...config,
+        ...worklog,
+        source: "manual",
+        status: "queued" as any,
+      })
+    ).rejects.toThrow(
+      "Worklog status must be one of: posted, retrying, failed, deleted"
+    );
+  });
+});
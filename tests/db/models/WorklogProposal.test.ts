@@ -0,0 +1,77 @@
+import { Sequelize } from "sequelize";
+import { WorklogProposal } from "../../../src/db/models/WorklogProposal";
+
+describe("WorklogProposal Model", () => {
+  let sequelize: Sequelize;
+
+  const proposal = {
+    userId: "987654321098765432",
+    profile: "default",
+    date: "2025-08-04",
+    expiresAt: new Date("2025-08-05T12:00:00.000Z"),
+  };
+
+  beforeAll(() => {
+    sequelize = new Sequelize("sqlite::memory:", { logging: false });
+  });
+
+  beforeEach(async () => {
+    WorklogProposal.initModel(sequelize);
+    await sequelize.sync({ force: true });
+  });
+
+  afterAll(async () => {
+    await sequelize.close();
+  });
+
+  it("should store the proposed worklogs", async () => {
+    const created = await WorklogProposal.create({
+      ...proposal,
+      entries: [
+        {
+          key: "PROJ-1",
+          summary: "Fix login",
+          assignee: "John Doe",
+          timeInSeconds: 28800,
+        },
+      ],
+    });
+
+    const found = await WorklogProposal.findByPk(created.id);
+
+    expect(found!.entries).toEqual([
+      {
+        key: "PROJ-1",
+        summary: "Fix login",
+        assignee: "John Doe",
+        timeInSeconds: 28800,
+      },
+    ]);
+    expect(found!.expiresAt).toEqual(proposal.expiresAt);
+    expect(found!.messageId).toBeFalsy();
+  });
+
+  it("should reject invalid issue keys and times", async () => {
+    await expect(
+      WorklogProposal.create({
+        ...proposal,
+        entries: [
+          {
+            key: "not a key",
+            summary: "",
+            assignee: "",
+            timeInSeconds: 3600,
+          },
+        ],
+      })
+    ).rejects.toThrow("Issue key format is invalid");
+    await expect(
+      WorklogProposal.create({
+        ...proposal,
+        entries: [
+          { key: "PROJ-1", summary: "", assignee: "", timeInSeconds: 0 },
+        ],
+      })
+    ).rejects.toThrow("Time in seconds must be at least 60");
+  });
+});
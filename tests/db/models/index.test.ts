@@ -1,5 +1,12 @@
 import { Sequelize } from "sequelize";
+import { mergeGuildDuplicates } from "../../../src/db/migrations";
+import { Allocation } from "../../../src/db/models/Allocation";
+import { GuildSettings } from "../../../src/db/models/GuildSettings";
 import { JiraConfig } from "../../../src/db/models/JiraConfig";
+import { TimeOff } from "../../../src/db/models/TimeOff";
+import { UserSettings } from "../../../src/db/models/UserSettings";
+import { WorklogEntry } from "../../../src/db/models/WorklogEntry";
+import { WorklogProposal } from "../../../src/db/models/WorklogProposal";
 
 // Mock the database
 const mockSync = jest.fn();
@@ -8,11 +15,24 @@ const mockDb = {
 } as unknown as Sequelize;
 
 jest.mock("../../../src/db", () => mockDb);
+jest.mock("../../../src/db/migrations", () => ({
+  mergeGuildDuplicates: jest.fn().mockResolvedValue(0),
+}));
 
 describe("DB Models Index", () => {
   beforeEach(() => {
     mockSync.mockReset();
     mockSync.mockResolvedValue(mockDb);
+    jest.spyOn(UserSettings, "initModel").mockReturnValue(UserSettings);
+    jest.spyOn(GuildSettings, "initModel").mockReturnValue(GuildSettings);
+    jest.spyOn(TimeOff, "initModel").mockReturnValue(TimeOff);
+    jest.spyOn(WorklogProposal, "initModel").mockReturnValue(WorklogProposal);
+    jest.spyOn(WorklogEntry, "initModel").mockReturnValue(WorklogEntry);
+    jest.spyOn(Allocation, "initModel").mockReturnValue(Allocation);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   it("should export JiraConfig model", async () => {
@@ -39,13 +59,31 @@ describe("DB Models Index", () => {
     // Verify initModel was called with the database instance
     expect(initModelSpy).toHaveBeenCalledWith(mockDb);
 
+    // Verify duplicates were merged before syncing
+    expect(mergeGuildDuplicates).toHaveBeenCalledWith(mockDb);
+
     // Verify database sync was called with alter: true
     expect(mockSync).toHaveBeenCalledWith({
       alter: true,
     });
 
-    // Verify the return value contains JiraConfig
-    expect(result).toEqual({ JiraConfig });
+    expect(UserSettings.initModel).toHaveBeenCalledWith(mockDb);
+    expect(GuildSettings.initModel).toHaveBeenCalledWith(mockDb);
+    expect(TimeOff.initModel).toHaveBeenCalledWith(mockDb);
+    expect(WorklogProposal.initModel).toHaveBeenCalledWith(mockDb);
+    expect(WorklogEntry.initModel).toHaveBeenCalledWith(mockDb);
+    expect(Allocation.initModel).toHaveBeenCalledWith(mockDb);
+
+    // Verify the return value contains every model
+    expect(result).toEqual({
+      Allocation,
+      GuildSettings,
+      JiraConfig,
+      TimeOff,
+      UserSettings,
+      WorklogEntry,
+      WorklogProposal,
+    });
 
     // Clean up
     initModelSpy.mockRestore();
@@ -100,7 +138,19 @@ describe("DB Models Index", () => {
     // Verify the return object structure
     expect(models).toHaveProperty("JiraConfig");
     expect(models.JiraConfig).toBe(JiraConfig);
-    expect(Object.keys(models)).toHaveLength(1);
+    expect(models).toHaveProperty("UserSettings");
+    expect(models.UserSettings).toBe(UserSettings);
+    expect(models).toHaveProperty("GuildSettings");
+    expect(models.GuildSettings).toBe(GuildSettings);
+    expect(models).toHaveProperty("TimeOff");
+    expect(models.TimeOff).toBe(TimeOff);
+    expect(models).toHaveProperty("WorklogProposal");
+    expect(models.WorklogProposal).toBe(WorklogProposal);
+    expect(models).toHaveProperty("WorklogEntry");
+    expect(models.WorklogEntry).toBe(WorklogEntry);
+    expect(models).toHaveProperty("Allocation");
+    expect(models.Allocation).toBe(Allocation);
+    expect(Object.keys(models)).toHaveLength(7);
 
     // Clean up
     initModelSpy.mockRestore();
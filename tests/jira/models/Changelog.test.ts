@@ -0,0 +1,37 @@
+import { Changelog, ChangelogItem } from "../../../src/jira/models/Changelog";
+import { User } from "../../../src/jira/models/User";
+
+describe("Changelog Model", () => {
+  it("should create a Changelog instance", () => {
+    const author = new User();
+    author.accountId = "5b10a2844c20165700ede21g";
+
+    const item = new ChangelogItem();
+    item.field = "status";
+    item.fromString = "To Do";
+    item.toString = "In Progress";
+
+    const changelog = new Changelog();
+    changelog.id = "10001";
+    changelog.author = author;
+    changelog.created = "2024-01-15T10:00:00.000+0000";
+    changelog.items = [item];
+
+    expect(changelog.id).toBe("10001");
+    expect(changelog.author).toBe(author);
+    expect(changelog.created).toBe("2024-01-15T10:00:00.000+0000");
+    expect(changelog.items[0].field).toBe("status");
+    expect(changelog.items[0].toString).toBe("In Progress");
+  });
+
+  it("should allow setting properties after instantiation", () => {
+    const changelog = new Changelog();
+
+    expect(changelog.author).toBeUndefined();
+    expect(changelog.items).toBeUndefined();
+
+    changelog.items = [];
+
+    expect(changelog.items).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+import { Comment } from "../../../src/jira/models/Comment";
+import { User } from "../../../src/jira/models/User";
+
+describe("Comment Model", () => {
+  it("should create a Comment instance", () => {
+    const author = new User();
+    author.displayName = "John Doe";
+
+    const comment = new Comment();
+    comment.id = "10000";
+    comment.author = author;
+    comment.created = "2024-01-15T10:00:00.000+0000";
+
+    expect(comment.id).toBe("10000");
+    expect(comment.author.displayName).toBe("John Doe");
+    expect(comment.created).toBe("2024-01-15T10:00:00.000+0000");
+  });
+
+  it("should allow setting properties after instantiation", () => {
+    const comment = new Comment();
+
+    expect(comment.id).toBeUndefined();
+    expect(comment.author).toBeUndefined();
+
+    comment.id = "10001";
+
+    expect(comment.id).toBe("10001");
+  });
+});
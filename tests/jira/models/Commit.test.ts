@@ -0,0 +1,22 @@
+import { Commit } from "../../../src/jira/models/Commit";
+
+describe("Commit Model", () => {
+  it("should create a Commit instance", () => {
+    const commit = new Commit();
+    commit.id = "a1b2c3d";
+    commit.authorTimestamp = "2024-01-15T10:00:00.000+0000";
+    commit.author = { name: "John Doe", email: "john.doe@example.com" };
+
+    expect(commit.id).toBe("a1b2c3d");
+    expect(commit.authorTimestamp).toBe("2024-01-15T10:00:00.000+0000");
+    expect(commit.author.name).toBe("John Doe");
+    expect(commit.author.email).toBe("john.doe@example.com");
+  });
+
+  it("should allow an author without an email", () => {
+    const commit = new Commit();
+    commit.author = { name: "John Doe" };
+
+    expect(commit.author.email).toBeUndefined();
+  });
+});
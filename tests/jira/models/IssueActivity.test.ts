@@ -0,0 +1,27 @@
+import { IssueActivity } from "../../../src/jira/models/IssueActivity";
+
+describe("IssueActivity Model", () => {
+  it("should create an IssueActivity instance", () => {
+    const activity = new IssueActivity();
+    activity.issueKey = "TEST-123";
+    activity.transitions = 2;
+    activity.comments = 1;
+    activity.commits = 3;
+
+    expect(activity.issueKey).toBe("TEST-123");
+    expect(activity.transitions).toBe(2);
+    expect(activity.comments).toBe(1);
+    expect(activity.commits).toBe(3);
+  });
+
+  it("should allow setting properties after instantiation", () => {
+    const activity = new IssueActivity();
+
+    expect(activity.issueKey).toBeUndefined();
+    expect(activity.transitions).toBeUndefined();
+
+    activity.transitions = 0;
+
+    expect(activity.transitions).toBe(0);
+  });
+});
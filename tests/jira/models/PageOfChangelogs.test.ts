@@ -0,0 +1,25 @@
+import { Changelog } from "../../../src/jira/models/Changelog";
+import { PageOfChangelogs } from "../../../src/jira/models/PageOfChangelogs";
+
+describe("PageOfChangelogs Model", () => {
+  it("should create a PageOfChangelogs instance", () => {
+    const page = new PageOfChangelogs();
+
+    page.total = 2;
+    page.values = [new Changelog(), new Changelog()];
+
+    expect(page.total).toBe(2);
+    expect(page.values).toHaveLength(2);
+  });
+
+  it("should allow setting properties after instantiation", () => {
+    const page = new PageOfChangelogs();
+
+    expect(page.total).toBeUndefined();
+    expect(page.values).toBeUndefined();
+
+    page.values = [];
+
+    expect(page.values).toEqual([]);
+  });
+});
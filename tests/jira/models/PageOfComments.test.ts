@@ -0,0 +1,25 @@
+import { Comment } from "../../../src/jira/models/Comment";
+import { PageOfComments } from "../../../src/jira/models/PageOfComments";
+
+describe("PageOfComments Model", () => {
+  it("should create a PageOfComments instance", () => {
+    const page = new PageOfComments();
+
+    page.total = 1;
+    page.comments = [new Comment()];
+
+    expect(page.total).toBe(1);
+    expect(page.comments).toHaveLength(1);
+  });
+
+  it("should allow setting properties after instantiation", () => {
+    const page = new PageOfComments();
+
+    expect(page.total).toBeUndefined();
+    expect(page.comments).toBeUndefined();
+
+    page.comments = [];
+
+    expect(page.comments).toEqual([]);
+  });
+});
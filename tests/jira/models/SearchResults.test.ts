@@ -65,4 +65,15 @@ describe("SearchResults Model", () => {
     expect(results.total).toBe(0);
     expect(results.issues).toEqual([]);
   });
+
+  it("should handle the enhanced search page token", () => {
+    const results = new SearchResults();
+    results.issues = [];
+    results.nextPageToken = "next-page";
+    results.isLast = false;
+
+    expect(results.total).toBeUndefined();
+    expect(results.nextPageToken).toBe("next-page");
+    expect(results.isLast).toBe(false);
+  });
 });
@@ -10,6 +10,13 @@ describe("User Model", () => {
     expect(user.emailAddress).toBe("john.doe@example.com");
   });
 
+  it("should hold the Jira account ID", () => {
+    const user = new User();
+    user.accountId = "5b10a2844c20165700ede21g";
+
+    expect(user.accountId).toBe("5b10a2844c20165700ede21g");
+  });
+
   it("should allow setting properties after instantiation", () => {
     const user = new User();
 
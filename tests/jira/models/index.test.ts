@@ -4,6 +4,12 @@ import {
   User,
   PageOfWorklogs,
   Worklog,
+  Changelog,
+  PageOfChangelogs,
+  Comment,
+  PageOfComments,
+  Commit,
+  IssueActivity,
 } from "../../../src/jira/models";
 
 describe("JIRA Models Index", () => {
@@ -47,6 +53,15 @@ describe("JIRA Models Index", () => {
     expect(worklog).toBeInstanceOf(Worklog);
   });
 
+  it("should export the activity models", () => {
+    expect(new Changelog()).toBeInstanceOf(Changelog);
+    expect(new PageOfChangelogs()).toBeInstanceOf(PageOfChangelogs);
+    expect(new Comment()).toBeInstanceOf(Comment);
+    expect(new PageOfComments()).toBeInstanceOf(PageOfComments);
+    expect(new Commit()).toBeInstanceOf(Commit);
+    expect(new IssueActivity()).toBeInstanceOf(IssueActivity);
+  });
+
   it("should export all models with correct names", () => {
     const exportedModels = {
       SearchResults,
@@ -0,0 +1,312 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import fetch from "node-fetch";
+import { Sequelize } from "sequelize";
+import { createServer, IncomingMessage, request, Server } from "http";
+import { AddressInfo } from "net";
+import { JiraConfig } from "../../src/db/models";
+import { initOAuthCallbackServer, selectSite } from "../../src/oauth";
+import { EncryptionService } from "../../src/services/EncryptionService";
+import { HttpService } from "../../src/services/HttpService";
+import { JiraService } from "../../src/services/JiraService";
+import { OAuthService } from "../../src/services/OAuthService";
+import { ServiceContainer } from "../../src/services/ServiceContainer";
+import {
+  createMockIConfigService,
+  createMockILoggerService,
+} from "../test-utils";
+
+// Use the real model against an in-memory database
+jest.mock("../../src/db/models", () =>
+  jest.requireActual("../../src/db/models/JiraConfig")
+);
+
+const guildId = "123456789012345678";
+const userId = "987654321098765432";
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+}
+
+/**
+ * node-fetch is mocked for every test, so requests go out through http here
+ */
+function httpFetch(
+  url: string,
+  options: {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: string;
+  } = {}
+) {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      { method: options.method ?? "GET", headers: options.headers },
+      async (res) => {
+        const body = await readBody(res);
+        resolve({
+          ok: res.statusCode! >= 200 && res.statusCode! < 300,
+          status: res.statusCode,
+          statusText: res.statusMessage,
+          text: async () => body,
+          json: async () => JSON.parse(body),
+        });
+      }
+    );
+    req.on("error", reject);
+    req.end(options.body);
+  });
+}
+
+/**
+ * Stands in for auth.atlassian.com and api.atlassian.com
+ */
+function createStubAuthorizationServer(): Server {
+  let refreshes = 0;
+
+  return createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "POST" && req.url === "/oauth/token") {
+      const grant = JSON.parse(await readBody(req));
+      if (grant.client_id !== "client-id" || grant.client_secret !== "secret") {
+        return send(401, { error: "invalid_client" });
+      }
+      if (grant.grant_type === "authorization_code" && grant.code === "code") {
+        return send(200, {
+          access_token: "access-token-0",
+          refresh_token: "refresh-token-0",
+          expires_in: 3600,
+        });
+      }
+      if (
+        grant.grant_type === "refresh_token" &&
+        grant.refresh_token === `refresh-token-${refreshes}`
+      ) {
+        refreshes++;
+        return send(200, {
+          access_token: `access-token-${refreshes}`,
+          refresh_token: `refresh-token-${refreshes}`,
+          expires_in: 3600,
+        });
+      }
+      return send(400, { error: "invalid_grant" });
+    }
+
+    const authorization = req.headers.authorization ?? "";
+    if (!authorization.startsWith("Bearer access-token-")) {
+      return send(401, { error: "unauthorized" });
+    }
+
+    if (req.url === "/oauth/token/accessible-resources") {
+      return send(200, [
+        { id: "cloud-1", url: "https://team.atlassian.net", name: "Team" },
+      ]);
+    }
+    if (req.url === "/me") {
+      return send(200, { account_id: "acc-1", email: "User@Example.com" });
+    }
+    if (req.url === "/ex/jira/cloud-1/rest/api/3/myself") {
+      return send(200, { emailAddress: "user@example.com", authorization });
+    }
+    return send(404, { error: "not found" });
+  });
+}
+
+function listen(server: Server, port = 0): Promise<number> {
+  return new Promise((resolve) => {
+    if (server.listening) {
+      return resolve((server.address() as AddressInfo).port);
+    }
+    server.listen(port, () => resolve((server.address() as AddressInfo).port));
+  });
+}
+
+function close(server?: Server): Promise<void> {
+  return new Promise((resolve) =>
+    server ? server.close(() => resolve()) : resolve()
+  );
+}
+
+describe("OAuth callback", () => {
+  let sequelize: Sequelize;
+  let stubServer: Server;
+  let callbackServer: Server | undefined;
+  let callbackUrl: string;
+  let oauthService: OAuthService;
+  let jiraService: JiraService;
+
+  const authorize = (site?: string, profile?: string) => {
+    const url = new URL(
+      oauthService.createAuthorizationUrl({ guildId, userId, site, profile })
+    );
+    return url.searchParams.get("state")!;
+  };
+
+  beforeAll(async () => {
+    (fetch as unknown as jest.Mock).mockImplementation(httpFetch);
+    sequelize = new Sequelize("sqlite::memory:", { logging: false });
+    stubServer = createStubAuthorizationServer();
+    const stubUrl = `http://127.0.0.1:${await listen(stubServer)}`;
+
+    const configService = createMockIConfigService() as any;
+    configService.getEncryptionSecretKey = jest
+      .fn()
+      .mockReturnValue("test-secret-key");
+    configService.getAtlassianClientId.mockReturnValue("client-id");
+    configService.getAtlassianClientSecret.mockReturnValue("secret");
+    configService.getOAuthRedirectUri.mockReturnValue(
+      "http://127.0.0.1/oauth/callback"
+    );
+    configService.getOAuthCallbackPort.mockReturnValue(0);
+    configService.getAtlassianAuthUrl.mockReturnValue(stubUrl);
+    configService.getAtlassianApiUrl.mockReturnValue(stubUrl);
+
+    const container = ServiceContainer.getInstance();
+    const encryptionService = new EncryptionService(configService);
+    const httpService = new HttpService();
+    oauthService = new OAuthService(
+      configService,
+      httpService,
+      encryptionService
+    );
+    container.register("IConfigService", configService);
+    container.register("ILoggerService", createMockILoggerService());
+    container.register("IEncryptionService", encryptionService);
+    container.register("IHttpService", httpService);
+    container.register("IOAuthService", oauthService);
+    jiraService = new JiraService(httpService);
+    container.register("IJiraService", jiraService);
+
+    JiraConfig.initModel(sequelize);
+    await sequelize.sync({ force: true });
+
+    callbackServer = initOAuthCallbackServer();
+    callbackUrl = `http://127.0.0.1:${await listen(
+      callbackServer!
+    )}/oauth/callback`;
+  });
+
+  afterAll(async () => {
+    await close(callbackServer);
+    await close(stubServer);
+    await sequelize.close();
+  });
+
+  it("should store the encrypted refresh token of a completed login", async () => {
+    const response = await fetch(
+      `${callbackUrl}?code=code&state=${authorize()}`
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain(
+      "Connected to team.atlassian.net as user@example.com"
+    );
+
+    const config = await JiraConfig.findOne({ where: { guildId, userId } });
+    expect(config).toMatchObject({
+      host: "team.atlassian.net",
+      username: "user@example.com",
+      token: "refresh-token-0",
+      authScheme: "oauth",
+      cloudId: "cloud-1",
+    });
+
+    const [rows] = await sequelize.query(
+      `SELECT token FROM ${JiraConfig.getTableName()}`
+    );
+    expect((rows as { token: string }[])[0].token).not.toBe("refresh-token-0");
+  });
+
+  it("should refresh access tokens and store the rotated refresh token", async () => {
+    const user = await jiraService.getCurrentUser(
+      "team.atlassian.net",
+      "user@example.com",
+      "refresh-token-0"
+    );
+    expect(user).toMatchObject({ authorization: "Bearer access-token-1" });
+
+    // The access token is reused until it expires
+    await jiraService.getCurrentUser(
+      "team.atlassian.net",
+      "user@example.com",
+      "refresh-token-0"
+    );
+
+    const config = await JiraConfig.findOne({ where: { guildId, userId } });
+    expect(config!.token).toBe("refresh-token-1");
+  });
+
+  it("should reject a login link that was already used", async () => {
+    const state = authorize();
+    await fetch(`${callbackUrl}?code=code&state=${state}`);
+
+    const response = await fetch(`${callbackUrl}?code=code&state=${state}`);
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain("expired or was already used");
+  });
+
+  it("should report a site the grant does not include", async () => {
+    const response = await fetch(
+      `${callbackUrl}?code=code&state=${authorize("other.atlassian.net")}`
+    );
+
+    expect(response.status).toBe(403);
+    expect(await response.text()).toContain(
+      "does not include other.atlassian.net"
+    );
+  });
+
+  it("should handle a cancelled consent", async () => {
+    const response = await fetch(
+      `${callbackUrl}?error=access_denied&state=${authorize()}`
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain("Login cancelled");
+  });
+
+  it("should not serve other paths", async () => {
+    const response = await fetch(callbackUrl.replace("/oauth/callback", "/"));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should store a login under its profile", async () => {
+    const response = await fetch(
+      `${callbackUrl}?code=code&state=${authorize(undefined, "acme")}`
+    );
+
+    expect(response.status).toBe(200);
+
+    const configs = await JiraConfig.findAll({ where: { guildId, userId } });
+    expect(configs.map((config) => config.profile).sort()).toEqual([
+      "acme",
+      "default",
+    ]);
+  });
+});
+
+describe("selectSite", () => {
+  const resources = [
+    { id: "1", url: "https://one.atlassian.net", name: "One" },
+    { id: "2", url: "https://two.atlassian.net", name: "Two" },
+  ];
+
+  it("should default to the first site", () => {
+    expect(selectSite(resources)?.id).toBe("1");
+  });
+
+  it("should pick the requested site", () => {
+    expect(selectSite(resources, "two.atlassian.net")?.id).toBe("2");
+    expect(selectSite(resources, "three.atlassian.net")).toBeUndefined();
+  });
+});
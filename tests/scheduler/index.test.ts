@@ -1,10 +1,29 @@
 import { EmbedBuilder } from "discord.js";
 import * as schedule from "node-schedule";
+import { Op } from "sequelize";
 import { client } from "../../src";
-import { JiraConfig } from "../../src/db/models";
-import { initScheduledJobs, tz, dailyRule, daysAgo } from "../../src/scheduler";
+import { buildFailedWorklogMessage } from "../../src/commands/worklogs";
+import {
+  Allocation,
+  GuildSettings,
+  JiraConfig,
+  TimeOff,
+  UserSettings,
+  WorklogEntry,
+  WorklogProposal,
+} from "../../src/db/models";
+import {
+  getRemainingCapSeconds,
+  initScheduledJobs,
+  isScheduleDue,
+  tz,
+  dailyRule,
+  scheduleWindowMinutes,
+} from "../../src/scheduler";
+import { buildProposalMessage } from "../../src/scheduler/proposals";
+import { ApplicationError, ErrorType } from "../../src/services/ErrorHandler";
 import { ServiceContainer } from "../../src/services/ServiceContainer";
-import { createMockServiceContainer } from "../test-utils";
+import { createMockServiceContainer, mockAsyncIterable } from "../test-utils";
 
 // Mock dependencies
 jest.mock("node-schedule", () => ({
@@ -24,6 +43,14 @@ jest.mock("../../src", () => ({
 jest.mock("discord.js", () => ({
   EmbedBuilder: jest.fn(),
 }));
+jest.mock("../../src/commands/worklogs", () => ({
+  buildFailedWorklogMessage: jest.fn(),
+  buildRevertRow: jest.fn(),
+}));
+jest.mock("../../src/scheduler/proposals", () => ({
+  ...jest.requireActual("../../src/scheduler/proposals"),
+  buildProposalMessage: jest.fn(),
+}));
 
 const mockSchedule = schedule as jest.Mocked<typeof schedule>;
 
@@ -44,8 +71,8 @@ describe("Scheduler", () => {
 
   it("should export correct constants", () => {
     expect(tz).toBe("Etc/UTC");
-    expect(dailyRule).toBe("0 6 * * 2-6");
-    expect(daysAgo).toBe("1");
+    expect(dailyRule).toBe("*/15 * * * *");
+    expect(scheduleWindowMinutes).toBe(15);
   });
 
   it("should initialize scheduled jobs", () => {
@@ -64,7 +91,7 @@ describe("Scheduler", () => {
     expect(mockSchedule.scheduleJob).toHaveBeenCalledTimes(1);
     expect(mockSchedule.scheduleJob).toHaveBeenCalledWith(
       "daily-job",
-      { rule: "0 6 * * 2-6", tz: "Etc/UTC" },
+      { rule: "*/15 * * * *", tz: "Etc/UTC" },
       expect.any(Function)
     );
   });
@@ -73,12 +100,128 @@ describe("Scheduler", () => {
     expect(() => initScheduledJobs()).not.toThrow();
   });
 
+  describe("isScheduleDue", () => {
+    const baseConfig = {
+      timezone: "Etc/UTC",
+      scheduleTime: "06:00",
+      workDays: "1,2,3,4,5",
+    } as unknown as JiraConfig;
+
+    it("should be due inside the run time window after a working day", () => {
+      // Tuesday 06:10 UTC, logging Monday
+      expect(
+        isScheduleDue(baseConfig, new Date("2025-07-29T06:10:00.000Z"))
+      ).toBe(true);
+    });
+
+    it("should not be due outside the run time window", () => {
+      expect(
+        isScheduleDue(baseConfig, new Date("2025-07-29T05:59:00.000Z"))
+      ).toBe(false);
+      expect(
+        isScheduleDue(baseConfig, new Date("2025-07-29T06:15:00.000Z"))
+      ).toBe(false);
+    });
+
+    it("should not be due after a non-working day", () => {
+      // Monday 06:00 UTC, yesterday was Sunday
+      expect(
+        isScheduleDue(baseConfig, new Date("2025-07-28T06:00:00.000Z"))
+      ).toBe(false);
+      // Saturday 06:00 UTC, yesterday was Friday
+      expect(
+        isScheduleDue(baseConfig, new Date("2025-08-02T06:00:00.000Z"))
+      ).toBe(true);
+    });
+
+    it("should use the user's timezone and working days", () => {
+      const config = {
+        timezone: "Asia/Tokyo",
+        scheduleTime: "08:30",
+        workDays: "7,1,2,3,4",
+      } as unknown as JiraConfig;
+
+      // Monday 08:30 in Tokyo is Sunday 23:30 UTC; yesterday was Sunday
+      expect(isScheduleDue(config, new Date("2025-07-27T23:30:00.000Z"))).toBe(
+        true
+      );
+      // Saturday 08:30 in Tokyo; yesterday was Friday, not a working day
+      expect(isScheduleDue(config, new Date("2025-08-01T23:30:00.000Z"))).toBe(
+        false
+      );
+    });
+
+    it("should fall back to defaults when settings are missing", () => {
+      expect(
+        isScheduleDue(
+          {} as unknown as JiraConfig,
+          new Date("2025-07-29T06:00:00.000Z")
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe("getRemainingCapSeconds", () => {
+    const createSettings = (overrides: Record<string, unknown> = {}) =>
+      ({
+        dailyHoursCap: 10,
+        cappedDate: "2025-07-28",
+        cappedSeconds: 3600,
+        ...overrides,
+      } as unknown as UserSettings);
+
+    it("should not limit users without a cap", () => {
+      expect(getRemainingCapSeconds(null, "2025-07-28")).toBeUndefined();
+      expect(
+        getRemainingCapSeconds(
+          createSettings({ dailyHoursCap: null }),
+          "2025-07-28"
+        )
+      ).toBeUndefined();
+    });
+
+    it("should subtract the time already logged that day", () => {
+      expect(getRemainingCapSeconds(createSettings(), "2025-07-28")).toBe(
+        32400
+      );
+    });
+
+    it("should start over on another day", () => {
+      expect(getRemainingCapSeconds(createSettings(), "2025-07-29")).toBe(
+        36000
+      );
+    });
+
+    it("should round down to whole minutes and never go below zero", () => {
+      expect(
+        getRemainingCapSeconds(
+          createSettings({ cappedSeconds: 30 }),
+          "2025-07-28"
+        )
+      ).toBe(35940);
+      expect(
+        getRemainingCapSeconds(
+          createSettings({ cappedSeconds: 40000 }),
+          "2025-07-28"
+        )
+      ).toBe(0);
+    });
+  });
+
   describe("Scheduled Job Logic", () => {
     let mockContainer: unknown;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let mockServices: any;
 
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
     beforeEach(() => {
+      // Tuesday 06:00 UTC, the default run time for the default schedule
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date("2025-07-29T06:00:00.000Z"));
+
       // Use test utilities for consistent mock setup
       const containerSetup = createMockServiceContainer();
       mockContainer = containerSetup.mockContainer;
@@ -90,6 +233,26 @@ describe("Scheduler", () => {
 
       // Mock JiraConfig.findAll
       (JiraConfig as unknown as { findAll: jest.Mock }).findAll = jest.fn();
+      (UserSettings as unknown as { findOne: jest.Mock }).findOne = jest
+        .fn()
+        .mockResolvedValue(null);
+      (GuildSettings as unknown as { findForGuild: jest.Mock }).findForGuild =
+        jest.fn().mockResolvedValue(null);
+      (TimeOff as unknown as { findForDay: jest.Mock }).findForDay = jest
+        .fn()
+        .mockResolvedValue(null);
+      (Allocation as unknown as { findForDay: jest.Mock }).findForDay = jest
+        .fn()
+        .mockResolvedValue([]);
+      (WorklogProposal as unknown as { findAll: jest.Mock }).findAll = jest
+        .fn()
+        .mockResolvedValue([]);
+      (WorklogEntry as unknown as { findAll: jest.Mock }).findAll = jest
+        .fn()
+        .mockResolvedValue([]);
+      (WorklogEntry as unknown as { create: jest.Mock }).create = jest
+        .fn()
+        .mockImplementation(async (values) => values);
 
       // Mock Discord client
       const mockUser = {
@@ -107,6 +270,9 @@ describe("Scheduler", () => {
             get: jest.fn().mockReturnValue(mockGuild),
           },
         };
+      (client as unknown as { users: { fetch: jest.Mock } }).users = {
+        fetch: jest.fn().mockResolvedValue(mockUser),
+      };
 
       // Mock EmbedBuilder
       const mockEmbed = {
@@ -142,23 +308,25 @@ describe("Scheduler", () => {
         issues: [],
       };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockSearchResults),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockSearchResults.issues)
+      );
 
       initScheduledJobs();
       await scheduledJobCallback();
 
       expect(JiraConfig.findAll).toHaveBeenCalledWith({
         where: { schedulePaused: false },
+        order: [["createdAt", "ASC"]],
       });
-      expect(mockServices.IJiraService.getIssuesWorked).toHaveBeenCalledWith(
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
         "test.jira.com",
         "test@example.com",
         "validtoken123456",
         // eslint-disable-next-line quotes
-        'assignee WAS currentUser() ON -1d AND status WAS "In Progress" ON -1d'
+        'assignee WAS currentUser() ON "2025-07-28" AND status WAS "In Progress" ON "2025-07-28"'
       );
     });
 
@@ -190,15 +358,19 @@ describe("Scheduler", () => {
         issues: [],
       };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockSearchResults),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockSearchResults.issues)
+      );
 
       initScheduledJobs();
       await scheduledJobCallback();
 
-      expect(mockServices.IJiraService.getIssuesWorked).toHaveBeenCalledWith(
+      expect(mockConfigs[0].timeJqlOverride.format).toHaveBeenCalledWith(
+        "2025-07-28"
+      );
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).toHaveBeenCalledWith(
         "test.jira.com",
         "test@example.com",
         "validtoken123456",
@@ -223,10 +395,17 @@ describe("Scheduler", () => {
         JiraConfig as unknown as { findAll: jest.Mock }
       ).findAll.mockResolvedValue(mockConfigs);
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: false,
-        statusText: "Unauthorized",
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(
+          [],
+          new ApplicationError(
+            "Invalid credentials (searching issues worked)",
+            ErrorType.AUTHENTICATION_ERROR,
+            true,
+            401
+          )
+        )
+      );
 
       const loggerErrorSpy = jest.spyOn(mockServices.ILoggerService, "error");
 
@@ -236,8 +415,7 @@ describe("Scheduler", () => {
       expect(loggerErrorSpy).toHaveBeenCalledWith(
         "Scheduler job failed",
         expect.objectContaining({
-          errorMessage:
-            "Jira API error: Unauthorized (getting work for user 987654321098765432)",
+          errorMessage: "Invalid credentials (searching issues worked)",
           context: {
             userId: "987654321098765432",
             guildId: "123456789012345678",
@@ -271,15 +449,14 @@ describe("Scheduler", () => {
         issues: [],
       };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockSearchResults),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockSearchResults.issues)
+      );
 
       initScheduledJobs();
       await scheduledJobCallback();
 
-      expect(mockServices.IJiraService.getIssuesWorked).toHaveBeenCalled();
+      expect(mockServices.IJiraService.iterateIssuesWorked).toHaveBeenCalled();
       // Should continue to next config when no work found
     });
 
@@ -326,22 +503,21 @@ describe("Scheduler", () => {
         worklogs: [], // No existing worklogs
       };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockSearchResults),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockSearchResults.issues)
+      );
 
-      mockServices.IJiraService.getIssueWorklog.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockWorklogs),
-      });
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable(mockWorklogs.worklogs)
+      );
 
       initScheduledJobs();
       await scheduledJobCallback();
 
-      expect(mockServices.IJiraService.getIssueWorklog).toHaveBeenCalledTimes(
-        2
-      );
+      // Once to find the day empty, and again right before posting
+      expect(
+        mockServices.IJiraService.iterateIssueWorklogs
+      ).toHaveBeenCalledTimes(4);
       expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(2);
       expect(EmbedBuilder).toHaveBeenCalled();
     });
@@ -386,25 +562,313 @@ describe("Scheduler", () => {
         ],
       };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockSearchResults),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockSearchResults.issues)
+      );
 
-      mockServices.IJiraService.getIssueWorklog.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockWorklogs),
-      });
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable(mockWorklogs.worklogs)
+      );
 
       initScheduledJobs();
       await scheduledJobCallback();
 
-      expect(mockServices.IJiraService.getIssueWorklog).toHaveBeenCalledTimes(
-        1
-      );
+      expect(
+        mockServices.IJiraService.iterateIssueWorklogs
+      ).toHaveBeenCalledTimes(1);
       expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled(); // Should skip posting
     });
 
+    it("should count time logged on issues outside the JQL", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+          partialDayMode: "top-up",
+        },
+      ]);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "1",
+            key: "TEST-1",
+            fields: {
+              summary: "Test issue 1",
+              assignee: { displayName: "John Doe" },
+            },
+          },
+        ])
+      );
+      // An hour of meetings on a ticket the JQL doesn't find
+      mockServices.IJiraService.iterateUserWorklogs.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            issueKey: "MEET-1",
+            author: { emailAddress: "test@example.com" },
+            timeSpentSeconds: 3600,
+          },
+        ])
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      expect(
+        mockServices.IJiraService.iterateUserWorklogs
+      ).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        new Date(2025, 6, 28),
+        new Date(2025, 6, 28),
+        "Etc/UTC"
+      );
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(1);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "TEST-1",
+        25200,
+        expect.any(Date),
+        false,
+        undefined
+      );
+    });
+
+    it("should log time for users signed in with a long refresh token", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.atlassian.net",
+          username: "test@example.com",
+          token: "r".repeat(1200),
+          authScheme: "oauth",
+          schedulePaused: false,
+          timeJqlOverride: null,
+        },
+      ]);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "1",
+            key: "TEST-1",
+            fields: {
+              summary: "Test issue 1",
+              assignee: { displayName: "John Doe" },
+            },
+          },
+        ])
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      expect(mockServices.ILoggerService.error).not.toHaveBeenCalledWith(
+        "Scheduler: Invalid configuration data",
+        expect.anything()
+      );
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.atlassian.net",
+        "test@example.com",
+        "r".repeat(1200),
+        "TEST-1",
+        28800,
+        expect.any(Date),
+        false,
+        undefined
+      );
+    });
+
+    it("should reserve allocations before splitting the rest", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+        },
+      ]);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "1",
+            key: "TEST-1",
+            fields: {
+              summary: "Test issue 1",
+              assignee: { displayName: "John Doe" },
+            },
+          },
+        ])
+      );
+      (
+        Allocation as unknown as { findForDay: jest.Mock }
+      ).findForDay.mockResolvedValue([
+        { issueKey: "MEET-1", timeInSeconds: 1800 },
+      ]);
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      expect(Allocation.findForDay).toHaveBeenCalledWith(
+        "987654321098765432",
+        "default",
+        new Date(2025, 6, 28)
+      );
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(2);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "MEET-1",
+        1800,
+        expect.any(Date),
+        false,
+        undefined
+      );
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "TEST-1",
+        27000,
+        expect.any(Date),
+        false,
+        undefined
+      );
+    });
+
+    it("should not post a day logged while it was being processed", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+        },
+      ]);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "1",
+            key: "TEST-1",
+            fields: {
+              summary: "Test issue 1",
+              assignee: { displayName: "John Doe" },
+            },
+          },
+        ])
+      );
+      // The user submits the day with /time after the scheduler looked at it
+      mockServices.IJiraService.iterateIssueWorklogs
+        .mockImplementationOnce(() => mockAsyncIterable([]))
+        .mockImplementation(() =>
+          mockAsyncIterable([
+            {
+              author: { emailAddress: "test@example.com" },
+              timeSpentSeconds: 28800,
+            },
+          ])
+        );
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      expect(WorklogEntry.create).not.toHaveBeenCalled();
+      expect(mockServices.ILoggerService.logInfo).toHaveBeenCalledWith(
+        "Worklogs found for 987654321098765432",
+        expect.objectContaining({
+          Reason: "Time was already logged on TEST-1 for 2025-07-28",
+        })
+      );
+      expect(mockServices.ILoggerService.error).not.toHaveBeenCalled();
+    });
+
+    it("should top up partially logged days when the user prefers it", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+          partialDayMode: "top-up-new",
+        },
+      ]);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(
+          ["TEST-1", "TEST-2"].map((key) => ({
+            id: key,
+            key,
+            fields: {
+              summary: `Test issue ${key}`,
+              assignee: { displayName: "John Doe" },
+            },
+          }))
+        )
+      );
+      // Two hours were logged by hand on TEST-1
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(
+        (_host: string, _username: string, _token: string, key: string) =>
+          mockAsyncIterable(
+            key === "TEST-1"
+              ? [
+                  {
+                    author: { emailAddress: "test@example.com" },
+                    started: "2025-07-28T09:00:00.000+0000",
+                    timeSpentSeconds: 7200,
+                  },
+                ]
+              : []
+          )
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      // The rest of the day starts when the hand-logged time ends
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledTimes(1);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "TEST-2",
+        21600,
+        new Date("2025-07-28T11:00:00.000Z"),
+        false,
+        undefined
+      );
+    });
+
     it("should use configured dailyHours for time distribution", async () => {
       const mockConfigs = [
         {
@@ -449,15 +913,13 @@ describe("Scheduler", () => {
         worklogs: [], // No existing worklogs
       };
 
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockSearchResults),
-      });
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockSearchResults.issues)
+      );
 
-      mockServices.IJiraService.getIssueWorklog.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockWorklogs),
-      });
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable(mockWorklogs.worklogs)
+      );
 
       mockServices.IJiraService.postWorklog.mockResolvedValue({
         ok: true,
@@ -485,7 +947,9 @@ describe("Scheduler", () => {
         "validtoken123456",
         "TEST-1",
         firstCallTime,
-        expect.any(Date)
+        expect.any(Date),
+        false,
+        undefined
       );
       expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
         "test.jira.com",
@@ -493,12 +957,16 @@ describe("Scheduler", () => {
         "validtoken123456",
         "TEST-2",
         secondCallTime,
-        expect.any(Date)
+        expect.any(Date),
+        false,
+        undefined
       );
     });
 
-    it("should default to 8 hours when dailyHours is not set", async () => {
-      const mockConfigs = [
+    it("should lay the worklogs out back-to-back from the workday start", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
         {
           userId: "987654321098765432",
           guildId: "123456789012345678",
@@ -507,17 +975,16 @@ describe("Scheduler", () => {
           token: "validtoken123456",
           schedulePaused: false,
           timeJqlOverride: null,
-          // dailyHours is undefined/null
+          dailyHours: 8,
+          distributionStrategy: "evenly",
+          workdayStart: "08:00",
+          lunchStart: "12:00",
+          lunchMinutes: 60,
         },
-      ];
-
-      (
-        JiraConfig as unknown as { findAll: jest.Mock }
-      ).findAll.mockResolvedValue(mockConfigs);
+      ]);
 
-      const mockSearchResults = {
-        total: 1,
-        issues: [
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
           {
             id: "10001",
             key: "TEST-1",
@@ -526,23 +993,836 @@ describe("Scheduler", () => {
               assignee: { displayName: "Test User" },
             },
           },
-        ],
-      };
-
-      const mockWorklogs = {
-        worklogs: [], // No existing worklogs
-      };
-
-      mockServices.IJiraService.getIssuesWorked.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockSearchResults),
-      });
-
-      mockServices.IJiraService.getIssueWorklog.mockResolvedValue({
-        ok: true,
-        json: jest.fn().mockResolvedValue(mockWorklogs),
+          {
+            id: "10002",
+            key: "TEST-2",
+            fields: {
+              summary: "Test Issue 2",
+              assignee: { displayName: "Test User" },
+            },
+          },
+        ])
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      const started = mockServices.IJiraService.postWorklog.mock.calls.map(
+        (call: unknown[]) => (call[5] as Date).toISOString()
+      );
+      expect(started).toEqual([
+        "2025-07-28T08:00:00.000Z",
+        "2025-07-28T13:00:00.000Z",
+      ]);
+    });
+
+    it("should weight time by Jira activity when configured", async () => {
+      const mockConfigs = [
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+          dailyHours: 6,
+          distributionStrategy: "weighted",
+        },
+      ];
+
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue(mockConfigs);
+
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "10001",
+            key: "TEST-1",
+            fields: {
+              summary: "Test Issue 1",
+              assignee: { displayName: "Test User" },
+            },
+          },
+          {
+            id: "10002",
+            key: "TEST-2",
+            fields: {
+              summary: "Test Issue 2",
+              assignee: { displayName: "Test User" },
+            },
+          },
+        ])
+      );
+
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+
+      mockServices.IJiraService.getIssuesActivity.mockResolvedValue([
+        { issueKey: "TEST-1", transitions: 2, comments: 1, commits: 1 },
+        { issueKey: "TEST-2", transitions: 0, comments: 0, commits: 0 },
+      ]);
+
+      mockServices.IJiraService.postWorklog.mockResolvedValue({
+        ok: true,
       });
 
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      expect(mockServices.IJiraService.getIssuesActivity).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        expect.arrayContaining([
+          expect.objectContaining({ id: "10001", key: "TEST-1" }),
+        ]),
+        expect.any(Date),
+        "Etc/UTC"
+      );
+
+      // Weights 9 and 1 split 6 hours 90/10
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "TEST-1",
+        19440,
+        expect.any(Date),
+        false,
+        undefined
+      );
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "TEST-2",
+        2160,
+        expect.any(Date),
+        false,
+        undefined
+      );
+    });
+
+    it("should attach the user's worklog comment template", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+          dailyHours: 8,
+          worklogCommentTemplate: "{key} - {summary} [{status}]",
+        },
+      ]);
+
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "10001",
+            key: "TEST-1",
+            fields: {
+              summary: "Test Issue 1",
+              assignee: { displayName: "Test User" },
+              status: { name: "Done" },
+            },
+          },
+        ])
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "TEST-1",
+        28800,
+        expect.any(Date),
+        false,
+        "TEST-1 - Test Issue 1 [Done]"
+      );
+    });
+
+    describe("with guild policies", () => {
+      const policyConfig = {
+        userId: "987654321098765432",
+        guildId: "123456789012345678",
+        host: "test.jira.com",
+        username: "test@example.com",
+        token: "validtoken123456",
+        schedulePaused: false,
+        timeJqlOverride: "project = MINE",
+        dailyHours: 8,
+      };
+
+      const setPolicy = (policy: Record<string, unknown>) =>
+        (
+          GuildSettings as unknown as { findForGuild: jest.Mock }
+        ).findForGuild.mockResolvedValue(policy);
+
+      beforeEach(() => {
+        (
+          JiraConfig as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([policyConfig]);
+
+        mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+          mockAsyncIterable([
+            {
+              id: "10001",
+              key: "TEST-1",
+              fields: {
+                summary: "Test Issue 1",
+                assignee: { displayName: "Test User" },
+              },
+            },
+          ])
+        );
+        mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+          mockAsyncIterable([])
+        );
+        mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+      });
+
+      it("should skip members of guilds with auto-logging disabled", async () => {
+        setPolicy({ autoLoggingDisabled: true });
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(GuildSettings.findForGuild).toHaveBeenCalledWith(
+          "123456789012345678"
+        );
+        expect(
+          mockServices.IJiraService.iterateIssuesWorked
+        ).not.toHaveBeenCalled();
+        expect(mockServices.ILoggerService.logInfo).toHaveBeenCalledWith(
+          "Skipping config for user 987654321098765432",
+          expect.objectContaining({
+            Reason: "Auto-logging is disabled by the guild",
+          })
+        );
+      });
+
+      it("should skip hosts the guild does not allow", async () => {
+        setPolicy({ allowedHosts: "acme.atlassian.net" });
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(
+          mockServices.IJiraService.iterateIssuesWorked
+        ).not.toHaveBeenCalled();
+      });
+
+      it("should skip members without a comment when the guild requires one", async () => {
+        setPolicy({ requireWorklogComment: true });
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      });
+
+      it("should use the guild JQL and maximum daily hours", async () => {
+        setPolicy({
+          forcedJql: "project = OPS AND worklogAuthor = currentUser()",
+          maxDailyHours: 6,
+        });
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(
+          mockServices.IJiraService.iterateIssuesWorked
+        ).toHaveBeenCalledWith(
+          "test.jira.com",
+          "test@example.com",
+          "validtoken123456",
+          "project = OPS AND worklogAuthor = currentUser()"
+        );
+        expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+          "test.jira.com",
+          "test@example.com",
+          "validtoken123456",
+          "TEST-1",
+          21600,
+          expect.any(Date),
+          false,
+          undefined
+        );
+      });
+    });
+
+    describe("with time off", () => {
+      const timeOffConfig = {
+        userId: "987654321098765432",
+        guildId: "123456789012345678",
+        host: "test.jira.com",
+        username: "test@example.com",
+        token: "validtoken123456",
+        schedulePaused: false,
+        dailyHours: 8,
+        timeOffIssueKey: null as string | null,
+      };
+
+      beforeEach(() => {
+        timeOffConfig.timeOffIssueKey = null;
+        (
+          JiraConfig as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([timeOffConfig]);
+        (
+          TimeOff as unknown as { findForDay: jest.Mock }
+        ).findForDay.mockResolvedValue({ reason: "Vacation" });
+
+        mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+          mockAsyncIterable([])
+        );
+        mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+      });
+
+      it("should skip days off", async () => {
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(TimeOff.findForDay).toHaveBeenCalledWith(
+          "987654321098765432",
+          "123456789012345678",
+          "2025-07-28"
+        );
+        expect(
+          mockServices.IJiraService.iterateIssuesWorked
+        ).not.toHaveBeenCalled();
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+        expect(mockServices.ILoggerService.logInfo).toHaveBeenCalledWith(
+          "Time off for user 987654321098765432",
+          expect.objectContaining({ Reason: "Vacation", Logged: 0 })
+        );
+      });
+
+      it("should log days off to the time off issue", async () => {
+        timeOffConfig.timeOffIssueKey = "HR-12";
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(
+          mockServices.IJiraService.iterateIssuesWorked
+        ).not.toHaveBeenCalled();
+        expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+          "test.jira.com",
+          "test@example.com",
+          "validtoken123456",
+          "HR-12",
+          28800,
+          new Date(Date.UTC(2025, 6, 28, 9)),
+          false,
+          "Vacation"
+        );
+
+        const mockUser = await (
+          client as unknown as { users: { fetch: jest.Mock } }
+        ).users.fetch();
+        expect(mockUser.send).toHaveBeenCalled();
+        expect(
+          (EmbedBuilder as unknown as jest.Mock).mock.results[0].value.setTitle
+        ).toHaveBeenCalledWith("🌴 You were off yesterday");
+      });
+
+      it("should not log a day off twice", async () => {
+        timeOffConfig.timeOffIssueKey = "HR-12";
+        mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+          mockAsyncIterable([
+            {
+              timeSpentSeconds: 28800,
+              author: { emailAddress: "test@example.com" },
+            },
+          ])
+        );
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("with confirmation", () => {
+      const confirmConfig = {
+        userId: "987654321098765432",
+        guildId: "123456789012345678",
+        profile: "default",
+        host: "test.jira.com",
+        username: "test@example.com",
+        token: "validtoken123456",
+        schedulePaused: false,
+        dailyHours: 8,
+        confirmWorklogs: true,
+        confirmMinutes: 60,
+        confirmFallback: "submit",
+      };
+      const proposalMessage = { embeds: [], components: [] };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let mockProposal: any;
+      let mockChannel: {
+        isTextBased: jest.Mock;
+        messages: { edit: jest.Mock };
+      };
+
+      beforeEach(() => {
+        confirmConfig.confirmFallback = "submit";
+        (
+          JiraConfig as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([confirmConfig]);
+        (JiraConfig as unknown as { findProfile: jest.Mock }).findProfile = jest
+          .fn()
+          .mockResolvedValue(confirmConfig);
+        (buildProposalMessage as jest.Mock).mockReturnValue(proposalMessage);
+
+        mockProposal = {
+          id: 7,
+          userId: "987654321098765432",
+          profile: "default",
+          date: "2025-07-28",
+          entries: [
+            {
+              key: "TEST-1",
+              summary: "Test Issue 1",
+              assignee: "Test User",
+              timeInSeconds: 28800,
+            },
+          ],
+          channelId: "555555555555555555",
+          messageId: "666666666666666666",
+          save: jest.fn().mockResolvedValue(undefined),
+        };
+        (WorklogProposal as unknown as { create: jest.Mock }).create = jest
+          .fn()
+          .mockResolvedValue(mockProposal);
+        (WorklogProposal as unknown as { destroy: jest.Mock }).destroy = jest
+          .fn()
+          .mockResolvedValue(1);
+
+        mockChannel = {
+          isTextBased: jest.fn().mockReturnValue(true),
+          messages: { edit: jest.fn().mockResolvedValue(undefined) },
+        };
+        (client as unknown as { channels: { fetch: jest.Mock } }).channels = {
+          fetch: jest.fn().mockResolvedValue(mockChannel),
+        };
+
+        mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+          mockAsyncIterable([
+            {
+              id: "10001",
+              key: "TEST-1",
+              fields: {
+                summary: "Test Issue 1",
+                assignee: { displayName: "Test User" },
+              },
+            },
+          ])
+        );
+        mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+          mockAsyncIterable([])
+        );
+        mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+      });
+
+      it("should ask for approval instead of posting", async () => {
+        const mockUser = await (
+          client as unknown as { users: { fetch: jest.Mock } }
+        ).users.fetch();
+        mockUser.send.mockResolvedValue({
+          channelId: "555555555555555555",
+          id: "777777777777777777",
+        });
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+        expect(WorklogProposal.create).toHaveBeenCalledWith({
+          userId: "987654321098765432",
+          profile: "default",
+          date: "2025-07-28",
+          entries: [
+            {
+              key: "TEST-1",
+              summary: "Test Issue 1",
+              assignee: "Test User",
+              status: undefined,
+              timeInSeconds: 28800,
+              reason: undefined,
+            },
+          ],
+          loggedSeconds: { "TEST-1": 0 },
+          expiresAt: new Date("2025-07-29T07:00:00.000Z"),
+        });
+        expect(buildProposalMessage).toHaveBeenCalledWith(
+          mockProposal,
+          confirmConfig
+        );
+        expect(mockUser.send).toHaveBeenCalledWith(proposalMessage);
+        expect(mockProposal.messageId).toBe("777777777777777777");
+        expect(mockProposal.save).toHaveBeenCalled();
+      });
+
+      it("should count proposed time towards the daily cap", async () => {
+        const settings = {
+          dailyHoursCap: 10,
+          cappedDate: null,
+          cappedSeconds: 0,
+          save: jest.fn().mockResolvedValue(undefined),
+        };
+        (
+          UserSettings as unknown as { findOne: jest.Mock }
+        ).findOne.mockResolvedValue(settings);
+        const mockUser = await (
+          client as unknown as { users: { fetch: jest.Mock } }
+        ).users.fetch();
+        mockUser.send.mockResolvedValue({
+          channelId: "555555555555555555",
+          id: "777777777777777777",
+        });
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+        expect(settings).toMatchObject({
+          cappedDate: "2025-07-28",
+          cappedSeconds: 28800,
+        });
+      });
+
+      it("should submit unanswered worklogs after the window", async () => {
+        (
+          WorklogProposal as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([mockProposal]);
+        (
+          JiraConfig as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([]);
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(WorklogProposal.findAll).toHaveBeenCalledWith({
+          where: {
+            expiresAt: { [Op.lte]: new Date("2025-07-29T06:00:00.000Z") },
+          },
+        });
+        expect(WorklogProposal.destroy).toHaveBeenCalledWith({
+          where: { id: 7 },
+        });
+        expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+          "test.jira.com",
+          "test@example.com",
+          "validtoken123456",
+          "TEST-1",
+          28800,
+          expect.any(Date),
+          false,
+          undefined
+        );
+        expect(buildProposalMessage).toHaveBeenCalledWith(
+          mockProposal,
+          confirmConfig,
+          "submitted",
+          [expect.objectContaining({ issueKey: "TEST-1", status: "posted" })]
+        );
+        expect(mockChannel.messages.edit).toHaveBeenCalledWith(
+          "666666666666666666",
+          proposalMessage
+        );
+      });
+
+      it("should skip unanswered worklogs when the user prefers it", async () => {
+        confirmConfig.confirmFallback = "skip";
+        (
+          WorklogProposal as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([mockProposal]);
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+        expect(buildProposalMessage).toHaveBeenCalledWith(
+          mockProposal,
+          confirmConfig,
+          "skipped"
+        );
+      });
+
+      it("should give the time of skipped worklogs back to the cap", async () => {
+        confirmConfig.confirmFallback = "skip";
+        const settings = {
+          dailyHoursCap: 10,
+          cappedDate: "2025-07-28",
+          cappedSeconds: 28800,
+          save: jest.fn().mockResolvedValue(undefined),
+        };
+        (
+          UserSettings as unknown as { findOne: jest.Mock }
+        ).findOne.mockResolvedValue(settings);
+        (
+          WorklogProposal as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([mockProposal]);
+        (
+          JiraConfig as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([]);
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(settings.cappedSeconds).toBe(0);
+      });
+
+      it("should say why unanswered worklogs could not be submitted", async () => {
+        const settings = {
+          dailyHoursCap: 10,
+          cappedDate: "2025-07-28",
+          cappedSeconds: 28800,
+          save: jest.fn().mockResolvedValue(undefined),
+        };
+        (
+          UserSettings as unknown as { findOne: jest.Mock }
+        ).findOne.mockResolvedValue(settings);
+        (
+          WorklogProposal as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([mockProposal]);
+        (
+          JiraConfig as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([]);
+        mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(
+          () => {
+            throw new Error("Token expired");
+          }
+        );
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+        expect(settings.cappedSeconds).toBe(0);
+        expect(buildProposalMessage).toHaveBeenCalledWith(
+          mockProposal,
+          confirmConfig,
+          "failed",
+          [],
+          "Token expired"
+        );
+        expect(mockChannel.messages.edit).toHaveBeenCalledWith(
+          "666666666666666666",
+          proposalMessage
+        );
+        expect(mockServices.ILoggerService.logInfo).toHaveBeenCalledWith(
+          "Unanswered worklogs failed",
+          {
+            UserId: "987654321098765432",
+            Profile: "default",
+            Date: "2025-07-28",
+          }
+        );
+      });
+
+      it("should not answer a proposal the user already answered", async () => {
+        (
+          WorklogProposal as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([mockProposal]);
+        (
+          WorklogProposal as unknown as { destroy: jest.Mock }
+        ).destroy.mockResolvedValue(0);
+        (
+          JiraConfig as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([]);
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+        expect(mockChannel.messages.edit).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("with worklogs to retry", () => {
+      const retryConfig = {
+        userId: "987654321098765432",
+        guildId: "123456789012345678",
+        profile: "default",
+        host: "test.jira.com",
+        username: "test@example.com",
+        token: "validtoken123456",
+      };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let mockEntry: any;
+
+      beforeEach(() => {
+        (
+          JiraConfig as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([]);
+        (JiraConfig as unknown as { findProfile: jest.Mock }).findProfile = jest
+          .fn()
+          .mockResolvedValue(retryConfig);
+
+        mockEntry = {
+          id: 3,
+          userId: "987654321098765432",
+          profile: "default",
+          issueKey: "TEST-1",
+          date: "2025-07-28",
+          started: new Date("2025-07-28T09:00:00.000Z"),
+          timeInSeconds: 28800,
+          comment: null,
+          status: "retrying",
+          attempts: 2,
+          nextAttemptAt: new Date("2025-07-29T05:30:00.000Z"),
+          error: "Rate limit exceeded",
+          save: jest.fn().mockResolvedValue(undefined),
+        };
+        (
+          WorklogEntry as unknown as { findAll: jest.Mock }
+        ).findAll.mockResolvedValue([mockEntry]);
+      });
+
+      it("should post worklogs that are due again", async () => {
+        mockServices.IJiraService.postWorklog.mockResolvedValue({
+          ok: true,
+          json: jest.fn().mockResolvedValue({ id: "30001" }),
+        });
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(WorklogEntry.findAll).toHaveBeenCalledWith({
+          where: {
+            status: "retrying",
+            nextAttemptAt: { [Op.lte]: new Date("2025-07-29T06:00:00.000Z") },
+          },
+          order: [["nextAttemptAt", "ASC"]],
+        });
+        expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+          "test.jira.com",
+          "test@example.com",
+          "validtoken123456",
+          "TEST-1",
+          28800,
+          new Date("2025-07-28T09:00:00.000Z"),
+          false,
+          undefined
+        );
+        expect(mockEntry).toMatchObject({
+          status: "posted",
+          attempts: 3,
+          worklogId: "30001",
+          nextAttemptAt: null,
+          error: null,
+        });
+        expect(mockEntry.save).toHaveBeenCalled();
+      });
+
+      it("should tell the user about worklogs that failed for good", async () => {
+        const failedMessage = { embeds: [], components: [] };
+        (buildFailedWorklogMessage as jest.Mock).mockReturnValue(failedMessage);
+        mockEntry.attempts = 4;
+        mockServices.IJiraService.postWorklog.mockResolvedValue({
+          ok: false,
+          status: 503,
+          statusText: "Service Unavailable",
+        });
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockEntry).toMatchObject({
+          status: "failed",
+          attempts: 5,
+          nextAttemptAt: null,
+        });
+        const mockUser = await (
+          client as unknown as { users: { fetch: jest.Mock } }
+        ).users.fetch();
+        expect(buildFailedWorklogMessage).toHaveBeenCalledWith(mockEntry);
+        expect(mockUser.send).toHaveBeenCalledWith(failedMessage);
+      });
+
+      it("should give up on worklogs whose profile was removed", async () => {
+        (
+          JiraConfig as unknown as { findProfile: jest.Mock }
+        ).findProfile.mockResolvedValue(null);
+
+        initScheduledJobs();
+        await scheduledJobCallback();
+
+        expect(mockServices.IJiraService.postWorklog).not.toHaveBeenCalled();
+        expect(mockEntry).toMatchObject({
+          status: "failed",
+          error: "The profile it was posted with no longer exists",
+        });
+        expect(mockEntry.save).toHaveBeenCalled();
+      });
+    });
+
+    it("should default to 8 hours when dailyHours is not set", async () => {
+      const mockConfigs = [
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+          // dailyHours is undefined/null
+        },
+      ];
+
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue(mockConfigs);
+
+      const mockSearchResults = {
+        total: 1,
+        issues: [
+          {
+            id: "10001",
+            key: "TEST-1",
+            fields: {
+              summary: "Test Issue 1",
+              assignee: { displayName: "Test User" },
+            },
+          },
+        ],
+      };
+
+      const mockWorklogs = {
+        worklogs: [], // No existing worklogs
+      };
+
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable(mockSearchResults.issues)
+      );
+
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable(mockWorklogs.worklogs)
+      );
+
       mockServices.IJiraService.postWorklog.mockResolvedValue({
         ok: true,
       });
@@ -557,8 +1837,334 @@ describe("Scheduler", () => {
         "validtoken123456",
         "TEST-1",
         28800, // 8 hours in seconds
-        expect.any(Date)
+        expect.any(Date),
+        false,
+        undefined
+      );
+    });
+
+    it("should keep the profiles of a user within the daily cap", async () => {
+      const createProfile = (profile: string) => ({
+        userId: "987654321098765432",
+        guildId: "123456789012345678",
+        profile,
+        host: `${profile}.jira.com`,
+        username: "test@example.com",
+        token: "validtoken123456",
+        schedulePaused: false,
+        timeJqlOverride: null,
+        dailyHours: 8,
+      });
+      const settings = {
+        dailyHoursCap: 10,
+        cappedDate: null,
+        cappedSeconds: 0,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        createProfile("default"),
+        createProfile("acme"),
+        createProfile("globex"),
+      ]);
+      (
+        UserSettings as unknown as { findOne: jest.Mock }
+      ).findOne.mockResolvedValue(settings);
+
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(
+        (host: string) =>
+          mockAsyncIterable([
+            {
+              id: "10001",
+              key: `${host.split(".")[0].toUpperCase()}-1`,
+              fields: {
+                summary: "Test Issue",
+                assignee: { displayName: "Test User" },
+              },
+            },
+          ])
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      const calls = mockServices.IJiraService.postWorklog.mock.calls;
+      expect(calls.map((call: unknown[]) => [call[3], call[4]])).toEqual([
+        ["DEFAULT-1", 28800],
+        ["ACME-1", 7200],
+      ]);
+      expect(settings).toMatchObject({
+        cappedDate: "2025-07-28",
+        cappedSeconds: 36000,
+      });
+      expect(mockServices.ILoggerService.logInfo).toHaveBeenCalledWith(
+        "Daily cap reached for 987654321098765432",
+        { GuildId: "123456789012345678", Profile: "globex" }
+      );
+    });
+
+    it("should count time on a shared Jira account towards the cap once", async () => {
+      const createProfile = (profile: string, dailyHours: number) => ({
+        userId: "987654321098765432",
+        guildId: "123456789012345678",
+        profile,
+        host: "test.jira.com",
+        username: "test@example.com",
+        token: "validtoken123456",
+        schedulePaused: false,
+        timeJqlOverride: null,
+        dailyHours,
+        partialDayMode: "top-up",
+      });
+      const settings = {
+        dailyHoursCap: 10,
+        cappedDate: null,
+        cappedSeconds: 0,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        createProfile("default", 4),
+        createProfile("acme", 8),
+      ]);
+      (
+        UserSettings as unknown as { findOne: jest.Mock }
+      ).findOne.mockResolvedValue(settings);
+
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "10001",
+            key: "TEST-1",
+            fields: {
+              summary: "Test Issue",
+              assignee: { displayName: "Test User" },
+            },
+          },
+        ])
+      );
+      // Both profiles see the same 2h the user logged themselves, and the
+      // second one also sees what was posted for the first
+      const worklogs = [
+        {
+          issueKey: "MEET-1",
+          author: { emailAddress: "test@example.com" },
+          timeSpentSeconds: 7200,
+        },
+      ];
+      mockServices.IJiraService.iterateUserWorklogs.mockImplementation(() =>
+        mockAsyncIterable([...worklogs])
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(
+        (_host: string, _username: string, _token: string, key: string) =>
+          mockAsyncIterable(
+            worklogs.filter((worklog) => worklog.issueKey === key)
+          )
+      );
+      mockServices.IJiraService.postWorklog.mockImplementation(
+        async (...args: unknown[]) => {
+          worklogs.push({
+            issueKey: args[3] as string,
+            author: { emailAddress: "test@example.com" },
+            timeSpentSeconds: args[4] as number,
+          });
+          return { ok: true };
+        }
+      );
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      const calls = mockServices.IJiraService.postWorklog.mock.calls;
+      expect(calls.map((call: unknown[]) => [call[3], call[4]])).toEqual([
+        ["TEST-1", 7200],
+        ["TEST-1", 14400],
+      ]);
+      expect(settings).toMatchObject({
+        cappedDate: "2025-07-28",
+        cappedSeconds: 21600,
+      });
+    });
+
+    it("should message users set up in DMs directly", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        {
+          userId: "987654321098765432",
+          guildId: null,
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+        },
+      ]);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "10001",
+            key: "TEST-1",
+            fields: {
+              summary: "Test Issue",
+              assignee: { displayName: "Test User" },
+            },
+          },
+        ])
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      const mockClient = client as unknown as {
+        guilds: { cache: { get: jest.Mock } };
+        users: { fetch: jest.Mock };
+      };
+      expect(mockClient.guilds.cache.get).not.toHaveBeenCalled();
+      expect(mockClient.users.fetch).toHaveBeenCalledWith("987654321098765432");
+      const mockUser = await mockClient.users.fetch.mock.results[0].value;
+      expect(mockUser.send).toHaveBeenCalledWith({
+        embeds: [expect.anything()],
+        components: [undefined],
+      });
+    });
+
+    it("should fall back to a direct message after the user left the guild", async () => {
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue([
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+        },
+      ]);
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "10001",
+            key: "TEST-1",
+            fields: {
+              summary: "Test Issue",
+              assignee: { displayName: "Test User" },
+            },
+          },
+        ])
+      );
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+      mockServices.IJiraService.postWorklog.mockResolvedValue({ ok: true });
+
+      const mockClient = client as unknown as {
+        guilds: { cache: { get: jest.Mock } };
+        users: { fetch: jest.Mock };
+      };
+      mockClient.guilds.cache.get.mockReturnValue({
+        members: {
+          fetch: jest.fn().mockRejectedValue(new Error("Unknown Member")),
+        },
+      });
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      expect(mockClient.users.fetch).toHaveBeenCalledWith("987654321098765432");
+      const mockUser = await mockClient.users.fetch.mock.results[0].value;
+      expect(mockUser.send).toHaveBeenCalled();
+    });
+
+    it("should skip configs that are not due", async () => {
+      const mockConfigs = [
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+          timezone: "America/Sao_Paulo", // 03:00 local, not yet due
+        },
+      ];
+
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue(mockConfigs);
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      expect(
+        mockServices.IJiraService.iterateIssuesWorked
+      ).not.toHaveBeenCalled();
+      expect(mockServices.ILoggerService.logInfo).not.toHaveBeenCalled();
+    });
+
+    it("should compute yesterday in the user's timezone", async () => {
+      // 06:00 in Tokyo on Wednesday is 21:00 UTC on Tuesday
+      jest.setSystemTime(new Date("2025-07-29T21:00:00.000Z"));
+
+      const mockConfigs = [
+        {
+          userId: "987654321098765432",
+          guildId: "123456789012345678",
+          host: "test.jira.com",
+          username: "test@example.com",
+          token: "validtoken123456",
+          schedulePaused: false,
+          timeJqlOverride: null,
+          timezone: "Asia/Tokyo",
+          scheduleTime: "06:00",
+          workDays: "1,2,3,4,5",
+        },
+      ];
+
+      (
+        JiraConfig as unknown as { findAll: jest.Mock }
+      ).findAll.mockResolvedValue(mockConfigs);
+
+      mockServices.IJiraService.iterateIssuesWorked.mockImplementation(() =>
+        mockAsyncIterable([
+          {
+            id: "10001",
+            key: "TEST-1",
+            fields: {
+              summary: "Test Issue 1",
+              assignee: { displayName: "Test User" },
+            },
+          },
+        ])
       );
+
+      mockServices.IJiraService.iterateIssueWorklogs.mockImplementation(() =>
+        mockAsyncIterable([])
+      );
+
+      initScheduledJobs();
+      await scheduledJobCallback();
+
+      const worklogDate = mockServices.IJiraService.iterateIssueWorklogs.mock
+        .calls[0][4] as Date;
+      expect(worklogDate.getFullYear()).toBe(2025);
+      expect(worklogDate.getMonth()).toBe(6);
+      expect(worklogDate.getDate()).toBe(29);
     });
   });
 });
@@ -0,0 +1,356 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { WorklogEntry } from "../../src/db/models";
+import {
+  AlreadyLoggedError,
+  describeFailures,
+  postWorklogs,
+  retryWorklog,
+  summarizePosting,
+} from "../../src/scheduler/posting";
+import { createMockServiceContainer } from "../test-utils";
+
+jest.mock("../../src/db/models", () => ({
+  ...jest.requireActual("../../src/db/models"),
+  WorklogEntry: { create: jest.fn(), findAll: jest.fn() },
+}));
+
+describe("Scheduler posting", () => {
+  let mockJiraService: any;
+
+  const config = {
+    userId: "987654321098765432",
+    host: "test.jira.com",
+    username: "test@example.com",
+    token: "validtoken123456",
+  } as any;
+  const worklog = {
+    issueKey: "PROJ-1",
+    date: "2025-07-28",
+    started: new Date("2025-07-28T09:00:00.000Z"),
+    timeInSeconds: 7200,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2025-07-29T06:00:00.000Z"));
+
+    mockJiraService = createMockServiceContainer().mockServices.IJiraService;
+    (WorklogEntry.create as jest.Mock).mockImplementation(
+      async (values) => values
+    );
+    (WorklogEntry.findAll as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("postWorklogs", () => {
+    it("should record each worklog Jira accepted", async () => {
+      mockJiraService.postWorklog.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ id: "10001" }),
+      });
+
+      const [entry] = await postWorklogs(
+        mockJiraService,
+        config,
+        [{ ...worklog, comment: "Fixed login" }],
+        "manual",
+        "preview-1"
+      );
+
+      expect(mockJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "PROJ-1",
+        7200,
+        new Date("2025-07-28T09:00:00.000Z"),
+        false,
+        "Fixed login"
+      );
+      expect(entry).toEqual({
+        userId: "987654321098765432",
+        profile: "default",
+        ...worklog,
+        comment: "Fixed login",
+        source: "manual",
+        submissionId: "preview-1",
+        attempts: 1,
+        status: "posted",
+        worklogId: "10001",
+        nextAttemptAt: null,
+        error: null,
+      });
+    });
+
+    it("should queue worklogs that may be accepted later", async () => {
+      mockJiraService.postWorklog
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: "Too Many Requests",
+        })
+        .mockRejectedValueOnce(new Error("network timeout"));
+
+      const entries = await postWorklogs(
+        mockJiraService,
+        config,
+        [worklog, { ...worklog, issueKey: "PROJ-2" }],
+        "scheduled",
+        "scheduled:2025-07-28"
+      );
+
+      expect(entries).toEqual([
+        expect.objectContaining({
+          status: "retrying",
+          worklogId: null,
+          nextAttemptAt: new Date("2025-07-29T06:15:00.000Z"),
+          error: "Rate limit exceeded",
+        }),
+        expect.objectContaining({
+          status: "retrying",
+          error: "network timeout",
+        }),
+      ]);
+    });
+
+    it("should not retry worklogs Jira refused", async () => {
+      mockJiraService.postWorklog.mockResolvedValue({
+        ok: false,
+        status: 403,
+        statusText: "Forbidden",
+      });
+
+      const [entry] = await postWorklogs(
+        mockJiraService,
+        config,
+        [worklog],
+        "scheduled",
+        "scheduled:2025-07-28"
+      );
+
+      expect(entry).toEqual(
+        expect.objectContaining({
+          status: "failed",
+          nextAttemptAt: null,
+          error: "Access denied",
+        })
+      );
+    });
+  });
+
+  describe("submitting twice", () => {
+    let ledger: any[];
+    let jiraWorklogs: any[];
+
+    beforeEach(() => {
+      ledger = [];
+      jiraWorklogs = [];
+      (WorklogEntry.create as jest.Mock).mockImplementation(async (values) => {
+        ledger.push(values);
+        return values;
+      });
+      (WorklogEntry.findAll as jest.Mock).mockImplementation(
+        async ({ where }) =>
+          ledger.filter(
+            (entry) =>
+              entry.submissionId === where.submissionId &&
+              where.issueKey.includes(entry.issueKey)
+          )
+      );
+      mockJiraService.iterateIssueWorklogs.mockImplementation(
+        async function* () {
+          yield* jiraWorklogs;
+        }
+      );
+      // Posts resolve on a later tick so that submissions could interleave
+      mockJiraService.postWorklog.mockImplementation(async () => {
+        await Promise.resolve();
+        jiraWorklogs.push({
+          author: { emailAddress: "test@example.com" },
+          timeSpentSeconds: 7200,
+        });
+        return { ok: true, json: async () => ({ id: "10001" }) };
+      });
+    });
+
+    it("should post a double-clicked submission once", async () => {
+      const [first, second] = await Promise.all([
+        postWorklogs(mockJiraService, config, [worklog], "manual", "preview-1"),
+        postWorklogs(mockJiraService, config, [worklog], "manual", "preview-1"),
+      ]);
+
+      expect(mockJiraService.postWorklog).toHaveBeenCalledTimes(1);
+      expect(WorklogEntry.create).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+    });
+
+    it("should post a second top-up of the same day", async () => {
+      await postWorklogs(
+        mockJiraService,
+        config,
+        [worklog],
+        "manual",
+        "preview-1"
+      );
+      await postWorklogs(
+        mockJiraService,
+        config,
+        [{ ...worklog, started: new Date("2025-07-28T11:00:00.000Z") }],
+        "manual",
+        "preview-2",
+        { "PROJ-1": 7200 }
+      );
+
+      expect(mockJiraService.postWorklog).toHaveBeenCalledTimes(2);
+      expect(ledger).toHaveLength(2);
+    });
+
+    it("should post again after the worklog was deleted in Jira", async () => {
+      await postWorklogs(
+        mockJiraService,
+        config,
+        [worklog],
+        "manual",
+        "preview-1"
+      );
+      jiraWorklogs = [];
+
+      await postWorklogs(
+        mockJiraService,
+        config,
+        [worklog],
+        "manual",
+        "preview-2"
+      );
+
+      expect(mockJiraService.postWorklog).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not post a day another flow logged meanwhile", async () => {
+      const [scheduled, manual] = await Promise.allSettled([
+        postWorklogs(
+          mockJiraService,
+          config,
+          [worklog],
+          "scheduled",
+          "scheduled:2025-07-28"
+        ),
+        postWorklogs(mockJiraService, config, [worklog], "manual", "preview-1"),
+      ]);
+
+      expect(scheduled.status).toBe("fulfilled");
+      expect(manual).toEqual({
+        status: "rejected",
+        reason: expect.any(AlreadyLoggedError),
+      });
+      expect((manual as PromiseRejectedResult).reason.message).toBe(
+        "Time was already logged on PROJ-1 for 2025-07-28"
+      );
+      expect(mockJiraService.postWorklog).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only hold back submissions of the same user", async () => {
+      mockJiraService.iterateIssueWorklogs.mockImplementation(
+        async function* () {
+          // Nobody has logged anything in Jira yet
+        }
+      );
+
+      await Promise.all([
+        postWorklogs(mockJiraService, config, [worklog], "manual", "preview-1"),
+        postWorklogs(
+          mockJiraService,
+          { ...config, userId: "123456789012345678" },
+          [worklog],
+          "manual",
+          "preview-2"
+        ),
+      ]);
+
+      expect(mockJiraService.postWorklog).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep going after a submission failed", async () => {
+      (WorklogEntry.findAll as jest.Mock).mockRejectedValueOnce(
+        new Error("Database is locked")
+      );
+
+      const results = await Promise.allSettled([
+        postWorklogs(mockJiraService, config, [worklog], "manual", "preview-1"),
+        postWorklogs(mockJiraService, config, [worklog], "manual", "preview-1"),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        "rejected",
+        "fulfilled",
+      ]);
+      expect(mockJiraService.postWorklog).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("retryWorklog", () => {
+    const createEntry = (attempts: number) =>
+      ({
+        ...worklog,
+        comment: null,
+        status: "retrying",
+        attempts,
+        save: jest.fn().mockResolvedValue(undefined),
+      } as any);
+
+    beforeEach(() => {
+      mockJiraService.postWorklog.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+      });
+    });
+
+    it("should wait longer after each attempt", async () => {
+      const entry = await retryWorklog(mockJiraService, config, createEntry(3));
+
+      expect(entry.attempts).toBe(4);
+      expect(entry.status).toBe("retrying");
+      expect(entry.nextAttemptAt).toEqual(new Date("2025-07-29T08:00:00.000Z"));
+      expect(entry.save).toHaveBeenCalled();
+    });
+
+    it("should give up after the last attempt", async () => {
+      const entry = await retryWorklog(mockJiraService, config, createEntry(4));
+
+      expect(entry.attempts).toBe(5);
+      expect(entry.status).toBe("failed");
+      expect(entry.nextAttemptAt).toBeNull();
+    });
+  });
+
+  it("should sum up the worklogs that were not posted", () => {
+    const entries = [
+      { issueKey: "PROJ-1", timeInSeconds: 7200, status: "posted" },
+      {
+        issueKey: "PROJ-2",
+        timeInSeconds: 3600,
+        status: "failed",
+        error: "Issue is closed",
+      },
+      { issueKey: "PROJ-3", timeInSeconds: 1800, status: "retrying" },
+    ] as any;
+
+    expect(describeFailures(entries)).toBe(
+      [
+        "`PROJ-2` 1h: ❌ Issue is closed",
+        "`PROJ-3` 30m: ❌ Not posted, retrying automatically",
+      ].join("\n")
+    );
+    expect(summarizePosting(entries)).toBe(
+      "Logged 1 of 3 worklogs. Failed worklogs are retried automatically."
+    );
+    expect(summarizePosting(entries.slice(0, 1))).toBe(
+      "Your time was submitted."
+    );
+  });
+});
@@ -0,0 +1,356 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  UserSettings,
+  WorklogEntry,
+  WorklogProposal,
+} from "../../src/db/models";
+import {
+  buildEditModal,
+  buildProposalMessage,
+  claimProposal,
+  parseProposalEdits,
+  recordCappedSeconds,
+  submitProposal,
+} from "../../src/scheduler/proposals";
+import { createMockServiceContainer } from "../test-utils";
+
+jest.mock("../../src/db/models");
+
+// Unmock the builders so the message can be checked
+jest.unmock("discord.js");
+
+const mockWorklogProposal = WorklogProposal as jest.Mocked<
+  typeof WorklogProposal
+>;
+const mockUserSettings = UserSettings as jest.Mocked<typeof UserSettings>;
+
+describe("Scheduler proposals", () => {
+  let proposal: any;
+  let config: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (WorklogEntry as unknown as { findAll: jest.Mock }).findAll = jest
+      .fn()
+      .mockResolvedValue([]);
+    (WorklogEntry as unknown as { create: jest.Mock }).create = jest
+      .fn()
+      .mockImplementation(async (values) => values);
+
+    proposal = {
+      id: 7,
+      userId: "987654321098765432",
+      profile: "default",
+      date: "2025-07-28",
+      expiresAt: new Date("2025-07-29T08:00:00.000Z"),
+      entries: [
+        {
+          key: "PROJ-1",
+          summary: "Fix login",
+          assignee: "John Doe",
+          status: "In Progress",
+          timeInSeconds: 18000,
+          reason: "3 comments",
+        },
+        {
+          key: "PROJ-2",
+          summary: "Write docs",
+          assignee: "John Doe",
+          timeInSeconds: 10800,
+        },
+      ],
+    };
+    config = {
+      userId: "987654321098765432",
+      host: "test.jira.com",
+      username: "test@example.com",
+      token: "validtoken123456",
+      confirmFallback: "submit",
+    };
+  });
+
+  describe("buildProposalMessage", () => {
+    it("should ask for approval with the proposed worklogs", () => {
+      const message = buildProposalMessage(proposal, config);
+      const embed = message.embeds[0].toJSON();
+
+      expect(embed.title).toBe("You worked on 2 issues on 2025-07-28");
+      expect(embed.description).toBe(
+        "Nothing is logged until you approve. Without an answer, this time is submitted <t:1753776000:R>."
+      );
+      expect(embed.fields).toEqual([
+        {
+          name: "PROJ-1 (John Doe)",
+          value: "Fix login\n- 5h (3 comments)",
+          inline: false,
+        },
+        { name: "PROJ-2 (John Doe)", value: "Write docs\n- 3h", inline: false },
+      ]);
+      expect(embed.footer?.text).toBe("Total: 8h");
+      expect(
+        message.components[0]
+          .toJSON()
+          .components.map((button: any) => button.custom_id)
+      ).toEqual(["schedule:approve:7", "schedule:edit:7", "schedule:skip:7"]);
+    });
+
+    it("should mention the skip fallback and the profile", () => {
+      const embed = buildProposalMessage(proposal, {
+        ...config,
+        profile: "acme",
+        confirmFallback: "skip",
+      }).embeds[0].toJSON();
+
+      expect(embed.title).toBe("You worked on 2 issues on 2025-07-28 [acme]");
+      expect(embed.description).toContain("this time is skipped");
+    });
+
+    it("should only offer to revert once answered", () => {
+      const submitted = buildProposalMessage(proposal, config, "submitted");
+      const skipped = buildProposalMessage(proposal, config, "skipped");
+
+      expect(
+        (submitted.components[0].toJSON().components[0] as any).custom_id
+      ).toBe("worklogs:revert:default:2025-07-28");
+      expect(submitted.embeds[0].toJSON().footer?.text).toBe(
+        "Your time was submitted."
+      );
+      expect(submitted.embeds[0].toJSON().description).toBeUndefined();
+      expect(skipped.components).toEqual([]);
+      expect(skipped.embeds[0].toJSON().footer?.text).toBe(
+        "Your time was not logged."
+      );
+    });
+
+    it("should show the worklogs that could not be posted", () => {
+      const message = buildProposalMessage(proposal, config, "submitted", [
+        { issueKey: "PROJ-1", timeInSeconds: 18000, status: "posted" },
+        {
+          issueKey: "PROJ-2",
+          timeInSeconds: 10800,
+          status: "retrying",
+          error: "Rate limit exceeded",
+        },
+      ] as any);
+
+      const embed = message.embeds[0].toJSON();
+      expect(embed.fields?.[0].value).toBe("Fix login\n- 5h (3 comments)");
+      expect(embed.fields?.[1].value).toBe(
+        "Write docs\n- 3h\n❌ Rate limit exceeded, retrying automatically"
+      );
+      expect(embed.footer?.text).toBe(
+        "Logged 1 of 2 worklogs. Failed worklogs are retried automatically."
+      );
+    });
+  });
+
+  it("should fill the edit form with the proposed minutes", () => {
+    const form = buildEditModal(proposal).toJSON();
+
+    expect(form.custom_id).toBe("schedule:edit-modal:7");
+    expect((form.components[0] as any).components[0].value).toBe(
+      "PROJ-1 300\nPROJ-2 180"
+    );
+  });
+
+  describe("parseProposalEdits", () => {
+    it("should change, drop and add issues", () => {
+      expect(
+        parseProposalEdits(
+          "PROJ-1 300\n\nproj-2 0\n  PROJ-3   120 ",
+          proposal.entries
+        )
+      ).toEqual([
+        proposal.entries[0],
+        {
+          key: "PROJ-3",
+          summary: "",
+          assignee: "Added manually",
+          timeInSeconds: 7200,
+        },
+      ]);
+    });
+
+    it("should forget the reason of changed times", () => {
+      const [entry] = parseProposalEdits("PROJ-1 240", proposal.entries);
+
+      expect(entry.timeInSeconds).toBe(14400);
+      expect(entry.reason).toBeUndefined();
+      expect(entry.summary).toBe("Fix login");
+    });
+
+    it("should reject invalid lines", () => {
+      expect(() => parseProposalEdits("PROJ-1", proposal.entries)).toThrow(
+        "Each line must be an issue key and minutes"
+      );
+      expect(() => parseProposalEdits("PROJ-1 1h", proposal.entries)).toThrow(
+        "Minutes"
+      );
+      expect(() =>
+        parseProposalEdits("PROJ-1 60\nPROJ-1 30", proposal.entries)
+      ).toThrow("PROJ-1 is listed more than once");
+    });
+
+    it("should keep at least one issue and at most a day", () => {
+      expect(() =>
+        parseProposalEdits("PROJ-1 0\nPROJ-2 0", proposal.entries)
+      ).toThrow("Keep at least one issue");
+      expect(() =>
+        parseProposalEdits("PROJ-1 1000\nPROJ-2 1000", proposal.entries)
+      ).toThrow("Worklogs cannot add up to more than 24h");
+    });
+  });
+
+  it("should say why nothing was logged when submitting failed", () => {
+    const message = buildProposalMessage(
+      proposal,
+      config,
+      "failed",
+      [],
+      "Time was already logged on PROJ-1 for 2025-07-28"
+    );
+    const embed = message.embeds[0].toJSON();
+
+    expect(embed.footer?.text).toBe(
+      "Nothing was logged: Time was already logged on PROJ-1 for 2025-07-28"
+    );
+    expect(message.components).toEqual([]);
+  });
+
+  it("should claim a proposal only once", async () => {
+    mockWorklogProposal.destroy.mockResolvedValueOnce(1).mockResolvedValue(0);
+
+    await expect(claimProposal(proposal)).resolves.toBe(true);
+    await expect(claimProposal(proposal)).resolves.toBe(false);
+    expect(mockWorklogProposal.destroy).toHaveBeenCalledWith({
+      where: { id: 7 },
+    });
+  });
+
+  describe("submitProposal", () => {
+    it("should post the worklogs back-to-back", async () => {
+      const { mockServices } = createMockServiceContainer();
+      const settings = {
+        dailyHoursCap: 10,
+        cappedDate: "2025-07-28",
+        cappedSeconds: 3600,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      mockUserSettings.findOne.mockResolvedValue(settings as any);
+
+      const posted = await submitProposal(
+        mockServices.IJiraService as any,
+        proposal,
+        {
+          ...config,
+          worklogCommentTemplate: "{key} on {date}",
+        } as any
+      );
+
+      expect(posted).toEqual([
+        expect.objectContaining({ issueKey: "PROJ-1", status: "posted" }),
+        expect.objectContaining({ issueKey: "PROJ-2", status: "posted" }),
+      ]);
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "PROJ-1",
+        18000,
+        new Date(2025, 6, 28, 9),
+        false,
+        "PROJ-1 on 2025-07-28"
+      );
+      expect(mockServices.IJiraService.postWorklog).toHaveBeenCalledWith(
+        "test.jira.com",
+        "test@example.com",
+        "validtoken123456",
+        "PROJ-2",
+        10800,
+        new Date(2025, 6, 28, 14),
+        false,
+        "PROJ-2 on 2025-07-28"
+      );
+      // The time was counted towards the cap when it was proposed
+      expect(settings.cappedSeconds).toBe(3600);
+      expect(settings.save).not.toHaveBeenCalled();
+    });
+
+    it("should post after the time logged before it was proposed", async () => {
+      const { mockServices } = createMockServiceContainer();
+      proposal.loggedSeconds = { "MEET-1": 5400 };
+      proposal.loggedUntil = new Date("2025-07-28T10:30:00.000Z");
+
+      await submitProposal(mockServices.IJiraService as any, proposal, config);
+
+      expect(WorklogEntry.findAll).toHaveBeenCalledWith({
+        where: expect.objectContaining({ submissionId: "proposal:7" }),
+      });
+      expect(
+        mockServices.IJiraService.postWorklog.mock.calls.map((call: any[]) => [
+          call[3],
+          call[5],
+        ])
+      ).toEqual([
+        ["PROJ-1", new Date("2025-07-28T10:30:00.000Z")],
+        ["PROJ-2", new Date("2025-07-28T15:30:00.000Z")],
+      ]);
+    });
+  });
+
+  describe("recordCappedSeconds", () => {
+    it("should start counting again on a new date", async () => {
+      const settings = {
+        dailyHoursCap: 8,
+        cappedDate: "2025-07-27",
+        cappedSeconds: 7200,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      await recordCappedSeconds(settings as any, "2025-07-28", 3600);
+
+      expect(settings.cappedDate).toBe("2025-07-28");
+      expect(settings.cappedSeconds).toBe(3600);
+    });
+
+    it("should give back the time of a skipped proposal", async () => {
+      const settings = {
+        dailyHoursCap: 8,
+        cappedDate: "2025-07-28",
+        cappedSeconds: 7200,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      await recordCappedSeconds(settings as any, "2025-07-28", -3600);
+      expect(settings.cappedSeconds).toBe(3600);
+
+      await recordCappedSeconds(settings as any, "2025-07-28", -7200);
+      expect(settings.cappedSeconds).toBe(0);
+    });
+
+    it("should not give back time counted on another date", async () => {
+      const settings = {
+        dailyHoursCap: 8,
+        cappedDate: "2025-07-29",
+        cappedSeconds: 7200,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+
+      await recordCappedSeconds(settings as any, "2025-07-28", -3600);
+
+      expect(settings).toMatchObject({
+        cappedDate: "2025-07-29",
+        cappedSeconds: 7200,
+      });
+      expect(settings.save).not.toHaveBeenCalled();
+    });
+
+    it("should ignore users without a cap", async () => {
+      const settings = { dailyHoursCap: null, save: jest.fn() };
+
+      await recordCappedSeconds(settings as any, "2025-07-28", 3600);
+
+      expect(settings.save).not.toHaveBeenCalled();
+    });
+  });
+});
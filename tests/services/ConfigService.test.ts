@@ -177,6 +177,34 @@ describe("ConfigService", () => {
       expect(result).toBeUndefined();
     });
 
+    it("should get the Atlassian OAuth settings", () => {
+      setEnv("ATLASSIAN_CLIENT_ID", "oauth-client");
+      setEnv("ATLASSIAN_CLIENT_SECRET", "oauth-secret");
+      setEnv("OAUTH_REDIRECT_URI", "https://bot.example.com/oauth/callback");
+      setEnv("OAUTH_CALLBACK_PORT", "8080");
+
+      expect(configService.getAtlassianClientId()).toBe("oauth-client");
+      expect(configService.getAtlassianClientSecret()).toBe("oauth-secret");
+      expect(configService.getOAuthRedirectUri()).toBe(
+        "https://bot.example.com/oauth/callback"
+      );
+      expect(configService.getOAuthCallbackPort()).toBe(8080);
+    });
+
+    it("should default the Atlassian OAuth endpoints", () => {
+      deleteEnv("OAUTH_CALLBACK_PORT");
+      deleteEnv("ATLASSIAN_AUTH_URL");
+      deleteEnv("ATLASSIAN_API_URL");
+
+      expect(configService.getOAuthCallbackPort()).toBe(3000);
+      expect(configService.getAtlassianAuthUrl()).toBe(
+        "https://auth.atlassian.com"
+      );
+      expect(configService.getAtlassianApiUrl()).toBe(
+        "https://api.atlassian.com"
+      );
+    });
+
     it("should check Discord logging enabled", () => {
       setEnv("DISCORD_LOGGING", "true");
 
@@ -18,6 +18,12 @@ const createMockConfigService = (secretKey?: string): IConfigService => ({
   getDatabaseUrl: jest.fn(),
   getPgConnectionString: jest.fn(),
   getEncryptionSecretKey: jest.fn().mockReturnValue(secretKey),
+  getAtlassianClientId: jest.fn(),
+  getAtlassianClientSecret: jest.fn(),
+  getOAuthRedirectUri: jest.fn(),
+  getOAuthCallbackPort: jest.fn(),
+  getAtlassianAuthUrl: jest.fn(),
+  getAtlassianApiUrl: jest.fn(),
   isDiscordLoggingEnabled: jest.fn(),
   isPgLoggingEnabled: jest.fn(),
   isProduction: jest.fn(),
@@ -1,4 +1,8 @@
-import { CommandInteraction, MessageFlags } from "discord.js";
+import {
+  CommandInteraction,
+  MessageFlags,
+  ModalSubmitInteraction,
+} from "discord.js";
 import { Response as NodeFetchResponse } from "node-fetch";
 import {
   ApplicationError,
@@ -115,6 +119,28 @@ describe("ErrorHandler", () => {
       });
     });
 
+    it("should log the custom ID of modal and button interactions", async () => {
+      const modalInteraction = {
+        customId: "setup:modal:123",
+        guildId: "guild123",
+        user: { id: "user123" },
+        replied: false,
+        deferred: false,
+        reply: jest.fn().mockResolvedValue(undefined),
+      };
+
+      await ErrorHandler.handleCommandError(
+        modalInteraction as unknown as ModalSubmitInteraction,
+        new Error("Generic error"),
+        mockLogger
+      );
+
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        "Command execution failed",
+        expect.objectContaining({ commandName: "setup:modal:123" })
+      );
+    });
+
     it("should handle followUp when interaction is already replied", async () => {
       mockInteraction.replied = true;
       const error = new ApplicationError(
@@ -0,0 +1,123 @@
+import { GuildPolicyUtils } from "../../src/services/GuildPolicyUtils";
+
+describe("GuildPolicyUtils", () => {
+  describe("parseAllowedHosts", () => {
+    it("should split comma and space separated hosts", () => {
+      expect(
+        GuildPolicyUtils.parseAllowedHosts(
+          "Acme.atlassian.net, https://jira.acme.com  *.example.com"
+        )
+      ).toEqual(["acme.atlassian.net", "jira.acme.com", "*.example.com"]);
+    });
+
+    it("should return no hosts without a list", () => {
+      expect(GuildPolicyUtils.parseAllowedHosts(null)).toEqual([]);
+      expect(GuildPolicyUtils.parseAllowedHosts(" , ")).toEqual([]);
+    });
+  });
+
+  describe("isHostAllowed", () => {
+    const policy = { allowedHosts: "acme.atlassian.net,*.acme.com" };
+
+    it("should allow any host without an allowlist", () => {
+      expect(GuildPolicyUtils.isHostAllowed(null, "test.atlassian.net")).toBe(
+        true
+      );
+      expect(GuildPolicyUtils.isHostAllowed({}, "test.atlassian.net")).toBe(
+        true
+      );
+    });
+
+    it("should allow listed hosts regardless of case or protocol", () => {
+      expect(
+        GuildPolicyUtils.isHostAllowed(policy, "https://ACME.atlassian.net")
+      ).toBe(true);
+      expect(GuildPolicyUtils.isHostAllowed(policy, "test.atlassian.net")).toBe(
+        false
+      );
+    });
+
+    it("should allow subdomains of wildcard hosts only", () => {
+      expect(GuildPolicyUtils.isHostAllowed(policy, "jira.acme.com")).toBe(
+        true
+      );
+      expect(GuildPolicyUtils.isHostAllowed(policy, "acme.com")).toBe(false);
+      expect(GuildPolicyUtils.isHostAllowed(policy, "jira.notacme.com")).toBe(
+        false
+      );
+    });
+  });
+
+  describe("daily hours", () => {
+    it("should default to 8 hours", () => {
+      expect(GuildPolicyUtils.getDefaultDailyHours(null)).toBe(8);
+      expect(
+        GuildPolicyUtils.getDefaultDailyHours({ defaultDailyHours: 6 })
+      ).toBe(6);
+    });
+
+    it("should keep the default within the maximum", () => {
+      expect(GuildPolicyUtils.getDefaultDailyHours({ maxDailyHours: 4 })).toBe(
+        4
+      );
+    });
+
+    it("should check and limit hours against the maximum", () => {
+      const policy = { maxDailyHours: 6 };
+
+      expect(GuildPolicyUtils.isWithinMaxDailyHours(policy, 6)).toBe(true);
+      expect(GuildPolicyUtils.isWithinMaxDailyHours(policy, 7)).toBe(false);
+      expect(GuildPolicyUtils.isWithinMaxDailyHours(null, 24)).toBe(true);
+      expect(GuildPolicyUtils.limitDailyHours(policy, 8)).toBe(6);
+      expect(GuildPolicyUtils.limitDailyHours(null, 8)).toBe(8);
+    });
+  });
+
+  describe("getJql", () => {
+    it("should prefer the forced JQL over the member's", () => {
+      expect(
+        GuildPolicyUtils.getJql(
+          { forcedJql: "project = OPS" },
+          "project = MINE"
+        )
+      ).toBe("project = OPS");
+      expect(GuildPolicyUtils.getJql(null, "project = MINE")).toBe(
+        "project = MINE"
+      );
+      expect(GuildPolicyUtils.getJql(null, null)).toBeUndefined();
+    });
+  });
+
+  describe("describe", () => {
+    it("should describe the defaults without a policy", () => {
+      expect(GuildPolicyUtils.describe(null)).toEqual([
+        "Allowed hosts: any",
+        "Default daily hours: 8",
+        "Maximum daily hours: none",
+        "Worklog comments: optional",
+        "JQL: members' own",
+        "Auto-logging: enabled",
+      ]);
+    });
+
+    it("should describe every policy", () => {
+      expect(
+        GuildPolicyUtils.describe({
+          allowedHosts: "acme.atlassian.net,*.acme.com",
+          defaultDailyHours: 6,
+          maxDailyHours: 7,
+          requireWorklogComment: true,
+          forcedJql: "project = OPS",
+          autoLoggingDisabled: true,
+        })
+      ).toEqual([
+        "Allowed hosts: acme.atlassian.net, *.acme.com",
+        "Default daily hours: 6",
+        "Maximum daily hours: 7",
+        "Worklog comments: required",
+        "JQL: `project = OPS`",
+        "Auto-logging: disabled",
+      ]);
+    });
+  });
+});
@@ -198,6 +198,12 @@ describe("InputValidator", () => {
       );
     });
 
+    it("should accept a port for self-hosted Jira", () => {
+      expect(InputValidator.validateJiraHost("https://jira.local:8443")).toBe(
+        "jira.local:8443"
+      );
+    });
+
     it("should remove protocol from host", () => {
       expect(InputValidator.validateJiraHost("https://example.com")).toBe(
         "example.com"
@@ -291,6 +297,77 @@ describe("InputValidator", () => {
     });
   });
 
+  describe("validateJiraUsername", () => {
+    it("should require an e-mail on Jira Cloud", () => {
+      expect(
+        InputValidator.validateJiraUsername("User@Example.com", "cloud")
+      ).toBe("user@example.com");
+      expect(() => InputValidator.validateJiraUsername("jdoe.smith")).toThrow(
+        "Email format is invalid"
+      );
+    });
+
+    it("should accept plain usernames on Data Center", () => {
+      expect(InputValidator.validateJiraUsername(" jdoe ", "datacenter")).toBe(
+        "jdoe"
+      );
+      expect(
+        InputValidator.validateJiraUsername("jdoe@example.com", "datacenter")
+      ).toBe("jdoe@example.com");
+    });
+
+    it("should reject usernames with whitespace or colons", () => {
+      expect(() =>
+        InputValidator.validateJiraUsername("j doe", "datacenter")
+      ).toThrow("Username must not contain whitespace or colons");
+      expect(() =>
+        InputValidator.validateJiraUsername("jdoe:x", "datacenter")
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateContextPath", () => {
+    it("should normalize context paths", () => {
+      expect(InputValidator.validateContextPath("jira")).toBe("/jira");
+      expect(InputValidator.validateContextPath("/tools/jira/")).toBe(
+        "/tools/jira"
+      );
+      expect(InputValidator.validateContextPath("  ")).toBe("");
+      expect(InputValidator.validateContextPath(undefined)).toBe("");
+    });
+
+    it("should reject paths with unsafe characters", () => {
+      expect(() => InputValidator.validateContextPath("/jira?x=1")).toThrow(
+        "Context path must be a URL path such as /jira"
+      );
+      expect(() => InputValidator.validateContextPath("/a//b")).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("connection choices", () => {
+    it("should accept known values", () => {
+      expect(InputValidator.validateDeploymentType("datacenter")).toBe(
+        "datacenter"
+      );
+      expect(InputValidator.validateApiVersion("2")).toBe("2");
+      expect(InputValidator.validateAuthScheme("bearer")).toBe("bearer");
+    });
+
+    it("should reject unknown values", () => {
+      expect(() => InputValidator.validateDeploymentType("server")).toThrow(
+        "Deployment type must be one of: cloud, datacenter"
+      );
+      expect(() => InputValidator.validateApiVersion("1")).toThrow(
+        ValidationError
+      );
+      expect(() => InputValidator.validateAuthScheme("digest")).toThrow(
+        ValidationError
+      );
+    });
+  });
+
   describe("validateApiToken", () => {
     it("should validate valid API tokens", () => {
       const token = "abcdef123456789";
@@ -332,6 +409,41 @@ describe("InputValidator", () => {
     });
   });
 
+  describe("validateJiraToken", () => {
+    it("should validate API tokens by default", () => {
+      expect(InputValidator.validateJiraToken("validtoken123")).toBe(
+        "validtoken123"
+      );
+      expect(() => InputValidator.validateJiraToken("x".repeat(600))).toThrow(
+        "API token must be no more than 500 characters long"
+      );
+    });
+
+    it("should allow long refresh tokens for OAuth", () => {
+      const refreshToken = "r".repeat(1500);
+      expect(InputValidator.validateJiraToken(refreshToken, "oauth")).toBe(
+        refreshToken
+      );
+      expect(() =>
+        InputValidator.validateJiraToken("refresh token", "oauth")
+      ).toThrow("Refresh token contains invalid characters");
+    });
+  });
+
+  describe("validateCloudId", () => {
+    it("should accept Atlassian site IDs", () => {
+      expect(
+        InputValidator.validateCloudId("1324a887-45db-1bf4-1e99-ef0ff456d421")
+      ).toBe("1324a887-45db-1bf4-1e99-ef0ff456d421");
+    });
+
+    it("should reject malformed IDs", () => {
+      expect(() => InputValidator.validateCloudId("../x")).toThrow(
+        "Cloud ID format is invalid"
+      );
+    });
+  });
+
   describe("validateJQL", () => {
     it("should validate valid JQL queries", () => {
       const jql = "assignee = currentUser() AND status = 'In Progress'";
@@ -409,6 +521,264 @@ describe("InputValidator", () => {
     });
   });
 
+  describe("validateDailyHoursCap", () => {
+    it("should accept whole hours from 1 to 24", () => {
+      expect(InputValidator.validateDailyHoursCap(1)).toBe(1);
+      expect(InputValidator.validateDailyHoursCap("10")).toBe(10);
+      expect(InputValidator.validateDailyHoursCap(24)).toBe(24);
+    });
+
+    it("should reject missing, out of range and fractional caps", () => {
+      expect(() => InputValidator.validateDailyHoursCap(undefined)).toThrow(
+        ValidationError
+      );
+      expect(() => InputValidator.validateDailyHoursCap(0)).toThrow(
+        ValidationError
+      );
+      expect(() => InputValidator.validateDailyHoursCap(25)).toThrow(
+        ValidationError
+      );
+      expect(() => InputValidator.validateDailyHoursCap(7.5)).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("validateProfileName", () => {
+    it("should accept and lowercase valid names", () => {
+      expect(InputValidator.validateProfileName("default")).toBe("default");
+      expect(InputValidator.validateProfileName(" Acme_Corp-2 ")).toBe(
+        "acme_corp-2"
+      );
+    });
+
+    it("should reject names with other characters", () => {
+      expect(() => InputValidator.validateProfileName("acme corp")).toThrow(
+        "Profile name may only contain letters, numbers, - and _"
+      );
+      expect(() => InputValidator.validateProfileName("-acme")).toThrow(
+        ValidationError
+      );
+    });
+
+    it("should reject empty and overly long names", () => {
+      expect(() => InputValidator.validateProfileName("")).toThrow(
+        ValidationError
+      );
+      expect(() => InputValidator.validateProfileName("a".repeat(33))).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("validateTimezone", () => {
+    it("should accept valid IANA timezones", () => {
+      expect(InputValidator.validateTimezone("Europe/Lisbon")).toBe(
+        "Europe/Lisbon"
+      );
+      expect(InputValidator.validateTimezone("  Asia/Tokyo ")).toBe(
+        "Asia/Tokyo"
+      );
+    });
+
+    it("should reject unknown timezones", () => {
+      expect(() => InputValidator.validateTimezone("Mars/Olympus")).toThrow(
+        "Timezone must be a valid IANA timezone"
+      );
+      expect(() => InputValidator.validateTimezone("")).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("validateTimeOfDay", () => {
+    it("should normalize valid times", () => {
+      expect(InputValidator.validateTimeOfDay("06:00")).toBe("06:00");
+      expect(InputValidator.validateTimeOfDay("7:05")).toBe("07:05");
+    });
+
+    it("should reject invalid times with the field name", () => {
+      expect(() =>
+        InputValidator.validateTimeOfDay("25:00", "Schedule time")
+      ).toThrow("Schedule time must be in 24-hour HH:mm format");
+      expect(() => InputValidator.validateTimeOfDay("7pm")).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("validateDate", () => {
+    it("should parse dates as local midnight", () => {
+      expect(InputValidator.validateDate("2025-07-28")).toEqual(
+        new Date(2025, 6, 28)
+      );
+    });
+
+    it("should resolve dates in words against today", () => {
+      expect(
+        InputValidator.validateDate("yesterday", "Date", new Date(2025, 7, 5))
+      ).toEqual(new Date(2025, 7, 4));
+    });
+
+    it("should reject invalid dates with the field name", () => {
+      expect(() => InputValidator.validateDate("2025-02-30", "From")).toThrow(
+        "From must be a date such as 2025-07-28, yesterday, friday or 3 days ago"
+      );
+      expect(() => InputValidator.validateDate("28/07/2025")).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("validateDateRange", () => {
+    it("should accept ranges up to the limit", () => {
+      expect(() =>
+        InputValidator.validateDateRange(
+          new Date(2025, 6, 1),
+          new Date(2025, 6, 31),
+          31
+        )
+      ).not.toThrow();
+    });
+
+    it("should reject reversed and oversized ranges", () => {
+      expect(() =>
+        InputValidator.validateDateRange(
+          new Date(2025, 6, 2),
+          new Date(2025, 6, 1),
+          31
+        )
+      ).toThrow("The end date must not be before the start date");
+      expect(() =>
+        InputValidator.validateDateRange(
+          new Date(2025, 6, 1),
+          new Date(2025, 7, 1),
+          31
+        )
+      ).toThrow("The date range must span at most 31 days");
+    });
+  });
+
+  describe("validateWorkDays", () => {
+    it("should normalize ranges and lists", () => {
+      expect(InputValidator.validateWorkDays("mon-fri")).toBe("1,2,3,4,5");
+      expect(InputValidator.validateWorkDays("fri, mon,wed")).toBe("1,3,5");
+      expect(InputValidator.validateWorkDays("sun,mon-thu")).toBe("1,2,3,4,7");
+      expect(InputValidator.validateWorkDays("1,2,3,4,5")).toBe("1,2,3,4,5");
+    });
+
+    it("should support ranges that wrap around the week", () => {
+      expect(InputValidator.validateWorkDays("sun-thu")).toBe("1,2,3,4,7");
+      expect(InputValidator.validateWorkDays("fri-mon")).toBe("1,5,6,7");
+    });
+
+    it("should reject invalid days and ranges", () => {
+      expect(() => InputValidator.validateWorkDays("funday")).toThrow(
+        "Work days must be weekday names or ranges"
+      );
+      expect(() => InputValidator.validateWorkDays("mon-tue-wed")).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("validateLunchMinutes", () => {
+    it("should accept whole minutes up to four hours", () => {
+      expect(InputValidator.validateLunchMinutes(60)).toBe(60);
+      expect(InputValidator.validateLunchMinutes(0)).toBe(0);
+      expect(InputValidator.validateLunchMinutes(undefined)).toBe(0);
+    });
+
+    it("should reject out of range or fractional values", () => {
+      expect(() => InputValidator.validateLunchMinutes(-5)).toThrow(
+        "Lunch break must be at least 0"
+      );
+      expect(() => InputValidator.validateLunchMinutes(241)).toThrow(
+        ValidationError
+      );
+      expect(() => InputValidator.validateLunchMinutes(30.5)).toThrow(
+        "Lunch break must be a whole number"
+      );
+    });
+  });
+
+  describe("validateIssueKey", () => {
+    it("should accept valid issue keys", () => {
+      expect(InputValidator.validateIssueKey("PROJ-123")).toBe("PROJ-123");
+      expect(InputValidator.validateIssueKey(" AB-1 ")).toBe("AB-1");
+    });
+
+    it("should reject malformed issue keys", () => {
+      expect(() => InputValidator.validateIssueKey("proj-123")).toThrow(
+        "Issue key format is invalid"
+      );
+      expect(() => InputValidator.validateIssueKey("PROJ")).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("validateWorklogComment", () => {
+    it("should trim valid comments", () => {
+      expect(InputValidator.validateWorklogComment("  Code review ")).toBe(
+        "Code review"
+      );
+    });
+
+    it("should reject empty and overly long comments", () => {
+      expect(() => InputValidator.validateWorklogComment("   ")).toThrow(
+        "Worklog comment cannot be empty"
+      );
+      expect(() =>
+        InputValidator.validateWorklogComment("x".repeat(2001))
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe("validateDistributionStrategy", () => {
+    it("should accept known strategies", () => {
+      expect(InputValidator.validateDistributionStrategy("evenly")).toBe(
+        "evenly"
+      );
+      expect(InputValidator.validateDistributionStrategy("Weighted")).toBe(
+        "weighted"
+      );
+    });
+
+    it("should reject unknown strategies", () => {
+      expect(() =>
+        InputValidator.validateDistributionStrategy("random")
+      ).toThrow(
+        "Distribution strategy must be one of: evenly, fairly, weighted"
+      );
+    });
+  });
+
+  describe("validateConfirmMinutes", () => {
+    it("should accept whole minutes from 15 minutes to a day", () => {
+      expect(InputValidator.validateConfirmMinutes(15)).toBe(15);
+      expect(InputValidator.validateConfirmMinutes(1440)).toBe(1440);
+    });
+
+    it("should reject out of range or missing values", () => {
+      expect(() => InputValidator.validateConfirmMinutes(10)).toThrow(
+        "Confirmation window must be at least 15"
+      );
+      expect(() => InputValidator.validateConfirmMinutes(undefined)).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe("validateConfirmFallback", () => {
+    it("should accept submit or skip", () => {
+      expect(InputValidator.validateConfirmFallback("Skip")).toBe("skip");
+      expect(() => InputValidator.validateConfirmFallback("wait")).toThrow(
+        "Unconfirmed worklogs must be one of: submit, skip"
+      );
+    });
+  });
+
   describe("sanitizeInput", () => {
     it("should remove dangerous characters", () => {
       expect(
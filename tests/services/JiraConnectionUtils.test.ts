@@ -0,0 +1,159 @@
+import { JiraConnectionUtils } from "../../src/services/JiraConnectionUtils";
+
+describe("JiraConnectionUtils", () => {
+  describe("resolve", () => {
+    it("should default to Jira Cloud with API v3 and basic auth", () => {
+      expect(JiraConnectionUtils.resolve()).toEqual({
+        deploymentType: "cloud",
+        apiVersion: "3",
+        contextPath: "",
+        authScheme: "basic",
+        cloudId: "",
+      });
+    });
+
+    it("should default Data Center to API v2", () => {
+      expect(
+        JiraConnectionUtils.resolve({ deploymentType: "datacenter" })
+      ).toEqual({
+        deploymentType: "datacenter",
+        apiVersion: "2",
+        contextPath: "",
+        authScheme: "basic",
+        cloudId: "",
+      });
+    });
+
+    it("should keep explicit settings", () => {
+      expect(
+        JiraConnectionUtils.resolve({
+          deploymentType: "datacenter",
+          apiVersion: "3",
+          contextPath: "/jira",
+          authScheme: "bearer",
+        })
+      ).toEqual({
+        deploymentType: "datacenter",
+        apiVersion: "3",
+        contextPath: "/jira",
+        authScheme: "bearer",
+        cloudId: "",
+      });
+    });
+
+    it("should treat null columns as unset", () => {
+      expect(
+        JiraConnectionUtils.resolve({ apiVersion: null, contextPath: null })
+      ).toEqual(JiraConnectionUtils.resolve());
+    });
+  });
+
+  describe("describe", () => {
+    it("should describe the resolved connection", () => {
+      expect(JiraConnectionUtils.describe()).toBe("Cloud, API v3, Basic");
+      expect(
+        JiraConnectionUtils.describe({
+          deploymentType: "datacenter",
+          contextPath: "/jira",
+          authScheme: "bearer",
+        })
+      ).toBe("Data Center, API v2, Bearer PAT, /jira");
+    });
+  });
+
+  describe("isConfiguredUser", () => {
+    it("should match Cloud users by e-mail", () => {
+      expect(
+        JiraConnectionUtils.isConfiguredUser(
+          { emailAddress: "User@Example.com" },
+          "user@example.com"
+        )
+      ).toBe(true);
+    });
+
+    it("should match Data Center users by username", () => {
+      expect(
+        JiraConnectionUtils.isConfiguredUser({ name: "JDoe" }, "jdoe")
+      ).toBe(true);
+    });
+
+    it("should not match other or missing users", () => {
+      expect(
+        JiraConnectionUtils.isConfiguredUser(
+          { emailAddress: "other@example.com", name: "other" },
+          "jdoe"
+        )
+      ).toBe(false);
+      expect(JiraConnectionUtils.isConfiguredUser(undefined, "jdoe")).toBe(
+        false
+      );
+    });
+  });
+
+  describe("getLoggedSeconds", () => {
+    it("should add the user's time on other issues", () => {
+      expect(
+        JiraConnectionUtils.getLoggedSeconds(
+          [
+            {
+              key: "PROJ-1",
+              worklogs: [
+                {
+                  author: { emailAddress: "user@example.com" },
+                  timeSpentSeconds: 3600,
+                },
+                {
+                  author: { emailAddress: "other@example.com" },
+                  timeSpentSeconds: 7200,
+                },
+              ],
+            },
+            { key: "PROJ-2", worklogs: [] },
+          ],
+          "user@example.com",
+          [
+            { issueKey: "PROJ-1", timeSpentSeconds: 3600 },
+            { issueKey: "MEET-1", timeSpentSeconds: 1800 },
+            { issueKey: "MEET-1", timeSpentSeconds: 900 },
+          ]
+        )
+      ).toEqual({ "PROJ-1": 3600, "PROJ-2": 0, "MEET-1": 2700 });
+    });
+  });
+
+  describe("getLoggedUntil", () => {
+    it("should find when the user's last worklog ends", () => {
+      expect(
+        JiraConnectionUtils.getLoggedUntil(
+          [
+            {
+              worklogs: [
+                {
+                  author: { emailAddress: "user@example.com" },
+                  started: "2025-07-28T09:00:00.000+0100",
+                  timeSpentSeconds: 3600,
+                },
+                {
+                  author: { emailAddress: "other@example.com" },
+                  started: "2025-07-28T15:00:00.000+0000",
+                  timeSpentSeconds: 7200,
+                },
+              ],
+            },
+          ],
+          "user@example.com",
+          [{ started: "2025-07-28T09:30:00.000+0000", timeSpentSeconds: 1800 }]
+        )
+      ).toEqual(new Date("2025-07-28T10:00:00.000Z"));
+    });
+
+    it("should be undefined when the user logged nothing", () => {
+      expect(
+        JiraConnectionUtils.getLoggedUntil(
+          [{ worklogs: [] }],
+          "user@example.com"
+        )
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { ApplicationError } from "../../src/services/ErrorHandler";
+import {
+  LOGIN_TIMEOUT_MS,
+  OAUTH_SCOPES,
+  OAuthService,
+} from "../../src/services/OAuthService";
+import {
+  createMockIConfigService,
+  createMockIHttpService,
+  createMockResponse,
+} from "../test-utils";
+
+describe("OAuthService", () => {
+  let configService: ReturnType<typeof createMockIConfigService>;
+  let httpService: ReturnType<typeof createMockIHttpService>;
+  let oauthService: OAuthService;
+
+  beforeEach(() => {
+    configService = createMockIConfigService();
+    configService.getAtlassianClientId.mockReturnValue("client-id");
+    configService.getAtlassianClientSecret.mockReturnValue("secret");
+    configService.getOAuthRedirectUri.mockReturnValue(
+      "https://bot.example.com/oauth/callback"
+    );
+    httpService = createMockIHttpService();
+
+    const encryptionService = {
+      generateSecureToken: jest.fn().mockReturnValue("state-1"),
+    };
+    oauthService = new OAuthService(
+      configService as never,
+      httpService,
+      encryptionService as never
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("isEnabled", () => {
+    it("should need a client ID, secret and redirect URI", () => {
+      expect(oauthService.isEnabled()).toBe(true);
+
+      configService.getAtlassianClientSecret.mockReturnValue(undefined);
+      expect(oauthService.isEnabled()).toBe(false);
+    });
+  });
+
+  describe("createAuthorizationUrl", () => {
+    it("should build the Atlassian consent link", () => {
+      const url = new URL(
+        oauthService.createAuthorizationUrl({
+          guildId: "123456789012345678",
+          userId: "987654321098765432",
+        })
+      );
+
+      expect(`${url.origin}${url.pathname}`).toBe(
+        "https://auth.atlassian.com/authorize"
+      );
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        audience: "api.atlassian.com",
+        client_id: "client-id",
+        scope: OAUTH_SCOPES.join(" "),
+        redirect_uri: "https://bot.example.com/oauth/callback",
+        state: "state-1",
+        response_type: "code",
+        prompt: "consent",
+      });
+    });
+
+    it("should fail when OAuth is not configured", () => {
+      configService.getAtlassianClientId.mockReturnValue(undefined);
+
+      expect(() =>
+        oauthService.createAuthorizationUrl({
+          guildId: "123456789012345678",
+          userId: "987654321098765432",
+        })
+      ).toThrow("Atlassian OAuth is not configured");
+    });
+  });
+
+  describe("consumeState", () => {
+    const login = {
+      guildId: "123456789012345678",
+      userId: "987654321098765432",
+      site: "team.atlassian.net",
+    };
+
+    it("should return the login only once", () => {
+      oauthService.createAuthorizationUrl(login);
+
+      expect(oauthService.consumeState("state-1")).toEqual(login);
+      expect(oauthService.consumeState("state-1")).toBeUndefined();
+      expect(oauthService.consumeState("unknown")).toBeUndefined();
+    });
+
+    it("should expire logins", () => {
+      jest.useFakeTimers();
+      oauthService.createAuthorizationUrl(login);
+
+      jest.advanceTimersByTime(LOGIN_TIMEOUT_MS);
+
+      expect(oauthService.consumeState("state-1")).toBeUndefined();
+    });
+  });
+
+  describe("exchangeCode", () => {
+    it("should trade the code for tokens", async () => {
+      httpService.fetch.mockResolvedValue(
+        createMockResponse({
+          json: jest.fn().mockResolvedValue({
+            access_token: "access",
+            refresh_token: "refresh",
+            expires_in: 3600,
+          }),
+        })
+      );
+
+      const tokens = await oauthService.exchangeCode("code");
+
+      expect(tokens).toMatchObject({
+        accessToken: "access",
+        refreshToken: "refresh",
+      });
+      expect(httpService.fetch).toHaveBeenCalledWith(
+        "https://auth.atlassian.com/oauth/token",
+        expect.objectContaining({ method: "POST" })
+      );
+      expect(
+        JSON.parse(httpService.fetch.mock.calls[0][1]!.body as string)
+      ).toEqual({
+        grant_type: "authorization_code",
+        code: "code",
+        redirect_uri: "https://bot.example.com/oauth/callback",
+        client_id: "client-id",
+        client_secret: "secret",
+      });
+    });
+
+    it("should wrap a rejected code", async () => {
+      httpService.fetch.mockResolvedValue(
+        createMockResponse({ ok: false, status: 403, statusText: "Forbidden" })
+      );
+
+      await expect(oauthService.exchangeCode("bad")).rejects.toThrow(
+        "Access denied (exchanging the authorization code)"
+      );
+    });
+  });
+
+  describe("refreshAccessToken", () => {
+    it("should tell listeners about the rotated refresh token", async () => {
+      httpService.fetch.mockResolvedValue(
+        createMockResponse({
+          json: jest.fn().mockResolvedValue({
+            access_token: "access-2",
+            refresh_token: "refresh-2",
+            expires_in: 3600,
+          }),
+        })
+      );
+      const listener = jest.fn();
+      oauthService.onTokensRefreshed(listener);
+
+      const account = { host: "team.atlassian.net", username: "a@b.com" };
+      const tokens = await oauthService.refreshAccessToken(
+        "refresh-1",
+        account
+      );
+
+      expect(tokens.refreshToken).toBe("refresh-2");
+      expect(listener).toHaveBeenCalledWith(account, tokens);
+    });
+
+    it("should keep the refresh token when none is returned", async () => {
+      httpService.fetch.mockResolvedValue(
+        createMockResponse({
+          json: jest.fn().mockResolvedValue({
+            access_token: "access-2",
+            expires_in: 3600,
+          }),
+        })
+      );
+
+      const tokens = await oauthService.refreshAccessToken("refresh-1");
+
+      expect(tokens.refreshToken).toBe("refresh-1");
+    });
+
+    it("should fail without an access token", async () => {
+      httpService.fetch.mockResolvedValue(
+        createMockResponse({ json: jest.fn().mockResolvedValue({}) })
+      );
+
+      await expect(
+        oauthService.refreshAccessToken("refresh-1")
+      ).rejects.toBeInstanceOf(ApplicationError);
+    });
+  });
+
+  describe("getAccessibleResources", () => {
+    it("should call the API with the access token", async () => {
+      const resources = [
+        { id: "1", url: "https://a.atlassian.net", name: "A" },
+      ];
+      httpService.fetch.mockResolvedValue(
+        createMockResponse({ json: jest.fn().mockResolvedValue(resources) })
+      );
+
+      await expect(oauthService.getAccessibleResources("access")).resolves.toBe(
+        resources
+      );
+      expect(httpService.fetch).toHaveBeenCalledWith(
+        "https://api.atlassian.com/oauth/token/accessible-resources",
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: "Bearer access" }),
+        })
+      );
+    });
+  });
+});
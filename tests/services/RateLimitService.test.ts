@@ -25,7 +25,7 @@ describe("RateLimitService", () => {
   describe("constructor", () => {
     it("should initialize with default rate limit rules", () => {
       const statistics = rateLimitService.getStatistics();
-      expect(statistics.totalRules).toBe(6);
+      expect(statistics.totalRules).toBe(15);
     });
 
     it("should set up periodic cleanup", () => {
@@ -354,7 +354,7 @@ describe("RateLimitService", () => {
       const stats = rateLimitService.getStatistics();
       expect(stats).toEqual({
         totalTrackedUsers: 0,
-        totalRules: 6, // Default rules
+        totalRules: 15, // Default rules
         topActions: [],
       });
     });
@@ -373,7 +373,7 @@ describe("RateLimitService", () => {
       rateLimitService.setRule("custom2", { maxAttempts: 1, windowMs: 1000 });
 
       const stats = rateLimitService.getStatistics();
-      expect(stats.totalRules).toBe(8); // 6 default + 2 custom
+      expect(stats.totalRules).toBe(17); // 15 default + 2 custom
     });
 
     it("should return top actions with attempt counts", () => {
@@ -0,0 +1,119 @@
+import { MemberReport, ReportUtils } from "../../src/services/ReportUtils";
+
+describe("ReportUtils", () => {
+  // Monday 28 July to Sunday 3 August 2025
+  const dates = ReportUtils.listDates(
+    new Date(2025, 6, 28),
+    new Date(2025, 7, 3)
+  );
+
+  const createMember = (overrides: Partial<MemberReport> = {}) => ({
+    userId: "987654321098765432",
+    name: "Test User",
+    targetSeconds: 8 * 3600,
+    workDays: [1, 2, 3, 4, 5],
+    pausedProfiles: [],
+    dailySeconds: {
+      "2025-07-28": 8 * 3600,
+      "2025-07-29": 6 * 3600,
+      "2025-07-30": 8 * 3600,
+      "2025-07-31": 8 * 3600,
+      "2025-08-01": 8 * 3600,
+    },
+    ...overrides,
+  });
+
+  describe("getLastWeek", () => {
+    it("should return Monday to Sunday of the previous week", () => {
+      expect(ReportUtils.getLastWeek(new Date(2025, 7, 6, 15))).toEqual({
+        from: new Date(2025, 6, 28),
+        to: new Date(2025, 7, 3),
+      });
+    });
+
+    it("should treat Sunday as the end of the week", () => {
+      expect(ReportUtils.getLastWeek(new Date(2025, 7, 10)).from).toEqual(
+        new Date(2025, 6, 28)
+      );
+    });
+  });
+
+  describe("listDates", () => {
+    it("should list every day with both ends included", () => {
+      expect(dates).toHaveLength(7);
+      expect(dates[0]).toEqual(new Date(2025, 6, 28));
+      expect(dates[6]).toEqual(new Date(2025, 7, 3));
+    });
+  });
+
+  describe("findGaps", () => {
+    it("should find working days under the target", () => {
+      expect(ReportUtils.findGaps(createMember(), dates)).toEqual([
+        new Date(2025, 6, 29),
+      ]);
+    });
+
+    it("should ignore days the member does not work", () => {
+      const member = createMember({ workDays: [1, 3, 4, 5] });
+
+      expect(ReportUtils.findGaps(member, dates)).toEqual([]);
+    });
+  });
+
+  describe("summarize", () => {
+    it("should show totals, daily time and gaps", () => {
+      const summary = ReportUtils.summarize(
+        createMember({ pausedProfiles: ["default"] }),
+        dates
+      );
+
+      expect(summary).toContain("Total: 38h of 40h");
+      expect(summary).toContain("Tue Jul 29: 6h ⚠️");
+      expect(summary).toContain("⚠️ 1 day under target");
+      expect(summary).toContain("⏸️ Paused: default");
+      expect(summary).not.toContain("Sat Aug 02");
+    });
+
+    it("should show errors instead of totals", () => {
+      expect(
+        ReportUtils.summarize(createMember({ error: "Unauthorized" }), dates)
+      ).toBe("❌ Could not fetch worklogs: Unauthorized");
+    });
+  });
+
+  describe("formatHours", () => {
+    it("should format hours and minutes without days", () => {
+      expect(ReportUtils.formatHours(38 * 3600)).toBe("38h");
+      expect(ReportUtils.formatHours(7.5 * 3600)).toBe("7h 30m");
+      expect(ReportUtils.formatHours(0)).toBe("0h");
+    });
+  });
+
+  describe("toCsv", () => {
+    it("should write one row per member and day", () => {
+      const lines = ReportUtils.toCsv([createMember()], dates).split("\n");
+
+      expect(lines).toHaveLength(8);
+      expect(lines[0]).toBe(
+        "User ID,Name,Date,Hours Logged,Target Hours,Gap,Paused Profiles,Error"
+      );
+      expect(lines[2]).toBe(
+        "987654321098765432,Test User,2025-07-29,6,8,yes,,"
+      );
+      expect(lines[6]).toBe("987654321098765432,Test User,2025-08-02,0,0,no,,");
+    });
+
+    it("should escape separators and formulas", () => {
+      const lines = ReportUtils.toCsv(
+        // eslint-disable-next-line quotes
+        [createMember({ name: '=cmd, "quoted"' })],
+        dates.slice(0, 1)
+      ).split("\n");
+
+      expect(lines[1]).toBe(
+        // eslint-disable-next-line quotes
+        '987654321098765432,"\'=cmd, ""quoted""",2025-07-28,8,8,no,,'
+      );
+    });
+  });
+});
@@ -360,6 +360,21 @@ describe("RetryUtil", () => {
   });
 
   describe("delay calculation behavior", () => {
+    it("should back off exponentially up to the maximum delay", () => {
+      const options = {
+        ...DEFAULT_RETRY_OPTIONS,
+        baseDelayMs: 1000,
+        maxDelayMs: 5000,
+        jitter: false,
+      };
+
+      expect(
+        [1, 2, 3, 4].map((attempt) =>
+          RetryUtil.calculateDelay(attempt, options)
+        )
+      ).toEqual([1000, 2000, 4000, 5000]);
+    });
+
     // This test is skipped due to Jest fake timer compatibility issues with exponential backoff delay testing.
     // The exponential backoff functionality is validated through successful retry tests with multiple attempts.
     it.skip("should use exponential backoff in retry attempts", async () => {
@@ -0,0 +1,86 @@
+import { TimeOffUtils } from "../../src/services/TimeOffUtils";
+
+describe("TimeOffUtils", () => {
+  const calendar = (...events: string[]) =>
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      ...events.flatMap((event) => ["BEGIN:VEVENT", event, "END:VEVENT"]),
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+  describe("parseIcs", () => {
+    it("should read all-day events up to the day before they end", () => {
+      const days = TimeOffUtils.parseIcs(
+        calendar(
+          "DTSTART;VALUE=DATE:20251224\r\nDTEND;VALUE=DATE:20251227\r\nSUMMARY:Holidays"
+        )
+      );
+
+      expect(days).toEqual([
+        { date: "2025-12-24", reason: "Holidays" },
+        { date: "2025-12-25", reason: "Holidays" },
+        { date: "2025-12-26", reason: "Holidays" },
+      ]);
+    });
+
+    it("should read single days and timed events", () => {
+      const days = TimeOffUtils.parseIcs(
+        calendar(
+          "DTSTART;VALUE=DATE:20250101\r\nSUMMARY:New Year\\, again",
+          "DTSTART;TZID=Europe/Lisbon:20250305T090000\r\nDTEND;TZID=Europe/Lisbon:20250305T130000",
+          "DTSTART:20250310T000000Z\r\nDTEND:20250312T000000Z\r\nSUMMARY:Trip"
+        )
+      );
+
+      expect(days).toEqual([
+        { date: "2025-01-01", reason: "New Year, again" },
+        { date: "2025-03-05", reason: null },
+        { date: "2025-03-10", reason: "Trip" },
+        { date: "2025-03-11", reason: "Trip" },
+      ]);
+    });
+
+    it("should unfold long lines and keep one entry per date", () => {
+      const days = TimeOffUtils.parseIcs(
+        calendar(
+          "DTSTART;VALUE=DATE:20250501\r\nSUMMARY:Labour\r\n  Day",
+          "DTSTART;VALUE=DATE:20250501\r\nSUMMARY:Duplicate"
+        )
+      );
+
+      expect(days).toEqual([{ date: "2025-05-01", reason: "Labour Day" }]);
+    });
+
+    it("should ignore events without a start and other components", () => {
+      expect(
+        TimeOffUtils.parseIcs(
+          [
+            calendar("SUMMARY:No start"),
+            "BEGIN:VTODO",
+            "DTSTART:20250101",
+            "END:VTODO",
+          ].join("\n")
+        )
+      ).toEqual([]);
+      expect(TimeOffUtils.parseIcs("not a calendar")).toEqual([]);
+    });
+  });
+
+  describe("describe", () => {
+    it("should join consecutive days with the same reason", () => {
+      expect(
+        TimeOffUtils.describe([
+          { date: "2025-12-24", reason: "Holidays" },
+          { date: "2025-12-25", reason: "Holidays" },
+          { date: "2025-12-26", reason: "Boxing Day" },
+          { date: "2025-12-31", reason: null },
+        ])
+      ).toEqual([
+        "2025-12-24 to 2025-12-25: Holidays",
+        "2025-12-26: Boxing Day",
+        "2025-12-31: Time off",
+      ]);
+    });
+  });
+});
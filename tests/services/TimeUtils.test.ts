@@ -378,4 +378,525 @@ describe("TimeUtils", () => {
       expect(result.fairDistribution![0]).toBe(totalSeconds);
     });
   });
+
+  describe("distributeTimeWeighted", () => {
+    const sum = (values: number[]) => values.reduce((acc, val) => acc + val, 0);
+
+    it("should split time proportionally to the weights", () => {
+      const result = TimeUtils.distributeTimeWeighted(8 * 3600, [6, 1, 1]);
+
+      expect(result.weightedDistribution).toEqual([21600, 3600, 3600]);
+      expect(result.totalSeconds).toBe(8 * 3600);
+    });
+
+    it("should always add up to the total in whole minutes", () => {
+      const result = TimeUtils.distributeTimeWeighted(8 * 3600, [7, 3, 2]);
+
+      expect(sum(result.weightedDistribution!)).toBe(8 * 3600);
+      result.weightedDistribution!.forEach((seconds) =>
+        expect(seconds % 60).toBe(0)
+      );
+    });
+
+    it("should give every issue at least one minute", () => {
+      const result = TimeUtils.distributeTimeWeighted(3600, [1000, 1, 1]);
+
+      expect(result.weightedDistribution![1]).toBeGreaterThanOrEqual(60);
+      expect(result.weightedDistribution![2]).toBeGreaterThanOrEqual(60);
+      expect(sum(result.weightedDistribution!)).toBe(3600);
+    });
+
+    it("should give leftover seconds to the heaviest issue", () => {
+      const result = TimeUtils.distributeTimeWeighted(3630, [1, 3]);
+
+      expect(result.weightedDistribution![1] % 60).toBe(30);
+      expect(sum(result.weightedDistribution!)).toBe(3630);
+    });
+
+    it("should fall back to an even split when there is no weight", () => {
+      const result = TimeUtils.distributeTimeWeighted(3600, [0, 0]);
+
+      expect(result.weightedDistribution).toEqual([1800, 1800]);
+    });
+
+    it("should handle no issues", () => {
+      const result = TimeUtils.distributeTimeWeighted(3600, []);
+
+      expect(result.weightedDistribution).toEqual([]);
+    });
+  });
+
+  describe("activity weights", () => {
+    it("should weight transitions, comments and commits on top of the base", () => {
+      expect(
+        TimeUtils.calculateActivityWeight({
+          transitions: 0,
+          comments: 0,
+          commits: 0,
+        })
+      ).toBe(1);
+      expect(
+        TimeUtils.calculateActivityWeight({
+          transitions: 2,
+          comments: 1,
+          commits: 1,
+        })
+      ).toBe(1 + 4 + 1 + 3);
+    });
+
+    it("should describe the activity behind a weight", () => {
+      expect(
+        TimeUtils.formatActivitySummary({
+          transitions: 2,
+          comments: 1,
+          commits: 0,
+        })
+      ).toBe("2 transitions, 1 comment");
+      expect(
+        TimeUtils.formatActivitySummary({
+          transitions: 0,
+          comments: 0,
+          commits: 3,
+        })
+      ).toBe("3 commits");
+      expect(
+        TimeUtils.formatActivitySummary({
+          transitions: 0,
+          comments: 0,
+          commits: 0,
+        })
+      ).toBe("no activity");
+    });
+  });
+
+  describe("timezone helpers", () => {
+    it("should validate IANA timezones", () => {
+      expect(TimeUtils.isValidTimeZone("Europe/Lisbon")).toBe(true);
+      expect(TimeUtils.isValidTimeZone("America/Sao_Paulo")).toBe(true);
+      expect(TimeUtils.isValidTimeZone("Not/AZone")).toBe(false);
+    });
+
+    it("should get date parts as seen in a timezone", () => {
+      const instant = new Date("2025-07-29T02:30:00.000Z"); // Tuesday in UTC
+
+      expect(TimeUtils.getZonedDateParts(instant, "Etc/UTC")).toEqual({
+        year: 2025,
+        month: 7,
+        day: 29,
+        hour: 2,
+        minute: 30,
+        weekday: 2,
+      });
+
+      // Still Monday evening in São Paulo (UTC-3)
+      expect(TimeUtils.getZonedDateParts(instant, "America/Sao_Paulo")).toEqual(
+        {
+          year: 2025,
+          month: 7,
+          day: 28,
+          hour: 23,
+          minute: 30,
+          weekday: 1,
+        }
+      );
+    });
+
+    it("should compute the previous date in a timezone", () => {
+      const instant = new Date("2025-07-28T20:00:00.000Z");
+
+      const tokyo = TimeUtils.getPreviousDateInZone(instant, "Asia/Tokyo");
+      expect(tokyo.getFullYear()).toBe(2025);
+      expect(tokyo.getMonth()).toBe(6);
+      expect(tokyo.getDate()).toBe(28);
+
+      const utc = TimeUtils.getPreviousDateInZone(instant, "Etc/UTC");
+      expect(utc.getDate()).toBe(27);
+    });
+
+    it("should roll over month boundaries", () => {
+      const instant = new Date("2025-08-01T12:00:00.000Z");
+
+      const previous = TimeUtils.getPreviousDateInZone(instant, "Etc/UTC");
+      expect(previous.getMonth()).toBe(6);
+      expect(previous.getDate()).toBe(31);
+    });
+
+    it("should get the date in a timezone", () => {
+      const instant = new Date("2025-07-28T20:00:00.000Z");
+
+      expect(TimeUtils.getDateInZone(instant, "Asia/Tokyo")).toEqual(
+        new Date(2025, 6, 29)
+      );
+      expect(TimeUtils.getDateInZone(instant, "Etc/UTC")).toEqual(
+        new Date(2025, 6, 28)
+      );
+    });
+
+    it("should count the days between dates", () => {
+      expect(
+        TimeUtils.getDaysBetween(new Date(2025, 2, 28), new Date(2025, 3, 2))
+      ).toBe(5);
+      expect(
+        TimeUtils.getDaysBetween(new Date(2025, 3, 2), new Date(2025, 2, 28))
+      ).toBe(-5);
+    });
+  });
+
+  describe("parseDate", () => {
+    // Tuesday
+    const today = new Date(2025, 7, 5);
+
+    it("should parse ISO dates", () => {
+      expect(TimeUtils.parseDate("2025-07-28", today)).toEqual(
+        new Date(2025, 6, 28)
+      );
+      expect(TimeUtils.parseDate("2025-02-30", today)).toBeNull();
+    });
+
+    it("should parse today and yesterday", () => {
+      expect(TimeUtils.parseDate("Today", today)).toEqual(today);
+      expect(TimeUtils.parseDate(" yesterday ", today)).toEqual(
+        new Date(2025, 7, 4)
+      );
+    });
+
+    it("should parse weekdays as the most recent one before today", () => {
+      expect(TimeUtils.parseDate("friday", today)).toEqual(
+        new Date(2025, 7, 1)
+      );
+      expect(TimeUtils.parseDate("last fri", today)).toEqual(
+        new Date(2025, 7, 1)
+      );
+      expect(TimeUtils.parseDate("Tuesday", today)).toEqual(
+        new Date(2025, 6, 29)
+      );
+      expect(TimeUtils.parseDate("mon", today)).toEqual(new Date(2025, 7, 4));
+    });
+
+    it("should parse offsets in days and weeks", () => {
+      expect(TimeUtils.parseDate("3", today)).toEqual(new Date(2025, 7, 2));
+      expect(TimeUtils.parseDate("3 days ago", today)).toEqual(
+        new Date(2025, 7, 2)
+      );
+      expect(TimeUtils.parseDate("-1d", today)).toEqual(new Date(2025, 7, 4));
+      expect(TimeUtils.parseDate("2 weeks ago", today)).toEqual(
+        new Date(2025, 6, 22)
+      );
+      expect(TimeUtils.parseDate("-1w", today)).toEqual(new Date(2025, 6, 29));
+    });
+
+    it("should not guess at anything else", () => {
+      expect(TimeUtils.parseDate("someday", today)).toBeNull();
+      expect(TimeUtils.parseDate("28/07/2025", today)).toBeNull();
+      expect(TimeUtils.parseDate("", today)).toBeNull();
+    });
+  });
+
+  describe("suggestDates", () => {
+    const today = new Date(2025, 7, 5);
+
+    it("should suggest recent working days", () => {
+      const suggestions = TimeUtils.suggestDates("", today, [1, 2, 3, 4, 5], 3);
+
+      expect(suggestions).toEqual([
+        { name: "Mon Aug 04 2025 (yesterday)", value: "2025-08-04" },
+        { name: "Fri Aug 01 2025 (4 days ago)", value: "2025-08-01" },
+        { name: "Thu Jul 31 2025 (5 days ago)", value: "2025-07-31" },
+      ]);
+    });
+
+    it("should put the typed date first without repeating it", () => {
+      const suggestions = TimeUtils.suggestDates(
+        "yesterday",
+        today,
+        [1, 2, 3, 4, 5],
+        2
+      );
+
+      expect(suggestions.map((suggestion) => suggestion.value)).toEqual([
+        "2025-08-04",
+        "2025-08-01",
+      ]);
+    });
+
+    it("should filter by what was typed", () => {
+      const suggestions = TimeUtils.suggestDates(
+        "jul 2",
+        today,
+        [1, 2, 3, 4, 5]
+      );
+
+      expect(suggestions.map((suggestion) => suggestion.value)).toEqual([
+        "2025-07-29",
+        "2025-07-28",
+        "2025-07-25",
+        "2025-07-24",
+        "2025-07-23",
+        "2025-07-22",
+        "2025-07-21",
+      ]);
+    });
+  });
+
+  describe("planTopUp", () => {
+    const issues = ["PROJ-1", "PROJ-2", "PROJ-3"];
+
+    it("should plan the whole day when nothing is logged", () => {
+      expect(TimeUtils.planTopUp(issues, [0, 0, 0], 0, 28800, "skip")).toEqual({
+        remainingSeconds: 28800,
+        issues,
+      });
+    });
+
+    it("should leave partially logged days alone by default", () => {
+      expect(
+        TimeUtils.planTopUp(issues, [7200, 0, 0], 7200, 28800, "skip")
+      ).toBe(null);
+    });
+
+    it("should top up the rest of the day", () => {
+      expect(
+        TimeUtils.planTopUp(issues, [7200, 0, 0], 7200, 28800, "top-up")
+      ).toEqual({ remainingSeconds: 21600, issues });
+      expect(
+        TimeUtils.planTopUp(issues, [7200, 0, 3600], 10800, 28800, "top-up-new")
+      ).toEqual({ remainingSeconds: 18000, issues: ["PROJ-2"] });
+    });
+
+    it("should count time logged on other issues", () => {
+      expect(TimeUtils.planTopUp(issues, [0, 0, 0], 3600, 28800, "skip")).toBe(
+        null
+      );
+      expect(
+        TimeUtils.planTopUp(issues, [0, 0, 0], 3600, 28800, "top-up-new")
+      ).toEqual({ remainingSeconds: 25200, issues });
+    });
+
+    it("should not top up full days", () => {
+      expect(
+        TimeUtils.planTopUp(issues, [28770, 0, 0], 28770, 28800, "top-up")
+      ).toBeNull();
+      expect(
+        TimeUtils.planTopUp(
+          issues,
+          [3600, 3600, 3600],
+          10800,
+          28800,
+          "top-up-new"
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe("reserveAllocations", () => {
+    const allocations = [
+      { issueKey: "OPS-12", timeInSeconds: 900 },
+      { issueKey: "MEET-1", timeInSeconds: 3600 },
+    ];
+
+    it("should reserve allocations out of the day", () => {
+      expect(TimeUtils.reserveAllocations(allocations, {}, 28800)).toEqual({
+        reserved: allocations,
+        remainingSeconds: 24300,
+      });
+    });
+
+    it("should leave out issues already logged that day", () => {
+      expect(
+        TimeUtils.reserveAllocations(allocations, { "MEET-1": 1800 }, 27000)
+      ).toEqual({
+        reserved: [{ issueKey: "OPS-12", timeInSeconds: 900 }],
+        remainingSeconds: 26100,
+      });
+    });
+
+    it("should stop when the day runs out", () => {
+      expect(TimeUtils.reserveAllocations(allocations, {}, 2700)).toEqual({
+        reserved: [
+          { issueKey: "OPS-12", timeInSeconds: 900 },
+          { issueKey: "MEET-1", timeInSeconds: 1800 },
+        ],
+        remainingSeconds: 0,
+      });
+      expect(TimeUtils.reserveAllocations(allocations, {}, 930)).toEqual({
+        reserved: [{ issueKey: "OPS-12", timeInSeconds: 900 }],
+        remainingSeconds: 30,
+      });
+    });
+  });
+
+  describe("workday layout", () => {
+    const day = new Date(2025, 6, 28);
+
+    it("should resolve a wall-clock time in a timezone", () => {
+      expect(TimeUtils.getZonedTime(day, 9 * 60, "Etc/UTC").toISOString()).toBe(
+        "2025-07-28T09:00:00.000Z"
+      );
+      expect(
+        TimeUtils.getZonedTime(day, 9 * 60, "America/Sao_Paulo").toISOString()
+      ).toBe("2025-07-28T12:00:00.000Z");
+      expect(
+        TimeUtils.getZonedTime(day, 9 * 60, "Asia/Kolkata").toISOString()
+      ).toBe("2025-07-28T03:30:00.000Z");
+    });
+
+    it("should follow daylight saving time", () => {
+      const winter = new Date(2025, 0, 15);
+      expect(
+        TimeUtils.getZonedTime(winter, 9 * 60, "Europe/Lisbon").toISOString()
+      ).toBe("2025-01-15T09:00:00.000Z");
+      expect(
+        TimeUtils.getZonedTime(day, 9 * 60, "Europe/Lisbon").toISOString()
+      ).toBe("2025-07-28T08:00:00.000Z");
+    });
+
+    it("should lay worklogs out back-to-back", () => {
+      const slots = TimeUtils.planWorklogSlots(day, [3600, 5400, 1800], {
+        timezone: "Etc/UTC",
+        start: "09:00",
+      });
+
+      expect(slots.map((slot) => slot.toISOString())).toEqual([
+        "2025-07-28T09:00:00.000Z",
+        "2025-07-28T10:00:00.000Z",
+        "2025-07-28T11:30:00.000Z",
+      ]);
+    });
+
+    it("should take the lunch break at the first gap after it starts", () => {
+      const slots = TimeUtils.planWorklogSlots(day, [7200, 5400, 3600, 3600], {
+        timezone: "Europe/Lisbon",
+        start: "09:00",
+        lunchStart: "12:00",
+        lunchMinutes: 60,
+      });
+
+      // 09:00-11:00, 11:00-12:30, lunch, 13:30-14:30, 14:30-15:30 in Lisbon
+      expect(slots.map((slot) => slot.toISOString())).toEqual([
+        "2025-07-28T08:00:00.000Z",
+        "2025-07-28T10:00:00.000Z",
+        "2025-07-28T12:30:00.000Z",
+        "2025-07-28T13:30:00.000Z",
+      ]);
+    });
+
+    it("should start after the time already logged that day", () => {
+      const layout = {
+        timezone: "Etc/UTC",
+        start: "09:00",
+        lunchStart: "12:00",
+        lunchMinutes: 60,
+      };
+
+      expect(
+        TimeUtils.planWorklogSlots(
+          day,
+          [3600, 3600],
+          layout,
+          new Date("2025-07-28T11:00:00.000Z")
+        ).map((slot) => slot.toISOString())
+      ).toEqual(["2025-07-28T11:00:00.000Z", "2025-07-28T13:00:00.000Z"]);
+      // Worklogs running past the lunch start already cover the break
+      expect(
+        TimeUtils.planWorklogSlots(
+          day,
+          [3600],
+          layout,
+          new Date("2025-07-28T14:30:00.000Z")
+        ).map((slot) => slot.toISOString())
+      ).toEqual(["2025-07-28T14:30:00.000Z"]);
+      // Time logged before the workday starts doesn't move it
+      expect(
+        TimeUtils.planWorklogSlots(
+          day,
+          [3600],
+          layout,
+          new Date("2025-07-28T07:00:00.000Z")
+        ).map((slot) => slot.toISOString())
+      ).toEqual(["2025-07-28T09:00:00.000Z"]);
+    });
+
+    it("should ignore a lunch break before the workday starts", () => {
+      const slots = TimeUtils.planWorklogSlots(day, [3600, 3600], {
+        timezone: "Etc/UTC",
+        start: "13:00",
+        lunchStart: "12:00",
+        lunchMinutes: 60,
+      });
+
+      expect(slots.map((slot) => slot.toISOString())).toEqual([
+        "2025-07-28T13:00:00.000Z",
+        "2025-07-28T14:00:00.000Z",
+      ]);
+    });
+
+    it("should fill in defaults for unset settings", () => {
+      expect(TimeUtils.getWorkdayLayout({})).toEqual({
+        timezone: "Etc/UTC",
+        start: "09:00",
+        lunchStart: "12:00",
+        lunchMinutes: 0,
+      });
+      expect(
+        TimeUtils.getWorkdayLayout({
+          timezone: "Europe/Lisbon",
+          workdayStart: "08:00",
+          lunchMinutes: 30,
+        })
+      ).toEqual({
+        timezone: "Europe/Lisbon",
+        start: "08:00",
+        lunchStart: "12:00",
+        lunchMinutes: 30,
+      });
+    });
+
+    it("should describe the workday layout", () => {
+      expect(
+        TimeUtils.formatWorkdayLayout({
+          timezone: "Etc/UTC",
+          start: "09:00",
+          lunchStart: "12:30",
+          lunchMinutes: 45,
+        })
+      ).toBe("09:00, lunch at 12:30 for 45 min");
+      expect(
+        TimeUtils.formatWorkdayLayout({ timezone: "Etc/UTC", start: "08:00" })
+      ).toBe("08:00, no lunch break");
+    });
+  });
+
+  describe("parseTimeOfDay", () => {
+    it("should parse HH:mm into minutes since midnight", () => {
+      expect(TimeUtils.parseTimeOfDay("06:00")).toBe(360);
+      expect(TimeUtils.parseTimeOfDay("7:30")).toBe(450);
+      expect(TimeUtils.parseTimeOfDay("23:59")).toBe(1439);
+    });
+
+    it("should return NaN for invalid times", () => {
+      expect(TimeUtils.parseTimeOfDay("24:00")).toBeNaN();
+      expect(TimeUtils.parseTimeOfDay("12:60")).toBeNaN();
+      expect(TimeUtils.parseTimeOfDay("noon")).toBeNaN();
+    });
+  });
+
+  describe("work days", () => {
+    it("should parse stored work days", () => {
+      expect(TimeUtils.parseWorkDays("1,2,3,4,5")).toEqual([1, 2, 3, 4, 5]);
+      expect(TimeUtils.parseWorkDays("7, 1,9,x")).toEqual([7, 1]);
+    });
+
+    it("should format work days as short names", () => {
+      expect(TimeUtils.formatWorkDays("1,3,5")).toBe("Mon, Wed, Fri");
+      expect(TimeUtils.formatWorkDays("7")).toBe("Sun");
+    });
+
+    it("should resolve weekday names and numbers", () => {
+      expect(TimeUtils.parseWeekday("mon")).toBe(1);
+      expect(TimeUtils.parseWeekday("Thursday")).toBe(4);
+      expect(TimeUtils.parseWeekday("7")).toBe(7);
+      expect(TimeUtils.parseWeekday("mo")).toBeNaN();
+      expect(TimeUtils.parseWeekday("holiday")).toBeNaN();
+    });
+  });
 });
@@ -0,0 +1,73 @@
+import { WorklogCommentUtils } from "../../src/services/WorklogCommentUtils";
+
+describe("WorklogCommentUtils", () => {
+  const values = {
+    key: "PROJ-123",
+    summary: "Fix the login page",
+    status: "In Review",
+    date: new Date(2025, 6, 28),
+  };
+
+  describe("renderTemplate", () => {
+    it("should fill every placeholder", () => {
+      expect(
+        WorklogCommentUtils.renderTemplate(
+          "{date} {key}: {summary} ({status})",
+          values
+        )
+      ).toBe("2025-07-28 PROJ-123: Fix the login page (In Review)");
+    });
+
+    it("should leave unknown placeholders untouched", () => {
+      expect(
+        WorklogCommentUtils.renderTemplate("Worked on {key} {unknown}", values)
+      ).toBe("Worked on PROJ-123 {unknown}");
+    });
+
+    it("should render a missing status as empty", () => {
+      expect(
+        WorklogCommentUtils.renderTemplate("{summary} {status}", {
+          ...values,
+          status: undefined,
+        })
+      ).toBe("Fix the login page");
+    });
+
+    it("should keep plain text as is", () => {
+      expect(
+        WorklogCommentUtils.renderTemplate("Pairing session", values)
+      ).toBe("Pairing session");
+    });
+  });
+
+  describe("toAdf", () => {
+    it("should wrap text in a document", () => {
+      expect(WorklogCommentUtils.toAdf("Code review")).toEqual({
+        type: "doc",
+        version: 1,
+        content: [
+          {
+            type: "paragraph",
+            content: [{ type: "text", text: "Code review" }],
+          },
+        ],
+      });
+    });
+
+    it("should create a paragraph per line", () => {
+      const document = WorklogCommentUtils.toAdf("First line\n\nThird line");
+
+      expect(document.content).toHaveLength(3);
+      expect(document.content![1]).toEqual({ type: "paragraph", content: [] });
+      expect(document.content![2].content![0].text).toBe("Third line");
+    });
+  });
+
+  describe("formatDate", () => {
+    it("should format the local calendar date", () => {
+      expect(WorklogCommentUtils.formatDate(new Date(2025, 0, 5, 23, 59))).toBe(
+        "2025-01-05"
+      );
+    });
+  });
+});
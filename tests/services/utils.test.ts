@@ -1,5 +1,6 @@
 import { TimeUtils } from "../../src/services/TimeUtils";
 import {
+  collectAll,
   convertSeconds,
   distributeSeconds,
   distributeTime,
@@ -120,6 +121,57 @@ describe("Refactored Utils Service", () => {
       expect(mockTimeUtils.distributeTimeFairly).toHaveBeenCalledWith(5400, 3);
       expect(result).toEqual([]);
     });
+
+    it("should use weighted distribution when method is 'weighted'", () => {
+      const mockDistribution = {
+        weightedDistribution: [3600, 1200, 600],
+        totalSeconds: 5400,
+      };
+      mockTimeUtils.distributeTimeWeighted.mockReturnValue(mockDistribution);
+
+      const result = distributeTime(5400, 3, "weighted", [6, 2, 1]);
+
+      expect(mockTimeUtils.distributeTimeWeighted).toHaveBeenCalledWith(
+        5400,
+        [6, 2, 1]
+      );
+      expect(result).toEqual([3600, 1200, 600]);
+    });
+
+    it("should weight issues equally when no weights are given", () => {
+      mockTimeUtils.distributeTimeWeighted.mockReturnValue({
+        weightedDistribution: [1800, 1800, 1800],
+        totalSeconds: 5400,
+      });
+
+      distributeTime(5400, 3, "weighted");
+
+      expect(mockTimeUtils.distributeTimeWeighted).toHaveBeenCalledWith(
+        5400,
+        [1, 1, 1]
+      );
+    });
+  });
+
+  describe("collectAll", () => {
+    it("should drain an async iterable in order", async () => {
+      async function* numbers() {
+        yield 1;
+        yield 2;
+        yield 3;
+      }
+
+      await expect(collectAll(numbers())).resolves.toEqual([1, 2, 3]);
+    });
+
+    it("should propagate iteration errors", async () => {
+      async function* failing() {
+        yield 1;
+        throw new Error("Page failed");
+      }
+
+      await expect(collectAll(failing())).rejects.toThrow("Page failed");
+    });
   });
 
   describe("formatString", () => {
@@ -23,6 +23,7 @@ export function createMockServiceContainer() {
     IHttpService: createMockIHttpService(),
     IConfigService: createMockIConfigService(),
     IRateLimitService: createMockIRateLimitService(),
+    IOAuthService: createMockIOAuthService(),
     TimeUtils: createMockTimeUtils(),
   };
 
@@ -120,14 +121,39 @@ export function createMockILoggerService() {
 export function createMockIJiraService() {
   return {
     getServerInfo: jest.fn().mockResolvedValue({ ok: true }),
+    getSearchApi: jest.fn().mockReturnValue("enhanced"),
+    setSearchApi: jest.fn(),
+    configureConnection: jest.fn(),
     getIssuesWorked: jest.fn().mockResolvedValue({ ok: true, data: [] }),
     getIssueWorklog: jest
       .fn()
       .mockResolvedValue({ ok: true, data: { worklogs: [] } }),
+    iterateIssuesWorked: jest.fn(() => mockAsyncIterable([])),
+    iterateIssueWorklogs: jest.fn(() => mockAsyncIterable([])),
+    iterateUserWorklogs: jest.fn(() => mockAsyncIterable([])),
     postWorklog: jest.fn().mockResolvedValue({ ok: true }),
+    updateWorklog: jest.fn().mockResolvedValue({ ok: true }),
+    deleteWorklog: jest.fn().mockResolvedValue({ ok: true }),
+    getIssuesActivity: jest.fn().mockResolvedValue([]),
   };
 }
 
+/**
+ * Creates an async iterable over the given items, the way the paged Jira
+ * calls return them. When an error is given it is thrown after the items
+ */
+export async function* mockAsyncIterable<T>(
+  items: T[],
+  error?: Error
+): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+  if (error) {
+    throw error;
+  }
+}
+
 /**
  * Creates a mock IHttpService
  */
@@ -159,6 +185,14 @@ export function createMockIConfigService() {
     getOwnerLogChannelId: jest.fn(),
     getDatabaseUrl: jest.fn(),
     getPgConnectionString: jest.fn(),
+    getAtlassianClientId: jest.fn(),
+    getAtlassianClientSecret: jest.fn(),
+    getOAuthRedirectUri: jest.fn(),
+    getOAuthCallbackPort: jest.fn().mockReturnValue(3000),
+    getAtlassianAuthUrl: jest
+      .fn()
+      .mockReturnValue("https://auth.atlassian.com"),
+    getAtlassianApiUrl: jest.fn().mockReturnValue("https://api.atlassian.com"),
     isDiscordLoggingEnabled: jest.fn(),
     isPgLoggingEnabled: jest.fn(),
     isProduction: jest.fn(),
@@ -167,6 +201,28 @@ export function createMockIConfigService() {
   };
 }
 
+/**
+ * Creates a mock IOAuthService
+ */
+export function createMockIOAuthService() {
+  return {
+    isEnabled: jest.fn().mockReturnValue(true),
+    getRedirectUri: jest
+      .fn()
+      .mockReturnValue("http://localhost:3000/oauth/callback"),
+    getApiUrl: jest.fn().mockReturnValue("https://api.atlassian.com"),
+    createAuthorizationUrl: jest
+      .fn()
+      .mockReturnValue("https://auth.atlassian.com/authorize?state=test"),
+    consumeState: jest.fn(),
+    exchangeCode: jest.fn(),
+    refreshAccessToken: jest.fn(),
+    onTokensRefreshed: jest.fn(),
+    getAccessibleResources: jest.fn().mockResolvedValue([]),
+    getProfile: jest.fn(),
+  };
+}
+
 /**
  * Creates a mock IRateLimitService
  */